@@ -9,6 +9,16 @@
   var inlineGlobal = { creating: false, editingId: void 0 };
   var inlineWorkspaces = /* @__PURE__ */ new Map();
   var pendingFocusSelectors = /* @__PURE__ */ new Set();
+  var inlineDrafts = /* @__PURE__ */ new Map();
+  var archiveQueries = /* @__PURE__ */ new Map();
+  var openArchives = /* @__PURE__ */ new Set();
+  var collapsedTodos = /* @__PURE__ */ new Set();
+  var expandedNotes = /* @__PURE__ */ new Set();
+  var collapsedSections = /* @__PURE__ */ new Set();
+  var tagFilter;
+  var priorityFilter;
+  var listOrders = /* @__PURE__ */ new Map();
+  var isRendering = false;
   restoreInlineState();
   render();
   window.addEventListener("message", (event) => {
@@ -18,7 +28,7 @@
         handleStateUpdate(message.payload);
         break;
       case "startInlineCreate":
-        handleStartInlineCreate(message.scope);
+        handleStartInlineCreate(message.scope, message.section, message.anchor);
         break;
       case "startInlineEdit":
         handleStartInlineEdit(message.scope, message.todoId);
@@ -26,6 +36,9 @@
       case "autoDeleteCue":
         handleAutoDeleteCue(message.scope, message.todoId, message.durationMs);
         break;
+      case "setTagFilter":
+        setTagFilter(message.tag);
+        break;
       default:
         break;
     }
@@ -34,18 +47,50 @@
   function handleStateUpdate(nextSnapshot) {
     snapshot = nextSnapshot;
     pruneInlineState();
+    reconcileInlineEdits();
     render();
   }
-  function handleStartInlineCreate(scope) {
-    if (!scopeAppliesToView(scope)) {
+  function reconcileInlineEdits() {
+    if (!snapshot) {
       return;
     }
-    const inlineState = getInlineState(scope);
-    inlineState.creating = true;
-    inlineState.editingId = void 0;
-    queueFocusSelector(`[data-inline-create="${getScopeKey(scope)}"]`);
+    if (viewMode === "global") {
+      reconcileInlineEdit({ scope: "global" }, inlineGlobal, snapshot.global.todos);
+      return;
+    }
+    snapshot.projects.folders.forEach((folder) => {
+      const state = inlineWorkspaces.get(folder.key);
+      if (state) {
+        reconcileInlineEdit(
+          { scope: "workspace", workspaceFolder: folder.key },
+          state,
+          folder.todos
+        );
+      }
+    });
+  }
+  function reconcileInlineEdit(scope, state, todos) {
+    if (!state.editingId) {
+      return;
+    }
+    const todo = todos.find((item) => item.id === state.editingId);
+    const input = todo ? formatTodoInput(todo) : void 0;
+    if (!todo || state.editingBaseTitle === void 0 || input === state.editingBaseTitle) {
+      state.editingBaseTitle = input != null ? input : state.editingBaseTitle;
+      return;
+    }
+    const draftKey = `edit:${todo.id}`;
+    const draft = inlineDrafts.get(draftKey);
+    if (draft !== void 0 && draft.trim() !== state.editingBaseTitle) {
+      postMessage({ type: "inlineEditConflict", scope, todoId: todo.id, title: todo.title });
+    } else {
+      inlineDrafts.delete(draftKey);
+    }
+    state.editingBaseTitle = input;
     persistInlineState();
-    render();
+  }
+  function handleStartInlineCreate(scope, section, anchor) {
+    startInlineCreate(scope, section, anchor);
   }
   function handleAutoDeleteCue(scope, todoId, durationMs) {
     if (!scopeAppliesToView(scope)) {
@@ -67,6 +112,8 @@
     const inlineState = getInlineState(scope);
     inlineState.creating = false;
     inlineState.editingId = todoId;
+    const todo = findTodo(scope, todoId);
+    inlineState.editingBaseTitle = todo ? formatTodoInput(todo) : void 0;
     queueFocusSelector(`[data-inline-edit="${todoId}"]`);
     persistInlineState();
     render();
@@ -78,20 +125,38 @@
     return scope.scope === "workspace";
   }
   function restoreInlineState() {
-    var _a2, _b;
+    var _a2, _b, _c, _d, _e, _f;
     const stored = vscode.getState();
     if (!stored) {
       return;
     }
     Object.assign(inlineGlobal, (_a2 = stored.global) != null ? _a2 : { creating: false });
     Object.entries((_b = stored.workspaces) != null ? _b : {}).forEach(([key, state]) => {
-      inlineWorkspaces.set(key, { creating: state.creating, editingId: state.editingId });
+      inlineWorkspaces.set(key, {
+        creating: state.creating,
+        creatingSection: state.creatingSection,
+        creatingAnchor: state.creatingAnchor,
+        editingId: state.editingId,
+        editingBaseTitle: state.editingBaseTitle
+      });
     });
+    ((_c = stored.collapsed) != null ? _c : []).forEach((todoId) => collapsedTodos.add(todoId));
+    ((_d = stored.expandedNotes) != null ? _d : []).forEach((todoId) => expandedNotes.add(todoId));
+    ((_e = stored.collapsedSections) != null ? _e : []).forEach((key) => collapsedSections.add(key));
+    tagFilter = stored.tagFilter;
+    priorityFilter = stored.priorityFilter;
+    Object.entries((_f = stored.listOrders) != null ? _f : {}).forEach(([key, order]) => listOrders.set(key, order));
   }
   function persistInlineState() {
     const serialized = {
       global: { ...inlineGlobal },
-      workspaces: {}
+      workspaces: {},
+      collapsed: Array.from(collapsedTodos),
+      expandedNotes: Array.from(expandedNotes),
+      collapsedSections: Array.from(collapsedSections),
+      tagFilter,
+      priorityFilter,
+      listOrders: Object.fromEntries(listOrders)
     };
     inlineWorkspaces.forEach((state, key) => {
       serialized.workspaces[key] = { ...state };
@@ -113,18 +178,47 @@
     if (!snapshot) {
       return;
     }
+    const todoIds = new Set(
+      (viewMode === "global" ? snapshot.global.todos : snapshot.projects.folders.flatMap((folder) => folder.todos)).map((todo) => todo.id)
+    );
+    collapsedTodos.forEach((todoId) => {
+      if (!todoIds.has(todoId)) {
+        collapsedTodos.delete(todoId);
+      }
+    });
+    expandedNotes.forEach((todoId) => {
+      if (!todoIds.has(todoId)) {
+        expandedNotes.delete(todoId);
+      }
+    });
+    pruneSectionState();
+    pruneFilters();
     if (viewMode === "global") {
       if (inlineGlobal.editingId && !snapshot.global.todos.some((todo) => todo.id === inlineGlobal.editingId)) {
         inlineGlobal.editingId = void 0;
+        inlineGlobal.editingBaseTitle = void 0;
       }
       return;
     }
     const folderKeys = new Set(snapshot.projects.folders.map((folder) => folder.key));
-    Array.from(inlineWorkspaces.keys()).forEach((key) => {
-      if (!folderKeys.has(key)) {
-        inlineWorkspaces.delete(key);
+    let removedSection = false;
+    inlineWorkspaces.forEach((state, key) => {
+      if (folderKeys.has(key)) {
+        return;
+      }
+      if (state.editingId) {
+        inlineDrafts.delete(`edit:${state.editingId}`);
+        inlineDrafts.delete(`notes:${state.editingId}`);
       }
+      inlineDrafts.delete(`create:${key}`);
+      archiveQueries.delete(key);
+      openArchives.delete(key);
+      inlineWorkspaces.delete(key);
+      removedSection = true;
     });
+    if (removedSection) {
+      persistInlineState();
+    }
     inlineWorkspaces.forEach((state, key) => {
       const folder = snapshot == null ? void 0 : snapshot.projects.folders.find((item) => item.key === key);
       if (!folder) {
@@ -132,22 +226,97 @@
       }
       if (state.editingId && !folder.todos.some((todo) => todo.id === state.editingId)) {
         state.editingId = void 0;
+        state.editingBaseTitle = void 0;
+      }
+    });
+  }
+  function pruneSectionState() {
+    if (!snapshot) {
+      return;
+    }
+    const scopes = viewMode === "global" ? [{ scope: { scope: "global" }, sections: snapshot.global.sections }] : snapshot.projects.folders.map((folder) => ({
+      scope: { scope: "workspace", workspaceFolder: folder.key },
+      sections: folder.sections
+    }));
+    const sectionKeys = new Set(
+      scopes.flatMap(
+        ({ scope, sections }) => sections.map((section) => getSectionKey(scope, section))
+      )
+    );
+    collapsedSections.forEach((key) => {
+      if (!sectionKeys.has(key)) {
+        collapsedSections.delete(key);
+      }
+    });
+    scopes.forEach(({ scope, sections }) => {
+      const state = getInlineState(scope);
+      if (state.creatingSection !== void 0 && !sections.includes(state.creatingSection)) {
+        state.creatingSection = void 0;
       }
     });
   }
+  function pruneFilters() {
+    if (tagFilter === void 0 && priorityFilter === void 0 || !snapshot) {
+      return;
+    }
+    const todos = viewMode === "global" ? snapshot.global.todos : snapshot.projects.folders.flatMap((folder) => folder.todos);
+    if (tagFilter !== void 0 && !todos.some((todo) => todo.tags.includes(tagFilter))) {
+      tagFilter = void 0;
+      persistInlineState();
+    }
+    if (priorityFilter !== void 0 && !todos.some((todo) => todo.priority === priorityFilter)) {
+      priorityFilter = void 0;
+      persistInlineState();
+    }
+  }
+  function setTagFilter(tag) {
+    tagFilter = tag;
+    pruneFilters();
+    persistInlineState();
+    render();
+  }
+  function setPriorityFilter(priority) {
+    priorityFilter = priority;
+    pruneFilters();
+    persistInlineState();
+    render();
+  }
   function render() {
     if (!snapshot) {
       root.innerHTML = '<p class="empty-state">Waiting for TODOs\u2026</p>';
       return;
     }
-    root.innerHTML = "";
-    if (viewMode === "global") {
-      root.appendChild(renderScopeSection(snapshot.global, { scope: "global" }));
-    } else {
-      root.appendChild(renderProjectsSection(snapshot.projects));
+    preserveInlineFocus();
+    isRendering = true;
+    try {
+      root.innerHTML = "";
+      if (tagFilter !== void 0 || priorityFilter !== void 0) {
+        root.appendChild(renderFilterBar());
+      }
+      if (viewMode === "global") {
+        root.appendChild(renderScopeSection(snapshot.global, { scope: "global" }));
+      } else {
+        root.appendChild(renderProjectsSection(snapshot.projects));
+      }
+    } finally {
+      isRendering = false;
     }
     applyPendingFocus();
   }
+  function preserveInlineFocus() {
+    const active = document.activeElement;
+    if (active == null ? void 0 : active.dataset.inlineEdit) {
+      queueFocusSelector(`[data-inline-edit="${active.dataset.inlineEdit}"]`);
+    } else if (active == null ? void 0 : active.dataset.inlineDue) {
+      queueFocusSelector(`[data-inline-due="${active.dataset.inlineDue}"]`);
+    } else if (active == null ? void 0 : active.dataset.inlineNotes) {
+      queueFocusSelector(`[data-inline-notes="${active.dataset.inlineNotes}"]`);
+    } else if (active == null ? void 0 : active.dataset.inlineCreate) {
+      queueFocusSelector(`[data-inline-create="${active.dataset.inlineCreate}"]`);
+    } else if (active == null ? void 0 : active.dataset.archiveSearch) {
+      queueFocusSelector(`[data-archive-search="${active.dataset.archiveSearch}"]`);
+    }
+  }
   function renderScopeSection(state, scope) {
     const section = document.createElement("section");
     section.className = "todo-section";
@@ -157,23 +326,10 @@
     header.appendChild(title);
     header.appendChild(renderSectionActions(scope));
     section.appendChild(header);
-    const list = document.createElement("div");
-    list.className = "todo-list";
-    const inlineState = getInlineState(scope);
-    if (inlineState.creating) {
-      list.appendChild(renderInlineCreateRow(scope));
+    section.appendChild(renderTodoList(scope, state));
+    if (state.archived.length > 0) {
+      section.appendChild(renderArchive(scope, state.archived));
     }
-    state.todos.forEach((todo) => {
-      list.appendChild(renderTodoRow(scope, todo, inlineState));
-    });
-    if (state.todos.length === 0 && !inlineState.creating) {
-      const empty = document.createElement("p");
-      empty.className = "empty-state";
-      empty.textContent = state.emptyLabel;
-      list.appendChild(empty);
-    }
-    attachDragHandlers(list, scope, inlineState);
-    section.appendChild(list);
     return section;
   }
   function renderProjectsSection(projects) {
@@ -188,7 +344,6 @@
     }
     projects.folders.forEach((folder) => {
       const scope = { scope: "workspace", workspaceFolder: folder.key };
-      const inlineState = getInlineState(scope);
       const workspaceWrapper = document.createElement("div");
       workspaceWrapper.className = "workspace-section";
       workspaceWrapper.dataset.workspace = folder.key;
@@ -199,28 +354,331 @@
       titleRow.appendChild(workspaceTitle);
       titleRow.appendChild(renderSectionActions(scope));
       workspaceWrapper.appendChild(titleRow);
-      const list = document.createElement("div");
-      list.className = "todo-list";
-      if (inlineState.creating) {
-        list.appendChild(renderInlineCreateRow(scope));
+      workspaceWrapper.appendChild(renderTodoList(scope, folder));
+      if (folder.archived.length > 0) {
+        workspaceWrapper.appendChild(renderArchive(scope, folder.archived));
       }
-      folder.todos.forEach((todo) => {
+      container.appendChild(workspaceWrapper);
+    });
+    return container;
+  }
+  function renderTodoList(scope, state) {
+    var _a2, _b;
+    const list = document.createElement("div");
+    list.className = "todo-list";
+    const inlineState = getInlineState(scope);
+    const filtered = tagFilter !== void 0 || priorityFilter !== void 0;
+    const matching = filterTodos(state.todos);
+    const order = (_a2 = listOrders.get(getScopeKey(scope))) != null ? _a2 : "manual";
+    const appendRows = (todos) => {
+      let group = null;
+      visibleTodos(arrangeTodos(todos, order)).forEach((todo) => {
+        if (order === "priority" && !todo.parentId && todo.priority !== group) {
+          group = todo.priority;
+          list.appendChild(renderPriorityGroupLabel(group));
+        }
         list.appendChild(renderTodoRow(scope, todo, inlineState));
+        if (todo.notesHtml && expandedNotes.has(todo.id) && inlineState.editingId !== todo.id) {
+          list.appendChild(renderTodoNotes(todo.depth, todo.notesHtml));
+        }
       });
-      if (folder.todos.length === 0 && !inlineState.creating) {
-        const empty = document.createElement("p");
-        empty.className = "empty-state";
-        empty.textContent = folder.emptyLabel;
-        list.appendChild(empty);
-      }
-      attachDragHandlers(list, scope, inlineState);
-      workspaceWrapper.appendChild(list);
-      container.appendChild(workspaceWrapper);
+    };
+    if (inlineState.creating && inlineState.creatingSection === void 0) {
+      list.appendChild(renderInlineCreateRow(scope));
+    }
+    appendRows(matching.filter((todo) => todo.section === void 0));
+    if (filtered && matching.length === 0 && !inlineState.creating) {
+      const empty = document.createElement("p");
+      empty.className = "empty-state";
+      empty.textContent = (_b = snapshot == null ? void 0 : snapshot.strings.filterNoMatches) != null ? _b : "";
+      list.appendChild(empty);
+    } else if (state.todos.length === 0 && state.sections.length === 0 && !inlineState.creating) {
+      const empty = document.createElement("p");
+      empty.className = "empty-state";
+      empty.textContent = state.emptyLabel;
+      list.appendChild(empty);
+    }
+    state.sections.forEach((section) => {
+      const todos = matching.filter((todo) => todo.section === section);
+      if (filtered && todos.length === 0 && inlineState.creatingSection !== section) {
+        return;
+      }
+      list.appendChild(renderListSectionHeader(scope, section, todos));
+      if (collapsedSections.has(getSectionKey(scope, section))) {
+        return;
+      }
+      if (inlineState.creating && inlineState.creatingSection === section) {
+        list.appendChild(renderInlineCreateRow(scope));
+      }
+      appendRows(todos);
+    });
+    attachDragHandlers(list, scope, inlineState);
+    return list;
+  }
+  function renderListSectionHeader(scope, section, todos) {
+    var _a2, _b, _c, _d, _e;
+    const sectionKey = getSectionKey(scope, section);
+    const collapsed = collapsedSections.has(sectionKey);
+    const header = document.createElement("div");
+    header.className = `list-section-header${collapsed ? " collapsed" : ""}`;
+    header.dataset.section = section;
+    const toggle = document.createElement("button");
+    toggle.className = "list-section-toggle";
+    toggle.setAttribute("aria-expanded", String(!collapsed));
+    toggle.title = collapsed ? (_a2 = snapshot == null ? void 0 : snapshot.strings.expandSectionLabel) != null ? _a2 : "Expand section" : (_b = snapshot == null ? void 0 : snapshot.strings.collapseSectionLabel) != null ? _b : "Collapse section";
+    toggle.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M4 6L8 10L12 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+    const name = document.createElement("span");
+    name.className = "list-section-name";
+    name.textContent = section;
+    toggle.appendChild(name);
+    if (todos.length > 0) {
+      const completed = todos.filter((todo) => todo.completed).length;
+      const count = document.createElement("span");
+      count.className = "list-section-count";
+      count.textContent = `${completed}/${todos.length}`;
+      toggle.appendChild(count);
+    }
+    toggle.addEventListener("click", () => {
+      if (collapsedSections.has(sectionKey)) {
+        collapsedSections.delete(sectionKey);
+      } else {
+        collapsedSections.add(sectionKey);
+      }
+      persistInlineState();
+      render();
+    });
+    header.appendChild(toggle);
+    const actions = document.createElement("div");
+    actions.className = "todo-actions";
+    const addButton = document.createElement("button");
+    addButton.className = "todo-action";
+    addButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M8 3V13M3 8H13" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+    addButton.title = (_c = snapshot == null ? void 0 : snapshot.strings.addLabel) != null ? _c : "Add";
+    addButton.addEventListener("click", () => startInlineCreate(scope, section));
+    actions.appendChild(addButton);
+    const renameButton = document.createElement("button");
+    renameButton.className = "todo-action";
+    renameButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path transform="translate(0, 2)" d="M12.5 3.5L10 1L3 8V10.5H5.5L12.5 3.5Z" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+    renameButton.title = (_d = snapshot == null ? void 0 : snapshot.strings.renameSectionLabel) != null ? _d : "Rename section";
+    renameButton.addEventListener(
+      "click",
+      () => postMessage({ type: "renameSection", scope, section })
+    );
+    actions.appendChild(renameButton);
+    const removeButton = document.createElement("button");
+    removeButton.className = "todo-action";
+    removeButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M4 4L12 12M12 4L4 12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+    removeButton.title = (_e = snapshot == null ? void 0 : snapshot.strings.removeSectionLabel) != null ? _e : "Remove section";
+    removeButton.addEventListener(
+      "click",
+      () => postMessage({ type: "removeSection", scope, section })
+    );
+    actions.appendChild(removeButton);
+    header.appendChild(actions);
+    return header;
+  }
+  function visibleTodos(todos) {
+    const hidden = /* @__PURE__ */ new Set();
+    return todos.filter((todo) => {
+      if (todo.parentId && (hidden.has(todo.parentId) || collapsedTodos.has(todo.parentId))) {
+        hidden.add(todo.id);
+        return false;
+      }
+      return true;
+    });
+  }
+  function arrangeTodos(todos, order) {
+    if (order === "manual") {
+      return todos;
+    }
+    const ids = new Set(todos.map((todo) => todo.id));
+    const children = /* @__PURE__ */ new Map();
+    todos.forEach((todo) => {
+      var _a2;
+      const parentId = todo.parentId && ids.has(todo.parentId) ? todo.parentId : void 0;
+      children.set(parentId, [...(_a2 = children.get(parentId)) != null ? _a2 : [], todo]);
+    });
+    const rank = (todo) => {
+      var _a2;
+      return order === "due" ? (_a2 = todo.dueDate) != null ? _a2 : "9999-99-99" : priorityRank(todo.priority);
+    };
+    const sorted = [];
+    const visit = (parentId) => {
+      var _a2;
+      [...(_a2 = children.get(parentId)) != null ? _a2 : []].sort((a, b) => rank(a) < rank(b) ? -1 : rank(a) > rank(b) ? 1 : 0).forEach((todo) => {
+        sorted.push(todo);
+        visit(todo.id);
+      });
+    };
+    visit(void 0);
+    return sorted;
+  }
+  function priorityRank(priority) {
+    return String(["high", "medium", "low", void 0].indexOf(priority));
+  }
+  function filterTodos(todos) {
+    if (tagFilter === void 0 && priorityFilter === void 0) {
+      return todos;
+    }
+    const byId = new Map(todos.map((todo) => [todo.id, todo]));
+    const shown = /* @__PURE__ */ new Set();
+    todos.forEach((todo) => {
+      if (tagFilter !== void 0 && !todo.tags.includes(tagFilter) || priorityFilter !== void 0 && todo.priority !== priorityFilter) {
+        return;
+      }
+      for (let current = todo; current; ) {
+        shown.add(current.id);
+        current = current.parentId ? byId.get(current.parentId) : void 0;
+      }
+    });
+    return todos.filter((todo) => shown.has(todo.id));
+  }
+  function renderFilterBar() {
+    var _a2, _b;
+    const bar = document.createElement("div");
+    bar.className = "filter-bar";
+    const label = document.createElement("span");
+    label.textContent = (_a2 = snapshot == null ? void 0 : snapshot.strings.filterLabel) != null ? _a2 : "Showing only";
+    bar.appendChild(label);
+    if (tagFilter !== void 0) {
+      const chip = document.createElement("span");
+      chip.className = "todo-tag active";
+      chip.textContent = `#${tagFilter}`;
+      bar.appendChild(chip);
+    }
+    if (priorityFilter !== void 0) {
+      const chip = document.createElement("span");
+      chip.className = `todo-tag active priority-${priorityFilter}`;
+      chip.textContent = getPriorityLabel(priorityFilter);
+      bar.appendChild(chip);
+    }
+    const clearButton = document.createElement("button");
+    clearButton.className = "button-link";
+    clearButton.innerHTML = `<span>${(_b = snapshot == null ? void 0 : snapshot.strings.clearFilterLabel) != null ? _b : "Show all"}</span>`;
+    clearButton.addEventListener("click", () => {
+      priorityFilter = void 0;
+      setTagFilter(void 0);
+    });
+    bar.appendChild(clearButton);
+    return bar;
+  }
+  function renderPriorityMarker(priority) {
+    var _a2;
+    const marker = document.createElement("button");
+    marker.className = `todo-priority priority-${priority}`;
+    marker.textContent = { high: "!!!", medium: "!!", low: "!" }[priority];
+    marker.title = `${getPriorityLabel(priority)} \u2013 ${(_a2 = snapshot == null ? void 0 : snapshot.strings.filterByPriorityLabel) != null ? _a2 : ""}`;
+    marker.setAttribute("aria-label", getPriorityLabel(priority));
+    marker.addEventListener("click", () => setPriorityFilter(priority));
+    return marker;
+  }
+  function renderPriorityGroupLabel(priority) {
+    var _a2;
+    const label = document.createElement("div");
+    label.className = `priority-group-label${priority ? ` priority-${priority}` : ""}`;
+    label.textContent = priority ? getPriorityLabel(priority) : (_a2 = snapshot == null ? void 0 : snapshot.strings.noPriorityLabel) != null ? _a2 : "No priority";
+    return label;
+  }
+  function getPriorityLabel(priority) {
+    var _a2, _b, _c;
+    const strings = snapshot == null ? void 0 : snapshot.strings;
+    switch (priority) {
+      case "high":
+        return (_a2 = strings == null ? void 0 : strings.highPriorityLabel) != null ? _a2 : "High priority";
+      case "medium":
+        return (_b = strings == null ? void 0 : strings.mediumPriorityLabel) != null ? _b : "Medium priority";
+      default:
+        return (_c = strings == null ? void 0 : strings.lowPriorityLabel) != null ? _c : "Low priority";
+    }
+  }
+  function renderTagChips(tags) {
+    const container = document.createElement("span");
+    container.className = "todo-tags";
+    tags.forEach((tag) => {
+      var _a2;
+      const chip = document.createElement("button");
+      chip.className = `todo-tag${tag === tagFilter ? " active" : ""}`;
+      chip.textContent = `#${tag}`;
+      chip.title = (_a2 = snapshot == null ? void 0 : snapshot.strings.filterByTagLabel) != null ? _a2 : "";
+      chip.addEventListener("click", () => setTagFilter(tag));
+      container.appendChild(chip);
     });
     return container;
   }
+  function attachTagAutocomplete(input, row, scope) {
+    const list = document.createElement("div");
+    list.className = "tag-suggestions";
+    list.hidden = true;
+    row.appendChild(list);
+    let suggestions = [];
+    const complete = (tag) => {
+      var _a2;
+      const caret = (_a2 = input.selectionStart) != null ? _a2 : input.value.length;
+      const before = input.value.slice(0, caret).replace(/#[^\s#]*$/u, `#${tag} `);
+      input.value = before + input.value.slice(caret).replace(/^\S*\s?/u, "");
+      input.setSelectionRange(before.length, before.length);
+      input.dispatchEvent(new Event("input"));
+    };
+    const update = () => {
+      var _a2;
+      const caret = (_a2 = input.selectionStart) != null ? _a2 : input.value.length;
+      const token = /(?:^|\s)#([^\s#]*)$/u.exec(input.value.slice(0, caret));
+      const partial = token == null ? void 0 : token[1].toLowerCase();
+      suggestions = partial === void 0 ? [] : getScopeTags(scope).filter((tag) => tag.startsWith(partial) && tag !== partial);
+      list.innerHTML = "";
+      suggestions.slice(0, 8).forEach((tag) => {
+        const option = document.createElement("button");
+        option.className = "todo-tag";
+        option.textContent = `#${tag}`;
+        option.addEventListener("mousedown", (event) => event.preventDefault());
+        option.addEventListener("click", () => complete(tag));
+        list.appendChild(option);
+      });
+      list.hidden = suggestions.length === 0;
+    };
+    input.addEventListener("input", update);
+    input.addEventListener("blur", () => {
+      list.hidden = true;
+    });
+    return () => {
+      if (list.hidden || suggestions.length === 0) {
+        return false;
+      }
+      complete(suggestions[0]);
+      return true;
+    };
+  }
+  function renderListOrderSelect(scope) {
+    var _a2, _b, _c, _d;
+    const scopeKey = getScopeKey(scope);
+    const strings = snapshot == null ? void 0 : snapshot.strings;
+    const select = document.createElement("select");
+    select.className = "list-order-select";
+    const options = [
+      ["manual", (_a2 = strings == null ? void 0 : strings.manualOrderLabel) != null ? _a2 : "Manual order"],
+      ["due", (_b = strings == null ? void 0 : strings.sortByDueLabel) != null ? _b : "Sort by due date"],
+      ["priority", (_c = strings == null ? void 0 : strings.groupByPriorityLabel) != null ? _c : "Group by priority"]
+    ];
+    options.forEach(([value, label]) => {
+      const option = document.createElement("option");
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
+    });
+    select.value = (_d = listOrders.get(scopeKey)) != null ? _d : "manual";
+    select.addEventListener("change", () => {
+      if (select.value === "manual") {
+        listOrders.delete(scopeKey);
+      } else {
+        listOrders.set(scopeKey, select.value);
+      }
+      persistInlineState();
+      render();
+    });
+    return select;
+  }
   function renderSectionActions(scope) {
-    var _a2, _b;
+    var _a2, _b, _c;
     const actions = document.createElement("div");
     actions.className = "section-actions";
     const addButton = document.createElement("button");
@@ -228,22 +686,36 @@
     addButton.innerHTML = `<span>${(_a2 = snapshot == null ? void 0 : snapshot.strings.addLabel) != null ? _a2 : "Add"}</span>`;
     addButton.addEventListener("click", () => startInlineCreate(scope));
     actions.appendChild(addButton);
+    const addSectionButton = document.createElement("button");
+    addSectionButton.className = "button-link";
+    addSectionButton.innerHTML = `<span>${(_b = snapshot == null ? void 0 : snapshot.strings.addSectionLabel) != null ? _b : "Add section"}</span>`;
+    addSectionButton.addEventListener("click", () => postMessage({ type: "addSection", scope }));
+    actions.appendChild(addSectionButton);
+    actions.appendChild(renderListOrderSelect(scope));
     const clearButton = document.createElement("button");
     clearButton.className = "button-link";
-    clearButton.innerHTML = `<span>${(_b = snapshot == null ? void 0 : snapshot.strings.clearLabel) != null ? _b : "Clear"}</span>`;
+    clearButton.innerHTML = `<span>${(_c = snapshot == null ? void 0 : snapshot.strings.clearLabel) != null ? _c : "Clear"}</span>`;
     clearButton.addEventListener("click", () => postMessage({ type: "clearScope", scope }));
     actions.appendChild(clearButton);
     return actions;
   }
   function renderInlineCreateRow(scope) {
-    var _a2, _b;
+    var _a2, _b, _c;
     const row = document.createElement("div");
     row.className = "todo-item inline-create";
     const input = document.createElement("input");
     input.className = "todo-input";
     input.placeholder = (_a2 = snapshot == null ? void 0 : snapshot.strings.addPlaceholder) != null ? _a2 : "Type a TODO";
     input.dataset.inlineCreate = getScopeKey(scope);
+    const draftKey = `create:${getScopeKey(scope)}`;
+    input.value = (_b = inlineDrafts.get(draftKey)) != null ? _b : "";
+    input.addEventListener("input", () => inlineDrafts.set(draftKey, input.value));
+    const completeTag = attachTagAutocomplete(input, row, scope);
     input.addEventListener("keydown", (event) => {
+      if (event.key === "Tab" && completeTag()) {
+        event.preventDefault();
+        return;
+      }
       if (event.key === "Enter") {
         event.preventDefault();
         commitInlineCreate(scope, input.value);
@@ -254,24 +726,38 @@
       }
     });
     input.addEventListener("blur", () => {
+      if (isRendering) {
+        return;
+      }
       const value = input.value.trim();
       if (value.length === 0) {
         cancelInlineCreate(scope);
       }
     });
     row.appendChild(input);
+    const anchor = getInlineState(scope).creatingAnchor;
+    if (anchor) {
+      row.appendChild(renderAnchorLabel(anchor));
+    }
     const hint = document.createElement("small");
     hint.className = "inline-hint";
-    hint.textContent = (_b = snapshot == null ? void 0 : snapshot.strings.inlineCreateHint) != null ? _b : "";
+    hint.textContent = (_c = snapshot == null ? void 0 : snapshot.strings.inlineCreateHint) != null ? _c : "";
     row.appendChild(hint);
     return row;
   }
   function renderTodoRow(scope, todo, inlineState) {
-    var _a2, _b;
+    var _a2, _b, _c, _d, _e;
     const row = document.createElement("div");
-    row.className = "todo-item";
+    row.className = `todo-item${todo.overdue ? " overdue" : ""}`;
     row.dataset.todoId = todo.id;
-    row.draggable = !inlineState.editingId;
+    row.dataset.vscodeContext = JSON.stringify({
+      webviewSection: "todo",
+      todoId: todo.id,
+      ...scope,
+      preventDefaultContextMenuItems: true
+    });
+    row.draggable = !inlineState.editingId && !listOrders.has(getScopeKey(scope));
+    row.style.setProperty("--todo-depth", String(todo.depth));
     const toggleButton = document.createElement("button");
     toggleButton.className = "todo-action todo-toggle";
     toggleButton.title = (_a2 = snapshot == null ? void 0 : snapshot.strings.completeLabel) != null ? _a2 : "Toggle complete";
@@ -288,40 +774,142 @@
     if (inlineState.editingId === todo.id) {
       const input = document.createElement("input");
       input.className = "todo-input";
-      input.value = todo.title;
+      const draftKey = `edit:${todo.id}`;
+      input.value = (_b = inlineDrafts.get(draftKey)) != null ? _b : formatTodoInput(todo);
       input.dataset.inlineEdit = todo.id;
-      input.addEventListener("keydown", (event) => {
+      input.addEventListener("input", () => inlineDrafts.set(draftKey, input.value));
+      const dueInput = renderDueDateInput(scope, todo);
+      const notesInput = renderNotesInput(todo);
+      const finishEdit = () => {
+        var _a3;
+        const trimmed = input.value.trim();
+        const notesChanged = notesInput.value.trim() !== ((_a3 = todo.notes) != null ? _a3 : "").trim();
+        if (trimmed.length === 0 || trimmed === formatTodoInput(todo) && !notesChanged) {
+          exitInlineEdit(scope);
+          return;
+        }
+        commitInlineEdit(scope, todo.id, trimmed, notesInput.value);
+      };
+      const leavesRow = (event) => !isRendering && ![input, dueInput, notesInput].includes(event.relatedTarget);
+      dueInput.addEventListener("keydown", (event) => {
         if (event.key === "Enter") {
           event.preventDefault();
-          commitInlineEdit(scope, todo.id, input.value);
+          finishEdit();
         }
         if (event.key === "Escape") {
           event.preventDefault();
           exitInlineEdit(scope);
         }
       });
-      input.addEventListener("blur", () => {
-        const trimmed = input.value.trim();
-        if (trimmed.length === 0) {
+      dueInput.addEventListener("blur", (event) => {
+        if (leavesRow(event)) {
+          finishEdit();
+        }
+      });
+      notesInput.addEventListener("keydown", (event) => {
+        if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+          event.preventDefault();
+          finishEdit();
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
           exitInlineEdit(scope);
+        }
+      });
+      notesInput.addEventListener("blur", (event) => {
+        if (leavesRow(event)) {
+          finishEdit();
+        }
+      });
+      const completeTag = attachTagAutocomplete(input, row, scope);
+      input.addEventListener("keydown", (event) => {
+        if (event.key === "Tab" && completeTag()) {
+          event.preventDefault();
           return;
         }
-        if (trimmed === todo.title) {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          commitInlineEdit(scope, todo.id, input.value, notesInput.value);
+        }
+        if (event.key === "Escape") {
+          event.preventDefault();
           exitInlineEdit(scope);
-          return;
         }
-        commitInlineEdit(scope, todo.id, trimmed);
+        if (event.key === "Tab") {
+          event.preventDefault();
+          postMessage({
+            type: "changeTodoLevel",
+            scope,
+            todoId: todo.id,
+            direction: event.shiftKey ? "outdent" : "indent"
+          });
+        }
+      });
+      input.addEventListener("blur", (event) => {
+        if (leavesRow(event)) {
+          finishEdit();
+        }
       });
+      row.classList.add("editing");
       row.appendChild(input);
+      row.appendChild(dueInput);
+      row.appendChild(notesInput);
     } else {
+      if (todo.priority) {
+        row.appendChild(renderPriorityMarker(todo.priority));
+      }
       const title = document.createElement("span");
       title.className = `todo-title${todo.completed ? " completed" : ""}`;
       title.textContent = todo.title;
       title.addEventListener("dblclick", () => startInlineEdit(scope, todo.id));
-      row.appendChild(title);
+      if (todo.anchor) {
+        const main = document.createElement("div");
+        main.className = "todo-main";
+        main.append(title, renderAnchorLabel(todo.anchor));
+        row.appendChild(main);
+      } else {
+        row.appendChild(title);
+      }
+      if (todo.tags.length > 0) {
+        row.appendChild(renderTagChips(todo.tags));
+      }
+      if (todo.dueDate && todo.dueLabel) {
+        row.appendChild(renderDueLabel(todo.dueDate, todo.dueLabel));
+      }
+      if (todo.recurrenceLabel) {
+        row.appendChild(renderRecurrenceIcon(todo.recurrenceLabel));
+      }
+      if (todo.notesHtml) {
+        row.appendChild(renderNotesToggle(todo.id));
+      }
+    }
+    if (todo.subtasks) {
+      row.appendChild(renderSubtaskToggle(todo.id, todo.subtasks));
     }
     const actions = document.createElement("div");
     actions.className = "todo-actions";
+    if (todo.anchor) {
+      const revealButton = document.createElement("button");
+      revealButton.className = "todo-action";
+      revealButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M6 4L2 8L6 12M10 4L14 8L10 12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+      revealButton.title = (_c = snapshot == null ? void 0 : snapshot.strings.revealAnchorLabel) != null ? _c : "Go to code";
+      revealButton.addEventListener(
+        "click",
+        () => postMessage({ type: "revealAnchor", scope, todoId: todo.id })
+      );
+      actions.appendChild(revealButton);
+    }
+    if (todo.recurrenceLabel) {
+      const stopButton = document.createElement("button");
+      stopButton.className = "todo-action";
+      stopButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M2.5 7V6C2.5 4.9 3.4 4 4.5 4H12.5M10.5 2L12.5 4L10.5 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M13.5 9V10C13.5 11.1 12.6 12 11.5 12H3.5M5.5 14L3.5 12L5.5 10" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M2 2L14 14" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+      stopButton.title = (_d = snapshot == null ? void 0 : snapshot.strings.stopRecurrenceLabel) != null ? _d : "Stop repeating";
+      stopButton.addEventListener(
+        "click",
+        () => postMessage({ type: "stopRecurrence", scope, todoId: todo.id })
+      );
+      actions.appendChild(stopButton);
+    }
     const editButton = document.createElement("button");
     editButton.className = "todo-action";
     editButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path transform="translate(0, 2)" d="M12.5 3.5L10 1L3 8V10.5H5.5L12.5 3.5Z" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
@@ -331,7 +919,7 @@
     const removeButton = document.createElement("button");
     removeButton.className = "todo-action";
     removeButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M4 4L12 12M12 4L4 12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
-    removeButton.title = (_b = snapshot == null ? void 0 : snapshot.strings.removeLabel) != null ? _b : "Remove";
+    removeButton.title = (_e = snapshot == null ? void 0 : snapshot.strings.removeLabel) != null ? _e : "Remove";
     removeButton.addEventListener("click", () => postMessage({
       type: "removeTodo",
       scope,
@@ -341,20 +929,224 @@
     row.appendChild(actions);
     return row;
   }
-  function startInlineCreate(scope) {
+  function renderAnchorLabel(anchor) {
+    var _a2;
+    const line = anchor.startLine + 1;
+    const label = document.createElement("small");
+    label.className = `todo-anchor${anchor.stale ? " stale" : ""}`;
+    label.textContent = `${anchor.path.split("/").pop()}:${line}`;
+    label.title = `${anchor.path}:${line}:${anchor.startColumn + 1}`;
+    if (anchor.stale) {
+      label.insertAdjacentHTML(
+        "afterbegin",
+        '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M8 1.5L15 14H1L8 1.5Z" stroke="currentColor" stroke-width="1.3" stroke-linejoin="round"/><path d="M8 6V9.5M8 11.5V12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>'
+      );
+      label.title = `${label.title}
+${(_a2 = snapshot == null ? void 0 : snapshot.strings.staleAnchorLabel) != null ? _a2 : ""}`;
+    }
+    return label;
+  }
+  function renderDueDateInput(scope, todo) {
+    var _a2, _b;
+    const input = document.createElement("input");
+    input.type = "date";
+    input.className = "todo-input todo-due-input";
+    input.title = (_a2 = snapshot == null ? void 0 : snapshot.strings.dueDateLabel) != null ? _a2 : "Due date";
+    input.value = (_b = todo.dueDate) != null ? _b : "";
+    input.dataset.inlineDue = todo.id;
+    input.addEventListener("change", () => {
+      var _a3;
+      if (input.value === ((_a3 = todo.dueDate) != null ? _a3 : "")) {
+        return;
+      }
+      postMessage({ type: "setDueDate", scope, todoId: todo.id, dueDate: input.value || void 0 });
+    });
+    return input;
+  }
+  function renderDueLabel(dueDate, label) {
+    var _a2;
+    const [year, month, day] = dueDate.split("-").map(Number);
+    const due = document.createElement("small");
+    due.className = "todo-due";
+    due.textContent = label;
+    due.title = `${(_a2 = snapshot == null ? void 0 : snapshot.strings.dueDateLabel) != null ? _a2 : "Due date"}: ${new Date(
+      year,
+      month - 1,
+      day
+    ).toLocaleDateString()}`;
+    return due;
+  }
+  function renderRecurrenceIcon(label) {
+    const icon = document.createElement("span");
+    icon.className = "todo-recurrence";
+    icon.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M2.5 7V6C2.5 4.9 3.4 4 4.5 4H12.5M10.5 2L12.5 4L10.5 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M13.5 9V10C13.5 11.1 12.6 12 11.5 12H3.5M5.5 14L3.5 12L5.5 10" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+    icon.title = label;
+    icon.setAttribute("aria-label", label);
+    return icon;
+  }
+  function renderNotesInput(todo) {
+    var _a2, _b, _c;
+    const textarea = document.createElement("textarea");
+    textarea.className = "todo-input todo-notes-input";
+    const draftKey = `notes:${todo.id}`;
+    textarea.value = (_b = (_a2 = inlineDrafts.get(draftKey)) != null ? _a2 : todo.notes) != null ? _b : "";
+    textarea.placeholder = (_c = snapshot == null ? void 0 : snapshot.strings.notesPlaceholder) != null ? _c : "Notes (Markdown)";
+    textarea.rows = Math.min(Math.max(textarea.value.split("\n").length, 2), 10);
+    textarea.dataset.inlineNotes = todo.id;
+    textarea.addEventListener("input", () => inlineDrafts.set(draftKey, textarea.value));
+    return textarea;
+  }
+  function renderNotesToggle(todoId) {
+    var _a2, _b;
+    const expanded = expandedNotes.has(todoId);
+    const button = document.createElement("button");
+    button.className = `todo-notes-toggle${expanded ? " expanded" : ""}`;
+    button.setAttribute("aria-expanded", String(expanded));
+    button.title = expanded ? (_a2 = snapshot == null ? void 0 : snapshot.strings.hideNotesLabel) != null ? _a2 : "Hide notes" : (_b = snapshot == null ? void 0 : snapshot.strings.showNotesLabel) != null ? _b : "Show notes";
+    button.innerHTML = '<svg width="14" height="14" viewBox="0 0 16 16" fill="none"><path d="M3 4H13M3 8H13M3 12H9" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+    button.addEventListener("click", () => {
+      if (expandedNotes.has(todoId)) {
+        expandedNotes.delete(todoId);
+      } else {
+        expandedNotes.add(todoId);
+      }
+      persistInlineState();
+      render();
+    });
+    return button;
+  }
+  function renderTodoNotes(depth, notesHtml) {
+    const notes = document.createElement("div");
+    notes.className = "todo-notes";
+    notes.style.setProperty("--todo-depth", String(depth));
+    notes.innerHTML = notesHtml;
+    return notes;
+  }
+  function renderSubtaskToggle(todoId, subtasks) {
+    var _a2, _b;
+    const collapsed = collapsedTodos.has(todoId);
+    const button = document.createElement("button");
+    button.className = `subtask-toggle${collapsed ? " collapsed" : ""}`;
+    button.setAttribute("aria-expanded", String(!collapsed));
+    button.title = collapsed ? (_a2 = snapshot == null ? void 0 : snapshot.strings.expandSubtasksLabel) != null ? _a2 : "Show subtasks" : (_b = snapshot == null ? void 0 : snapshot.strings.collapseSubtasksLabel) != null ? _b : "Hide subtasks";
+    button.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M4 6L8 10L12 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+    const count = document.createElement("span");
+    count.textContent = `${subtasks.completed}/${subtasks.total}`;
+    button.appendChild(count);
+    button.addEventListener("click", () => {
+      if (collapsedTodos.has(todoId)) {
+        collapsedTodos.delete(todoId);
+      } else {
+        collapsedTodos.add(todoId);
+      }
+      persistInlineState();
+      render();
+    });
+    return button;
+  }
+  function renderArchive(scope, archived) {
+    var _a2, _b, _c, _d;
+    const scopeKey = getScopeKey(scope);
+    const details = document.createElement("details");
+    details.className = "archive-section";
+    details.open = openArchives.has(scopeKey);
+    details.addEventListener("toggle", () => {
+      if (details.open) {
+        openArchives.add(scopeKey);
+      } else {
+        openArchives.delete(scopeKey);
+      }
+    });
+    const summary = document.createElement("summary");
+    summary.textContent = `${(_a2 = snapshot == null ? void 0 : snapshot.strings.archiveLabel) != null ? _a2 : "Archive"} (${archived.length})`;
+    details.appendChild(summary);
+    const search = document.createElement("input");
+    search.className = "todo-input archive-search";
+    search.type = "search";
+    search.placeholder = (_b = snapshot == null ? void 0 : snapshot.strings.archiveSearchPlaceholder) != null ? _b : "Search";
+    search.dataset.archiveSearch = scopeKey;
+    search.value = (_c = archiveQueries.get(scopeKey)) != null ? _c : "";
+    details.appendChild(search);
+    const list = document.createElement("div");
+    list.className = "archive-list";
+    const rows = archived.map((todo) => {
+      const row = renderArchivedRow(scope, todo);
+      list.appendChild(row);
+      return { row, title: todo.title.toLowerCase() };
+    });
+    const noMatches = document.createElement("p");
+    noMatches.className = "empty-state";
+    noMatches.textContent = (_d = snapshot == null ? void 0 : snapshot.strings.archiveNoMatches) != null ? _d : "";
+    list.appendChild(noMatches);
+    details.appendChild(list);
+    const applyFilter = () => {
+      const query = search.value.trim().toLowerCase();
+      let visible = 0;
+      rows.forEach(({ row, title }) => {
+        row.hidden = query.length > 0 && !title.includes(query);
+        visible += row.hidden ? 0 : 1;
+      });
+      noMatches.hidden = visible > 0;
+    };
+    search.addEventListener("input", () => {
+      archiveQueries.set(scopeKey, search.value);
+      applyFilter();
+    });
+    applyFilter();
+    return details;
+  }
+  function renderArchivedRow(scope, todo) {
+    var _a2;
+    const row = document.createElement("div");
+    row.className = "todo-item archived-item";
+    row.dataset.archivedId = todo.id;
+    const title = document.createElement("span");
+    title.className = "todo-title completed";
+    title.textContent = todo.title;
+    row.appendChild(title);
+    if (todo.completedAt) {
+      const completedAt = document.createElement("small");
+      completedAt.className = "inline-hint";
+      completedAt.textContent = new Date(todo.completedAt).toLocaleDateString();
+      completedAt.title = new Date(todo.completedAt).toLocaleString();
+      row.appendChild(completedAt);
+    }
+    const actions = document.createElement("div");
+    actions.className = "todo-actions";
+    const restoreButton = document.createElement("button");
+    restoreButton.className = "todo-action";
+    restoreButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 7H10.5C12 7 13 8 13 9.5C13 11 12 12 10.5 12H7" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/><path d="M5.5 4.5L3 7L5.5 9.5" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+    restoreButton.title = (_a2 = snapshot == null ? void 0 : snapshot.strings.restoreLabel) != null ? _a2 : "Restore";
+    restoreButton.addEventListener(
+      "click",
+      () => postMessage({ type: "restoreArchived", scope, todoIds: [todo.id] })
+    );
+    actions.appendChild(restoreButton);
+    row.appendChild(actions);
+    return row;
+  }
+  function startInlineCreate(scope, section, anchor) {
     if (!scopeAppliesToView(scope)) {
       return;
     }
     const state = getInlineState(scope);
     state.creating = true;
+    state.creatingSection = section;
+    state.creatingAnchor = anchor;
     state.editingId = void 0;
+    if (section !== void 0) {
+      collapsedSections.delete(getSectionKey(scope, section));
+    }
     queueFocusSelector(`[data-inline-create="${getScopeKey(scope)}"]`);
     persistInlineState();
     render();
   }
   function cancelInlineCreate(scope) {
     const state = getInlineState(scope);
+    inlineDrafts.delete(`create:${getScopeKey(scope)}`);
     state.creating = false;
+    state.creatingSection = void 0;
+    state.creatingAnchor = void 0;
     persistInlineState();
     render();
   }
@@ -364,9 +1156,18 @@
       cancelInlineCreate(scope);
       return;
     }
-    postMessage({ type: "commitCreate", scope, title: trimmed });
     const state = getInlineState(scope);
+    postMessage({
+      type: "commitCreate",
+      scope,
+      title: trimmed,
+      section: state.creatingSection,
+      anchor: state.creatingAnchor
+    });
+    inlineDrafts.delete(`create:${getScopeKey(scope)}`);
     state.creating = false;
+    state.creatingSection = void 0;
+    state.creatingAnchor = void 0;
     persistInlineState();
   }
   function startInlineEdit(scope, todoId) {
@@ -376,25 +1177,35 @@
     const state = getInlineState(scope);
     state.creating = false;
     state.editingId = todoId;
+    const todo = findTodo(scope, todoId);
+    state.editingBaseTitle = todo ? formatTodoInput(todo) : void 0;
     queueFocusSelector(`[data-inline-edit="${todoId}"]`);
     persistInlineState();
     render();
   }
   function exitInlineEdit(scope) {
     const state = getInlineState(scope);
+    if (state.editingId) {
+      inlineDrafts.delete(`edit:${state.editingId}`);
+      inlineDrafts.delete(`notes:${state.editingId}`);
+    }
     state.editingId = void 0;
+    state.editingBaseTitle = void 0;
     persistInlineState();
     render();
   }
-  function commitInlineEdit(scope, todoId, value) {
+  function commitInlineEdit(scope, todoId, value, notes) {
     const trimmed = value.trim();
     if (trimmed.length === 0) {
       exitInlineEdit(scope);
       return;
     }
-    postMessage({ type: "commitEdit", scope, todoId, title: trimmed });
+    postMessage({ type: "commitEdit", scope, todoId, title: trimmed, notes });
+    inlineDrafts.delete(`edit:${todoId}`);
+    inlineDrafts.delete(`notes:${todoId}`);
     const state = getInlineState(scope);
     state.editingId = void 0;
+    state.editingBaseTitle = void 0;
     persistInlineState();
   }
   function attachDragHandlers(list, scope, inlineState) {
@@ -412,49 +1223,42 @@
       (_b = event.dataTransfer) == null ? void 0 : _b.setData("text/plain", draggedId);
     });
     list.addEventListener("dragover", (event) => {
-      var _a2;
       if (inlineState.editingId) {
         return;
       }
       if (!draggedId) {
         return;
       }
-      const target = (_a2 = event.target) == null ? void 0 : _a2.closest(".todo-item");
-      if (!target || !target.dataset.todoId || target.dataset.todoId === draggedId) {
+      const target = getDropTarget(event);
+      if (!target || target.dataset.todoId === draggedId) {
         return;
       }
       event.preventDefault();
-      target.classList.add("drag-over");
+      const placement = target.dataset.todoId ? getDropPlacement(event, target) : "inside";
+      target.classList.remove("drop-before", "drop-after", "drop-inside");
+      target.classList.add("drag-over", `drop-${placement}`);
     });
     list.addEventListener("dragleave", (event) => {
       var _a2;
       if (inlineState.editingId) {
         return;
       }
-      const target = (_a2 = event.target) == null ? void 0 : _a2.closest(".todo-item");
-      target == null ? void 0 : target.classList.remove("drag-over");
+      (_a2 = getDropTarget(event)) == null ? void 0 : _a2.classList.remove("drag-over", "drop-before", "drop-after", "drop-inside");
     });
     list.addEventListener("drop", (event) => {
-      var _a2;
       if (inlineState.editingId) {
         return;
       }
       event.preventDefault();
-      const target = (_a2 = event.target) == null ? void 0 : _a2.closest(".todo-item");
-      if (!target || !target.dataset.todoId || !draggedId || target.dataset.todoId === draggedId) {
+      const target = getDropTarget(event);
+      if (!target || !draggedId || target.dataset.todoId === draggedId) {
         resetDragState(list);
         return;
       }
-      const draggedNode = list.querySelector(`.todo-item[data-todo-id="${draggedId}"]`);
-      if (!draggedNode) {
-        resetDragState(list);
-        return;
+      const move = target.dataset.todoId ? planTodoMove(scope, draggedId, target.dataset.todoId, getDropPlacement(event, target)) : planSectionMove(scope, draggedId, target.dataset.section);
+      if (move) {
+        postMessage({ type: "reorderTodos", scope, order: move.order, moved: move.moved });
       }
-      const targetRect = target.getBoundingClientRect();
-      const before = event.clientY < targetRect.top + targetRect.height / 2;
-      list.insertBefore(draggedNode, before ? target : target.nextElementSibling);
-      const order = Array.from(list.querySelectorAll(".todo-item")).map((node) => node.dataset.todoId).filter((id) => Boolean(id));
-      postMessage({ type: "reorderTodos", scope, order });
       resetDragState(list);
     });
     list.addEventListener("dragend", () => {
@@ -462,9 +1266,73 @@
     });
     function resetDragState(container) {
       draggedId = void 0;
-      container.querySelectorAll(".drag-over").forEach((el) => el.classList.remove("drag-over"));
+      container.querySelectorAll(".drag-over").forEach((el) => el.classList.remove("drag-over", "drop-before", "drop-after", "drop-inside"));
     }
   }
+  function getDropTarget(event) {
+    var _a2;
+    const target = (_a2 = event.target) == null ? void 0 : _a2.closest(
+      ".todo-item, .list-section-header"
+    );
+    if (!target || !target.dataset.todoId && target.dataset.section === void 0) {
+      return void 0;
+    }
+    return target;
+  }
+  function getDropPlacement(event, target) {
+    const rect = target.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    if (offset < 0.25) {
+      return "before";
+    }
+    return offset > 0.75 ? "after" : "inside";
+  }
+  function planTodoMove(scope, draggedId, targetId, placement) {
+    const todos = getScopeTodos(scope);
+    const dragged = todos.find((todo) => todo.id === draggedId);
+    const target = todos.find((todo) => todo.id === targetId);
+    const subtree = collectSubtreeIds(todos, draggedId);
+    if (!dragged || !target || subtree.has(targetId)) {
+      return void 0;
+    }
+    const remaining = todos.filter((todo) => !subtree.has(todo.id));
+    let index = remaining.indexOf(target);
+    if (placement !== "before") {
+      const targetSubtree = collectSubtreeIds(remaining, targetId);
+      while (index < remaining.length && targetSubtree.has(remaining[index].id)) {
+        index++;
+      }
+    }
+    remaining.splice(index, 0, ...todos.filter((todo) => subtree.has(todo.id)));
+    const parentId = placement === "inside" ? target.id : target.parentId;
+    return {
+      order: remaining.map((todo) => todo.id),
+      moved: parentId === dragged.parentId && target.section === dragged.section ? void 0 : { todoId: draggedId, parentId, section: target.section }
+    };
+  }
+  function planSectionMove(scope, draggedId, section) {
+    const todos = getScopeTodos(scope);
+    if (!todos.some((todo) => todo.id === draggedId)) {
+      return void 0;
+    }
+    const subtree = collectSubtreeIds(todos, draggedId);
+    return {
+      order: [
+        ...todos.filter((todo) => !subtree.has(todo.id)),
+        ...todos.filter((todo) => subtree.has(todo.id))
+      ].map((todo) => todo.id),
+      moved: { todoId: draggedId, section }
+    };
+  }
+  function collectSubtreeIds(todos, todoId) {
+    const subtree = /* @__PURE__ */ new Set([todoId]);
+    todos.forEach((todo) => {
+      if (todo.parentId && subtree.has(todo.parentId)) {
+        subtree.add(todo.id);
+      }
+    });
+    return subtree;
+  }
   function queueFocusSelector(selector) {
     pendingFocusSelectors.add(selector);
   }
@@ -479,11 +1347,42 @@
         const element = document.querySelector(selector);
         if (element) {
           element.focus();
-          element.setSelectionRange(element.value.length, element.value.length);
+          if (element.type !== "date") {
+            element.setSelectionRange(element.value.length, element.value.length);
+          }
         }
       });
     });
   }
+  function findTodo(scope, todoId) {
+    return getScopeTodos(scope).find((todo) => todo.id === todoId);
+  }
+  function getScopeTodos(scope) {
+    var _a2;
+    if (!snapshot) {
+      return [];
+    }
+    const todos = scope.scope === "global" ? snapshot.global.todos : (_a2 = snapshot.projects.folders.find((folder) => folder.key === scope.workspaceFolder)) == null ? void 0 : _a2.todos;
+    return todos != null ? todos : [];
+  }
+  function getScopeTags(scope) {
+    var _a2;
+    if (!snapshot) {
+      return [];
+    }
+    const tags = scope.scope === "global" ? snapshot.global.tags : (_a2 = snapshot.projects.folders.find((folder) => folder.key === scope.workspaceFolder)) == null ? void 0 : _a2.tags;
+    return tags != null ? tags : [];
+  }
+  function formatTodoInput(todo) {
+    return [
+      todo.title,
+      ...todo.tags.map((tag) => `#${tag}`),
+      ...todo.priority ? [`!${todo.priority}`] : []
+    ].join(" ");
+  }
+  function getSectionKey(scope, section) {
+    return JSON.stringify([getScopeKey(scope), section]);
+  }
   function getScopeKey(scope) {
     return scope.scope === "global" ? "global" : scope.workspaceFolder;
   }
@@ -0,0 +1,163 @@
+import * as l10n from '@vscode/l10n';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { AnchorChange, renameAnchor, trackAnchor } from '../domain/anchor';
+import { TodoRepository } from '../todoRepository';
+import { Todo, TodoAnchor } from '../types';
+import { ScopeTarget } from '../types/scope';
+
+/**
+ * Describes the selection of an editor as an anchor relative to the workspace folder containing
+ * the file. An empty selection anchors its whole line, so deleting the line marks the anchor as
+ * stale.
+ *
+ * @param editor - Editor whose primary selection is anchored.
+ * @param folder - Workspace folder containing the editor's file.
+ */
+export function anchorFromSelection(
+	editor: vscode.TextEditor,
+	folder: vscode.WorkspaceFolder
+): TodoAnchor {
+	const { start, end } = editor.selection.isEmpty
+		? editor.document.lineAt(editor.selection.active.line).range
+		: editor.selection;
+	return {
+		path: relativePath(folder, editor.document.uri),
+		startLine: start.line,
+		startColumn: start.character,
+		endLine: end.line,
+		endColumn: end.character,
+	};
+}
+
+/**
+ * Opens the file a project todo is anchored to and selects the anchored range. Shows a warning
+ * when the file cannot be opened anymore.
+ *
+ * @param todo - Project todo with an anchor.
+ * @returns True when the file was opened.
+ */
+export async function revealTodoAnchor(todo: Todo): Promise<boolean> {
+	const { anchor, workspaceFolder } = todo;
+	if (!anchor || !workspaceFolder) {
+		return false;
+	}
+	const uri = vscode.Uri.joinPath(vscode.Uri.parse(workspaceFolder), ...anchor.path.split('/'));
+	try {
+		const document = await vscode.workspace.openTextDocument(uri);
+		const range = new vscode.Range(
+			anchor.startLine,
+			anchor.startColumn,
+			anchor.endLine,
+			anchor.endColumn
+		);
+		await vscode.window.showTextDocument(document, { selection: range });
+		return true;
+	} catch (error) {
+		console.error(`Unable to open ${anchor.path}`, error);
+		void vscode.window.showWarningMessage(l10n.t('anchor.missing', anchor.path));
+		return false;
+	}
+}
+
+/**
+ * Keeps the anchors of project todos on their code while files change: edits shift or resize the
+ * anchored ranges (deleting the anchored text marks the anchor as stale), and renaming a file or
+ * folder within its workspace folder updates the anchored paths. Edits are collected per document
+ * and applied when it is saved, so unsaved edits that are reverted or discarded leave the stored
+ * anchors alone.
+ *
+ * @param repository - Repository holding the anchored todos.
+ * @returns Disposable that stops tracking.
+ */
+export function registerAnchorTracking(repository: TodoRepository): vscode.Disposable {
+	/** Edits made since each dirty document was last saved, keyed by document URI. */
+	const pending = new Map<string, AnchorChange[]>();
+	const update = (scope: ScopeTarget, recipe: (anchor: TodoAnchor) => TodoAnchor) => {
+		repository.updateAnchors(scope, recipe).catch((error) => {
+			console.error('Updating TODO anchors failed', error);
+		});
+	};
+	const applyChanges = (uri: vscode.Uri, changes: AnchorChange[]) => {
+		const file = locateFile(uri);
+		if (file) {
+			update(file.scope, (anchor) =>
+				anchor.path === file.path ? changes.reduce(trackAnchor, anchor) : anchor
+			);
+		}
+	};
+	return vscode.Disposable.from(
+		vscode.workspace.onDidChangeTextDocument((event) => {
+			const key = event.document.uri.toString();
+			if (!event.document.isDirty && pending.delete(key)) {
+				// Back to the saved content (e.g. after a revert), so the stored anchors still match.
+				return;
+			}
+			if (event.contentChanges.length === 0 || !locateFile(event.document.uri)) {
+				return;
+			}
+			const changes = event.contentChanges.map(
+				({ range, text }): AnchorChange => ({
+					startLine: range.start.line,
+					startColumn: range.start.character,
+					endLine: range.end.line,
+					endColumn: range.end.character,
+					text,
+				})
+			);
+			if (event.document.isDirty) {
+				pending.set(key, [...(pending.get(key) ?? []), ...changes]);
+			} else {
+				// The file changed on disk (e.g. after a pull) and the open document was reloaded.
+				applyChanges(event.document.uri, changes);
+			}
+		}),
+		vscode.workspace.onDidSaveTextDocument((document) => {
+			const key = document.uri.toString();
+			const changes = pending.get(key);
+			pending.delete(key);
+			if (changes) {
+				applyChanges(document.uri, changes);
+			}
+		}),
+		vscode.workspace.onDidCloseTextDocument((document) => {
+			pending.delete(document.uri.toString());
+		}),
+		vscode.workspace.onDidRenameFiles((event) => {
+			event.files.forEach(({ oldUri, newUri }) => {
+				const oldKey = oldUri.toString();
+				Array.from(pending)
+					.filter(([key]) => key === oldKey || key.startsWith(`${oldKey}/`))
+					.forEach(([key, changes]) => {
+						pending.delete(key);
+						pending.set(`${newUri.toString()}${key.slice(oldKey.length)}`, changes);
+					});
+				const from = locateFile(oldUri);
+				const to = locateFile(newUri);
+				if (from && to?.scope.workspaceFolder === from.scope.workspaceFolder) {
+					update(from.scope, (anchor) => renameAnchor(anchor, from.path, to.path));
+				}
+			});
+		})
+	);
+}
+
+/** Finds the project list and relative path of a file inside a workspace folder. */
+function locateFile(
+	uri: vscode.Uri
+): { scope: { scope: 'workspace'; workspaceFolder: string }; path: string } | undefined {
+	const folder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!folder) {
+		return undefined;
+	}
+	return {
+		scope: { scope: 'workspace', workspaceFolder: folder.uri.toString() },
+		path: relativePath(folder, uri),
+	};
+}
+
+/** Returns the path of a file relative to its workspace folder, with `/` separators. */
+function relativePath(folder: vscode.WorkspaceFolder, uri: vscode.Uri): string {
+	return path.posix.relative(folder.uri.path, uri.path);
+}
@@ -1,15 +1,38 @@
 import * as l10n from '@vscode/l10n';
 import * as vscode from 'vscode';
 
-import { normalizePositions } from '../domain/todo';
+import {
+	collectTags,
+	isDueDate,
+	orderTodoTree,
+	setDueDate as setTodoDueDate,
+	setPriority as setTodoPriority,
+	toDueDate,
+	TODO_PRIORITIES,
+} from '../domain/todo';
+import {
+	isSameRecurrence,
+	MAX_RECURRENCE_INTERVAL_DAYS,
+	setRecurrence as setTodoRecurrence,
+} from '../domain/recurrence';
+import { manageOrphanedLists } from '../services/orphanedListService';
+import { addSection as addSectionService, pickSection } from '../services/sectionService';
 import { HandlerContext } from '../types/handlerContext';
 import { ScopeTarget, TodoTarget } from '../types/scope';
 import {
+	checkStorage,
 	clearScope as clearScopeService,
+	emptyTrash,
+	redoLastChange,
 	removeTodoWithUndo as removeTodoWithUndoService,
+	restoreBackup,
+	restoreDeletedTodos,
+	undoLastChange,
 } from '../services/todoOperations';
-import { Todo } from '../types';
+import { Todo, TodoAnchor, TodoPriority, TodoRecurrence } from '../types';
 import { TodoWebviewHost } from '../todoWebviewHost';
+import { describeRecurrence } from '../webviewState';
+import { anchorFromSelection } from './codeAnchors';
 import { readConfig } from './config';
 import {
 	scopeTargetToWebviewScope,
@@ -20,7 +43,6 @@ import {
 interface CommandDependencies {
 	context: vscode.ExtensionContext;
 	handlerContext: HandlerContext;
-	broadcastState: () => void;
 }
 
 /**
@@ -28,61 +50,184 @@ interface CommandDependencies {
  *
  * @param context - Extension context used for disposal.
  * @param handlerContext - Shared dependencies for the handlers.
- * @param broadcastState - Callback that refreshes webview state.
  */
-export function registerCommands({
-	context,
-	handlerContext,
-	broadcastState,
-}: CommandDependencies): void {
+export function registerCommands({ context, handlerContext }: CommandDependencies): void {
 	context.subscriptions.push(
-		vscode.commands.registerCommand('todo.addTodo', () =>
-			addTodo(handlerContext, broadcastState)
+		vscode.commands.registerCommand('todo.addTodo', () => addTodo(handlerContext)),
+		vscode.commands.registerCommand('todo.addTodoAtCursor', () =>
+			addTodoAtCursor(handlerContext)
+		),
+		vscode.commands.registerCommand('todo.reanchorTodo', (row?: unknown) =>
+			reanchorTodo(handlerContext, todoTargetFromRow(row))
 		),
-		vscode.commands.registerCommand('todo.editTodo', () =>
-			editTodo(handlerContext, broadcastState)
+		vscode.commands.registerCommand('todo.addSection', () => addSection(handlerContext)),
+		vscode.commands.registerCommand('todo.editTodo', () => editTodo(handlerContext)),
+		vscode.commands.registerCommand('todo.filterByTag', () => filterByTag(handlerContext)),
+		vscode.commands.registerCommand('todo.setDueDate', () => setDueDate(handlerContext)),
+		vscode.commands.registerCommand('todo.setPriority', (row?: unknown) =>
+			setPriority(handlerContext, todoTargetFromRow(row))
+		),
+		vscode.commands.registerCommand('todo.setRecurrence', (row?: unknown) =>
+			setRecurrence(handlerContext, todoTargetFromRow(row))
 		),
 		vscode.commands.registerCommand('todo.completeTodo', () =>
-			toggleTodoCompletion(handlerContext, broadcastState)
+			toggleTodoCompletion(handlerContext)
+		),
+		vscode.commands.registerCommand('todo.removeTodo', () => removeTodo(handlerContext)),
+		vscode.commands.registerCommand('todo.clearTodos', () => clearTodos(handlerContext)),
+		vscode.commands.registerCommand('todo.undo', () => undoLastChange(handlerContext)),
+		vscode.commands.registerCommand('todo.redo', () => redoLastChange(handlerContext)),
+		vscode.commands.registerCommand('todo.restoreDeleted', () =>
+			restoreDeletedTodos(handlerContext)
 		),
-		vscode.commands.registerCommand('todo.removeTodo', () =>
-			removeTodo(handlerContext, broadcastState)
+		vscode.commands.registerCommand('todo.emptyTrash', () => emptyTrash(handlerContext)),
+		vscode.commands.registerCommand('todo.checkStorage', () => checkStorage(handlerContext)),
+		vscode.commands.registerCommand('todo.manageOrphanedLists', () =>
+			manageOrphanedLists(handlerContext)
 		),
-		vscode.commands.registerCommand('todo.clearTodos', () =>
-			clearTodos(handlerContext, broadcastState)
-		)
+		vscode.commands.registerCommand('todo.restoreBackup', () => restoreBackup(handlerContext))
 	);
 }
 
 /**
- * Adds a todo by prompting for scope and focusing the webview to start inline creation.
+ * Adds a todo by prompting for scope and section, then focusing the webview to start inline
+ * creation.
  *
  * @param context - Handler context with repository and webview host.
- * @param broadcastState - Callback to sync webview state.
  */
-export async function addTodo(
-	context: HandlerContext,
-	broadcastState: () => void
-): Promise<void> {
+export async function addTodo(context: HandlerContext): Promise<void> {
 	const scope = await resolveScopeTarget();
 	if (!scope) {
 		return;
 	}
+	const placement = await pickSection(context, scope);
+	if (!placement) {
+		return;
+	}
 	await focusTodoContainer();
-	broadcastState();
-	dispatchInlineCreate(context.webviewHost, scope);
+	dispatchInlineCreate(context.webviewHost, scope, placement.section);
 }
 
 /**
- * Begins inline edit for a todo chosen by the user.
+ * Adds a todo anchored at the selection of the active editor to the Projects list of the folder
+ * containing the file, asking for the section first when the list has sections.
  *
  * @param context - Handler context with repository and webview host.
- * @param broadcastState - Callback to sync webview state.
  */
-export async function editTodo(
+export async function addTodoAtCursor(context: HandlerContext): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	const folder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+	if (!editor || !folder) {
+		void vscode.window.showInformationMessage(
+			l10n.t('anchor.noFile', 'Open a file from a workspace folder to add a TODO for its code.')
+		);
+		return;
+	}
+	const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: getWorkspaceFolderKey(folder) };
+	const placement = await pickSection(context, scope);
+	if (!placement) {
+		return;
+	}
+	await focusTodoContainer();
+	dispatchInlineCreate(
+		context.webviewHost,
+		scope,
+		placement.section,
+		anchorFromSelection(editor, folder)
+	);
+}
+
+/**
+ * Anchors a project todo at the selection of the active editor, e.g. after its anchored code was
+ * deleted. Without a row from the webview context menu, the user picks one of the todos of the
+ * folder containing the file, those with stale anchors first.
+ *
+ * @param context - Handler context with repository access.
+ * @param row - Todo the command was run on from the webview context menu.
+ */
+export async function reanchorTodo(context: HandlerContext, row?: TodoTarget): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	const folder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+	if (!editor || !folder) {
+		void vscode.window.showInformationMessage(
+			l10n.t('anchor.reanchor.noFile', 'Select the code to anchor the TODO at in a file of its project folder.')
+		);
+		return;
+	}
+	const target = row ?? (await pickTodoToReanchor(context, folder));
+	if (!target) {
+		return;
+	}
+	if (target.scope !== 'workspace' || target.workspaceFolder !== getWorkspaceFolderKey(folder)) {
+		void vscode.window.showInformationMessage(
+			l10n.t('anchor.reanchor.otherFolder', 'The selected code is not in the project folder of the TODO.')
+		);
+		return;
+	}
+	const anchor = anchorFromSelection(editor, folder);
+	await context.repository.mutate(
+		{ scope: 'workspace', workspaceFolder: target.workspaceFolder },
+		'edit',
+		(todos) => {
+			const todo = todos.find((item) => item.id === target.todoId);
+			if (!todo) {
+				return undefined;
+			}
+			todo.anchor = anchor;
+			todo.updatedAt = new Date().toISOString();
+			return todos;
+		}
+	);
+}
+
+/** Lets the user pick a todo of a folder's project list to re-anchor, stale anchors first. */
+async function pickTodoToReanchor(
 	context: HandlerContext,
-	broadcastState: () => void
-): Promise<void> {
+	folder: vscode.WorkspaceFolder
+): Promise<TodoTarget | undefined> {
+	const folderKey = getWorkspaceFolderKey(folder);
+	const todos = orderTodoTree(context.repository.getWorkspaceTodos(folderKey)).map(({ todo }) => todo);
+	if (todos.length === 0) {
+		void vscode.window.showInformationMessage(
+			l10n.t('command.noTodos', 'Create a TODO first, then try again.')
+		);
+		return undefined;
+	}
+	const items: Array<vscode.QuickPickItem & { target: TodoTarget }> = [
+		...todos.filter((todo) => todo.anchor?.stale),
+		...todos.filter((todo) => !todo.anchor?.stale),
+	].map((todo) => ({
+		label: todo.title,
+		description: todo.anchor
+			? `${todo.anchor.stale ? '$(warning) ' : ''}${todo.anchor.path}:${todo.anchor.startLine + 1}`
+			: undefined,
+		target: { todoId: todo.id, scope: 'workspace', workspaceFolder: folderKey },
+	}));
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('anchor.reanchor.title', 'Which TODO should be anchored at the selection?'),
+	});
+	return selection?.target;
+}
+
+/**
+ * Adds a section to a scope chosen by the user.
+ *
+ * @param context - Handler context with repository access.
+ */
+async function addSection(context: HandlerContext): Promise<void> {
+	const scope = await resolveScopeTarget();
+	if (!scope) {
+		return;
+	}
+	await addSectionService(context, scope);
+}
+
+/**
+ * Begins inline edit for a todo chosen by the user.
+ *
+ * @param context - Handler context with repository and webview host.
+ */
+export async function editTodo(context: HandlerContext): Promise<void> {
 	const target = await resolveTodoTarget(context);
 	if (!target) {
 		return;
@@ -93,20 +238,230 @@ export async function editTodo(
 		return;
 	}
 	await focusTodoContainer();
-	broadcastState();
 	dispatchInlineEdit(context.webviewHost, target);
 }
 
 /**
- * Toggles completion for a selected todo and schedules auto-delete when applicable.
+ * Lets the user pick a tag used in any list and shows only the todos carrying it in both views.
+ *
+ * @param context - Handler context with repository and webview host.
+ */
+export async function filterByTag(context: HandlerContext): Promise<void> {
+	const todos = [
+		...context.repository.getGlobalTodos(),
+		...(vscode.workspace.workspaceFolders ?? []).flatMap((folder) =>
+			context.repository.getWorkspaceTodos(getWorkspaceFolderKey(folder))
+		),
+	];
+	const tags = collectTags(todos);
+	if (tags.length === 0) {
+		void vscode.window.showInformationMessage(
+			l10n.t('tags.filter.none', 'No TODOs have tags yet. Add one with #tag in the title.')
+		);
+		return;
+	}
+	const items: Array<vscode.QuickPickItem & { tag?: string }> = [
+		{ label: l10n.t('tags.filter.all', 'Show all TODOs') },
+		...tags.map((tag) => ({ label: `#${tag}`, tag })),
+	];
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('tags.filter.title', 'Show only TODOs tagged'),
+	});
+	if (!selection) {
+		return;
+	}
+	await focusTodoContainer();
+	context.webviewHost.broadcast({
+		type: 'setTagFilter',
+		...(selection.tag === undefined ? {} : { tag: selection.tag }),
+	});
+}
+
+/**
+ * Sets or removes the due date of a todo chosen by the user.
+ *
+ * @param context - Handler context with repository access.
+ */
+export async function setDueDate(context: HandlerContext): Promise<void> {
+	const target = await resolveTodoTarget(context);
+	const scope = target && todoTargetToScopeTarget(target);
+	if (!target || !scope) {
+		return;
+	}
+	const existing = readTodos(context.repository, scope).find((todo) => todo.id === target.todoId);
+	if (!existing) {
+		return;
+	}
+	const input = await vscode.window.showInputBox({
+		prompt: l10n.t('dueDate.prompt', 'Due date (YYYY-MM-DD); leave empty to remove it'),
+		placeHolder: toDueDate(new Date()),
+		value: existing.dueDate ?? '',
+		validateInput: (value) =>
+			value.trim().length === 0 || isDueDate(value.trim())
+				? undefined
+				: l10n.t('dueDate.invalid', 'Enter a date like 2025-01-31'),
+	});
+	if (input === undefined) {
+		return;
+	}
+	const dueDate = input.trim() || undefined;
+	await context.repository.mutate(scope, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === target.todoId);
+		return todo && setTodoDueDate(todo, dueDate) ? todos : undefined;
+	});
+}
+
+/**
+ * Sets or removes the priority of a todo, either the row the command was invoked on from the
+ * webview context menu or one chosen by the user.
+ *
+ * @param context - Handler context with repository access.
+ * @param row - Todo the command was invoked on; prompts for one when unset.
+ */
+export async function setPriority(context: HandlerContext, row?: TodoTarget): Promise<void> {
+	const target = row ?? (await resolveTodoTarget(context));
+	const scope = target && todoTargetToScopeTarget(target);
+	if (!target || !scope) {
+		return;
+	}
+	const existing = readTodos(context.repository, scope).find((todo) => todo.id === target.todoId);
+	if (!existing) {
+		return;
+	}
+	const current = l10n.t('priority.pick.current', 'Current');
+	const items: Array<vscode.QuickPickItem & { priority?: TodoPriority }> = [
+		...TODO_PRIORITIES.map((priority) => ({
+			label: priorityLabel(priority),
+			description: existing.priority === priority ? current : undefined,
+			priority,
+		})),
+		{
+			label: l10n.t('priority.none', 'No priority'),
+			description: existing.priority === undefined ? current : undefined,
+		},
+	];
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('priority.pick.title', existing.title),
+	});
+	if (!selection) {
+		return;
+	}
+	await context.repository.mutate(scope, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === target.todoId);
+		return todo && setTodoPriority(todo, selection.priority) ? todos : undefined;
+	});
+}
+
+/**
+ * Makes a todo recurring or ends its series, either the row the command was invoked on from the
+ * webview context menu or one chosen by the user. Weekly and monthly rules repeat on the weekday
+ * and day of the todo's due date (today without one).
+ *
+ * @param context - Handler context with repository access.
+ * @param row - Todo the command was invoked on; prompts for one when unset.
+ */
+export async function setRecurrence(context: HandlerContext, row?: TodoTarget): Promise<void> {
+	const target = row ?? (await resolveTodoTarget(context));
+	const scope = target && todoTargetToScopeTarget(target);
+	if (!target || !scope) {
+		return;
+	}
+	const existing = readTodos(context.repository, scope).find((todo) => todo.id === target.todoId);
+	if (!existing) {
+		return;
+	}
+	const [year, month, day] = (existing.dueDate ?? toDueDate(new Date())).split('-').map(Number);
+	const rules: TodoRecurrence[] = [
+		{ frequency: 'daily' },
+		{ frequency: 'weekdays' },
+		{ frequency: 'weekly', weekday: new Date(year, month - 1, day).getDay() },
+		{ frequency: 'monthly', day },
+	];
+	const current = l10n.t('recurrence.pick.current', 'Current');
+	const items: Array<vscode.QuickPickItem & { recurrence?: TodoRecurrence; interval?: true }> = [
+		...rules.map((recurrence) => ({
+			label: describeRecurrence(recurrence),
+			description: isSameRecurrence(existing.recurrence, recurrence) ? current : undefined,
+			recurrence,
+		})),
+		{
+			label: l10n.t('recurrence.pick.interval', 'Repeats every few days…'),
+			description: existing.recurrence?.frequency === 'interval' ? current : undefined,
+			interval: true,
+		},
+		{
+			label: l10n.t('recurrence.none', 'Does not repeat'),
+			description: existing.recurrence === undefined ? current : undefined,
+		},
+	];
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('recurrence.pick.title', existing.title),
+	});
+	if (!selection) {
+		return;
+	}
+	let recurrence = selection.recurrence;
+	if (selection.interval) {
+		const input = await vscode.window.showInputBox({
+			prompt: l10n.t('recurrence.interval.prompt', 'Repeat every how many days?'),
+			value:
+				existing.recurrence?.frequency === 'interval' ? String(existing.recurrence.days) : '',
+			validateInput: (value) =>
+				/^\d+$/.test(value.trim()) &&
+				Number(value) >= 1 &&
+				Number(value) <= MAX_RECURRENCE_INTERVAL_DAYS
+					? undefined
+					: l10n.t('recurrence.interval.invalid', MAX_RECURRENCE_INTERVAL_DAYS),
+		});
+		if (input === undefined) {
+			return;
+		}
+		recurrence = { frequency: 'interval', days: Number(input) };
+	}
+	await context.repository.mutate(scope, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === target.todoId);
+		return todo && setTodoRecurrence(todo, recurrence) ? todos : undefined;
+	});
+}
+
+/** Returns the localized name of a priority. */
+function priorityLabel(priority: TodoPriority): string {
+	switch (priority) {
+		case 'high':
+			return l10n.t('priority.high', 'High');
+		case 'medium':
+			return l10n.t('priority.medium', 'Medium');
+		default:
+			return l10n.t('priority.low', 'Low');
+	}
+}
+
+/**
+ * Reads the todo a command was invoked on from the `data-vscode-context` of a webview row.
+ *
+ * @param row - Command argument; anything but a todo row yields undefined.
+ */
+function todoTargetFromRow(row: unknown): TodoTarget | undefined {
+	const candidate = row as Partial<{ todoId: string; scope: string; workspaceFolder: string }>;
+	if (typeof candidate?.todoId !== 'string') {
+		return undefined;
+	}
+	if (candidate.scope === 'global') {
+		return { todoId: candidate.todoId, scope: 'global' };
+	}
+	if (candidate.scope === 'workspace' && typeof candidate.workspaceFolder === 'string') {
+		return { todoId: candidate.todoId, scope: 'workspace', workspaceFolder: candidate.workspaceFolder };
+	}
+	return undefined;
+}
+
+/**
+ * Toggles completion for a selected todo and schedules auto-delete when applicable. Completing a
+ * recurring todo archives it and adds the next occurrence instead.
  *
  * @param context - Handler context with repository and auto-delete coordinator.
- * @param broadcastState - Callback to sync webview state.
  */
-async function toggleTodoCompletion(
-	context: HandlerContext,
-	broadcastState: () => void
-): Promise<void> {
+async function toggleTodoCompletion(context: HandlerContext): Promise<void> {
 	const target = await resolveTodoTarget(context);
 	if (!target) {
 		return;
@@ -115,36 +470,35 @@ async function toggleTodoCompletion(
 	if (!scope) {
 		return;
 	}
-	const todos = readTodos(context.repository, scope);
-	const todo = todos.find((item) => item.id === target.todoId);
-	if (!todo) {
+	const entry = await context.repository.toggleTodo(scope, target.todoId);
+	if (!entry) {
 		return;
 	}
-	todo.completed = !todo.completed;
-	todo.updatedAt = new Date().toISOString();
-	await persistTodos(context.repository, scope, todos);
-	if (todo.completed) {
-		context.autoDelete.schedule(context, scope, todo.id, readConfig());
+	if (entry.kind === 'recur') {
+		vscode.window.setStatusBarMessage(
+			l10n.t('command.complete.recurring', 'Marked TODO as completed and added the next one'),
+			2000
+		);
+		return;
+	}
+	const todo = entry.after.find((item) => item.id === target.todoId);
+	if (todo?.completed) {
+		context.autoDelete.schedule(context, scope, target.todoId, readConfig());
 	} else {
-		context.autoDelete.cancel(scope, todo.id);
+		context.autoDelete.cancel(scope, target.todoId);
 	}
-	const stateMessage = todo.completed
+	const stateMessage = todo?.completed
 		? l10n.t('command.complete.completed', 'Marked TODO as completed')
 		: l10n.t('command.complete.reopened', 'Marked TODO as active');
 	vscode.window.setStatusBarMessage(stateMessage, 2000);
-	broadcastState();
 }
 
 /**
  * Removes a selected todo with undo support.
  *
  * @param context - Handler context with repository and auto-delete coordinator.
- * @param broadcastState - Callback to sync webview state.
  */
-async function removeTodo(
-	context: HandlerContext,
-	broadcastState: () => void
-): Promise<void> {
+async function removeTodo(context: HandlerContext): Promise<void> {
 	const target = await resolveTodoTarget(context);
 	if (!target) {
 		return;
@@ -153,21 +507,20 @@ async function removeTodo(
 	if (!scope) {
 		return;
 	}
-	await removeTodoWithUndoService(context, scope, target.todoId, broadcastState);
+	await removeTodoWithUndoService(context, scope, target.todoId);
 }
 
 /**
  * Clears all todos for a chosen scope, honoring confirmation settings.
  *
  * @param context - Handler context with repository and auto-delete coordinator.
- * @param broadcastState - Callback to sync webview state.
  */
-async function clearTodos(context: HandlerContext, broadcastState: () => void): Promise<void> {
+async function clearTodos(context: HandlerContext): Promise<void> {
 	const scope = await resolveScopeTarget();
 	if (!scope) {
 		return;
 	}
-	await clearScopeService(context, scope, broadcastState);
+	await clearScopeService(context, scope);
 }
 
 /** Resolves a target scope from a quick pick prompt. */
@@ -226,32 +579,34 @@ function buildTodoQuickPickItems(
 	repository: HandlerContext['repository']
 ): Array<vscode.QuickPickItem & { target: TodoTarget }> {
 	const items: Array<vscode.QuickPickItem & { target: TodoTarget }> = [];
-	repository
-		.getGlobalTodos()
-		.sort((a, b) => a.position - b.position)
-		.forEach((todo) => {
-			items.push({
-				label: todo.title,
-				description: l10n.t('scope.global.label', 'Global'),
-				target: { todoId: todo.id, scope: 'global' },
-			});
+	orderTodoTree(repository.getGlobalTodos()).forEach(({ todo }) => {
+		items.push({
+			label: todo.title,
+			description: l10n.t('scope.global.label', 'Global'),
+			detail: summarizeNotes(todo.notes),
+			target: { todoId: todo.id, scope: 'global' },
 		});
+	});
 	(vscode.workspace.workspaceFolders ?? []).forEach((folder) => {
 		const folderKey = getWorkspaceFolderKey(folder);
-		repository
-			.getWorkspaceTodos(folderKey)
-			.sort((a, b) => a.position - b.position)
-			.forEach((todo) => {
-				items.push({
-					label: todo.title,
-					description: folder.name,
-					target: { todoId: todo.id, scope: 'workspace', workspaceFolder: folderKey },
-				});
+		orderTodoTree(repository.getWorkspaceTodos(folderKey)).forEach(({ todo }) => {
+			items.push({
+				label: todo.title,
+				description: folder.name,
+				detail: summarizeNotes(todo.notes),
+				target: { todoId: todo.id, scope: 'workspace', workspaceFolder: folderKey },
 			});
+		});
 	});
 	return items;
 }
 
+/** Joins the lines of todo notes into the single line a quick pick `detail` can show. */
+function summarizeNotes(notes: string | undefined): string | undefined {
+	const summary = notes?.replace(/\s+/g, ' ').trim();
+	return summary ? summary : undefined;
+}
+
 /**
  * Reads todos for a given scope.
  *
@@ -265,26 +620,6 @@ function readTodos(repository: HandlerContext['repository'], scope: ScopeTarget)
 	return repository.getWorkspaceTodos(scope.workspaceFolder);
 }
 
-/**
- * Persists todos for a target scope, normalizing positions beforehand.
- *
- * @param repository - Repository to save to.
- * @param scope - Scope target describing global or workspace.
- * @param todos - Todos to persist.
- */
-async function persistTodos(
-	repository: HandlerContext['repository'],
-	scope: ScopeTarget,
-	todos: Todo[]
-): Promise<void> {
-	const normalized = normalizePositions(todos);
-	if (scope.scope === 'global') {
-		await repository.saveGlobalTodos(normalized);
-	} else {
-		await repository.saveWorkspaceTodos(scope.workspaceFolder, normalized);
-	}
-}
-
 /**
  * Maps a todo target to a scope target for downstream repository operations.
  *
@@ -316,14 +651,23 @@ async function focusTodoContainer(): Promise<void> {
  *
  * @param host - Webview host to deliver the message through.
  * @param scope - Target scope for the inline row.
+ * @param section - Section the row appears in; unset for todos outside any section.
+ * @param anchor - Code location the new todo is anchored to.
  */
-function dispatchInlineCreate(host: TodoWebviewHost, scope: ScopeTarget): void {
+function dispatchInlineCreate(
+	host: TodoWebviewHost,
+	scope: ScopeTarget,
+	section?: string,
+	anchor?: TodoAnchor
+): void {
 	host.postMessage(scopeToProviderMode(scope), {
 		type: 'startInlineCreate',
 		scope:
 			scope.scope === 'global'
 				? { scope: 'global' }
 				: { scope: 'workspace', workspaceFolder: scope.workspaceFolder },
+		...(section === undefined ? {} : { section }),
+		...(anchor === undefined ? {} : { anchor }),
 	});
 }
 
@@ -1,9 +1,17 @@
 import * as vscode from 'vscode';
 
+import { DEFAULT_BACKUP_RETENTION_COUNT } from '../storage/todoBackups';
+import { StorageBackendId } from '../storage/todoStorage';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../storage/todoTrash';
+import { ScopeTarget } from '../types/scope';
+
+/** What happens to completed todos: kept (`false`), deleted (`true`), or moved to the archive. */
+export type AutoDeleteCompletedSetting = boolean | 'archive';
+
 /** Public configuration surface read from VS Code settings. */
 export interface TodoConfig {
 	confirmDestructiveActions: boolean;
-	autoDeleteCompleted: boolean;
+	autoDeleteCompleted: AutoDeleteCompletedSetting;
 	autoDeleteDelayMs: number;
 	autoDeleteFadeMs: number;
 }
@@ -17,8 +25,74 @@ export function readConfig(): TodoConfig {
 	const configuration = vscode.workspace.getConfiguration('todo');
 	return {
 		confirmDestructiveActions: configuration.get<boolean>('confirmDestructiveActions', true),
-		autoDeleteCompleted: configuration.get<boolean>('autoDeleteCompleted', true),
+		autoDeleteCompleted: readAutoDeleteCompleted(configuration),
 		autoDeleteDelayMs: configuration.get<number>('autoDeleteDelayMs', 1500),
 		autoDeleteFadeMs: configuration.get<number>('autoDeleteFadeMs', 750),
 	};
-}
\ No newline at end of file
+}
+
+function readAutoDeleteCompleted(
+	configuration: vscode.WorkspaceConfiguration
+): AutoDeleteCompletedSetting {
+	const value = configuration.get<AutoDeleteCompletedSetting>('autoDeleteCompleted', true);
+	return value === 'archive' ? value : value !== false;
+}
+
+/**
+ * Reads how many days deleted todos stay in the trash; `0` disables the trash.
+ *
+ * @returns Non-negative number of days.
+ */
+export function readTrashRetentionDays(): number {
+	const days = vscode.workspace
+		.getConfiguration('todo')
+		.get<number>('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+	return Number.isFinite(days) && days > 0 ? days : 0;
+}
+
+/**
+ * Reads how many backups are kept per todo list; `0` disables backups.
+ *
+ * @returns Non-negative whole number of backups.
+ */
+export function readBackupRetentionCount(): number {
+	const count = vscode.workspace
+		.getConfiguration('todo')
+		.get<number>('backupRetentionCount', DEFAULT_BACKUP_RETENTION_COUNT);
+	return Number.isFinite(count) && count > 0 ? Math.floor(count) : 0;
+}
+
+/**
+ * Reads whether global todos stored in the profile should be included in Settings Sync.
+ *
+ * @returns True when `todo.syncGlobalTodos` is enabled.
+ */
+export function readSyncGlobalTodos(): boolean {
+	return vscode.workspace.getConfiguration('todo').get<boolean>('syncGlobalTodos', false);
+}
+
+/** Storage backend choices for `todo.globalStorage`. */
+export type GlobalStorageSetting = 'globalState' | 'file' | 'memory';
+
+/** Storage backend choices for `todo.projectStorage`. */
+export type ProjectStorageSetting = 'workspaceState' | 'file' | 'memory';
+
+/**
+ * Resolves the storage backend selected for a scope. `todo.projectStorage` is resource-scoped so
+ * each folder of a multi-root workspace can pick its backend (e.g. a shared `.vscode/todos.json`).
+ *
+ * @param scope - Scope whose backend should be resolved.
+ * @returns Backend identifier, defaulting to the VS Code mementos.
+ */
+export function readStorageBackend(scope: ScopeTarget): StorageBackendId {
+	if (scope.scope === 'global') {
+		const setting = vscode.workspace
+			.getConfiguration('todo')
+			.get<GlobalStorageSetting>('globalStorage', 'globalState');
+		return setting === 'file' || setting === 'memory' ? setting : 'memento';
+	}
+	const setting = vscode.workspace
+		.getConfiguration('todo', vscode.Uri.parse(scope.workspaceFolder))
+		.get<ProjectStorageSetting>('projectStorage', 'workspaceState');
+	return setting === 'file' || setting === 'memory' ? setting : 'memento';
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+
+import { TodoRepository } from '../todoRepository';
+import { ProviderMode, TodoWebviewHost } from '../todoWebviewHost';
+import { TodoChangeEvent, TodoChangeKind } from '../types';
+import { ScopeTarget } from '../types/scope';
+import {
+	buildWebviewStateSnapshot,
+	EmptyStateHints,
+	EmptyStateKind,
+} from '../webviewState';
+import { scopeToProviderMode } from './scopeMapping';
+
+/** Empty-state copy chosen for scopes affected by a change of the given kind. */
+const CHANGE_HINTS: Partial<Record<TodoChangeKind, EmptyStateKind>> = {
+	autoDelete: 'afterCompletion',
+	archive: 'afterCompletion',
+	reload: 'onInit',
+};
+
+/**
+ * Pushes fresh state to the webviews whenever the repository reports a change, limited to the
+ * providers that render the affected scopes, and at every local midnight so due date labels
+ * ("tomorrow", "overdue") stay current.
+ *
+ * @param repository - Repository whose change events drive the updates.
+ * @param host - Webview host that delivers the snapshots.
+ * @returns Disposable that stops listening for changes.
+ */
+export function registerStateBroadcast(
+	repository: TodoRepository,
+	host: TodoWebviewHost
+): vscode.Disposable {
+	const subscription = repository.onDidChange((event) =>
+		broadcastWebviewState(host, repository, buildChangeHints(event), affectedModes(event))
+	);
+	let midnightTimer: NodeJS.Timeout | undefined;
+	const scheduleMidnightRefresh = () => {
+		const now = new Date();
+		const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+		midnightTimer = setTimeout(() => {
+			broadcastWebviewState(host, repository);
+			scheduleMidnightRefresh();
+		}, midnight.getTime() - now.getTime());
+	};
+	scheduleMidnightRefresh();
+	return new vscode.Disposable(() => {
+		clearTimeout(midnightTimer);
+		subscription.dispose();
+	});
+}
+
+/**
+ * Sends the latest view state to the given providers (both by default).
+ *
+ * @param host - Webview host that manages both providers.
+ * @param repository - Todo repository to read data from.
+ * @param emptyStateHints - Optional hints to choose empty-state copy per scope.
+ * @param modes - Providers to update; omitted to update every provider.
+ */
+export function broadcastWebviewState(
+	host: TodoWebviewHost,
+	repository: TodoRepository,
+	emptyStateHints: EmptyStateHints = {},
+	modes?: ProviderMode[]
+): void {
+	const snapshot = buildWebviewStateSnapshot(repository, emptyStateHints);
+	if (!modes) {
+		host.broadcast({ type: 'stateUpdate', payload: snapshot });
+		return;
+	}
+	modes.forEach((mode) => host.postMessage(mode, { type: 'stateUpdate', payload: snapshot }));
+}
+
+/** Builds empty-state hints that mark every scope as freshly initialized. */
+export function buildInitEmptyStateHints(): EmptyStateHints {
+	const workspaces: Record<string, EmptyStateKind> = {};
+	(vscode.workspace.workspaceFolders ?? []).forEach((folder) => {
+		workspaces[folder.uri.toString()] = 'onInit';
+	});
+	return { global: 'onInit', workspaces };
+}
+
+/**
+ * Maps a change to empty-state hints: lists emptied by auto-delete or auto-archive get celebratory
+ * copy, freshly loaded lists (e.g. a workspace folder that was just added) get onboarding copy.
+ */
+function buildChangeHints(event: TodoChangeEvent): EmptyStateHints {
+	const kind = CHANGE_HINTS[event.kind];
+	if (!kind) {
+		return {};
+	}
+	const hints: EmptyStateHints = {};
+	event.scopes.forEach((scope) => addScopeHint(hints, scope, kind));
+	return hints;
+}
+
+function addScopeHint(hints: EmptyStateHints, scope: ScopeTarget, kind: EmptyStateKind): void {
+	if (scope.scope === 'global') {
+		hints.global = kind;
+		return;
+	}
+	hints.workspaces = { ...hints.workspaces, [scope.workspaceFolder]: kind };
+}
+
+/** Lists the providers rendering any of the changed scopes. */
+function affectedModes(event: TodoChangeEvent): ProviderMode[] {
+	return Array.from(new Set(event.scopes.map((scope) => scopeToProviderMode(scope))));
+}
@@ -1,31 +1,41 @@
+import * as l10n from '@vscode/l10n';
 import * as vscode from 'vscode';
 
 import { HandlerContext } from '../types/handlerContext';
 import { ScopeTarget } from '../types/scope';
 import { TodoRepository } from '../todoRepository';
-import { TodoWebviewHost, ProviderMode } from '../todoWebviewHost';
-import { reorderTodosByOrder } from '../domain/todo';
+import { ProviderMode } from '../todoWebviewHost';
+import {
+	indentTodo,
+	isDueDate,
+	isTodoAnchor,
+	outdentTodo,
+	parseTodoInput,
+	reorderTodosByOrder,
+	setDueDate,
+} from '../domain/todo';
+import { setRecurrence } from '../domain/recurrence';
+import { addSection, removeSection, renameSection } from '../services/sectionService';
 import {
 	clearScope as clearScopeService,
 	removeTodoWithUndo as removeTodoWithUndoService,
 } from '../services/todoOperations';
-import { Todo } from '../types';
+import { TodoAnchor } from '../types';
+import { revealTodoAnchor } from './codeAnchors';
 import { readConfig } from './config';
+import { broadcastWebviewState, buildInitEmptyStateHints } from './stateBroadcaster';
 import {
+	AddSectionMessage,
 	InboundMessage,
+	RemoveSectionMessage,
+	RenameSectionMessage,
 	WebviewMessageEvent,
 	WebviewScope,
 } from '../types/webviewMessages';
-import type { EmptyStateHints } from '../webviewState';
-
-/** Result of processing a webview mutation message. */
-interface MutationResult {
-	mutated: boolean;
-	broadcastHandled?: boolean;
-}
 
 /**
- * Routes incoming webview messages to repository operations and broadcasts state updates.
+ * Routes incoming webview messages to repository operations. State updates reach the webviews
+ * through the repository change event, so handlers only mutate.
  *
  * @param event - Message event from a specific webview provider.
  * @param context - Handler context containing repository and coordination utilities.
@@ -38,7 +48,19 @@ export async function handleWebviewMessage(
 	const { repository, webviewHost } = context;
 	const handlerContext: HandlerContext = context;
 	if (message.type === 'webviewReady') {
-		broadcastWebviewState(webviewHost, repository, buildInitEmptyStateHints());
+		broadcastWebviewState(webviewHost, repository, buildInitEmptyStateHints(), [event.mode]);
+		return;
+	}
+	if (message.type === 'inlineEditConflict') {
+		void vscode.window.showWarningMessage(l10n.t('webview.editConflict', message.title));
+		return;
+	}
+	if (message.type === 'revealAnchor') {
+		const scope = scopeFromWebviewScope(message.scope);
+		const todo = scope && repository.readTodos(scope).find((item) => item.id === message.todoId);
+		if (todo) {
+			await revealTodoAnchor(todo);
+		}
 		return;
 	}
 	if (message.type === 'clearScope') {
@@ -46,18 +68,18 @@ export async function handleWebviewMessage(
 		if (!scope) {
 			return;
 		}
-		await clearScopeService(handlerContext, scope, () =>
-			broadcastWebviewState(webviewHost, repository)
-		);
+		await clearScopeService(handlerContext, scope);
 		return;
 	}
-	const mutationResult = await handleWebviewMutation(message, handlerContext);
-	if (!mutationResult.mutated) {
+	if (
+		message.type === 'addSection' ||
+		message.type === 'renameSection' ||
+		message.type === 'removeSection'
+	) {
+		await handleWebviewSectionChange(message, handlerContext);
 		return;
 	}
-	if (!mutationResult.broadcastHandled) {
-		broadcastWebviewState(webviewHost, repository);
-	}
+	await handleWebviewMutation(message, handlerContext);
 }
 
 /**
@@ -65,108 +87,153 @@ export async function handleWebviewMessage(
  *
  * @param message - Message from the webview runtime.
  * @param context - Handler context for repository access.
- * @returns Whether a mutation occurred and if broadcasting has already happened.
+ * @returns Whether a mutation occurred.
  */
 async function handleWebviewMutation(
 	message: WebviewMessageEvent['message'],
 	context: HandlerContext
-): Promise<MutationResult> {
+): Promise<boolean> {
 	switch (message.type) {
 		case 'commitCreate':
-			return {
-				mutated: await handleWebviewCreate(context.repository, message.scope, message.title),
-			};
+			return handleWebviewCreate(
+				context.repository,
+				message.scope,
+				message.title,
+				message.section,
+				message.anchor
+			);
 		case 'commitEdit':
-			return {
-				mutated: await handleWebviewEdit(
-					context.repository,
-					message.scope,
-					message.todoId,
-					message.title
-				),
-			};
+			return handleWebviewEdit(
+				context.repository,
+				message.scope,
+				message.todoId,
+				message.title,
+				message.notes
+			);
 		case 'toggleComplete':
-			return {
-				mutated: await handleWebviewToggle(context, message.scope, message.todoId),
-			};
+			return handleWebviewToggle(context, message.scope, message.todoId);
 		case 'removeTodo':
 			return handleWebviewRemoveWithUndo(context, message.scope, message.todoId);
 		case 'reorderTodos':
-			return {
-				mutated: await handleWebviewReorder(
-					context.repository,
-					message.scope,
-					message.order
-				),
-			};
+			return handleWebviewReorder(
+				context.repository,
+				message.scope,
+				message.order,
+				message.moved
+			);
+		case 'changeTodoLevel':
+			return handleWebviewChangeLevel(
+				context.repository,
+				message.scope,
+				message.todoId,
+				message.direction
+			);
+		case 'setDueDate':
+			return handleWebviewSetDueDate(
+				context.repository,
+				message.scope,
+				message.todoId,
+				message.dueDate
+			);
+		case 'stopRecurrence':
+			return handleWebviewStopRecurrence(context.repository, message.scope, message.todoId);
+		case 'restoreArchived':
+			return handleWebviewRestoreArchived(context.repository, message.scope, message.todoIds);
 		default:
-			return { mutated: false };
+			return false;
 	}
 }
 
 /**
- * Handles creation of a todo originating from inline webview input.
+ * Handles creation of a todo originating from inline webview input; `#tag` tokens become tags and
+ * `!high`-style tokens the priority.
  *
  * @param repository - Repository to persist the new todo into.
  * @param scope - Scope descriptor from the webview.
- * @param title - Title entered by the user.
+ * @param title - Text entered by the user.
+ * @param section - Section the todo was added in; unset for todos outside any section.
+ * @param anchor - Code location from `todo.addTodoAtCursor`; ignored outside project lists.
  * @returns Whether a mutation occurred.
  */
 async function handleWebviewCreate(
 	repository: TodoRepository,
 	scope: WebviewScope,
-	title: string
+	title: string,
+	section?: string,
+	anchor?: TodoAnchor
 ): Promise<boolean> {
 	const target = scopeFromWebviewScope(scope);
-	const trimmed = title.trim();
-	if (!target || trimmed.length === 0) {
+	const parsed = parseTodoInput(title);
+	if (!target || parsed.title.length === 0) {
 		return false;
 	}
-	const todo = repository.createTodo({
-		title: trimmed,
-		scope: target.scope,
-		workspaceFolder: target.scope === 'workspace' ? target.workspaceFolder : undefined,
-	});
-	const todos = readTodos(repository, target);
-	todos.push(todo);
-	await persistTodos(repository, target, todos);
-	return true;
+	const persisted = await repository.mutate(target, 'create', (todos) => [
+		...todos,
+		repository.createTodo({
+			title: parsed.title,
+			tags: parsed.tags,
+			priority: parsed.priority,
+			scope: target.scope,
+			workspaceFolder: target.scope === 'workspace' ? target.workspaceFolder : undefined,
+			section,
+			anchor: target.scope === 'workspace' && isTodoAnchor(anchor) ? anchor : undefined,
+		}),
+	]);
+	return persisted !== undefined;
 }
 
 /**
- * Handles inline edit commit from the webview.
+ * Handles inline edit commit from the webview; `#tag` and `!high`-style tokens replace the tags and
+ * priority of the todo.
  *
  * @param repository - Repository to persist changes into.
  * @param scope - Scope descriptor from the webview.
  * @param todoId - Todo identifier being edited.
- * @param title - Updated title.
+ * @param title - Updated text including tag tokens.
+ * @param notes - Updated Markdown notes; blank notes are removed, unset keeps the current notes.
  * @returns Whether a mutation occurred.
  */
 async function handleWebviewEdit(
 	repository: TodoRepository,
 	scope: WebviewScope,
 	todoId: string,
-	title: string
+	title: string,
+	notes?: string
 ): Promise<boolean> {
 	const target = scopeFromWebviewScope(scope);
 	if (!target) {
 		return false;
 	}
-	const trimmed = title.trim();
-	if (trimmed.length === 0) {
+	const parsed = parseTodoInput(title);
+	if (parsed.title.length === 0) {
 		return false;
 	}
-	const todos = readTodos(repository, target);
-	const todo = todos.find((item) => item.id === todoId);
-	if (!todo) {
-		return false;
-	}
-	todo.title = trimmed;
-	todo.updatedAt = new Date().toISOString();
-	await persistTodos(repository, target, todos);
-	return true;
+	const persisted = await repository.mutate(target, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === todoId);
+		if (!todo) {
+			return undefined;
+		}
+		todo.title = parsed.title;
+		todo.tags = parsed.tags.length > 0 ? parsed.tags : undefined;
+		todo.priority = parsed.priority;
+		if (notes !== undefined) {
+			todo.notes = notes.trim().length > 0 ? notes.trimEnd() : undefined;
+		}
+		todo.updatedAt = new Date().toISOString();
+		return todos;
+	});
+	return persisted !== undefined;
 }
 
+/**
+ * Toggles completion of a todo from its row's checkbox. Completing a recurring todo archives it
+ * and adds the next occurrence instead of scheduling auto-delete.
+ *
+ * @param context - Handler context with repository and auto-delete coordinator.
+ * @param scope - Scope descriptor from the webview.
+ * @param todoId - Todo identifier to toggle.
+ * @returns Whether a mutation occurred.
+ */
 async function handleWebviewToggle(
 	context: HandlerContext,
 	scope: WebviewScope,
@@ -176,18 +243,17 @@ async function handleWebviewToggle(
 	if (!target) {
 		return false;
 	}
-	const todos = readTodos(context.repository, target);
-	const todo = todos.find((item) => item.id === todoId);
-	if (!todo) {
+	const entry = await context.repository.toggleTodo(target, todoId);
+	if (!entry) {
 		return false;
 	}
-	todo.completed = !todo.completed;
-	todo.updatedAt = new Date().toISOString();
-	await persistTodos(context.repository, target, todos);
-	if (todo.completed) {
-		context.autoDelete.schedule(context, target, todo.id, readConfig());
+	if (entry.kind === 'recur') {
+		return true;
+	}
+	if (entry.after.find((item) => item.id === todoId)?.completed) {
+		context.autoDelete.schedule(context, target, todoId, readConfig());
 	} else {
-		context.autoDelete.cancel(target, todo.id);
+		context.autoDelete.cancel(target, todoId);
 	}
 	return true;
 }
@@ -198,23 +264,18 @@ async function handleWebviewToggle(
  * @param context - Handler context with repository and webview host.
  * @param scope - Scope descriptor from the webview.
  * @param todoId - Todo identifier to remove.
+ * @returns Whether a todo was removed.
  */
 async function handleWebviewRemoveWithUndo(
 	context: HandlerContext,
 	scope: WebviewScope,
 	todoId: string
-): Promise<MutationResult> {
+): Promise<boolean> {
 	const target = scopeFromWebviewScope(scope);
 	if (!target) {
-		return { mutated: false };
+		return false;
 	}
-	const removed = await removeTodoWithUndoService(
-		context,
-		target,
-		todoId,
-		() => broadcastWebviewState(context.webviewHost, context.repository)
-	);
-	return { mutated: removed, broadcastHandled: removed };
+	return removeTodoWithUndoService(context, target, todoId);
 }
 
 /**
@@ -222,94 +283,164 @@ async function handleWebviewRemoveWithUndo(
  *
  * @param repository - Repository to persist ordering into.
  * @param scope - Scope descriptor from the webview.
- * @param order - Ordered todo IDs from the webview DOM.
+ * @param order - Ordered todo IDs from the webview, parents before subtasks.
+ * @param moved - Dropped todo with its new parent and section when the drop changed either.
  * @returns Whether any positions were updated.
  */
 async function handleWebviewReorder(
 	repository: TodoRepository,
 	scope: WebviewScope,
-	order: string[]
+	order: string[],
+	moved?: { todoId: string; parentId?: string; section?: string }
 ): Promise<boolean> {
 	const target = scopeFromWebviewScope(scope);
 	if (!target) {
 		return false;
 	}
-	const todos = readTodos(repository, target);
-	if (todos.length <= 1) {
-		return false;
-	}
-	const reordered = reorderTodosByOrder(todos, order);
-	if (!reordered) {
+	const persisted = await repository.mutate(target, 'reorder', (todos) =>
+		(todos.length > 1 || moved) && reorderTodosByOrder(todos, order, moved) ? todos : undefined
+	);
+	return persisted !== undefined;
+}
+
+/**
+ * Indents a todo under the todo above it or outdents a subtask, triggered by Tab/Shift+Tab in the
+ * inline editor.
+ *
+ * @param repository - Repository to persist the change into.
+ * @param scope - Scope descriptor from the webview.
+ * @param todoId - Todo identifier to move.
+ * @param direction - Whether the todo moves one level down or up.
+ * @returns Whether the todo was moved.
+ */
+async function handleWebviewChangeLevel(
+	repository: TodoRepository,
+	scope: WebviewScope,
+	todoId: string,
+	direction: 'indent' | 'outdent'
+): Promise<boolean> {
+	const target = scopeFromWebviewScope(scope);
+	if (!target) {
 		return false;
 	}
-	await persistTodos(repository, target, todos);
-	return true;
+	const persisted = await repository.mutate(target, 'reorder', (todos) => {
+		const changed =
+			direction === 'indent' ? indentTodo(todos, todoId) : outdentTodo(todos, todoId);
+		return changed ? todos : undefined;
+	});
+	return persisted !== undefined;
 }
 
 /**
- * Broadcasts the latest state to both webview providers.
+ * Sets or removes the due date of a todo from the date input of its row's edit mode.
  *
- * @param host - Webview host responsible for dispatch.
- * @param repository - Repository supplying the state snapshot.
+ * @param repository - Repository to persist the change into.
+ * @param scope - Scope descriptor from the webview.
+ * @param todoId - Todo identifier to update.
+ * @param dueDate - New due date (`YYYY-MM-DD`); unset to remove it.
+ * @returns Whether the due date changed.
  */
-function broadcastWebviewState(
-	host: TodoWebviewHost,
+async function handleWebviewSetDueDate(
 	repository: TodoRepository,
-	emptyStateHints: EmptyStateHints = {}
-): void {
-	// Lazy import to avoid circular dep on extension.ts
-	const webviewStateModule = require('../webviewState') as typeof import('../webviewState');
-	const snapshot = webviewStateModule.buildWebviewStateSnapshot(repository, emptyStateHints);
-	host.broadcast({ type: 'stateUpdate', payload: snapshot });
+	scope: WebviewScope,
+	todoId: string,
+	dueDate?: string
+): Promise<boolean> {
+	const target = scopeFromWebviewScope(scope);
+	if (!target || (dueDate !== undefined && !isDueDate(dueDate))) {
+		return false;
+	}
+	const persisted = await repository.mutate(target, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === todoId);
+		return todo && setDueDate(todo, dueDate) ? todos : undefined;
+	});
+	return persisted !== undefined;
 }
 
-function buildInitEmptyStateHints(): EmptyStateHints {
-	const workspaces: EmptyStateHints['workspaces'] = {};
-	(vscode.workspace.workspaceFolders ?? []).forEach((folder) => {
-		if (workspaces) {
-			workspaces[folder.uri.toString()] = 'onInit';
-		}
+/**
+ * Ends the series of a recurring todo from its row's stop button; the todo keeps its due date.
+ *
+ * @param repository - Repository to persist the change into.
+ * @param scope - Scope descriptor from the webview.
+ * @param todoId - Todo identifier to update.
+ * @returns Whether the todo was recurring.
+ */
+async function handleWebviewStopRecurrence(
+	repository: TodoRepository,
+	scope: WebviewScope,
+	todoId: string
+): Promise<boolean> {
+	const target = scopeFromWebviewScope(scope);
+	if (!target) {
+		return false;
+	}
+	const persisted = await repository.mutate(target, 'edit', (todos) => {
+		const todo = todos.find((item) => item.id === todoId);
+		return todo && setRecurrence(todo, undefined) ? todos : undefined;
 	});
-	return { global: 'onInit', workspaces };
+	return persisted !== undefined;
 }
 
 /**
- * Converts a webview scope descriptor into the repository scope target.
+ * Adds, renames, or removes a section as requested from a section header in the webview.
  *
- * @param scope - Scope descriptor received from the webview.
- * @returns Scope target or undefined when workspace info is missing.
+ * @param message - Section message from the webview runtime.
+ * @param context - Handler context for repository access.
  */
-function scopeFromWebviewScope(scope: WebviewScope): ScopeTarget | undefined {
-	if (scope.scope === 'global') {
-		return { scope: 'global' };
+async function handleWebviewSectionChange(
+	message: AddSectionMessage | RenameSectionMessage | RemoveSectionMessage,
+	context: HandlerContext
+): Promise<void> {
+	const target = scopeFromWebviewScope(message.scope);
+	if (!target) {
+		return;
 	}
-	if (!scope.workspaceFolder) {
-		return undefined;
+	switch (message.type) {
+		case 'addSection':
+			await addSection(context, target);
+			return;
+		case 'renameSection':
+			await renameSection(context, target, message.section);
+			return;
+		case 'removeSection':
+			await removeSection(context, target, message.section);
+			return;
 	}
-	return { scope: 'workspace', workspaceFolder: scope.workspaceFolder };
 }
 
 /**
- * Reads todos for a scope using the repository helper.
+ * Moves archived todos back to the active list of their scope.
  *
- * @param repository - Repository to query.
- * @param scope - Scope target describing global or workspace storage.
+ * @param repository - Repository holding the archive.
+ * @param scope - Scope descriptor from the webview.
+ * @param todoIds - Archived todo IDs to restore.
+ * @returns Whether any todo was restored.
  */
-function readTodos(repository: TodoRepository, scope: ScopeTarget): Todo[] {
-	return repository.readTodos(scope);
+async function handleWebviewRestoreArchived(
+	repository: TodoRepository,
+	scope: WebviewScope,
+	todoIds: string[]
+): Promise<boolean> {
+	const target = scopeFromWebviewScope(scope);
+	if (!target) {
+		return false;
+	}
+	const restored = await repository.restoreArchivedTodos(target, todoIds);
+	return restored !== undefined;
 }
 
 /**
- * Persists todos for a scope using the repository helper.
+ * Converts a webview scope descriptor into the repository scope target.
  *
- * @param repository - Repository to write to.
- * @param scope - Scope target describing global or workspace storage.
- * @param todos - Todos to persist.
+ * @param scope - Scope descriptor received from the webview.
+ * @returns Scope target or undefined when workspace info is missing.
  */
-async function persistTodos(
-	repository: TodoRepository,
-	scope: ScopeTarget,
-	todos: Todo[]
-): Promise<void> {
-	await repository.persistTodos(scope, todos);
+function scopeFromWebviewScope(scope: WebviewScope): ScopeTarget | undefined {
+	if (scope.scope === 'global') {
+		return { scope: 'global' };
+	}
+	if (!scope.workspaceFolder) {
+		return undefined;
+	}
+	return { scope: 'workspace', workspaceFolder: scope.workspaceFolder };
 }
@@ -0,0 +1,107 @@
+import { TodoAnchor } from '../types';
+
+/** Replacement of a range of a document by new text; positions refer to the text before the change. */
+export interface AnchorChange {
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+	text: string;
+}
+
+/** Zero-based line and column in a document. */
+type Position = { line: number; column: number };
+
+/**
+ * Moves an anchor along with a change of its file. Changes before the anchor shift it, changes
+ * inside it resize it, and replacing the whole anchored text anchors the replacement instead.
+ * Deleting the whole anchored text marks the anchor as stale, keeping it where the text was.
+ * Empty anchors only count as deleted when the deleted range surrounds them.
+ *
+ * @param anchor - Anchor in the file before the change.
+ * @param change - Change applied to the file.
+ * @returns The moved anchor, or the same anchor when the change does not affect it.
+ */
+export function trackAnchor(anchor: TodoAnchor, change: AnchorChange): TodoAnchor {
+	const start = { line: anchor.startLine, column: anchor.startColumn };
+	const end = { line: anchor.endLine, column: anchor.endColumn };
+	const from = { line: change.startLine, column: change.startColumn };
+	const to = { line: change.endLine, column: change.endColumn };
+	const inserted = insertedEnd(from, change.text);
+	let next: { start: Position; end: Position; stale?: boolean };
+	if (comparePositions(to, start) <= 0) {
+		next = { start: shiftPosition(start, to, inserted), end: shiftPosition(end, to, inserted) };
+	} else if (comparePositions(from, end) >= 0) {
+		return anchor;
+	} else if (comparePositions(from, start) <= 0 && comparePositions(to, end) >= 0) {
+		next =
+			change.text.length === 0
+				? { start: from, end: from, stale: true }
+				: { start: from, end: inserted, stale: anchor.stale };
+	} else {
+		next = {
+			start: comparePositions(start, from) <= 0 ? start : from,
+			end: comparePositions(end, to) >= 0 ? shiftPosition(end, to, inserted) : inserted,
+			stale: anchor.stale,
+		};
+	}
+	const moved: TodoAnchor = {
+		path: anchor.path,
+		startLine: next.start.line,
+		startColumn: next.start.column,
+		endLine: next.end.line,
+		endColumn: next.end.column,
+		...(next.stale ? { stale: true } : {}),
+	};
+	return isSameAnchor(anchor, moved) ? anchor : moved;
+}
+
+/**
+ * Points an anchor at the new path of a renamed file, or of a file inside a renamed folder.
+ *
+ * @param anchor - Anchor to update.
+ * @param oldPath - Previous path of the file or folder, relative to the workspace folder.
+ * @param newPath - New path of the file or folder, relative to the workspace folder.
+ * @returns The anchor with the new path, or the same anchor when it is not inside the renamed path.
+ */
+export function renameAnchor(anchor: TodoAnchor, oldPath: string, newPath: string): TodoAnchor {
+	if (anchor.path === oldPath) {
+		return { ...anchor, path: newPath };
+	}
+	if (anchor.path.startsWith(`${oldPath}/`)) {
+		return { ...anchor, path: `${newPath}${anchor.path.slice(oldPath.length)}` };
+	}
+	return anchor;
+}
+
+/** Returns where text inserted at a position ends. */
+function insertedEnd(from: Position, text: string): Position {
+	const lines = text.split(/\r\n|\r|\n/);
+	const last = lines[lines.length - 1];
+	return lines.length === 1
+		? { line: from.line, column: from.column + last.length }
+		: { line: from.line + lines.length - 1, column: last.length };
+}
+
+/** Moves a position at or after the end of a change to where it is once the change is applied. */
+function shiftPosition(position: Position, to: Position, inserted: Position): Position {
+	if (position.line === to.line) {
+		return { line: inserted.line, column: inserted.column + position.column - to.column };
+	}
+	return { line: position.line + inserted.line - to.line, column: position.column };
+}
+
+function comparePositions(a: Position, b: Position): number {
+	return a.line - b.line || a.column - b.column;
+}
+
+function isSameAnchor(a: TodoAnchor, b: TodoAnchor): boolean {
+	return (
+		a.path === b.path &&
+		a.startLine === b.startLine &&
+		a.startColumn === b.startColumn &&
+		a.endLine === b.endLine &&
+		a.endColumn === b.endColumn &&
+		Boolean(a.stale) === Boolean(b.stale)
+	);
+}
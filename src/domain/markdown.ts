@@ -0,0 +1,132 @@
+/** Link targets kept when rendering Markdown; other links render as plain text. */
+const SAFE_URL_PATTERN = /^(?:https?:|mailto:)/i;
+
+/**
+ * Renders the Markdown of todo notes to HTML for the webview. The input is HTML-escaped before
+ * any formatting is applied, so raw HTML in notes shows up as text, and links keep only `http(s)`
+ * and `mailto` targets. Supports paragraphs, headings, bullet, numbered, and task lists, block
+ * quotes, fenced code blocks, and inline code, emphasis, strikethrough, and links.
+ *
+ * @param markdown - Notes text.
+ * @returns Sanitized HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+	const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+	const html: string[] = [];
+	let paragraph: string[] = [];
+	let quote: string[] = [];
+	let list: { tag: 'ul' | 'ol'; items: string[] } | undefined;
+
+	const flush = () => {
+		if (paragraph.length > 0) {
+			html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+			paragraph = [];
+		}
+		if (quote.length > 0) {
+			html.push(`<blockquote>${quote.map(renderInline).join('<br>')}</blockquote>`);
+			quote = [];
+		}
+		if (list) {
+			html.push(`<${list.tag}>${list.items.map((item) => `<li>${item}</li>`).join('')}</${list.tag}>`);
+			list = undefined;
+		}
+	};
+
+	for (let index = 0; index < lines.length; index++) {
+		const line = lines[index];
+		if (/^\s*```/.test(line)) {
+			flush();
+			const code: string[] = [];
+			while (index + 1 < lines.length && !/^\s*```/.test(lines[index + 1])) {
+				code.push(lines[++index]);
+			}
+			index++;
+			html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+			continue;
+		}
+		if (line.trim().length === 0) {
+			flush();
+			continue;
+		}
+		const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+		if (heading) {
+			flush();
+			const level = heading[1].length;
+			html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+			continue;
+		}
+		const item = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+		if (item) {
+			const tag = item[1] ? 'ul' : 'ol';
+			if (list?.tag !== tag) {
+				flush();
+				list = { tag, items: [] };
+			}
+			list.items.push(renderListItem(item[2]));
+			continue;
+		}
+		const quoted = /^\s*>\s?(.*)$/.exec(line);
+		if (quoted) {
+			if (quote.length === 0) {
+				flush();
+			}
+			quote.push(quoted[1]);
+			continue;
+		}
+		if (list && /^\s/.test(line)) {
+			list.items[list.items.length - 1] += `<br>${renderInline(line.trim())}`;
+			continue;
+		}
+		if (paragraph.length === 0) {
+			flush();
+		}
+		paragraph.push(line.trim());
+	}
+	flush();
+	return html.join('');
+}
+
+/** Renders a list item, turning a leading `[ ]` or `[x]` into a read-only checkbox. */
+function renderListItem(text: string): string {
+	const task = /^\[([ xX])\]\s+(.*)$/.exec(text);
+	if (!task) {
+		return renderInline(text);
+	}
+	const checked = task[1] === ' ' ? '' : ' checked';
+	return `<input type="checkbox" disabled${checked}> ${renderInline(task[2])}`;
+}
+
+/** Renders inline formatting; code spans are cut out first so their content stays literal. */
+function renderInline(text: string): string {
+	return text
+		.split(/(`[^`]+`)/)
+		.map((part, index) =>
+			index % 2 === 1 ? `<code>${escapeHtml(part.slice(1, -1))}</code>` : formatText(escapeHtml(part))
+		)
+		.join('');
+}
+
+/** Applies links, emphasis, and strikethrough to already escaped text. */
+function formatText(escaped: string): string {
+	return escaped
+		.replace(/\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g, (_match, label: string, url: string) =>
+			SAFE_URL_PATTERN.test(url) ? `<a href="${url}">${label}</a>` : label
+		)
+		.replace(/\*\*(?!\s)(.+?)(?<!\s)\*\*|__(?!\s)(.+?)(?<!\s)__/g, (_match, stars, underscores) =>
+			`<strong>${stars ?? underscores}</strong>`
+		)
+		.replace(/\*(?!\s)(.+?)(?<!\s)\*|(?<![\p{L}\p{N}])_(?!\s)(.+?)(?<!\s)_(?![\p{L}\p{N}])/gu,
+			(_match, stars, underscores) => `<em>${stars ?? underscores}</em>`
+		)
+		.replace(/~~(?!\s)(.+?)(?<!\s)~~/g, '<del>$1</del>');
+}
+
+/** Escapes the characters with a meaning in HTML text and attributes. */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
@@ -0,0 +1,166 @@
+import { Todo, TodoRecurrence } from '../types';
+import { isDueDate, toDueDate } from './todo';
+
+/** Longest interval accepted for `every N days` rules. */
+export const MAX_RECURRENCE_INTERVAL_DAYS = 365;
+
+/**
+ * Checks that a value is a recurrence rule with valid parameters.
+ *
+ * @param value - Value to check.
+ */
+export function isTodoRecurrence(value: unknown): value is TodoRecurrence {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const rule = value as Partial<Record<'frequency' | 'weekday' | 'day' | 'days', unknown>>;
+	const inRange = (number: unknown, min: number, max: number) =>
+		Number.isInteger(number) && (number as number) >= min && (number as number) <= max;
+	switch (rule.frequency) {
+		case 'daily':
+		case 'weekdays':
+			return true;
+		case 'weekly':
+			return inRange(rule.weekday, 0, 6);
+		case 'monthly':
+			return inRange(rule.day, 1, 31);
+		case 'interval':
+			return inRange(rule.days, 1, MAX_RECURRENCE_INTERVAL_DAYS);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Computes the due date of the occurrence following a completed one: the first day matching the
+ * rule after the completed occurrence's due date (today without one) that is still ahead, so
+ * completing an overdue todo does not add an occurrence that is overdue already.
+ *
+ * @param recurrence - Rule of the todo.
+ * @param dueDate - Due date of the completed occurrence in `YYYY-MM-DD` form, if it had one.
+ * @param today - Current date; its local calendar day is used.
+ * @returns Due date of the next occurrence in `YYYY-MM-DD` form.
+ */
+export function nextDueDate(
+	recurrence: TodoRecurrence,
+	dueDate: string | undefined,
+	today = new Date()
+): string {
+	const start = toDueDate(today);
+	let next = isDueDate(dueDate) ? dueDate : start;
+	do {
+		next = stepDueDate(recurrence, next);
+	} while (next <= start);
+	return next;
+}
+
+/**
+ * Computes the due date of the first occurrence when a rule is set on a todo without a due date:
+ * today when it matches the rule (always for `every N days`), otherwise the next matching day.
+ *
+ * @param recurrence - Rule set on the todo.
+ * @param today - Current date; its local calendar day is used.
+ * @returns Due date in `YYYY-MM-DD` form.
+ */
+export function firstDueDate(recurrence: TodoRecurrence, today = new Date()): string {
+	const start = toDueDate(today);
+	return recurrence.frequency === 'interval' ? start : stepDueDate(recurrence, addDays(start, -1));
+}
+
+/**
+ * Sets or removes the recurrence rule of a todo. A todo without a due date gets the first day
+ * matching the new rule as due date, so its row shows when the next occurrence is due.
+ *
+ * @param todo - Todo to update (mutated in place).
+ * @param recurrence - New rule; unset to stop the series.
+ * @param today - Current date, used for the due date and `updatedAt`.
+ * @returns True when the rule changed.
+ */
+export function setRecurrence(
+	todo: Todo,
+	recurrence: TodoRecurrence | undefined,
+	today = new Date()
+): boolean {
+	if (isSameRecurrence(todo.recurrence, recurrence)) {
+		return false;
+	}
+	todo.recurrence = recurrence;
+	if (recurrence && todo.dueDate === undefined) {
+		todo.dueDate = firstDueDate(recurrence, today);
+	}
+	todo.updatedAt = today.toISOString();
+	return true;
+}
+
+/**
+ * Checks whether two recurrence rules repeat on the same days.
+ *
+ * @param a - First rule; unset for one-off todos.
+ * @param b - Second rule; unset for one-off todos.
+ */
+export function isSameRecurrence(
+	a: TodoRecurrence | undefined,
+	b: TodoRecurrence | undefined
+): boolean {
+	if (!a || !b) {
+		return a === b;
+	}
+	switch (a.frequency) {
+		case 'weekly':
+			return b.frequency === 'weekly' && a.weekday === b.weekday;
+		case 'monthly':
+			return b.frequency === 'monthly' && a.day === b.day;
+		case 'interval':
+			return b.frequency === 'interval' && a.days === b.days;
+		default:
+			return a.frequency === b.frequency;
+	}
+}
+
+/** Returns the first day after a due date that matches the rule. */
+function stepDueDate(recurrence: TodoRecurrence, dueDate: string): string {
+	switch (recurrence.frequency) {
+		case 'daily':
+			return addDays(dueDate, 1);
+		case 'weekdays': {
+			let next = addDays(dueDate, 1);
+			while (weekdayOf(next) === 0 || weekdayOf(next) === 6) {
+				next = addDays(next, 1);
+			}
+			return next;
+		}
+		case 'weekly':
+			return addDays(dueDate, ((recurrence.weekday - weekdayOf(dueDate) + 6) % 7) + 1);
+		case 'monthly': {
+			const [year, month, day] = dueDate.split('-').map(Number);
+			const inMonth = Math.min(recurrence.day, daysInMonth(year, month));
+			if (inMonth > day) {
+				return formatDay(year, month, inMonth);
+			}
+			const [nextYear, nextMonth] = month === 12 ? [year + 1, 1] : [year, month + 1];
+			return formatDay(nextYear, nextMonth, Math.min(recurrence.day, daysInMonth(nextYear, nextMonth)));
+		}
+		case 'interval':
+			return addDays(dueDate, recurrence.days);
+	}
+}
+
+function addDays(dueDate: string, days: number): string {
+	const [year, month, day] = dueDate.split('-').map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day + days));
+	return formatDay(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+function weekdayOf(dueDate: string): number {
+	const [year, month, day] = dueDate.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+	return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function formatDay(year: number, month: number, day: number): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${year}-${pad(month)}-${pad(day)}`;
+}
@@ -1,32 +1,464 @@
-import { Todo } from '../types';
+import { Todo, TodoAnchor, TodoPriority, TodoReplica, TodoTombstone } from '../types';
+
+/** Todo fields describing where a todo sits in its list. */
+type TodoPlacement = Pick<Todo, 'id' | 'position' | 'parentId' | 'section'>;
 
 /**
- * Normalizes todo positions to be sequential starting at 1 while preserving order.
+ * Normalizes todo positions to be sequential starting at 1 within each sibling group while
+ * preserving order. Subtasks whose parent is not in the list (or that are part of a parent cycle)
+ * become top-level todos, and subtasks are moved into their parent's section.
  *
  * @param todos - List of todos to normalize.
  * @returns A new array with stable ordering and compact positions.
  */
 export function normalizePositions(todos: Todo[]): Todo[] {
-	return [...todos]
+	const detached = findDetachedSubtasks(todos);
+	const sections = new Map<string, string | undefined>();
+	orderTodoTree(todos).forEach(({ todo, depth }) => {
+		sections.set(todo.id, depth > 0 ? sections.get(todo.parentId as string) : todo.section);
+	});
+	return compactPositions(
+		[...todos]
+			.sort((a, b) => a.position - b.position)
+			.map((todo) => (detached.has(todo.id) ? { ...todo, parentId: undefined } : todo))
+			.map((todo) =>
+				todo.section === sections.get(todo.id)
+					? todo
+					: { ...todo, section: sections.get(todo.id) }
+			)
+	);
+}
+
+/**
+ * Identifies the group a todo is numbered in: the subtasks of its parent, or the top-level todos
+ * of its section.
+ *
+ * @param todo - Todo to look up.
+ * @returns A key shared by all siblings of the todo.
+ */
+export function siblingGroupKey(todo: Pick<Todo, 'parentId' | 'section'>): string {
+	return todo.parentId !== undefined ? `parent:${todo.parentId}` : `section:${todo.section ?? ''}`;
+}
+
+/**
+ * Renumbers positions to be sequential starting at 1 within each sibling group, keeping the given
+ * order.
+ *
+ * @param todos - Todos in their intended order.
+ * @returns A new array in the same order with compact positions.
+ */
+export function compactPositions<T extends TodoPlacement>(todos: readonly T[]): T[] {
+	const counters = new Map<string, number>();
+	return todos.map((todo) => {
+		const group = siblingGroupKey(todo);
+		const position = (counters.get(group) ?? 0) + 1;
+		counters.set(group, position);
+		return { ...todo, position };
+	});
+}
+
+/**
+ * Finds subtasks that cannot stay attached: their parent is missing from the list, or they are
+ * their own ancestor.
+ *
+ * @param todos - Todos of one list.
+ * @returns IDs of the todos that should become top-level todos.
+ */
+export function findDetachedSubtasks(todos: readonly Pick<Todo, 'id' | 'parentId'>[]): Set<string> {
+	const parents = new Map(todos.map((todo) => [todo.id, todo.parentId]));
+	const detached = new Set<string>();
+	todos.forEach((todo) => {
+		if (todo.parentId === undefined) {
+			return;
+		}
+		if (!parents.has(todo.parentId)) {
+			detached.add(todo.id);
+			return;
+		}
+		// Walk up the ancestors; a cycle further up is detached when its own members are visited.
+		const seen = new Set<string>();
+		let parentId: string | undefined = todo.parentId;
+		while (parentId !== undefined && parents.has(parentId) && !seen.has(parentId)) {
+			if (parentId === todo.id) {
+				detached.add(todo.id);
+				return;
+			}
+			seen.add(parentId);
+			parentId = parents.get(parentId);
+		}
+	});
+	return detached;
+}
+
+/**
+ * Orders todos depth-first so every todo is followed by its subtasks; siblings are sorted by
+ * position. Subtasks whose parent is missing are listed as top-level todos.
+ *
+ * @param todos - Todos of one list.
+ * @returns The todos in display order together with their nesting depth (0 for top-level todos).
+ */
+export function orderTodoTree<T extends TodoPlacement>(
+	todos: readonly T[]
+): Array<{ todo: T; depth: number }> {
+	const detached = findDetachedSubtasks(todos);
+	const children = new Map<string | undefined, T[]>();
+	[...todos]
 		.sort((a, b) => a.position - b.position)
-		.map((todo, index) => ({
-			...todo,
-			position: index + 1,
-		}));
+		.forEach((todo) => {
+			const parentId = detached.has(todo.id) ? undefined : todo.parentId;
+			children.set(parentId, [...(children.get(parentId) ?? []), todo]);
+		});
+	const result: Array<{ todo: T; depth: number }> = [];
+	const visit = (parentId: string | undefined, depth: number) => {
+		(children.get(parentId) ?? []).forEach((todo) => {
+			result.push({ todo, depth });
+			visit(todo.id, depth + 1);
+		});
+	};
+	visit(undefined, 0);
+	return result;
+}
+
+/**
+ * Collects a todo together with all of its subtasks, at any depth.
+ *
+ * @param todos - Todos of one list.
+ * @param todoId - ID of the todo at the top of the subtree.
+ * @returns IDs of the todo and its descendants.
+ */
+export function collectSubtree(
+	todos: readonly Pick<Todo, 'id' | 'parentId'>[],
+	todoId: string
+): Set<string> {
+	const subtree = new Set([todoId]);
+	let grown = true;
+	while (grown) {
+		grown = false;
+		todos.forEach((todo) => {
+			if (todo.parentId !== undefined && subtree.has(todo.parentId) && !subtree.has(todo.id)) {
+				subtree.add(todo.id);
+				grown = true;
+			}
+		});
+	}
+	return subtree;
 }
 
 /**
- * Reorders todos in place based on a provided ID order. Unmapped items are appended.
- * Returns whether any positions changed.
+ * Turns a todo into the last subtask of the sibling right above it.
+ *
+ * @param todos - Todos of the list (mutated in place).
+ * @param todoId - ID of the todo to indent.
+ * @param now - Timestamp applied to `updatedAt`.
+ * @returns True when the todo was moved; false for the first todo among its siblings.
+ */
+export function indentTodo(todos: Todo[], todoId: string, now = new Date().toISOString()): boolean {
+	const todo = todos.find((item) => item.id === todoId);
+	if (!todo) {
+		return false;
+	}
+	const above = todos
+		.filter(
+			(item) =>
+				siblingGroupKey(item) === siblingGroupKey(todo) && item.position < todo.position
+		)
+		.sort((a, b) => b.position - a.position)[0];
+	if (!above) {
+		return false;
+	}
+	todo.parentId = above.id;
+	todo.position = todos
+		.filter((item) => item.parentId === above.id && item !== todo)
+		.reduce((max, item) => Math.max(max, item.position + 1), 1);
+	todo.updatedAt = now;
+	return true;
+}
+
+/**
+ * Moves a subtask up one level, placing it right after its former parent. Its own subtasks move
+ * with it.
+ *
+ * @param todos - Todos of the list (mutated in place).
+ * @param todoId - ID of the subtask to outdent.
+ * @param now - Timestamp applied to `updatedAt` of every todo whose position changes.
+ * @returns True when the todo was moved; false for top-level todos.
+ */
+export function outdentTodo(todos: Todo[], todoId: string, now = new Date().toISOString()): boolean {
+	const todo = todos.find((item) => item.id === todoId);
+	const parent = todos.find((item) => item.id === todo?.parentId);
+	if (!todo || !parent) {
+		return false;
+	}
+	todos
+		.filter(
+			(item) =>
+				siblingGroupKey(item) === siblingGroupKey(parent) && item.position > parent.position
+		)
+		.forEach((item) => {
+			item.position += 1;
+			item.updatedAt = now;
+		});
+	todo.parentId = parent.parentId;
+	todo.position = parent.position + 1;
+	todo.updatedAt = now;
+	return true;
+}
+
+/** Priorities from most to least important. */
+export const TODO_PRIORITIES: readonly TodoPriority[] = ['high', 'medium', 'low'];
+
+/** Matches `#tag` tokens: a letter followed by letters, digits, `_`, `-`, or `/`. */
+const TAG_PATTERN = /(^|\s)#(\p{L}[\p{L}\p{N}_\-/]*)(?=\s|$)/gu;
+
+/** Matches `!high`, `!medium`, and `!low` priority tokens in any letter case. */
+const PRIORITY_PATTERN = /(^|\s)!(high|medium|low)(?=\s|$)/giu;
+
+/**
+ * Splits inline input into a title, the tags given as `#tag` tokens, and the priority given as
+ * `!high`, `!medium`, or `!low` (the last one wins). Tags are lowercased and deduplicated; tokens
+ * that do not start with a letter (e.g. issue numbers like `#42`) stay in the title. Input made of
+ * tokens only is kept as the title.
+ *
+ * @param input - Text entered in the inline create or edit field.
+ * @returns The title without tokens, the tags in order of appearance, and the priority if given.
+ */
+export function parseTodoInput(input: string): {
+	title: string;
+	tags: string[];
+	priority?: TodoPriority;
+} {
+	const tags: string[] = [];
+	let priority: TodoPriority | undefined;
+	const title = input
+		.replace(TAG_PATTERN, (_match, lead: string, tag: string) => {
+			const normalized = tag.toLowerCase();
+			if (!tags.includes(normalized)) {
+				tags.push(normalized);
+			}
+			return lead;
+		})
+		.replace(PRIORITY_PATTERN, (_match, lead: string, level: string) => {
+			priority = level.toLowerCase() as TodoPriority;
+			return lead;
+		})
+		.replace(/\s+/g, ' ')
+		.trim();
+	if ((tags.length === 0 && priority === undefined) || title.length === 0) {
+		return { title: input.trim(), tags: [] };
+	}
+	return { title, tags, priority };
+}
+
+/**
+ * Checks that a value is one of the todo priorities.
+ *
+ * @param value - Value to check.
+ */
+export function isTodoPriority(value: unknown): value is TodoPriority {
+	return TODO_PRIORITIES.includes(value as TodoPriority);
+}
+
+/**
+ * Checks that a value is a code anchor: a non-empty relative path, a range that does not end
+ * before it starts, and an optional boolean stale flag.
+ *
+ * @param value - Value to check.
+ */
+export function isTodoAnchor(value: unknown): value is TodoAnchor {
+	if (typeof value !== 'object' || value === null) {
+		return false;
+	}
+	const anchor = value as Partial<Record<keyof TodoAnchor, unknown>>;
+	const numbers = [anchor.startLine, anchor.startColumn, anchor.endLine, anchor.endColumn];
+	if (
+		typeof anchor.path !== 'string' ||
+		anchor.path.length === 0 ||
+		anchor.path.startsWith('/') ||
+		anchor.path.split('/').includes('..') ||
+		!numbers.every((number) => Number.isInteger(number) && (number as number) >= 0) ||
+		(anchor.stale !== undefined && typeof anchor.stale !== 'boolean')
+	) {
+		return false;
+	}
+	const [startLine, startColumn, endLine, endColumn] = numbers as number[];
+	return endLine > startLine || (endLine === startLine && endColumn >= startColumn);
+}
+
+/**
+ * Lists the distinct tags used by todos, sorted alphabetically.
+ *
+ * @param todos - Todos to collect tags from.
+ */
+export function collectTags(todos: readonly Pick<Todo, 'tags'>[]): string[] {
+	return Array.from(new Set(todos.flatMap((todo) => todo.tags ?? []))).sort((a, b) =>
+		a.localeCompare(b)
+	);
+}
+
+/** Matches a calendar day in `YYYY-MM-DD` form. */
+const DUE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Checks that a value is an existing calendar day in `YYYY-MM-DD` form, the format of due dates.
+ *
+ * @param value - Value to check.
+ */
+export function isDueDate(value: unknown): value is string {
+	const match = typeof value === 'string' ? DUE_DATE_PATTERN.exec(value) : null;
+	if (!match) {
+		return false;
+	}
+	const [year, month, day] = match.slice(1).map(Number);
+	const date = new Date(Date.UTC(year, month - 1, day));
+	return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Formats the local calendar day of a date as a due date (`YYYY-MM-DD`).
+ *
+ * @param date - Date to format.
+ */
+export function toDueDate(date: Date): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Counts the calendar days from today until a due date; negative once the todo is overdue.
+ *
+ * @param dueDate - Due date in `YYYY-MM-DD` form.
+ * @param today - Current date; its local calendar day is used.
+ */
+export function daysUntilDue(dueDate: string, today = new Date()): number {
+	const [year, month, day] = dueDate.split('-').map(Number);
+	const due = Date.UTC(year, month - 1, day);
+	const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+	return Math.round((due - start) / 86_400_000);
+}
+
+/**
+ * Copies a todo including its tag list, anchor, and recurrence rule, so copies handed out never
+ * share them with the source.
+ *
+ * @param todo - Todo to copy.
+ */
+export function cloneTodo<T extends Pick<Todo, 'tags' | 'anchor' | 'recurrence'>>(todo: T): T {
+	const clone = { ...todo };
+	if (todo.tags) {
+		clone.tags = [...todo.tags];
+	}
+	if (todo.anchor) {
+		clone.anchor = { ...todo.anchor };
+	}
+	if (todo.recurrence) {
+		clone.recurrence = { ...todo.recurrence };
+	}
+	return clone;
+}
+
+/**
+ * Flips the completion state of a todo in place, stamping `completedAt` when it gets completed and
+ * clearing it when the todo is reopened.
+ *
+ * @param todo - Todo to toggle (mutated in place).
+ * @param now - Timestamp applied to `updatedAt` and `completedAt`.
+ */
+export function toggleCompletion(todo: Todo, now = new Date().toISOString()): void {
+	todo.completed = !todo.completed;
+	todo.completedAt = todo.completed ? now : undefined;
+	todo.updatedAt = now;
+}
+
+/**
+ * Sets or removes the due date of a todo.
+ *
+ * @param todo - Todo to update (mutated in place).
+ * @param dueDate - Due date in `YYYY-MM-DD` form; unset to remove it.
+ * @param now - Timestamp applied to `updatedAt`.
+ * @returns True when the due date changed.
+ */
+export function setDueDate(
+	todo: Todo,
+	dueDate: string | undefined,
+	now = new Date().toISOString()
+): boolean {
+	if (todo.dueDate === dueDate) {
+		return false;
+	}
+	todo.dueDate = dueDate;
+	todo.updatedAt = now;
+	return true;
+}
+
+/**
+ * Sets or removes the priority of a todo.
+ *
+ * @param todo - Todo to update (mutated in place).
+ * @param priority - New priority; unset to remove it.
+ * @param now - Timestamp applied to `updatedAt`.
+ * @returns True when the priority changed.
+ */
+export function setPriority(
+	todo: Todo,
+	priority: TodoPriority | undefined,
+	now = new Date().toISOString()
+): boolean {
+	if (todo.priority === priority) {
+		return false;
+	}
+	todo.priority = priority;
+	todo.updatedAt = now;
+	return true;
+}
+
+/**
+ * Reorders todos in place based on a provided ID order. Unmapped items are appended. Positions are
+ * assigned per sibling group in that order, so subtasks and sections keep their own numbering;
+ * `move` optionally attaches one todo to a new parent first (ignored when that parent is the todo
+ * or one of its subtasks) or moves a top-level todo to another section, together with its
+ * subtasks. Returns whether any positions, parents, or sections changed.
  *
  * @param todos - Todos to reorder (mutated in place).
- * @param order - Ordered list of todo IDs from the drag-and-drop source.
+ * @param order - Ordered list of todo IDs from the drag-and-drop source, parents before subtasks.
+ * @param move - Todo that was dropped onto a new parent or section, with that parent (unset for
+ * top level) and section (unset for todos outside any section).
  * @returns True if positions were changed, false otherwise.
  */
-export function reorderTodosByOrder(todos: Todo[], order: string[]): boolean {
+export function reorderTodosByOrder(
+	todos: Todo[],
+	order: string[],
+	move?: { todoId: string; parentId?: string; section?: string }
+): boolean {
 	const lookup = new Map<string, Todo>();
 	todos.forEach((todo) => lookup.set(todo.id, todo));
 
+	let changed = false;
+	const now = new Date().toISOString();
+	const moved = move ? lookup.get(move.todoId) : undefined;
+	if (
+		moved &&
+		move &&
+		moved.parentId !== move.parentId &&
+		(move.parentId === undefined ||
+			(lookup.has(move.parentId) && !collectSubtree(todos, moved.id).has(move.parentId)))
+	) {
+		moved.parentId = move.parentId;
+		moved.updatedAt = now;
+		changed = true;
+	}
+	if (moved && move) {
+		const section =
+			moved.parentId === undefined ? move.section : lookup.get(moved.parentId)?.section;
+		collectSubtree(todos, moved.id).forEach((id) => {
+			const todo = lookup.get(id);
+			if (todo && todo.section !== section) {
+				todo.section = section;
+				todo.updatedAt = now;
+				changed = true;
+			}
+		});
+	}
+
 	const newOrder: Todo[] = [];
 	order.forEach((id) => {
 		const todo = lookup.get(id);
@@ -37,10 +469,8 @@ export function reorderTodosByOrder(todos: Todo[], order: string[]): boolean {
 	});
 	lookup.forEach((todo) => newOrder.push(todo));
 
-	let changed = false;
-	const now = new Date().toISOString();
-	newOrder.forEach((todo, index) => {
-		const nextPosition = index + 1;
+	compactPositions(newOrder).forEach(({ position: nextPosition }, index) => {
+		const todo = newOrder[index];
 		if (todo.position !== nextPosition) {
 			todo.position = nextPosition;
 			todo.updatedAt = now;
@@ -51,4 +481,126 @@ export function reorderTodosByOrder(todos: Todo[], order: string[]): boolean {
 	// mutate original array order to match new order
 	todos.splice(0, todos.length, ...newOrder);
 	return changed;
-}
\ No newline at end of file
+}
+
+/**
+ * Inserts todos back into a list at their previous positions among their siblings, e.g. when
+ * restoring from the trash. Positions beyond the end of the siblings append the todo; subtasks
+ * whose parent is neither in the list nor inserted become top-level todos.
+ *
+ * @param todos - Current todos of the scope.
+ * @param inserted - Todos to insert, carrying the positions they had before removal.
+ * @returns A new array with compact positions reflecting the merged order.
+ */
+export function insertTodosAtPositions(todos: Todo[], inserted: Todo[]): Todo[] {
+	const present = new Set([...todos, ...inserted].map((todo) => todo.id));
+	const groups = new Map<string, Todo[]>();
+	const siblingsOf = (todo: Todo) => {
+		const group = groups.get(siblingGroupKey(todo)) ?? [];
+		groups.set(siblingGroupKey(todo), group);
+		return group;
+	};
+	[...todos]
+		.sort((a, b) => a.position - b.position)
+		.forEach((todo) => siblingsOf(todo).push(todo));
+	[...inserted]
+		.sort((a, b) => a.position - b.position)
+		.forEach((todo) => {
+			const parentId =
+				todo.parentId !== undefined && present.has(todo.parentId) ? todo.parentId : undefined;
+			const placed = { ...todo, parentId };
+			const siblings = siblingsOf(placed);
+			const index = Math.min(Math.max(todo.position - 1, 0), siblings.length);
+			siblings.splice(index, 0, placed);
+		});
+	return compactPositions(Array.from(groups.values()).flat());
+}
+
+/**
+ * Records tombstones for todos that left a list and drops those of todos that are back in it
+ * (e.g. after an undo) or older than the retention cutoff.
+ *
+ * @param tombstones - Tombstones recorded so far.
+ * @param before - List before the change.
+ * @param after - List after the change.
+ * @param now - Deletion timestamp for newly removed todos.
+ * @param expiredBefore - Tombstones deleted before this timestamp are pruned.
+ * @returns The updated tombstones.
+ */
+export function updateTombstones(
+	tombstones: readonly TodoTombstone[],
+	before: readonly Pick<Todo, 'id'>[],
+	after: readonly Pick<Todo, 'id'>[],
+	now: string,
+	expiredBefore: string
+): TodoTombstone[] {
+	const present = new Set(after.map((todo) => todo.id));
+	const result = new Map(
+		tombstones
+			.filter((tombstone) => !present.has(tombstone.id) && tombstone.deletedAt >= expiredBefore)
+			.map((tombstone) => [tombstone.id, tombstone])
+	);
+	before
+		.filter((todo) => !present.has(todo.id))
+		.forEach((todo) => result.set(todo.id, { id: todo.id, deletedAt: now }));
+	return Array.from(result.values());
+}
+
+/**
+ * Gives todos that are back in a list (after an undo or a restore) a new `updatedAt`, so copies of
+ * the list that still hold their tombstone keep them when merged instead of dropping them again.
+ *
+ * @param before - List before the change.
+ * @param after - List after the change.
+ * @param now - Update timestamp for revived todos.
+ * @returns The list after the change with revived todos stamped.
+ */
+export function touchRevivedTodos<T extends Pick<Todo, 'id' | 'updatedAt'>>(
+	before: readonly Pick<Todo, 'id'>[],
+	after: readonly T[],
+	now: string
+): T[] {
+	const present = new Set(before.map((todo) => todo.id));
+	return after.map((todo) => (present.has(todo.id) ? todo : { ...todo, updatedAt: now }));
+}
+
+/**
+ * Merges two copies of a list that were changed independently, e.g. in two windows or on two
+ * machines. Todos are matched by `id` and the copy with the later `updatedAt` wins (the local one
+ * on a tie); a todo is dropped when either side removed it after its last update. Todos keep their
+ * positions, with remote todos first on equal positions.
+ *
+ * @param local - Copy of this window.
+ * @param remote - Copy written elsewhere.
+ * @returns The merged copy with compact positions and the tombstones of both sides.
+ */
+export function mergeTodoReplicas<T extends TodoPlacement & Pick<Todo, 'updatedAt'>>(
+	local: TodoReplica<T>,
+	remote: TodoReplica<T>
+): TodoReplica<T> {
+	const deletedAt = new Map<string, string>();
+	[...remote.tombstones, ...local.tombstones].forEach((tombstone) => {
+		if ((deletedAt.get(tombstone.id) ?? '') < tombstone.deletedAt) {
+			deletedAt.set(tombstone.id, tombstone.deletedAt);
+		}
+	});
+	const winners = new Map<string, { todo: T; remote: boolean }>();
+	remote.todos.forEach((todo) => winners.set(todo.id, { todo, remote: true }));
+	local.todos.forEach((todo) => {
+		const other = winners.get(todo.id);
+		if (!other || todo.updatedAt >= other.todo.updatedAt) {
+			winners.set(todo.id, { todo, remote: false });
+		}
+	});
+	const todos = compactPositions(
+		Array.from(winners.values())
+			.filter(({ todo }) => (deletedAt.get(todo.id) ?? '') < todo.updatedAt)
+			.sort((a, b) => a.todo.position - b.todo.position || Number(b.remote) - Number(a.remote))
+			.map(({ todo }) => todo)
+	);
+	const present = new Set(todos.map((todo) => todo.id));
+	const tombstones = Array.from(deletedAt.entries())
+		.filter(([id]) => !present.has(id))
+		.map(([id, at]) => ({ id, deletedAt: at }));
+	return { todos, tombstones };
+}
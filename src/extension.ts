@@ -1,19 +1,40 @@
 import * as l10n from '@vscode/l10n';
 import * as vscode from 'vscode';
 
+import { FileStorageProvider } from './storage/fileStorage';
+import { createMemoryStorageProvider } from './storage/memoryStorage';
 import { TodoRepository } from './todoRepository';
 import { TodoWebviewHost } from './todoWebviewHost';
-import { buildWebviewStateSnapshot, EmptyStateHints, EmptyStateKind } from './webviewState';
 import { AutoDeleteCoordinator } from './services/autoDeleteService';
 import { HandlerContext } from './types/handlerContext';
+import { notifyOrphanedLists } from './services/orphanedListService';
 import {
+	archiveCompletedTodo,
+	describeScope,
+	listOpenScopes,
 	removeTodoWithoutUndo as removeTodoWithoutUndoService,
 } from './services/todoOperations';
 import { handleWebviewMessage as routeWebviewMessage } from './adapters/webviewRouter';
+import { registerAnchorTracking } from './adapters/codeAnchors';
 import { registerCommands } from './adapters/commandRouter';
 import { scopeTargetToWebviewScope, scopeToProviderMode } from './adapters/scopeMapping';
+import {
+	broadcastWebviewState,
+	buildInitEmptyStateHints,
+	registerStateBroadcast,
+} from './adapters/stateBroadcaster';
+import {
+	readBackupRetentionCount,
+	readConfig,
+	readStorageBackend,
+	readSyncGlobalTodos,
+	readTrashRetentionDays,
+} from './adapters/config';
 import { ScopeTarget } from './types/scope';
 
+/** Interval between scheduled backups of the open todo lists. */
+const BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+
 /**
  * Activation entry point: initializes localization, repositories, webviews, and commands.
  *
@@ -28,21 +49,25 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		await l10n.config({ fsPath: context.asAbsolutePath('l10n/bundle.l10n.json') });
 	}
 
-	const repository = new TodoRepository(context);
+	const fileStorage = new FileStorageProvider({ globalStorageUri: context.globalStorageUri });
+	const repository = new TodoRepository(context, {
+		backends: [fileStorage, createMemoryStorageProvider()],
+		selectBackend: readStorageBackend,
+		trashRetentionDays: readTrashRetentionDays,
+		globalStorageUri: context.globalStorageUri,
+		backupRetentionCount: readBackupRetentionCount,
+	});
+	const readErrorWarningsDisposable = registerReadErrorWarnings(repository);
+	await migrateRepository(repository);
+	repository.setGlobalSettingsSync(readSyncGlobalTodos());
+	await loadOpenScopes(repository);
+	await repository.purgeExpiredTrash(listOpenScopes());
 	const webviewHost = new TodoWebviewHost(context);
 	const autoDelete = new AutoDeleteCoordinator<HandlerContext>({
 		removeTodo: (handlerContext, scope, todoId) =>
-			removeTodoWithoutUndoService(
-				handlerContext,
-				scope,
-				todoId,
-				() =>
-					broadcastWebviewState(
-						handlerContext.webviewHost,
-						handlerContext.repository,
-						buildScopeHint(scope, 'afterCompletion')
-					)
-			),
+			readConfig().autoDeleteCompleted === 'archive'
+				? archiveCompletedTodo(handlerContext, scope, todoId)
+				: removeTodoWithoutUndoService(handlerContext, scope, todoId),
 		sendCue: (scope, todoId, durationMs) => {
 			const webviewScope = scopeTargetToWebviewScope(scope);
 			if (webviewScope) {
@@ -57,17 +82,53 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	});
 	const handlerContext: HandlerContext = { repository, webviewHost, autoDelete };
 	const webviewMessageDisposable = webviewHost.onDidReceiveMessage((event) =>
-		routeWebviewMessage(event, handlerContext)
+		routeWebviewMessage(event, handlerContext).catch((error) =>
+			console.error('Unable to handle webview message', error)
+		)
 	);
 
-	context.subscriptions.push(webviewHost, webviewMessageDisposable, autoDelete);
-
-	registerCommands({
-		context,
-		handlerContext,
-		broadcastState: () => broadcastWebviewState(webviewHost, repository),
+	const configurationDisposable = vscode.workspace.onDidChangeConfiguration(async (event) => {
+		if (event.affectsConfiguration('todo.syncGlobalTodos')) {
+			repository.setGlobalSettingsSync(readSyncGlobalTodos());
+		}
+		if (
+			!event.affectsConfiguration('todo.globalStorage') &&
+			!event.affectsConfiguration('todo.projectStorage')
+		) {
+			return;
+		}
+		await loadOpenScopes(repository);
 	});
+
+	const workspaceFoldersDisposable = vscode.workspace.onDidChangeWorkspaceFolders((event) =>
+		handleWorkspaceFoldersChanged(event, handlerContext).catch((error) => {
+			console.error('Unable to load todo lists of added workspace folders', error);
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showWarningMessage(l10n.t('storage.load.failed', message));
+		})
+	);
+
+	const stateBroadcastDisposable = registerStateBroadcast(repository, webviewHost);
+	const backupDisposable = scheduleBackups(repository);
+	const anchorTrackingDisposable = registerAnchorTracking(repository);
+
+	context.subscriptions.push(
+		webviewHost,
+		webviewMessageDisposable,
+		autoDelete,
+		configurationDisposable,
+		workspaceFoldersDisposable,
+		stateBroadcastDisposable,
+		backupDisposable,
+		anchorTrackingDisposable,
+		readErrorWarningsDisposable,
+		repository,
+		fileStorage
+	);
+
+	registerCommands({ context, handlerContext });
 	broadcastWebviewState(webviewHost, repository, buildInitEmptyStateHints());
+	void notifyOrphanedLists(handlerContext);
 
 	console.log(l10n.t('extension.activatedLog', 'vscode-todolist extension activated.'));
 }
@@ -78,33 +139,118 @@ export function deactivate(): void {
 }
 
 /**
- * Broadcasts the latest view state to any attached webviews so both panes stay in sync.
+ * Upgrades persisted todos to the current schema, surfacing failures without blocking activation.
+ * A failed migration leaves the original payload (and its backup copy) untouched.
  *
- * @param host - Webview host that manages both providers.
- * @param repository - Todo repository to read data from.
+ * @param repository - Repository whose storage should be migrated.
  */
-function broadcastWebviewState(
-	host: TodoWebviewHost,
-	repository: TodoRepository,
-	emptyStateHints: EmptyStateHints = {}
-): void {
-	const snapshot = buildWebviewStateSnapshot(repository, emptyStateHints);
-	host.broadcast({ type: 'stateUpdate', payload: snapshot });
+async function migrateRepository(repository: TodoRepository): Promise<void> {
+	try {
+		const results = await repository.migrateStorage();
+		results.forEach((result) =>
+			console.log(`Migrated ${result.key} from v${result.fromVersion} to v${result.toVersion}`)
+		);
+	} catch (error) {
+		console.error('Todo storage migration failed', error);
+		const message = error instanceof Error ? error.message : String(error);
+		void vscode.window.showErrorMessage(l10n.t('storage.migration.failed', message));
+	}
 }
 
-function buildInitEmptyStateHints(): EmptyStateHints {
-	const workspaces: Record<string, EmptyStateKind> = {};
-	(vscode.workspace.workspaceFolders ?? []).forEach((folder) => {
-		workspaces[folder.uri.toString()] = 'onInit';
+/**
+ * Loads the global list and the lists of the open workspace folders from their selected backends.
+ * Storage errors (e.g. a todo file that cannot be accessed) are logged and shown as a warning
+ * instead of failing activation or a settings change.
+ *
+ * @param repository - Repository whose lists should be loaded.
+ */
+async function loadOpenScopes(repository: TodoRepository): Promise<void> {
+	try {
+		await repository.loadScopes(listOpenScopes());
+	} catch (error) {
+		console.error('Unable to load todo lists', error);
+		const message = error instanceof Error ? error.message : String(error);
+		void vscode.window.showWarningMessage(l10n.t('storage.load.failed', message));
+	}
+}
+
+/**
+ * Warns when the stored todos of a scope could not be read after loading them or after they changed
+ * outside the extension. The repository keeps such scopes read-only, so each problem is reported
+ * once per scope until it is fixed.
+ *
+ * @param repository - Repository whose scopes should be checked.
+ * @returns Disposable that stops the warnings.
+ */
+function registerReadErrorWarnings(repository: TodoRepository): vscode.Disposable {
+	const reported = new Map<string, string>();
+	return repository.onDidChange((event) => {
+		if (event.kind !== 'reload' && event.kind !== 'external') {
+			return;
+		}
+		event.scopes.forEach((scope) => {
+			const key = repository.scopeKey(
+				scope.scope,
+				scope.scope === 'workspace' ? scope.workspaceFolder : undefined
+			);
+			const readError = repository.getReadError(scope);
+			if (!readError) {
+				reported.delete(key);
+				return;
+			}
+			if (reported.get(key) === readError) {
+				return;
+			}
+			reported.set(key, readError);
+			console.error(`Todos of ${key} could not be read`, readError);
+			void vscode.window.showWarningMessage(
+				l10n.t('storage.readOnly', describeScope(scope), readError)
+			);
+		});
 	});
-	return { global: 'onInit', workspaces };
 }
 
-function buildScopeHint(scope: ScopeTarget, kind: EmptyStateKind): EmptyStateHints {
-	if (scope.scope === 'global') {
-		return { global: kind };
+/**
+ * Backs up the open lists now and then every {@link BACKUP_INTERVAL_MS}; unchanged lists are
+ * skipped by the repository.
+ *
+ * @param repository - Repository whose lists should be backed up.
+ * @returns Disposable that stops the schedule.
+ */
+function scheduleBackups(repository: TodoRepository): vscode.Disposable {
+	const backUp = () => {
+		repository
+			.backupScopes(listOpenScopes())
+			.catch((error) => console.error('Scheduled todo backup failed', error));
+	};
+	backUp();
+	const timer = setInterval(backUp, BACKUP_INTERVAL_MS);
+	return new vscode.Disposable(() => clearInterval(timer));
+}
+
+/**
+ * Loads the lists of added workspace folders (their `reload` change refreshes the Projects view with
+ * onboarding empty states) and releases removed folders, cancelling their pending auto-deletes.
+ *
+ * @param event - Folders added to and removed from the workspace.
+ * @param context - Handler context with repository, webview host, and auto-delete coordinator.
+ */
+export async function handleWorkspaceFoldersChanged(
+	event: vscode.WorkspaceFoldersChangeEvent,
+	context: HandlerContext
+): Promise<void> {
+	const removed = event.removed.map(toWorkspaceScope);
+	removed.forEach((scope) => context.autoDelete.cancelScope(scope));
+	context.repository.unloadScopes(removed);
+	if (event.added.length > 0) {
+		await context.repository.loadScopes(event.added.map(toWorkspaceScope));
+	} else if (removed.length > 0) {
+		broadcastWebviewState(context.webviewHost, context.repository, {}, ['projects']);
 	}
-	return { workspaces: { [scope.workspaceFolder]: kind } };
+}
+
+function toWorkspaceScope(folder: vscode.WorkspaceFolder): ScopeTarget {
+	return { scope: 'workspace', workspaceFolder: folder.uri.toString() };
 }
 
 /** Legacy export used by tests; prefer importing the router directly instead. */
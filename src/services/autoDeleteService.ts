@@ -32,7 +32,7 @@ interface AutoDeleteHandlers<TContext> {
  * @typeParam TContext - Context object passed back into handlers for repo access.
  */
 export class AutoDeleteCoordinator<TContext> implements vscode.Disposable {
-	private timers = new Map<string, NodeJS.Timeout>();
+	private timers = new Map<string, { scopeKey: string; timer: NodeJS.Timeout }>();
 
 	constructor(private readonly handlers: AutoDeleteHandlers<TContext> = {}) {}
 
@@ -54,6 +54,7 @@ export class AutoDeleteCoordinator<TContext> implements vscode.Disposable {
 		const delay = this.sanitizeDelay(configuration.autoDeleteDelayMs, DEFAULT_AUTO_DELETE_DELAY_MS);
 		const fadeDuration = this.sanitizeDelay(configuration.autoDeleteFadeMs, DEFAULT_AUTO_DELETE_FADE_MS);
 		const key = this.buildKey(scope, todoId);
+		const scopeKey = this.buildScopeKey(scope);
 		this.cancel(scope, todoId);
 		const timer = setTimeout(async () => {
 			const removalTimer = setTimeout(async () => {
@@ -64,14 +65,14 @@ export class AutoDeleteCoordinator<TContext> implements vscode.Disposable {
 					console.error('Auto-delete failed', error);
 				}
 			}, fadeDuration);
-			this.timers.set(key, removalTimer);
+			this.timers.set(key, { scopeKey, timer: removalTimer });
 			try {
 				this.handlers.sendCue?.(scope, todoId, fadeDuration);
 			} catch (error) {
 				console.error('Auto-delete fade failed', error);
 			}
 		}, delay);
-		this.timers.set(key, timer);
+		this.timers.set(key, { scopeKey, timer });
 	}
 
 	/**
@@ -82,31 +83,47 @@ export class AutoDeleteCoordinator<TContext> implements vscode.Disposable {
 	 */
 	cancel(scope: ScopeTarget, todoId: string): void {
 		const key = this.buildKey(scope, todoId);
-		const timer = this.timers.get(key);
-		if (timer) {
-			clearTimeout(timer);
+		const entry = this.timers.get(key);
+		if (entry) {
+			clearTimeout(entry.timer);
 			this.timers.delete(key);
 		}
 	}
 
 	/**
-	 * Cancels all timers associated with a scope, typically during bulk clears.
+	 * Cancels timers associated with a scope, typically during bulk clears or when a workspace
+	 * folder is removed.
 	 *
 	 * @param scope - Scope describing the todos.
-	 * @param todos - Todos whose timers should be cancelled.
+	 * @param todos - Todos whose timers should be cancelled; omitted to cancel every timer of the
+	 * scope.
 	 */
-	cancelScope(scope: ScopeTarget, todos: Array<{ id: string }>): void {
-		todos.forEach((todo) => this.cancel(scope, todo.id));
+	cancelScope(scope: ScopeTarget, todos?: Array<{ id: string }>): void {
+		if (todos) {
+			todos.forEach((todo) => this.cancel(scope, todo.id));
+			return;
+		}
+		const scopeKey = this.buildScopeKey(scope);
+		this.timers.forEach((entry, key) => {
+			if (entry.scopeKey === scopeKey) {
+				clearTimeout(entry.timer);
+				this.timers.delete(key);
+			}
+		});
 	}
 
 	/** Disposes all timers held by the coordinator. */
 	dispose(): void {
-		this.timers.forEach((timer) => clearTimeout(timer));
+		this.timers.forEach((entry) => clearTimeout(entry.timer));
 		this.timers.clear();
 	}
 
 	private buildKey(scope: ScopeTarget, todoId: string): string {
-		return scope.scope === 'global' ? `global:${todoId}` : `${scope.workspaceFolder}:${todoId}`;
+		return `${this.buildScopeKey(scope)}:${todoId}`;
+	}
+
+	private buildScopeKey(scope: ScopeTarget): string {
+		return scope.scope === 'global' ? 'global' : scope.workspaceFolder;
 	}
 
 	/**
@@ -0,0 +1,183 @@
+import * as l10n from '@vscode/l10n';
+import * as vscode from 'vscode';
+
+import { Todo } from '../types';
+import { HandlerContext } from '../types/handlerContext';
+
+/** Orphaned project list as reported by the repository. */
+type OrphanedList = { workspaceFolder: string; todos: Todo[] };
+
+/** Choice made for an orphaned list in the action quick pick. */
+type OrphanAction =
+	| { kind: 'move'; target: vscode.WorkspaceFolder }
+	| { kind: 'view' }
+	| { kind: 'delete' };
+
+/**
+ * Lists project todo lists stored for folders that are no longer open in the workspace.
+ *
+ * @param context - Handler context containing the repository.
+ */
+export function findOrphanedLists(context: HandlerContext): OrphanedList[] {
+	return context.repository.getOrphanedWorkspaceLists(
+		(vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.toString())
+	);
+}
+
+/**
+ * Tells the user about orphaned project lists, offering to manage them right away.
+ *
+ * @param context - Handler context containing the repository.
+ */
+export async function notifyOrphanedLists(context: HandlerContext): Promise<void> {
+	const orphaned = findOrphanedLists(context);
+	if (orphaned.length === 0) {
+		return;
+	}
+	const manageAction = l10n.t('orphans.notice.manage', 'Manage');
+	const selection = await vscode.window.showInformationMessage(
+		l10n.t('orphans.notice', orphaned.length),
+		manageAction
+	);
+	if (selection === manageAction) {
+		await manageOrphanedLists(context);
+	}
+}
+
+/**
+ * Lets the user pick an orphaned project list and reattach it to an open folder, merge it into a
+ * folder's list, view its todos, or delete it.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns True when an orphaned list was moved or deleted.
+ */
+export async function manageOrphanedLists(context: HandlerContext): Promise<boolean> {
+	const orphaned = findOrphanedLists(context);
+	if (orphaned.length === 0) {
+		vscode.window.showInformationMessage(
+			l10n.t('orphans.none', 'No orphaned project TODO lists found')
+		);
+		return false;
+	}
+	const listPick = await vscode.window.showQuickPick(
+		orphaned.map((list) => ({
+			label: describeFolderKey(list.workspaceFolder),
+			description: l10n.t('orphans.todoCount', list.todos.length),
+			list,
+		})),
+		{
+			title: l10n.t('orphans.pick.title', 'Orphaned project TODO lists'),
+			placeHolder: l10n.t('orphans.pick.placeholder', 'Select a list to manage'),
+		}
+	);
+	if (!listPick) {
+		return false;
+	}
+	const action = await pickOrphanAction(context, listPick.list);
+	if (!action) {
+		return false;
+	}
+	switch (action.kind) {
+		case 'move':
+			return moveOrphanedList(context, listPick.list, action.target);
+		case 'view':
+			await showOrphanedList(listPick.list);
+			return false;
+		case 'delete':
+			return deleteOrphanedList(context, listPick.list);
+	}
+}
+
+async function pickOrphanAction(
+	context: HandlerContext,
+	list: OrphanedList
+): Promise<OrphanAction | undefined> {
+	const items: Array<vscode.QuickPickItem & { action: OrphanAction }> = (
+		vscode.workspace.workspaceFolders ?? []
+	).map((folder) => {
+		const existing = context.repository.getWorkspaceTodos(folder.uri.toString()).length;
+		return {
+			label:
+				existing === 0
+					? l10n.t('orphans.action.reattach', folder.name)
+					: l10n.t('orphans.action.merge', folder.name),
+			description: existing === 0 ? undefined : l10n.t('orphans.todoCount', existing),
+			detail: folder.uri.fsPath,
+			action: { kind: 'move', target: folder },
+		};
+	});
+	items.push(
+		{
+			label: l10n.t('orphans.action.view', 'View TODOs'),
+			action: { kind: 'view' },
+		},
+		{
+			label: l10n.t('orphans.action.delete', 'Delete list'),
+			action: { kind: 'delete' },
+		}
+	);
+	const selection = await vscode.window.showQuickPick(items, {
+		title: describeFolderKey(list.workspaceFolder),
+		placeHolder: l10n.t('orphans.action.placeholder', 'What should happen to this list?'),
+	});
+	return selection?.action;
+}
+
+async function moveOrphanedList(
+	context: HandlerContext,
+	list: OrphanedList,
+	target: vscode.WorkspaceFolder
+): Promise<boolean> {
+	const moved = await context.repository.moveWorkspaceTodos(
+		list.workspaceFolder,
+		target.uri.toString()
+	);
+	if (moved === 0) {
+		return false;
+	}
+	vscode.window.setStatusBarMessage(l10n.t('orphans.moved', moved, target.name), 2000);
+	return true;
+}
+
+async function showOrphanedList(list: OrphanedList): Promise<void> {
+	const lines = [
+		`# ${describeFolderKey(list.workspaceFolder)}`,
+		'',
+		...list.todos.map((todo) => `- [${todo.completed ? 'x' : ' '}] ${todo.title}`),
+	];
+	const document = await vscode.workspace.openTextDocument({
+		language: 'markdown',
+		content: `${lines.join('\n')}\n`,
+	});
+	await vscode.window.showTextDocument(document);
+}
+
+async function deleteOrphanedList(context: HandlerContext, list: OrphanedList): Promise<boolean> {
+	const confirmSetting = vscode.workspace
+		.getConfiguration('todo')
+		.get<boolean>('confirmDestructiveActions', true);
+	if (confirmSetting) {
+		const confirmAction = l10n.t('orphans.deleteConfirmAction', 'Delete');
+		const selection = await vscode.window.showWarningMessage(
+			l10n.t(
+				'orphans.deleteConfirmTitle',
+				list.todos.length,
+				describeFolderKey(list.workspaceFolder)
+			),
+			{ modal: true },
+			confirmAction
+		);
+		if (selection !== confirmAction) {
+			return false;
+		}
+	}
+	await context.repository.deleteWorkspaceTodos(list.workspaceFolder);
+	vscode.window.setStatusBarMessage(l10n.t('orphans.deleted', list.todos.length), 2000);
+	return true;
+}
+
+/** Shows a folder key as a file system path when possible. */
+function describeFolderKey(folderKey: string): string {
+	const uri = vscode.Uri.parse(folderKey);
+	return uri.scheme === 'file' ? uri.fsPath : folderKey;
+}
@@ -0,0 +1,116 @@
+import * as l10n from '@vscode/l10n';
+import * as vscode from 'vscode';
+
+import { HandlerContext } from '../types/handlerContext';
+import { ScopeTarget } from '../types/scope';
+
+/**
+ * Asks for the name of a new section and adds it to the end of a scope.
+ *
+ * @param context - Handler context containing the repository.
+ * @param scope - Scope to add the section to.
+ * @returns The name of the added section, or undefined when the prompt was cancelled.
+ */
+export async function addSection(
+	context: HandlerContext,
+	scope: ScopeTarget
+): Promise<string | undefined> {
+	const name = await promptSectionName(context, scope, {
+		prompt: l10n.t('sections.add.prompt', 'Name of the new section'),
+		placeHolder: l10n.t('sections.add.placeholder', 'e.g. Backlog, This week, Bugs'),
+	});
+	if (name === undefined || !(await context.repository.addSection(scope, name))) {
+		return undefined;
+	}
+	return name;
+}
+
+/**
+ * Asks for a new name of a section and renames it, moving its todos along.
+ *
+ * @param context - Handler context containing the repository.
+ * @param scope - Scope containing the section.
+ * @param section - Current name of the section.
+ * @returns True when the section was renamed.
+ */
+export async function renameSection(
+	context: HandlerContext,
+	scope: ScopeTarget,
+	section: string
+): Promise<boolean> {
+	const name = await promptSectionName(context, scope, {
+		prompt: l10n.t('sections.rename.prompt', section),
+		value: section,
+	});
+	if (name === undefined || name === section) {
+		return false;
+	}
+	return context.repository.renameSection(scope, section, name);
+}
+
+/**
+ * Removes a section; its todos move to the end of the todos outside any section.
+ *
+ * @param context - Handler context containing the repository.
+ * @param scope - Scope containing the section.
+ * @param section - Name of the section to remove.
+ * @returns True when the section was removed.
+ */
+export async function removeSection(
+	context: HandlerContext,
+	scope: ScopeTarget,
+	section: string
+): Promise<boolean> {
+	const removed = await context.repository.removeSection(scope, section);
+	if (removed) {
+		vscode.window.setStatusBarMessage(l10n.t('sections.removed', section), 2000);
+	}
+	return removed;
+}
+
+/**
+ * Lets the user pick the section a new todo goes to. Scopes without sections skip the prompt.
+ *
+ * @param context - Handler context containing the repository.
+ * @param scope - Scope the todo is added to.
+ * @returns The picked section (`section` unset for no section), or undefined when cancelled.
+ */
+export async function pickSection(
+	context: HandlerContext,
+	scope: ScopeTarget
+): Promise<{ section?: string } | undefined> {
+	const sections = context.repository.getSections(scope);
+	if (sections.length === 0) {
+		return {};
+	}
+	const items: Array<vscode.QuickPickItem & { section?: string }> = [
+		{ label: l10n.t('sections.pick.none', 'No section') },
+		...sections.map((section) => ({ label: section, section })),
+	];
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('sections.pick.title', 'Which section should the TODO go to?'),
+	});
+	return selection ? { section: selection.section } : undefined;
+}
+
+/** Prompts for a section name that is not blank and not yet used in the scope. */
+async function promptSectionName(
+	context: HandlerContext,
+	scope: ScopeTarget,
+	options: Pick<vscode.InputBoxOptions, 'prompt' | 'placeHolder' | 'value'>
+): Promise<string | undefined> {
+	const name = await vscode.window.showInputBox({
+		...options,
+		validateInput: (value) => {
+			const trimmed = value.trim();
+			if (trimmed.length === 0) {
+				return l10n.t('sections.name.empty', 'Enter a section name');
+			}
+			if (trimmed !== options.value && context.repository.getSections(scope).includes(trimmed)) {
+				return l10n.t('sections.name.exists', trimmed);
+			}
+			return undefined;
+		},
+	});
+	return name?.trim();
+}
@@ -1,25 +1,31 @@
 import * as l10n from '@vscode/l10n';
 import * as vscode from 'vscode';
 
+import { collectSubtree } from '../domain/todo';
+import { BackupReason, TodoBackup } from '../types/backup';
 import { HandlerContext } from '../types/handlerContext';
-import { ScopeTarget } from '../types/scope';
+import { IntegrityReport, QuarantineReason } from '../types/integrity';
+import { isSameScope, ScopeTarget } from '../types/scope';
 import { Todo } from '../types';
+import { HistoryEntry } from './undoHistory';
 
-/** Milliseconds to retain undo snapshots before discarding them. */
-export const UNDO_SNAPSHOT_TTL_MS = 10_000;
+/** URI scheme of the read-only documents compared in the backup diff preview. */
+const BACKUP_PREVIEW_SCHEME = 'todo-backup';
+
+/** How a backup differs from the current list, counted per todo. */
+interface BackupChanges {
+	added: number;
+	removed: number;
+	changed: number;
+}
 
 /**
  * Clears all todos within a scope, handling confirmation, undo, and auto-delete cancellation.
  *
  * @param context - Handler context containing repository, host, and auto-delete coordinator.
  * @param scope - Scope to clear.
- * @param broadcastState - Callback to refresh webview state after mutation.
  */
-export async function clearScope(
-	context: HandlerContext,
-	scope: ScopeTarget,
-	broadcastState: () => void
-): Promise<void> {
+export async function clearScope(context: HandlerContext, scope: ScopeTarget): Promise<void> {
 	const todos = readTodos(context.repository, scope);
 	if (todos.length === 0) {
 		vscode.window.showInformationMessage(
@@ -43,107 +49,429 @@ export async function clearScope(
 			return;
 		}
 	}
-	const scopeKey = context.repository.scopeKey(
-		scope.scope,
-		scope.scope === 'workspace' ? scope.workspaceFolder : undefined
+	// The list may have changed while the dialog was open; clear whatever it holds now.
+	const cleared = await context.repository.mutate(scope, 'clear', (current) =>
+		current.length === 0 ? undefined : []
 	);
-	context.repository.captureSnapshot(scopeKey, todos);
-	await persistTodos(context.repository, scope, []);
-	broadcastState();
+	if (!cleared) {
+		return;
+	}
 	const undoAction = l10n.t('command.undo', 'Undo');
 	const clearedMessage = l10n.t('command.clear.success', describeScope(scope));
 	const undoSelection = await vscode.window.showInformationMessage(
 		clearedMessage,
 		undoAction
 	);
-	if (undoSelection === undoAction) {
-		const snapshot = context.repository.consumeSnapshot(scopeKey);
-		if (snapshot) {
-			await persistTodos(context.repository, scope, snapshot);
-			vscode.window.showInformationMessage(
-				l10n.t('command.undo.success', describeScope(scope))
-			);
-			broadcastState();
-		}
-	} else {
-		setTimeout(() => context.repository.consumeSnapshot(scopeKey), UNDO_SNAPSHOT_TTL_MS);
+	if (undoSelection === undoAction && (await context.repository.undo(cleared.id))) {
+		vscode.window.showInformationMessage(l10n.t('command.undo.success', describeScope(scope)));
 	}
 }
 
 /**
- * Removes a single todo with undo support and auto-delete cleanup.
+ * Removes a single todo and its subtasks with undo support and auto-delete cleanup.
  *
  * @param context - Handler context containing repository, host, and auto-delete coordinator.
  * @param scope - Scope containing the todo.
  * @param todoId - Identifier of the todo to remove.
- * @param broadcastState - Callback to refresh webview state after mutation.
  * @returns True if a todo was removed.
  */
 export async function removeTodoWithUndo(
 	context: HandlerContext,
 	scope: ScopeTarget,
-	todoId: string,
-	broadcastState: () => void
+	todoId: string
 ): Promise<boolean> {
-	const todos = readTodos(context.repository, scope);
-	const todo = todos.find((item) => item.id === todoId);
-	if (!todo) {
+	let todo: Todo | undefined;
+	let subtree = new Set<string>();
+	const removed = await context.repository.mutate(scope, 'remove', (todos) => {
+		todo = todos.find((item) => item.id === todoId);
+		subtree = collectSubtree(todos, todoId);
+		return todo ? todos.filter((item) => !subtree.has(item.id)) : undefined;
+	});
+	if (!removed || !todo) {
 		return false;
 	}
-	context.autoDelete.cancel(scope, todoId);
-	const scopeKey = context.repository.scopeKey(
-		scope.scope,
-		scope.scope === 'workspace' ? scope.workspaceFolder : undefined
-	);
-	context.repository.captureSnapshot(scopeKey, todos);
-
-	const next = todos.filter((item) => item.id !== todoId);
-	await persistTodos(context.repository, scope, next);
-	broadcastState();
+	subtree.forEach((id) => context.autoDelete.cancel(scope, id));
 
 	const undoAction = l10n.t('command.undo', 'Undo');
 	const removedMessage = l10n.t('command.remove.success', todo.title, describeScope(scope));
 	const undoSelection = await vscode.window.showInformationMessage(removedMessage, undoAction);
-	if (undoSelection === undoAction) {
-		const snapshot = context.repository.consumeSnapshot(scopeKey);
-		if (snapshot) {
-			await persistTodos(context.repository, scope, snapshot);
-			vscode.window.showInformationMessage(
-				l10n.t('command.undo.todo.success', todo.title, describeScope(scope))
-			);
-			broadcastState();
-		}
-	} else {
-		setTimeout(() => context.repository.consumeSnapshot(scopeKey), UNDO_SNAPSHOT_TTL_MS);
+	if (undoSelection === undoAction && (await context.repository.undo(removed.id))) {
+		vscode.window.showInformationMessage(
+			l10n.t('command.undo.todo.success', todo.title, describeScope(scope))
+		);
 	}
 	return true;
 }
 
 /**
- * Removes a todo without capturing an undo snapshot, used by auto-delete flows.
+ * Removes a todo and its subtasks without capturing an undo snapshot, used by auto-delete flows.
  *
  * @param context - Handler context containing repository and auto-delete coordinator.
  * @param scope - Scope containing the todo.
  * @param todoId - Identifier of the todo to remove.
- * @param broadcastState - Callback to refresh webview state after mutation.
  * @returns True if a todo was removed.
  */
 export async function removeTodoWithoutUndo(
 	context: HandlerContext,
 	scope: ScopeTarget,
-	todoId: string,
-	broadcastState: () => void
+	todoId: string
 ): Promise<boolean> {
-	const todos = readTodos(context.repository, scope);
-	const next = todos.filter((item) => item.id !== todoId);
-	if (next.length === todos.length) {
+	// Only completed todos are removed; an undo may have reopened the todo before the timer fired.
+	const persisted = await context.repository.mutate(scope, 'autoDelete', (todos) => {
+		if (!todos.some((item) => item.id === todoId && item.completed)) {
+			return undefined;
+		}
+		const subtree = collectSubtree(todos, todoId);
+		return todos.filter((item) => !subtree.has(item.id));
+	});
+	return persisted !== undefined;
+}
+
+/**
+ * Moves a completed todo into the archive of its scope, used by auto-delete in archive mode.
+ *
+ * @param context - Handler context containing the repository.
+ * @param scope - Scope containing the todo.
+ * @param todoId - Identifier of the todo to archive.
+ * @returns True if the todo was archived.
+ */
+export async function archiveCompletedTodo(
+	context: HandlerContext,
+	scope: ScopeTarget,
+	todoId: string
+): Promise<boolean> {
+	const archived = await context.repository.archiveTodos(scope, [todoId]);
+	return archived !== undefined;
+}
+
+/**
+ * Reverts the most recent change recorded in the session history, whichever view or command made it.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns True if a change was undone.
+ */
+export async function undoLastChange(context: HandlerContext): Promise<boolean> {
+	const entry = await context.repository.undo();
+	if (!entry) {
+		vscode.window.showInformationMessage(l10n.t('command.undo.empty', 'Nothing to undo'));
 		return false;
 	}
-	await persistTodos(context.repository, scope, next);
-	broadcastState();
+	vscode.window.setStatusBarMessage(
+		l10n.t('command.undo.applied', describeChange(entry), describeScope(entry.scope)),
+		2000
+	);
 	return true;
 }
 
+/**
+ * Re-applies the most recently undone change.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns True if a change was redone.
+ */
+export async function redoLastChange(context: HandlerContext): Promise<boolean> {
+	const entry = await context.repository.redo();
+	if (!entry) {
+		vscode.window.showInformationMessage(l10n.t('command.redo.empty', 'Nothing to redo'));
+		return false;
+	}
+	vscode.window.setStatusBarMessage(
+		l10n.t('command.redo.applied', describeChange(entry), describeScope(entry.scope)),
+		2000
+	);
+	return true;
+}
+
+/**
+ * Lets the user pick recently deleted todos across all scopes and restores them to the scope and
+ * position they were deleted from.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns Number of todos restored.
+ */
+export async function restoreDeletedTodos(context: HandlerContext): Promise<number> {
+	const items: Array<vscode.QuickPickItem & { scope: ScopeTarget; todoId: string }> = [];
+	listOpenScopes().forEach((scope) => {
+		context.repository.getDeletedTodos(scope).forEach((entry) => {
+			items.push({
+				label: entry.todo.title,
+				description: describeScope(scope),
+				detail: l10n.t('trash.deletedAt', new Date(entry.deletedAt).toLocaleString()),
+				scope,
+				todoId: entry.todo.id,
+			});
+		});
+	});
+	if (items.length === 0) {
+		vscode.window.showInformationMessage(l10n.t('trash.empty', 'No recently deleted TODOs'));
+		return 0;
+	}
+	const selection = await vscode.window.showQuickPick(items, {
+		title: l10n.t('trash.pick.title', 'Recently deleted'),
+		placeHolder: l10n.t('trash.pick.placeholder', 'Select TODOs to restore'),
+		canPickMany: true,
+	});
+	if (!selection || selection.length === 0) {
+		return 0;
+	}
+	let restored = 0;
+	for (const scope of listOpenScopes()) {
+		const ids = selection
+			.filter((item) => isSameScope(item.scope, scope))
+			.map((item) => item.todoId);
+		if (ids.length > 0 && (await context.repository.restoreDeletedTodos(scope, ids))) {
+			restored += ids.length;
+		}
+	}
+	vscode.window.setStatusBarMessage(l10n.t('trash.restored', restored), 2000);
+	return restored;
+}
+
+/**
+ * Permanently deletes every trashed todo after confirmation.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns Number of todos deleted.
+ */
+export async function emptyTrash(context: HandlerContext): Promise<number> {
+	const scopes = listOpenScopes();
+	const total = scopes.reduce(
+		(count, scope) => count + context.repository.getDeletedTodos(scope).length,
+		0
+	);
+	if (total === 0) {
+		vscode.window.showInformationMessage(l10n.t('trash.empty', 'No recently deleted TODOs'));
+		return 0;
+	}
+	const confirmSetting = vscode.workspace
+		.getConfiguration('todo')
+		.get<boolean>('confirmDestructiveActions', true);
+	if (confirmSetting) {
+		const confirmAction = l10n.t('trash.emptyConfirmAction', 'Empty Trash');
+		const selection = await vscode.window.showWarningMessage(
+			l10n.t('trash.emptyConfirmTitle', total),
+			{ modal: true },
+			confirmAction
+		);
+		if (selection !== confirmAction) {
+			return 0;
+		}
+	}
+	let deleted = 0;
+	for (const scope of scopes) {
+		deleted += await context.repository.emptyTrash(scope);
+	}
+	vscode.window.showInformationMessage(l10n.t('trash.emptied', deleted));
+	return deleted;
+}
+
+/**
+ * Re-runs the storage integrity check on every open scope and reports what was repaired or
+ * quarantined since activation, with the full report available as a Markdown document.
+ *
+ * @param context - Handler context containing the repository.
+ * @returns Reports of the scopes where problems were found.
+ */
+export async function checkStorage(context: HandlerContext): Promise<IntegrityReport[]> {
+	const scopes = listOpenScopes();
+	await context.repository.checkIntegrity(scopes);
+	const reports = context.repository.getIntegrityReports();
+	if (reports.length === 0) {
+		vscode.window.showInformationMessage(l10n.t('storage.check.clean', scopes.length));
+		return reports;
+	}
+	const repairs = reports.reduce((count, report) => count + report.repairs.length, 0);
+	const quarantined = reports.reduce((count, report) => count + report.quarantined.length, 0);
+	const detailsAction = l10n.t('storage.check.details', 'Show Details');
+	const selection = await vscode.window.showWarningMessage(
+		l10n.t('storage.check.fixed', repairs, quarantined, reports.length),
+		detailsAction
+	);
+	if (selection === detailsAction) {
+		const document = await vscode.workspace.openTextDocument({
+			language: 'markdown',
+			content: formatIntegrityReports(reports),
+		});
+		await vscode.window.showTextDocument(document);
+	}
+	return reports;
+}
+
+/**
+ * Lets the user pick a backup of an open list by date and scope, previews what restoring it would
+ * change in a diff editor, and replaces the list with the backup once confirmed.
+ *
+ * @param context - Handler context containing the repository and auto-delete coordinator.
+ * @returns True if a backup was restored.
+ */
+export async function restoreBackup(context: HandlerContext): Promise<boolean> {
+	const openScopes = listOpenScopes();
+	const backups = (await context.repository.listBackups()).filter((backup) =>
+		openScopes.some((scope) => isSameScope(scope, backup.scope))
+	);
+	if (backups.length === 0) {
+		vscode.window.showInformationMessage(l10n.t('backup.none', 'No TODO backups found'));
+		return false;
+	}
+	const selection = await vscode.window.showQuickPick(
+		backups.map((backup) => ({
+			label: new Date(backup.createdAt).toLocaleString(),
+			description: describeScope(backup.scope),
+			detail: l10n.t('backup.detail', backup.todos.length, describeBackupReason(backup.reason)),
+			backup,
+		})),
+		{
+			title: l10n.t('backup.pick.title', 'TODO backups'),
+			placeHolder: l10n.t('backup.pick.placeholder', 'Select a backup to restore'),
+		}
+	);
+	if (!selection) {
+		return false;
+	}
+	const { backup } = selection;
+	const current = readTodos(context.repository, backup.scope);
+	if (!(await confirmBackupRestore(current, backup))) {
+		return false;
+	}
+	context.autoDelete.cancelScope(backup.scope);
+	const restored = await context.repository.restoreBackup(backup);
+	if (!restored) {
+		return false;
+	}
+	const undoAction = l10n.t('command.undo', 'Undo');
+	const undoSelection = await vscode.window.showInformationMessage(
+		l10n.t('backup.restored', describeScope(backup.scope)),
+		undoAction
+	);
+	if (undoSelection === undoAction && (await context.repository.undo(restored.id))) {
+		vscode.window.showInformationMessage(
+			l10n.t('command.undo.success', describeScope(backup.scope))
+		);
+	}
+	return true;
+}
+
+/**
+ * Shows the current list next to the backup in a diff editor and asks whether to restore it.
+ *
+ * @returns True when the user confirmed the restore.
+ */
+async function confirmBackupRestore(current: Todo[], backup: TodoBackup): Promise<boolean> {
+	const changes = compareWithBackup(current, backup.todos);
+	const date = new Date(backup.createdAt).toLocaleString();
+	if (changes.added + changes.removed + changes.changed === 0) {
+		vscode.window.showInformationMessage(
+			l10n.t('backup.unchanged', date, describeScope(backup.scope))
+		);
+		return false;
+	}
+	// Unique paths per preview, since VS Code caches provider documents by URI.
+	const previewId = `${Date.now()}/${backup.id}`;
+	const documents = new Map([
+		[`/${previewId}/current.md`, formatTodoChecklist(current)],
+		[`/${previewId}/backup.md`, formatTodoChecklist(backup.todos)],
+	]);
+	const provider = vscode.workspace.registerTextDocumentContentProvider(BACKUP_PREVIEW_SCHEME, {
+		provideTextDocumentContent: (uri) => documents.get(uri.path) ?? '',
+	});
+	try {
+		const [currentPath, backupPath] = Array.from(documents.keys());
+		await vscode.commands.executeCommand(
+			'vscode.diff',
+			vscode.Uri.from({ scheme: BACKUP_PREVIEW_SCHEME, path: currentPath }),
+			vscode.Uri.from({ scheme: BACKUP_PREVIEW_SCHEME, path: backupPath }),
+			l10n.t('backup.diff.title', describeScope(backup.scope), date)
+		);
+		const restoreAction = l10n.t('backup.restoreAction', 'Restore');
+		const selection = await vscode.window.showWarningMessage(
+			l10n.t(
+				'backup.confirm',
+				date,
+				describeScope(backup.scope),
+				changes.added,
+				changes.removed,
+				changes.changed
+			),
+			{ modal: true },
+			restoreAction
+		);
+		return selection === restoreAction;
+	} finally {
+		provider.dispose();
+	}
+}
+
+/** Counts todos the backup would bring back, drop, or change compared to the current list. */
+function compareWithBackup(current: Todo[], backupTodos: Todo[]): BackupChanges {
+	const currentById = new Map(current.map((todo) => [todo.id, todo]));
+	const changes: BackupChanges = { added: 0, removed: 0, changed: 0 };
+	backupTodos.forEach((todo) => {
+		const existing = currentById.get(todo.id);
+		currentById.delete(todo.id);
+		if (!existing) {
+			changes.added += 1;
+		} else if (
+			existing.title !== todo.title ||
+			existing.completed !== todo.completed ||
+			existing.position !== todo.position
+		) {
+			changes.changed += 1;
+		}
+	});
+	changes.removed = currentById.size;
+	return changes;
+}
+
+/** Renders a list as a Markdown checklist for the backup diff preview. */
+function formatTodoChecklist(todos: Todo[]): string {
+	if (todos.length === 0) {
+		return `${l10n.t('backup.diff.empty', '(no TODOs)')}\n`;
+	}
+	return `${todos.map((todo) => `- [${todo.completed ? 'x' : ' '}] ${todo.title}`).join('\n')}\n`;
+}
+
+function describeBackupReason(reason: BackupReason): string {
+	switch (reason) {
+		case 'clear':
+			return l10n.t('backup.reason.clear', 'before clearing the list');
+		case 'restoreBackup':
+			return l10n.t('backup.reason.restoreBackup', 'before restoring a backup');
+		case 'deleteList':
+			return l10n.t('backup.reason.deleteList', 'before deleting the list');
+		default:
+			return l10n.t('backup.reason.periodic', 'scheduled backup');
+	}
+}
+
+/** Renders integrity reports as Markdown, including the raw data of quarantined entries. */
+function formatIntegrityReports(reports: IntegrityReport[]): string {
+	const lines = [`# ${l10n.t('storage.report.title', 'TODO storage check')}`];
+	reports.forEach((report) => {
+		lines.push('', `## ${describeScope(report.scope)}`, '');
+		report.repairs.forEach((repair) => {
+			lines.push(`- ${l10n.t('storage.report.repair', repair.field, repair.todoId)}`);
+		});
+		report.quarantined.forEach((entry) => {
+			lines.push(
+				`- ${l10n.t('storage.report.quarantined', describeQuarantineReason(entry.reason))}`,
+				'',
+				'  ```json',
+				...JSON.stringify(entry.entry, null, 2)
+					.split('\n')
+					.map((line) => `  ${line}`),
+				'  ```'
+			);
+		});
+	});
+	return `${lines.join('\n')}\n`;
+}
+
+function describeQuarantineReason(reason: QuarantineReason): string {
+	return reason === 'missingTitle'
+		? l10n.t('storage.reason.missingTitle', 'missing title')
+		: l10n.t('storage.reason.notAnObject', 'not a TODO object');
+}
+
 /** Reads todos for the provided scope. */
 function readTodos(repository: HandlerContext['repository'], scope: ScopeTarget): Todo[] {
 	if (scope.scope === 'global') {
@@ -153,24 +481,38 @@ function readTodos(repository: HandlerContext['repository'], scope: ScopeTarget)
 }
 
 /**
- * Persists todos while normalizing positions for stable ordering.
+ * Returns a human-readable label for the kind of a recorded change.
  *
- * @param repository - Repository to save to.
- * @param scope - Scope describing the storage target.
- * @param todos - Todos to persist.
+ * @param entry - History entry to describe.
  */
-async function persistTodos(
-	repository: HandlerContext['repository'],
-	scope: ScopeTarget,
-	todos: Todo[]
-): Promise<void> {
-	const normalized = [...todos]
-		.sort((a, b) => a.position - b.position)
-		.map((todo, index) => ({ ...todo, position: index + 1 }));
-	if (scope.scope === 'global') {
-		await repository.saveGlobalTodos(normalized);
-	} else {
-		await repository.saveWorkspaceTodos(scope.workspaceFolder, normalized);
+function describeChange(entry: HistoryEntry): string {
+	switch (entry.kind) {
+		case 'create':
+			return l10n.t('history.kind.create', 'adding a TODO');
+		case 'edit':
+			return l10n.t('history.kind.edit', 'editing a TODO');
+		case 'toggle':
+			return l10n.t('history.kind.toggle', 'changing completion');
+		case 'reorder':
+			return l10n.t('history.kind.reorder', 'reordering');
+		case 'remove':
+			return l10n.t('history.kind.remove', 'removing a TODO');
+		case 'clear':
+			return l10n.t('history.kind.clear', 'clearing the list');
+		case 'restore':
+			return l10n.t('history.kind.restore', 'restoring TODOs');
+		case 'autoDelete':
+			return l10n.t('history.kind.autoDelete', 'auto-deleting a TODO');
+		case 'archive':
+			return l10n.t('history.kind.archive', 'archiving a TODO');
+		case 'unarchive':
+			return l10n.t('history.kind.unarchive', 'restoring from the archive');
+		case 'recur':
+			return l10n.t('history.kind.recur', 'completing a recurring TODO');
+		case 'restoreBackup':
+			return l10n.t('history.kind.restoreBackup', 'restoring a backup');
+		default:
+			return l10n.t('history.kind.other', 'the last change');
 	}
 }
 
@@ -179,7 +521,7 @@ async function persistTodos(
  *
  * @param scope - Scope to describe.
  */
-function describeScope(scope: ScopeTarget): string {
+export function describeScope(scope: ScopeTarget): string {
 	if (scope.scope === 'global') {
 		return l10n.t('scope.global.label', 'Global');
 	}
@@ -187,6 +529,15 @@ function describeScope(scope: ScopeTarget): string {
 	return folder?.name ?? l10n.t('scope.workspace.unknown', 'Project');
 }
 
+/** Lists the global scope plus one scope per open workspace folder. */
+export function listOpenScopes(): ScopeTarget[] {
+	const scopes: ScopeTarget[] = [{ scope: 'global' }];
+	(vscode.workspace.workspaceFolders ?? []).forEach((folder) => {
+		scopes.push({ scope: 'workspace', workspaceFolder: folder.uri.toString() });
+	});
+	return scopes;
+}
+
 /**
  * Locates a workspace folder matching the provided key.
  *
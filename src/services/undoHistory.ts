@@ -0,0 +1,145 @@
+import { cloneTodo } from '../domain/todo';
+import { Todo, TodoChangeKind } from '../types';
+import { isSameScope, ScopeTarget } from '../types/scope';
+
+/** Maximum number of undoable changes kept per session. */
+export const MAX_HISTORY_ENTRIES = 100;
+
+/** Change kinds that are recorded in the history and can be undone. */
+const UNDOABLE_KINDS: ReadonlySet<TodoChangeKind> = new Set<TodoChangeKind>([
+	'create',
+	'edit',
+	'toggle',
+	'reorder',
+	'remove',
+	'clear',
+	'restore',
+	'autoDelete',
+	'archive',
+	'unarchive',
+	'recur',
+	'restoreBackup',
+]);
+
+/** A single undoable change: the todos of one scope before and after a mutation. */
+export interface HistoryEntry {
+	id: number;
+	scope: ScopeTarget;
+	kind: TodoChangeKind;
+	before: Todo[];
+	after: Todo[];
+}
+
+/**
+ * Session-wide undo/redo stacks of scope changes. Entries store whole-scope snapshots so undoing
+ * is a plain write of the previous list, regardless of which view or command made the change.
+ */
+export class UndoHistory {
+	private readonly undoStack: HistoryEntry[] = [];
+	private readonly redoStack: HistoryEntry[] = [];
+	private nextId = 1;
+
+	constructor(private readonly limit = MAX_HISTORY_ENTRIES) {}
+
+	/**
+	 * Returns whether changes of the given kind are recorded.
+	 *
+	 * @param kind - Change kind to check.
+	 */
+	static isUndoable(kind: TodoChangeKind): boolean {
+		return UNDOABLE_KINDS.has(kind);
+	}
+
+	/**
+	 * Records a change and clears the redo stack, dropping the oldest entry beyond the limit.
+	 *
+	 * @param scope - Scope that changed.
+	 * @param kind - Kind of change.
+	 * @param before - Todos of the scope before the change.
+	 * @param after - Todos of the scope after the change.
+	 * @returns The recorded entry.
+	 */
+	record(scope: ScopeTarget, kind: TodoChangeKind, before: Todo[], after: Todo[]): HistoryEntry {
+		const entry: HistoryEntry = {
+			id: this.nextId++,
+			scope,
+			kind,
+			before: cloneTodos(before),
+			after: cloneTodos(after),
+		};
+		this.undoStack.push(entry);
+		if (this.undoStack.length > this.limit) {
+			this.undoStack.shift();
+		}
+		this.redoStack.length = 0;
+		return entry;
+	}
+
+	/** Most recent change that can be undone. */
+	peekUndo(): HistoryEntry | undefined {
+		return this.undoStack[this.undoStack.length - 1];
+	}
+
+	/** Most recently undone change that can be redone. */
+	peekRedo(): HistoryEntry | undefined {
+		return this.redoStack[this.redoStack.length - 1];
+	}
+
+	/** Moves the most recent change to the redo stack and returns it. */
+	popUndo(): HistoryEntry | undefined {
+		const entry = this.undoStack.pop();
+		if (entry) {
+			this.redoStack.push(entry);
+		}
+		return entry;
+	}
+
+	/** Moves the most recently undone change back to the undo stack and returns it. */
+	popRedo(): HistoryEntry | undefined {
+		const entry = this.redoStack.pop();
+		if (entry) {
+			this.undoStack.push(entry);
+		}
+		return entry;
+	}
+
+	/**
+	 * Rewrites the todos stored in the entries of a scope, so undoing an older change keeps updates
+	 * made outside the history since, such as anchors that followed edits of their files or renamed
+	 * sections.
+	 *
+	 * @param scope - Scope whose entries should be updated.
+	 * @param update - Returns the updated list for each stored list of the scope.
+	 */
+	updateTodos(scope: ScopeTarget, update: (todos: Todo[]) => Todo[]): void {
+		[...this.undoStack, ...this.redoStack]
+			.filter((entry) => isSameScope(entry.scope, scope))
+			.forEach((entry) => {
+				entry.before = update(entry.before);
+				entry.after = update(entry.after);
+			});
+	}
+
+	/**
+	 * Drops every entry of a scope, e.g. after its todos were replaced outside the history.
+	 *
+	 * @param scope - Scope whose entries should be forgotten.
+	 */
+	forgetScope(scope: ScopeTarget): void {
+		const matches = (entry: HistoryEntry) => isSameScope(entry.scope, scope);
+		removeWhere(this.undoStack, matches);
+		removeWhere(this.redoStack, matches);
+	}
+}
+
+function removeWhere<T>(items: T[], predicate: (item: T) => boolean): void {
+	for (let index = items.length - 1; index >= 0; index--) {
+		if (predicate(items[index])) {
+			items.splice(index, 1);
+		}
+	}
+}
+
+function cloneTodos(todos: Todo[]): Todo[] {
+	return todos.map((todo) => cloneTodo(todo));
+}
@@ -0,0 +1,120 @@
+/** Schema version written by this build of the extension. */
+export const SCHEMA_VERSION = 1;
+
+/** Minimal shape shared by every persisted payload regardless of its schema version. */
+export interface VersionedPayload {
+	version: number;
+	[key: string]: unknown;
+}
+
+/** Single upgrade step that lifts a persisted payload from `fromVersion` to `fromVersion + 1`. */
+export interface StateMigration {
+	fromVersion: number;
+	migrate(payload: VersionedPayload): VersionedPayload;
+}
+
+/** Ordered migration steps for each persisted payload kind. */
+export interface StateMigrations {
+	global: StateMigration[];
+	workspace: StateMigration[];
+	/** Steps for shared `.vscode/todos.json` files, which use the global payload layout. */
+	file: StateMigration[];
+}
+
+/**
+ * Registered upgrade steps. Append a step (and bump the repository schema version) whenever the
+ * persisted layout changes so existing lists are upgraded instead of discarded.
+ */
+export const STATE_MIGRATIONS: StateMigrations = {
+	global: [],
+	workspace: [],
+	file: [],
+};
+
+/**
+ * Runs every migration step between the payload version and the target version in order.
+ *
+ * @param payload - Persisted payload read from a memento.
+ * @param targetVersion - Schema version the repository expects.
+ * @param migrations - Available migration steps for the payload kind.
+ * @returns A new payload stamped with the target version.
+ * @throws Error when a step is missing, fails, or produces an unexpected version.
+ */
+export function migratePayload(
+	payload: VersionedPayload,
+	targetVersion: number,
+	migrations: StateMigration[]
+): VersionedPayload {
+	if (payload.version > targetVersion) {
+		throw new Error(
+			`Stored schema version ${payload.version} is newer than supported version ${targetVersion}.`
+		);
+	}
+	let current: VersionedPayload = structuredClone(payload);
+	while (current.version < targetVersion) {
+		const fromVersion = current.version;
+		const step = migrations.find((migration) => migration.fromVersion === fromVersion);
+		if (!step) {
+			throw new Error(`No migration registered from schema version ${fromVersion}.`);
+		}
+		const next = step.migrate(current);
+		if (next.version !== fromVersion + 1) {
+			throw new Error(
+				`Migration from schema version ${fromVersion} produced version ${next.version}.`
+			);
+		}
+		current = next;
+	}
+	return current;
+}
+
+/**
+ * Checks whether a payload can be brought to the target version.
+ *
+ * @param payload - Stored payload.
+ * @param targetVersion - Schema version the caller expects.
+ * @param migrations - Migration steps for the payload kind.
+ * @returns Why the payload cannot be migrated, or undefined when it can.
+ */
+export function findMigrationError(
+	payload: VersionedPayload,
+	targetVersion: number,
+	migrations: StateMigration[]
+): string | undefined {
+	if (payload.version === targetVersion) {
+		return undefined;
+	}
+	try {
+		migratePayload(payload, targetVersion, migrations);
+		return undefined;
+	} catch (error) {
+		return error instanceof Error ? error.message : String(error);
+	}
+}
+
+/**
+ * Brings a payload to the target version in memory, logging instead of throwing on failure so
+ * reads return an empty list; the stored data stays untouched since such scopes are read-only.
+ *
+ * @param payload - Stored payload.
+ * @param targetVersion - Schema version the caller expects.
+ * @param migrations - Migration steps for the payload kind.
+ * @param source - Storage key or file used in diagnostics.
+ * @returns The upgraded payload, or undefined when it cannot be migrated.
+ */
+export function tryMigratePayload<T>(
+	payload: VersionedPayload,
+	targetVersion: number,
+	migrations: StateMigration[],
+	source: string
+): T | undefined {
+	if (payload.version === targetVersion) {
+		return payload as unknown as T;
+	}
+	try {
+		return migratePayload(payload, targetVersion, migrations) as unknown as T;
+	} catch (error) {
+		console.error(`Unable to read ${source}`, error);
+		return undefined;
+	}
+}
@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+
+import {
+	findMigrationError,
+	SCHEMA_VERSION,
+	StateMigration,
+	STATE_MIGRATIONS,
+	tryMigratePayload,
+	VersionedPayload,
+} from '../stateMigrations';
+import { ScopeTarget } from '../types/scope';
+import { ARCHIVE_KEY } from './todoArchive';
+import { SECTIONS_KEY } from './todoSections';
+import {
+	PersistedScopeState,
+	PersistedTodo,
+	StorageBackendId,
+	storageKey,
+	TodoStorageProvider,
+} from './todoStorage';
+
+/** Path segments of the shared todo file relative to a workspace folder. */
+export const TODO_FILE_SEGMENTS = ['.vscode', 'todos.json'] as const;
+
+/** File name used for global todos inside the extension's global storage folder. */
+const GLOBAL_TODO_FILE = 'todos.json';
+
+/**
+ * Side stores whose data is kept in the todo file next to the todos, by memento key, so it is
+ * shared along with the list. The trash and quarantine stay in the VS Code mementos so deleted or
+ * broken entries are never committed.
+ */
+const FILE_FIELDS: Readonly<Record<string, string>> = {
+	[ARCHIVE_KEY]: 'archive',
+	[SECTIONS_KEY]: 'sections',
+};
+
+/** Data of a side store for one scope, as kept in a todo file. */
+interface PersistedFileField {
+	version: number;
+	entries: unknown;
+}
+
+/** Locations and schema overrides for the file backend. */
+export interface FileStorageOptions {
+	/** Folder holding the global todo file; global scope is unavailable without it. */
+	globalStorageUri?: vscode.Uri;
+	schemaVersion?: number;
+	migrations?: StateMigration[];
+}
+
+/**
+ * Stores each scope in a JSON file: project todos in `.vscode/todos.json` inside the workspace
+ * folder (so they can be committed) and global todos in the extension's global storage folder.
+ * File contents are cached per scope so reads stay synchronous, and loaded files are watched so
+ * edits from outside the extension (a `git pull`, a teammate's change) refresh the cache.
+ */
+export class FileStorageProvider implements TodoStorageProvider, vscode.Disposable {
+	readonly id: StorageBackendId = 'file';
+	/** Loaded payloads keyed by scope; `null` marks a scope whose file does not exist yet. */
+	private readonly payloads = new Map<string, VersionedPayload | null>();
+	/** Why the file of a scope could not be read; such scopes are never written. */
+	private readonly readErrors = new Map<string, string>();
+	/** Last file content read or written per scope, used to ignore watcher events for own writes. */
+	private readonly contents = new Map<string, string | null>();
+	private readonly watchers = new Map<string, vscode.FileSystemWatcher>();
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<ScopeTarget>();
+	private readonly schemaVersion: number;
+	private readonly migrations: StateMigration[];
+
+	/** Fires when a watched todo file was changed, created, or deleted outside the extension. */
+	readonly onDidChange = this.onDidChangeEmitter.event;
+
+	constructor(private readonly options: FileStorageOptions = {}) {
+		this.schemaVersion = options.schemaVersion ?? SCHEMA_VERSION;
+		this.migrations = options.migrations ?? STATE_MIGRATIONS.file;
+	}
+
+	/**
+	 * Resolves the todo file URI for a scope.
+	 *
+	 * @param scope - Scope whose file should be located.
+	 * @throws Error when the global scope is requested without a global storage folder.
+	 */
+	fileUri(scope: ScopeTarget): vscode.Uri {
+		if (scope.scope === 'workspace') {
+			return vscode.Uri.joinPath(vscode.Uri.parse(scope.workspaceFolder), ...TODO_FILE_SEGMENTS);
+		}
+		if (!this.options.globalStorageUri) {
+			throw new Error('globalStorageUri must be provided to store global todos in a file.');
+		}
+		return vscode.Uri.joinPath(this.options.globalStorageUri, GLOBAL_TODO_FILE);
+	}
+
+	/**
+	 * Reads the todo file for a scope into the cache. Missing files are cached as absent so callers
+	 * fall back to other storage until the file is first written; unreadable files are reported by
+	 * {@link FileStorageProvider.readError}.
+	 *
+	 * @param scope - Scope to load.
+	 */
+	async load(scope: ScopeTarget): Promise<void> {
+		await this.readFile(scope);
+		this.watch(scope);
+	}
+
+	/**
+	 * Returns the cached todos for a scope, or undefined when the file is missing or not loaded.
+	 *
+	 * @param scope - Scope to read.
+	 */
+	read(scope: ScopeTarget): PersistedTodo[] | undefined {
+		const stored = this.payloads.get(storageKey(scope));
+		if (!stored) {
+			return undefined;
+		}
+		const payload = tryMigratePayload<PersistedScopeState>(
+			stored,
+			this.schemaVersion,
+			this.migrations,
+			this.fileUri(scope).toString()
+		);
+		return payload?.todos.map((todo) => ({ ...todo }));
+	}
+
+	/**
+	 * Describes why the todo file of a scope cannot be read: it does not parse (e.g. it holds merge
+	 * conflict markers), cannot be migrated, or was deleted outside VS Code after it was loaded.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const key = storageKey(scope);
+		const stored = this.payloads.get(key);
+		const migrationError = stored
+			? findMigrationError(stored, this.schemaVersion, this.migrations)
+			: undefined;
+		return (
+			this.readErrors.get(key) ??
+			(migrationError ? `${this.fileUri(scope).fsPath}: ${migrationError}` : undefined)
+		);
+	}
+
+	/**
+	 * Writes the todos of a scope to its file, creating the parent folder when needed.
+	 *
+	 * @param scope - Scope to write.
+	 * @param todos - Todos to store.
+	 * @throws Error when the existing file could not be read, so it is never overwritten.
+	 */
+	async write(scope: ScopeTarget, todos: PersistedTodo[]): Promise<void> {
+		const readError = this.readError(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite a todo file that could not be read: ${readError}`);
+		}
+		// Keep the archive and section names stored next to the todos.
+		const stored = this.payloads.get(storageKey(scope));
+		const payload: PersistedScopeState = { ...stored, version: this.schemaVersion, todos };
+		await this.writePayload(scope, payload as unknown as VersionedPayload);
+	}
+
+	/**
+	 * Returns a memento over the todo file of a scope for the archive and the section names; other
+	 * side stores, and scopes without a todo file yet, keep their data in the VS Code mementos.
+	 *
+	 * @param scope - Scope whose side-store data is requested.
+	 * @param key - Memento key of the side store.
+	 * @param local - The VS Code memento of the scope.
+	 */
+	stateFor(scope: ScopeTarget, key: string, local: vscode.Memento): vscode.Memento | undefined {
+		const field = FILE_FIELDS[key];
+		if (!field || !this.payloads.get(storageKey(scope))) {
+			return undefined;
+		}
+		return new TodoFileMemento(
+			storageKey(scope),
+			local,
+			() => this.payloads.get(storageKey(scope))?.[field] as PersistedFileField | undefined,
+			(value) => this.writeField(scope, field, value)
+		);
+	}
+
+	/**
+	 * Drops the cached payload for a scope, e.g. after it switched to another backend.
+	 *
+	 * @param scope - Scope to forget.
+	 */
+	unload(scope: ScopeTarget): void {
+		const key = storageKey(scope);
+		this.payloads.delete(key);
+		this.contents.delete(key);
+		this.readErrors.delete(key);
+		this.watchers.get(key)?.dispose();
+		this.watchers.delete(key);
+	}
+
+	/** Disposes file watchers and the change emitter. */
+	dispose(): void {
+		this.watchers.forEach((watcher) => watcher.dispose());
+		this.watchers.clear();
+		this.onDidChangeEmitter.dispose();
+	}
+
+	/**
+	 * Reads a todo file into the cache, recording why it could not be read.
+	 *
+	 * @param scope - Scope whose file should be read.
+	 * @param reportDeletion - Whether a missing file that existed before counts as unreadable; set
+	 * for re-reads caused by changes outside the extension.
+	 * @returns True when the file content differs from what was cached before.
+	 */
+	private async readFile(scope: ScopeTarget, reportDeletion = false): Promise<boolean> {
+		const key = storageKey(scope);
+		const uri = this.fileUri(scope);
+		let text: string | null = null;
+		let payload: VersionedPayload | null = null;
+		let readError: string | undefined;
+		try {
+			text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+			const parsed = JSON.parse(text) as VersionedPayload;
+			if (typeof parsed?.version !== 'number') {
+				throw new Error('Todo file is missing a schema version.');
+			}
+			payload = parsed;
+		} catch (error) {
+			if ((error as { code?: string }).code !== 'FileNotFound') {
+				console.error(`Unable to read todo file for ${key}`, error);
+				readError = `${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`;
+			} else if (reportDeletion && (this.contents.get(key) || this.readErrors.has(key))) {
+				readError = `${uri.fsPath} was deleted outside VS Code.`;
+			}
+		}
+		const changed = !this.contents.has(key) || this.contents.get(key) !== text;
+		this.contents.set(key, text);
+		this.payloads.set(key, payload);
+		if (readError) {
+			this.readErrors.set(key, readError);
+		} else {
+			this.readErrors.delete(key);
+		}
+		return changed;
+	}
+
+	/**
+	 * Replaces one side-store field of an existing todo file, keeping the todos as they are.
+	 *
+	 * @throws Error when the file could not be read, so it is never overwritten.
+	 */
+	private async writeField(
+		scope: ScopeTarget,
+		field: string,
+		value: PersistedFileField
+	): Promise<void> {
+		const readError = this.readError(scope);
+		const stored = this.payloads.get(storageKey(scope));
+		if (readError || !stored) {
+			const problem = readError ?? `${this.fileUri(scope).fsPath} does not exist.`;
+			throw new Error(`Refusing to overwrite a todo file that could not be read: ${problem}`);
+		}
+		await this.writePayload(scope, { ...stored, [field]: value });
+	}
+
+	/** Writes a payload to the todo file of a scope, creating the parent folder when needed. */
+	private async writePayload(scope: ScopeTarget, payload: VersionedPayload): Promise<void> {
+		await vscode.workspace.fs.createDirectory(this.parentUri(scope));
+		const text = `${JSON.stringify(payload, null, '\t')}\n`;
+		const key = storageKey(scope);
+		// Record the content before writing so the watcher event for this write is ignored.
+		this.contents.set(key, text);
+		this.payloads.set(key, payload);
+		await vscode.workspace.fs.writeFile(this.fileUri(scope), new TextEncoder().encode(text));
+	}
+
+	/** Starts watching the todo file of a scope for changes made outside the extension. */
+	private watch(scope: ScopeTarget): void {
+		const key = storageKey(scope);
+		if (this.watchers.has(key)) {
+			return;
+		}
+		const pattern =
+			scope.scope === 'workspace'
+				? new vscode.RelativePattern(
+						vscode.Uri.parse(scope.workspaceFolder),
+						TODO_FILE_SEGMENTS.join('/')
+					)
+				: new vscode.RelativePattern(this.parentUri(scope), GLOBAL_TODO_FILE);
+		const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+		const reload = async () => {
+			if (!this.watchers.has(key)) {
+				return;
+			}
+			if (await this.readFile(scope, true)) {
+				this.onDidChangeEmitter.fire(scope);
+			}
+		};
+		watcher.onDidChange(reload);
+		watcher.onDidCreate(reload);
+		watcher.onDidDelete(reload);
+		this.watchers.set(key, watcher);
+	}
+
+	private parentUri(scope: ScopeTarget): vscode.Uri {
+		if (scope.scope === 'workspace') {
+			return vscode.Uri.joinPath(vscode.Uri.parse(scope.workspaceFolder), TODO_FILE_SEGMENTS[0]);
+		}
+		return this.options.globalStorageUri as vscode.Uri;
+	}
+}
+
+/**
+ * Presents one side-store field of a todo file as a memento in the side store's usual
+ * `{ version, scopes }` layout, holding only the file's scope. Until the field is first written,
+ * reads fall back to the VS Code memento so data kept there before the file existed carries over.
+ */
+class TodoFileMemento implements vscode.Memento {
+	constructor(
+		private readonly scopeKey: string,
+		private readonly local: vscode.Memento,
+		private readonly readField: () => PersistedFileField | undefined,
+		private readonly writeField: (value: PersistedFileField) => Promise<void>
+	) {}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		const stored = this.readField();
+		if (!stored) {
+			return this.local.get(key, defaultValue);
+		}
+		return { version: stored.version, scopes: { [this.scopeKey]: stored.entries } } as T;
+	}
+
+	update(_key: string, value: { version: number; scopes: Record<string, unknown> }) {
+		const entries = value.scopes[this.scopeKey] ?? [];
+		return this.writeField({ version: value.version, entries });
+	}
+
+	keys(): readonly string[] {
+		return this.local.keys();
+	}
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+
+import { TodoTombstone } from '../types';
+import { PersistedTodo } from './todoStorage';
+
+/** File name of the shared sync file inside the extension's global storage folder. */
+const GLOBAL_SYNC_FILE = 'global-sync.json';
+
+/** Global list as published to the shared sync file. */
+export interface SharedGlobalTodos {
+	version: number;
+	/** Random token identifying one published state of the list. */
+	revision: string;
+	todos: PersistedTodo[];
+	tombstones: TodoTombstone[];
+}
+
+/**
+ * Shares the global todo list between the windows of a profile. Each window's copy of the profile
+ * memento goes stale while other windows write to it, so every save is also published to a JSON
+ * file in the global storage folder that all windows watch. Merging is left to the caller.
+ */
+export class GlobalTodoSync implements vscode.Disposable {
+	/** Revisions already published or read, so watcher events for own writes are ignored. */
+	private readonly seenRevisions = new Set<string>();
+	private watcher: vscode.FileSystemWatcher | undefined;
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<SharedGlobalTodos>();
+	private readonly fileUri: vscode.Uri;
+
+	/** Fires when another window published a new revision of the list. */
+	readonly onDidChange = this.onDidChangeEmitter.event;
+
+	constructor(
+		private readonly folderUri: vscode.Uri,
+		private readonly schemaVersion: number
+	) {
+		this.fileUri = vscode.Uri.joinPath(folderUri, GLOBAL_SYNC_FILE);
+	}
+
+	/** Whether {@link GlobalTodoSync.start} was called and the file is being watched. */
+	get isActive(): boolean {
+		return this.watcher !== undefined;
+	}
+
+	/**
+	 * Starts watching the sync file.
+	 *
+	 * @returns The currently published list, if any.
+	 */
+	async start(): Promise<SharedGlobalTodos | undefined> {
+		this.watch();
+		return this.read();
+	}
+
+	/** Stops watching the sync file, e.g. after the global list switched to another backend. */
+	stop(): void {
+		this.watcher?.dispose();
+		this.watcher = undefined;
+	}
+
+	/** Reads the published list; missing, unreadable, or outdated files count as not published. */
+	async read(): Promise<SharedGlobalTodos | undefined> {
+		try {
+			const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(this.fileUri));
+			const payload = JSON.parse(text) as SharedGlobalTodos;
+			if (payload?.version !== this.schemaVersion || !Array.isArray(payload.todos)) {
+				return undefined;
+			}
+			this.seenRevisions.add(payload.revision);
+			return { ...payload, tombstones: payload.tombstones ?? [] };
+		} catch (error) {
+			if ((error as { code?: string }).code !== 'FileNotFound') {
+				console.error('Unable to read the global todo sync file', error);
+			}
+			return undefined;
+		}
+	}
+
+	/**
+	 * Publishes a revision of the global list; revisions already published or read are skipped.
+	 *
+	 * @param payload - List to publish.
+	 */
+	async publish(payload: SharedGlobalTodos): Promise<void> {
+		if (this.seenRevisions.has(payload.revision)) {
+			return;
+		}
+		this.seenRevisions.add(payload.revision);
+		await vscode.workspace.fs.createDirectory(this.folderUri);
+		await vscode.workspace.fs.writeFile(
+			this.fileUri,
+			new TextEncoder().encode(JSON.stringify(payload))
+		);
+	}
+
+	/** Stops watching and disposes the change emitter. */
+	dispose(): void {
+		this.stop();
+		this.onDidChangeEmitter.dispose();
+	}
+
+	private watch(): void {
+		if (this.watcher) {
+			return;
+		}
+		this.watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(this.folderUri, GLOBAL_SYNC_FILE)
+		);
+		const reload = async () => {
+			const seen = new Set(this.seenRevisions);
+			const shared = await this.read();
+			if (this.watcher && shared && !seen.has(shared.revision)) {
+				this.onDidChangeEmitter.fire(shared);
+			}
+		};
+		this.watcher.onDidChange(reload);
+		this.watcher.onDidCreate(reload);
+	}
+}
@@ -0,0 +1,525 @@
+import { randomUUID } from 'crypto';
+import * as vscode from 'vscode';
+
+import { mergeTodoReplicas, updateTombstones } from '../domain/todo';
+import {
+	findMigrationError,
+	migratePayload,
+	SCHEMA_VERSION,
+	StateMigration,
+	StateMigrations,
+	STATE_MIGRATIONS,
+	tryMigratePayload,
+	VersionedPayload,
+} from '../stateMigrations';
+import { TodoReplica, TodoTombstone } from '../types';
+import { ScopeTarget } from '../types/scope';
+import { GlobalTodoSync } from './globalTodoSync';
+import {
+	PersistedScopeState,
+	PersistedTodo,
+	StorageBackendId,
+	TodoStorageProvider,
+} from './todoStorage';
+
+const GLOBAL_STATE_KEY = 'todo.globalState';
+/** Combined project payload written before lists were stored per folder; split by `migrate`. */
+const LEGACY_WORKSPACE_STATE_KEY = 'todo.workspaceState';
+/** Prefix of the per-folder project payloads in the workspace memento. */
+const WORKSPACE_FOLDER_KEY_PREFIX = 'todo.workspaceState:';
+const BACKUP_KEY_SUFFIX = '.backup';
+/** Days tombstones of removed global todos are kept for merging with other copies of the list. */
+const TOMBSTONE_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How often the global memento is checked for lists brought in by Settings Sync. */
+const SETTINGS_SYNC_POLL_MS = 5000;
+
+/** Global payload; `revision` and `tombstones` are only written while the list is synced. */
+interface PersistedGlobalState extends PersistedScopeState {
+	/** Random token identifying the copy that was written. */
+	revision?: string;
+	/** Todos removed from the list, so merges with older copies do not revive them. */
+	tombstones?: TodoTombstone[];
+}
+
+/** Layout of {@link LEGACY_WORKSPACE_STATE_KEY}: every folder's list in one payload. */
+interface PersistedWorkspaceState {
+	version: number;
+	folders: Record<string, PersistedTodo[]>;
+}
+
+/** Profile and workspace mementos the provider writes to. */
+export interface MementoPair {
+	globalState: vscode.Memento & Pick<vscode.ExtensionContext['globalState'], 'setKeysForSync'>;
+	workspaceState: vscode.Memento;
+}
+
+/** Schema overrides, primarily used to exercise migrations in tests. */
+export interface MementoStorageOptions {
+	id?: StorageBackendId;
+	schemaVersion?: number;
+	migrations?: StateMigrations;
+	/** Folder shared by all windows of the profile; global todos are synced through a file in it. */
+	globalStorageUri?: vscode.Uri;
+}
+
+/** Outcome of migrating a single persisted payload. */
+export interface MigrationResult {
+	key: string;
+	fromVersion: number;
+	toVersion: number;
+}
+
+/**
+ * Stores global todos in the profile memento and project todos in the workspace memento, one
+ * payload per folder, and owns the schema migrations of that layout. With a `globalStorageUri`,
+ * the global list is synced with the profile's other windows;
+ * {@link MementoStorageProvider.setSettingsSync} syncs it to other machines.
+ */
+export class MementoStorageProvider implements TodoStorageProvider, vscode.Disposable {
+	readonly id: StorageBackendId;
+	private readonly schemaVersion: number;
+	private readonly migrations: StateMigrations;
+	private readonly globalSync: GlobalTodoSync | undefined;
+	/** Global list as last loaded, written, or merged; unset until the global scope is loaded. */
+	private globalReplica: PersistedGlobalState | undefined;
+	private settingsSyncTimer: ReturnType<typeof setInterval> | undefined;
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<ScopeTarget>();
+
+	/** Fires when the global list was merged with a copy changed in another window or machine. */
+	readonly onDidChange = this.onDidChangeEmitter.event;
+
+	constructor(
+		private readonly mementos: MementoPair,
+		options: MementoStorageOptions = {}
+	) {
+		this.id = options.id ?? 'memento';
+		this.schemaVersion = options.schemaVersion ?? SCHEMA_VERSION;
+		this.migrations = options.migrations ?? STATE_MIGRATIONS;
+		if (options.globalStorageUri) {
+			this.globalSync = new GlobalTodoSync(options.globalStorageUri, this.schemaVersion);
+			this.globalSync.onDidChange((shared) =>
+				this.integrateGlobal(shared).catch((error) =>
+					console.error('Unable to merge global todos from another window', error)
+				)
+			);
+		}
+	}
+
+	/**
+	 * Starts syncing the global list with other windows, merging in a list they published since
+	 * this window last stored it. Project scopes need no preparation.
+	 *
+	 * @param scope - Scope to load.
+	 */
+	async load(scope: ScopeTarget): Promise<void> {
+		if (scope.scope !== 'global' || this.globalReplica || this.readError(scope)) {
+			return;
+		}
+		this.globalReplica = this.getGlobalState() ?? { version: this.schemaVersion, todos: [] };
+		const shared = await this.globalSync?.start();
+		if (shared && shared.revision !== this.globalReplica.revision) {
+			await this.integrateGlobal(shared);
+		}
+	}
+
+	/**
+	 * Stops syncing the global list, e.g. after another backend was selected for it.
+	 *
+	 * @param scope - Scope to release.
+	 */
+	unload(scope: ScopeTarget): void {
+		if (scope.scope === 'global') {
+			this.globalSync?.stop();
+			this.globalReplica = undefined;
+		}
+	}
+
+	/**
+	 * Registers the global list for Settings Sync so it follows the user to other machines. While
+	 * enabled, the memento is checked regularly for lists synced in from other machines.
+	 *
+	 * @param enabled - Whether the global list should be synced.
+	 */
+	setSettingsSync(enabled: boolean): void {
+		this.mementos.globalState.setKeysForSync(enabled ? [GLOBAL_STATE_KEY] : []);
+		clearInterval(this.settingsSyncTimer);
+		this.settingsSyncTimer = enabled
+			? setInterval(() => {
+					this.checkSyncedGlobalState().catch((error) =>
+						console.error('Unable to merge synced global todos', error)
+					);
+				}, SETTINGS_SYNC_POLL_MS)
+			: undefined;
+	}
+
+	/**
+	 * Merges a global list that Settings Sync wrote into the memento since this provider last
+	 * wrote it. Does nothing until the global scope is loaded.
+	 *
+	 * @returns True when a synced list was found.
+	 */
+	async checkSyncedGlobalState(): Promise<boolean> {
+		const stored = this.getGlobalState();
+		if (this.globalReplica && !stored && this.readError({ scope: 'global' })) {
+			// A newer version of the extension synced in a list this one cannot read; stop merging and
+			// report the change so the scope turns read-only.
+			this.unload({ scope: 'global' });
+			this.onDidChangeEmitter.fire({ scope: 'global' });
+			return true;
+		}
+		if (!this.globalReplica || !stored || stored.revision === this.globalReplica.revision) {
+			return false;
+		}
+		await this.integrateGlobal(stored);
+		return true;
+	}
+
+	/** Stops syncing and disposes the change emitter. */
+	dispose(): void {
+		clearInterval(this.settingsSyncTimer);
+		this.globalSync?.dispose();
+		this.onDidChangeEmitter.dispose();
+	}
+
+	/**
+	 * Reads the todos stored for a scope, upgrading older payloads in memory.
+	 *
+	 * @param scope - Scope to read.
+	 */
+	read(scope: ScopeTarget): PersistedTodo[] | undefined {
+		if (scope.scope === 'global') {
+			return this.getGlobalState()?.todos.map((todo) => ({ ...todo }));
+		}
+		return this.getFolderState(scope.workspaceFolder)?.todos.map((todo) => ({ ...todo }));
+	}
+
+	/**
+	 * Describes why the stored payload of a scope cannot be read, e.g. because a newer version of
+	 * the extension wrote it or a migration step fails.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const stored =
+			scope.scope === 'global'
+				? this.mementos.globalState.get<VersionedPayload>(GLOBAL_STATE_KEY)
+				: this.getStoredFolderPayload(scope.workspaceFolder);
+		const migrations =
+			scope.scope === 'global' ? this.migrations.global : this.migrations.workspace;
+		return stored ? findMigrationError(stored, this.schemaVersion, migrations) : undefined;
+	}
+
+	/**
+	 * Replaces the todos stored for a scope. While the global list is synced, copies changed in
+	 * other windows or machines are merged in first; the merged list is stored and published, and
+	 * {@link MementoStorageProvider.onDidChange} fires when it differs from the given todos.
+	 *
+	 * @param scope - Scope to write.
+	 * @param todos - Todos to store.
+	 */
+	async write(scope: ScopeTarget, todos: PersistedTodo[]): Promise<void> {
+		if (scope.scope === 'global') {
+			await this.writeGlobal(todos);
+			return;
+		}
+		const payload: PersistedScopeState = { version: this.schemaVersion, todos };
+		await this.mementos.workspaceState.update(folderStateKey(scope.workspaceFolder), payload);
+	}
+
+	/**
+	 * Returns the memento of this backend that holds a scope, so side stores keep their data next
+	 * to the todos (in memory for the `memory` backend).
+	 *
+	 * @param scope - Scope whose side-store data is requested.
+	 */
+	stateFor(scope: ScopeTarget): vscode.Memento {
+		return scope.scope === 'global' ? this.mementos.globalState : this.mementos.workspaceState;
+	}
+
+	/** Lists the workspace folder keys that have a stored project list in the workspace memento. */
+	listWorkspaceFolders(): string[] {
+		const folders = new Set(Object.keys(this.getLegacyWorkspaceState()?.folders ?? {}));
+		this.mementos.workspaceState.keys().forEach((key) => {
+			if (key.startsWith(WORKSPACE_FOLDER_KEY_PREFIX)) {
+				folders.add(key.slice(WORKSPACE_FOLDER_KEY_PREFIX.length));
+			}
+		});
+		return Array.from(folders);
+	}
+
+	/**
+	 * Removes the stored project list of a workspace folder, e.g. after it was moved to another key.
+	 *
+	 * @param workspaceFolder - Folder key whose list should be removed.
+	 */
+	async removeWorkspaceFolder(workspaceFolder: string): Promise<void> {
+		await this.mementos.workspaceState.update(folderStateKey(workspaceFolder), undefined);
+		const legacy = this.getLegacyWorkspaceState();
+		if (legacy && workspaceFolder in legacy.folders) {
+			const folders = { ...legacy.folders };
+			delete folders[workspaceFolder];
+			await this.mementos.workspaceState.update(LEGACY_WORKSPACE_STATE_KEY, { ...legacy, folders });
+		}
+	}
+
+	/**
+	 * Upgrades payloads written by older versions of the extension and writes the result back; the
+	 * combined project payload of older versions is split into one payload per folder. The original
+	 * payload is kept under a backup key so a failed migration can be rolled back.
+	 *
+	 * @returns One entry per payload that was upgraded.
+	 * @throws Error when a migration fails; the original payload is restored before rethrowing.
+	 */
+	async migrate(): Promise<MigrationResult[]> {
+		const results: MigrationResult[] = [];
+		const globalResult = await this.migrateMemento(
+			this.mementos.globalState,
+			GLOBAL_STATE_KEY,
+			this.migrations.global
+		);
+		if (globalResult) {
+			results.push(globalResult);
+		}
+		const legacyResult = await this.splitWorkspaceState();
+		if (legacyResult) {
+			results.push(legacyResult);
+		}
+		for (const folder of this.listWorkspaceFolders()) {
+			const folderResult = await this.migrateMemento(
+				this.mementos.workspaceState,
+				folderStateKey(folder),
+				this.migrations.workspace
+			);
+			if (folderResult) {
+				results.push(folderResult);
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Migrates a single memento entry in place, keeping the pre-migration payload as a backup.
+	 *
+	 * @param memento - Memento holding the payload.
+	 * @param key - Storage key of the payload.
+	 * @param migrations - Migration steps for the payload kind.
+	 * @returns Migration details, or undefined when the payload was already current.
+	 */
+	private async migrateMemento(
+		memento: vscode.Memento,
+		key: string,
+		migrations: StateMigration[]
+	): Promise<MigrationResult | undefined> {
+		const stored = memento.get<VersionedPayload>(key);
+		if (!stored || stored.version >= this.schemaVersion) {
+			return undefined;
+		}
+		const backupKey = `${key}${BACKUP_KEY_SUFFIX}`;
+		await memento.update(backupKey, stored);
+		try {
+			const upgraded = migratePayload(stored, this.schemaVersion, migrations);
+			await memento.update(key, upgraded);
+		} catch (error) {
+			await memento.update(key, memento.get<VersionedPayload>(backupKey));
+			throw error;
+		}
+		return { key, fromVersion: stored.version, toVersion: this.schemaVersion };
+	}
+
+	/**
+	 * Moves the lists of the combined project payload into one payload per folder, upgrading them on
+	 * the way. Folders that already have their own payload keep it. The combined payload is kept
+	 * under its backup key and only removed once every folder was written.
+	 *
+	 * @returns Migration details, or undefined when there was no combined payload.
+	 * @throws Error when a migration fails; payloads written so far are removed before rethrowing.
+	 */
+	private async splitWorkspaceState(): Promise<MigrationResult | undefined> {
+		const memento = this.mementos.workspaceState;
+		const stored = this.getLegacyWorkspaceState();
+		if (!stored) {
+			return undefined;
+		}
+		await memento.update(`${LEGACY_WORKSPACE_STATE_KEY}${BACKUP_KEY_SUFFIX}`, stored);
+		const written: string[] = [];
+		try {
+			for (const [folder, todos] of Object.entries(stored.folders ?? {})) {
+				const key = folderStateKey(folder);
+				if (memento.get(key) !== undefined) {
+					continue;
+				}
+				const payload: VersionedPayload = { version: stored.version, todos };
+				await memento.update(
+					key,
+					migratePayload(payload, this.schemaVersion, this.migrations.workspace)
+				);
+				written.push(key);
+			}
+		} catch (error) {
+			for (const key of written) {
+				await memento.update(key, undefined);
+			}
+			throw error;
+		}
+		await memento.update(LEGACY_WORKSPACE_STATE_KEY, undefined);
+		return {
+			key: LEGACY_WORKSPACE_STATE_KEY,
+			fromVersion: stored.version,
+			toVersion: this.schemaVersion,
+		};
+	}
+
+	private async writeGlobal(todos: PersistedTodo[]): Promise<void> {
+		const known = this.globalReplica;
+		if (!known || !(this.globalSync?.isActive || this.settingsSyncTimer)) {
+			const payload: PersistedGlobalState = { version: this.schemaVersion, todos };
+			if (known) {
+				this.globalReplica = payload;
+			}
+			await this.mementos.globalState.update(GLOBAL_STATE_KEY, payload);
+			return;
+		}
+		const now = Date.now();
+		const local: TodoReplica<PersistedTodo> = {
+			todos,
+			tombstones: updateTombstones(
+				known.tombstones ?? [],
+				known.todos,
+				todos,
+				new Date(now).toISOString(),
+				new Date(now - TOMBSTONE_RETENTION_DAYS * DAY_MS).toISOString()
+			),
+		};
+		const changedElsewhere = [this.getGlobalState(), await this.globalSync?.read()].filter(
+			(payload): payload is PersistedGlobalState =>
+				payload !== undefined && payload.revision !== known.revision
+		);
+		const merged = changedElsewhere.reduce(
+			(replica, payload) => mergeTodoReplicas(replica, toReplica(payload)),
+			local
+		);
+		await this.storeGlobal({ version: this.schemaVersion, revision: randomUUID(), ...merged });
+		if (!sameReplica(merged, local)) {
+			this.onDidChangeEmitter.fire({ scope: 'global' });
+		}
+	}
+
+	/**
+	 * Merges a global list changed in another window or machine with the list this provider knows.
+	 * When the other copy already contains everything, it is adopted unchanged so the copies
+	 * settle instead of rewriting each other.
+	 */
+	private async integrateGlobal(incoming: PersistedGlobalState): Promise<void> {
+		const known = this.globalReplica;
+		if (!known) {
+			return;
+		}
+		const merged = mergeTodoReplicas(toReplica(known), toReplica(incoming));
+		await this.storeGlobal(
+			sameReplica(merged, toReplica(incoming))
+				? incoming
+				: { version: this.schemaVersion, revision: randomUUID(), ...merged }
+		);
+		if (!sameReplica(merged, toReplica(known))) {
+			this.onDidChangeEmitter.fire({ scope: 'global' });
+		}
+	}
+
+	/**
+	 * Writes a synced global payload to the memento and publishes it to other windows.
+	 *
+	 * @throws Error when the memento holds a payload that cannot be read, e.g. one synced in from a
+	 * newer version of the extension.
+	 */
+	private async storeGlobal(payload: PersistedGlobalState): Promise<void> {
+		const readError = this.readError({ scope: 'global' });
+		if (readError) {
+			throw new Error(`Refusing to overwrite global todos that could not be read: ${readError}`);
+		}
+		this.globalReplica = payload;
+		await this.mementos.globalState.update(GLOBAL_STATE_KEY, payload);
+		if (!payload.revision || !this.globalSync?.isActive) {
+			return;
+		}
+		try {
+			await this.globalSync.publish({
+				...payload,
+				revision: payload.revision,
+				tombstones: payload.tombstones ?? [],
+			});
+		} catch (error) {
+			console.error('Unable to publish global todos to other windows', error);
+		}
+	}
+
+	private getGlobalState(): PersistedGlobalState | undefined {
+		const stored = this.mementos.globalState.get<VersionedPayload>(GLOBAL_STATE_KEY);
+		if (!stored) {
+			return undefined;
+		}
+		return tryMigratePayload<PersistedGlobalState>(
+			stored,
+			this.schemaVersion,
+			this.migrations.global,
+			GLOBAL_STATE_KEY
+		);
+	}
+
+	/**
+	 * Reads the project list of a folder from its own payload, or from the combined payload while
+	 * that has not been migrated yet.
+	 */
+	private getFolderState(workspaceFolder: string): PersistedScopeState | undefined {
+		const stored = this.getStoredFolderPayload(workspaceFolder);
+		if (!stored) {
+			return undefined;
+		}
+		return tryMigratePayload<PersistedScopeState>(
+			stored,
+			this.schemaVersion,
+			this.migrations.workspace,
+			folderStateKey(workspaceFolder)
+		);
+	}
+
+	/** Returns the stored project payload of a folder as written, before any migration. */
+	private getStoredFolderPayload(workspaceFolder: string): VersionedPayload | undefined {
+		return (
+			this.mementos.workspaceState.get<VersionedPayload>(folderStateKey(workspaceFolder)) ??
+			this.getLegacyFolderPayload(workspaceFolder)
+		);
+	}
+
+	private getLegacyFolderPayload(workspaceFolder: string): VersionedPayload | undefined {
+		const legacy = this.getLegacyWorkspaceState();
+		const todos = legacy?.folders[workspaceFolder];
+		return legacy && todos ? { version: legacy.version, todos } : undefined;
+	}
+
+	private getLegacyWorkspaceState(): PersistedWorkspaceState | undefined {
+		const stored = this.mementos.workspaceState.get<PersistedWorkspaceState>(
+			LEGACY_WORKSPACE_STATE_KEY
+		);
+		return stored ? { version: stored.version, folders: stored.folders ?? {} } : undefined;
+	}
+}
+
+/** Workspace memento key of a folder's project list. */
+function folderStateKey(workspaceFolder: string): string {
+	return `${WORKSPACE_FOLDER_KEY_PREFIX}${workspaceFolder}`;
+}
+
+function toReplica(payload: PersistedGlobalState): TodoReplica<PersistedTodo> {
+	return { todos: payload.todos, tombstones: payload.tombstones ?? [] };
+}
+
+/** Compares copies by todo IDs, update times, order, and removed IDs. */
+function sameReplica(a: TodoReplica<PersistedTodo>, b: TodoReplica<PersistedTodo>): boolean {
+	const signature = (replica: TodoReplica<PersistedTodo>) =>
+		JSON.stringify([
+			replica.todos.map((todo) => [todo.id, todo.updatedAt, todo.position]),
+			replica.tombstones.map((tombstone) => tombstone.id).sort(),
+		]);
+	return signature(a) === signature(b);
+}
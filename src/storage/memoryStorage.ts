@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+
+import { MementoStorageOptions, MementoStorageProvider } from './mementoStorage';
+
+/** Memento implementation that keeps values in memory for the lifetime of the instance. */
+export class InMemoryMemento implements vscode.Memento {
+	private readonly store = new Map<string, unknown>();
+	private syncedKeys: readonly string[] = [];
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		if (this.store.has(key)) {
+			return this.store.get(key) as T;
+		}
+		return defaultValue;
+	}
+
+	update<T>(key: string, value: T): Thenable<void> {
+		if (value === undefined) {
+			this.store.delete(key);
+		} else {
+			this.store.set(key, value);
+		}
+		return Promise.resolve();
+	}
+
+	keys(): readonly string[] {
+		return Array.from(this.store.keys());
+	}
+
+	setKeysForSync(keys: readonly string[]): void {
+		this.syncedKeys = keys;
+	}
+
+	/** Keys registered for Settings Sync, exposed for assertions. */
+	get keysForSync(): readonly string[] {
+		return this.syncedKeys;
+	}
+}
+
+/**
+ * Creates a session-only backend: the memento layout backed by in-memory mementos, so nothing is
+ * written to disk and lists reset when the window reloads.
+ *
+ * @param options - Optional schema overrides.
+ * @returns A storage provider identified as `memory`.
+ */
+export function createMemoryStorageProvider(
+	options: Omit<MementoStorageOptions, 'id'> = {}
+): MementoStorageProvider {
+	return new MementoStorageProvider(
+		{ globalState: new InMemoryMemento(), workspaceState: new InMemoryMemento() },
+		{ ...options, id: 'memory' }
+	);
+}
@@ -0,0 +1,105 @@
+import { findMigrationError, tryMigratePayload, VersionedPayload } from '../stateMigrations';
+import { ScopeTarget } from '../types/scope';
+import { PersistedTodo, ScopeMementoResolver, storageKey } from './todoStorage';
+
+/** Memento key of the archive; also names its data in todo files. */
+export const ARCHIVE_KEY = 'todo.archive';
+const ARCHIVE_VERSION = 1;
+
+interface PersistedArchive {
+	version: number;
+	scopes: Record<string, PersistedTodo[]>;
+}
+
+/**
+ * Keeps completed todos per scope once they leave the active list in archive mode. The archive is
+ * stored where the scope's todos are: in the todo file, in memory, or in the VS Code mementos
+ * (profile for global, workspace for project scopes). Entries never expire.
+ */
+export class TodoArchive {
+	constructor(
+		private readonly mementoFor: ScopeMementoResolver,
+		private readonly now: () => number = () => Date.now()
+	) {}
+
+	/**
+	 * Lists the archived todos of a scope, most recently completed first.
+	 *
+	 * @param scope - Scope whose archive should be listed.
+	 */
+	list(scope: ScopeTarget): PersistedTodo[] {
+		return (this.read(scope).scopes[storageKey(scope)] ?? [])
+			.map((todo) => ({ ...todo }))
+			.sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''));
+	}
+
+	/**
+	 * Adds archived todos and drops entries whose todo is back in the active list (after an undo
+	 * or restore). Todos are stored as completed; a missing `completedAt` is set to now.
+	 *
+	 * @param scope - Scope the todos belong to.
+	 * @param archived - Todos that were just archived.
+	 * @param presentIds - IDs currently in the scope's active list.
+	 */
+	async update(
+		scope: ScopeTarget,
+		archived: PersistedTodo[],
+		presentIds: Set<string>
+	): Promise<void> {
+		const state = this.read(scope);
+		const existing = state.scopes[storageKey(scope)] ?? [];
+		const completedAt = new Date(this.now()).toISOString();
+		const added = archived.map((todo) => ({
+			...todo,
+			completed: true,
+			completedAt: todo.completedAt ?? completedAt,
+		}));
+		const archivedIds = new Set(archived.map((todo) => todo.id));
+		const next = [
+			...existing.filter((todo) => !presentIds.has(todo.id) && !archivedIds.has(todo.id)),
+			...added,
+		];
+		if (added.length === 0 && next.length === existing.length) {
+			return;
+		}
+		await this.write(scope, state, next);
+	}
+
+	/**
+	 * Describes why the stored archive of a scope cannot be read, e.g. because a newer version of
+	 * the extension wrote it. Such an archive lists nothing and is never written.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const stored = this.mementoFor(scope, ARCHIVE_KEY).get<VersionedPayload>(ARCHIVE_KEY);
+		const error = stored ? findMigrationError(stored, ARCHIVE_VERSION, []) : undefined;
+		return error ? `${ARCHIVE_KEY}: ${error}` : undefined;
+	}
+
+	private read(scope: ScopeTarget): PersistedArchive {
+		const stored = this.mementoFor(scope, ARCHIVE_KEY).get<VersionedPayload>(ARCHIVE_KEY);
+		const payload = stored
+			? tryMigratePayload<PersistedArchive>(stored, ARCHIVE_VERSION, [], ARCHIVE_KEY)
+			: undefined;
+		return { version: ARCHIVE_VERSION, scopes: { ...payload?.scopes } };
+	}
+
+	private async write(
+		scope: ScopeTarget,
+		state: PersistedArchive,
+		todos: PersistedTodo[]
+	): Promise<void> {
+		const readError = this.readError(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite an archive that could not be read: ${readError}`);
+		}
+		const key = storageKey(scope);
+		if (todos.length > 0) {
+			state.scopes[key] = todos;
+		} else {
+			delete state.scopes[key];
+		}
+		await this.mementoFor(scope, ARCHIVE_KEY).update(ARCHIVE_KEY, state);
+	}
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import * as vscode from 'vscode';
+
+import { BackupReason } from '../types/backup';
+import { ScopeTarget } from '../types/scope';
+import { PersistedTodo, storageKey } from './todoStorage';
+
+const BACKUP_FOLDER = 'backups';
+const BACKUP_VERSION = 1;
+
+/** Backups kept per list unless configured otherwise. */
+export const DEFAULT_BACKUP_RETENTION_COUNT = 10;
+
+/** Backup file contents; the scope is stored so files can be listed without an index. */
+export interface StoredBackup {
+	version: number;
+	scope: ScopeTarget;
+	createdAt: string;
+	reason: BackupReason;
+	todos: PersistedTodo[];
+}
+
+/**
+ * Writes snapshots of todo lists as JSON files to a `backups` folder in the extension's global
+ * storage, so lists can be recovered after the undo history is gone. Each list keeps its newest
+ * backups up to the retention count; a count of `0` turns backups off.
+ */
+export class TodoBackups {
+	private readonly folderUri: vscode.Uri;
+
+	constructor(
+		globalStorageUri: vscode.Uri,
+		private readonly retentionCount: () => number = () => DEFAULT_BACKUP_RETENTION_COUNT,
+		private readonly now: () => number = () => Date.now()
+	) {
+		this.folderUri = vscode.Uri.joinPath(globalStorageUri, BACKUP_FOLDER);
+	}
+
+	/**
+	 * Backs up a list unless it is empty or unchanged since its latest backup, then drops backups
+	 * of the scope beyond the retention count.
+	 *
+	 * @param scope - Scope the list belongs to.
+	 * @param todos - Todos to back up.
+	 * @param reason - Why the backup is taken.
+	 * @returns File name of the new backup, or undefined when none was written.
+	 */
+	async create(
+		scope: ScopeTarget,
+		todos: PersistedTodo[],
+		reason: BackupReason
+	): Promise<string | undefined> {
+		const keep = this.retentionCount();
+		if (keep <= 0 || todos.length === 0) {
+			return undefined;
+		}
+		const existing = (await this.list()).filter(
+			(entry) => storageKey(entry.backup.scope) === storageKey(scope)
+		);
+		if (existing[0] && JSON.stringify(existing[0].backup.todos) === JSON.stringify(todos)) {
+			return undefined;
+		}
+		const createdAt = new Date(this.now()).toISOString();
+		const id = `${createdAt.replace(/[:.]/g, '-')}-${scopeSlug(scope)}-${reason}.json`;
+		const backup: StoredBackup = { version: BACKUP_VERSION, scope, createdAt, reason, todos };
+		await vscode.workspace.fs.createDirectory(this.folderUri);
+		await vscode.workspace.fs.writeFile(
+			vscode.Uri.joinPath(this.folderUri, id),
+			new TextEncoder().encode(`${JSON.stringify(backup, null, '\t')}\n`)
+		);
+		for (const stale of existing.slice(keep - 1)) {
+			await vscode.workspace.fs.delete(vscode.Uri.joinPath(this.folderUri, stale.id));
+		}
+		return id;
+	}
+
+	/**
+	 * Lists all readable backups, newest first. Files that cannot be parsed are skipped.
+	 */
+	async list(): Promise<Array<{ id: string; backup: StoredBackup }>> {
+		let entries: [string, vscode.FileType][];
+		try {
+			entries = await vscode.workspace.fs.readDirectory(this.folderUri);
+		} catch {
+			return [];
+		}
+		const backups: Array<{ id: string; backup: StoredBackup }> = [];
+		for (const [id, type] of entries) {
+			if (type !== vscode.FileType.File || !id.endsWith('.json')) {
+				continue;
+			}
+			try {
+				const uri = vscode.Uri.joinPath(this.folderUri, id);
+				const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+				const backup = JSON.parse(content) as StoredBackup;
+				if (backup?.version === BACKUP_VERSION && Array.isArray(backup.todos)) {
+					backups.push({ id, backup });
+				}
+			} catch (error) {
+				console.error(`Unable to read todo backup ${id}`, error);
+			}
+		}
+		return backups.sort((a, b) => b.backup.createdAt.localeCompare(a.backup.createdAt));
+	}
+}
+
+/** Short, file-name-safe identifier of a scope. */
+function scopeSlug(scope: ScopeTarget): string {
+	if (scope.scope === 'global') {
+		return 'global';
+	}
+	return `project-${createHash('sha256').update(scope.workspaceFolder).digest('hex').slice(0, 12)}`;
+}
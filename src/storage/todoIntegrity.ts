@@ -0,0 +1,159 @@
+import { randomUUID } from 'crypto';
+
+import {
+	compactPositions,
+	findDetachedSubtasks,
+	isDueDate,
+	isTodoAnchor,
+	isTodoPriority,
+} from '../domain/todo';
+import { isTodoRecurrence } from '../domain/recurrence';
+import { QuarantinedEntry, RepairedField, TodoRepair } from '../types/integrity';
+import { PersistedTodo } from './todoStorage';
+
+/** Outcome of checking the stored entries of one list. */
+export interface IntegrityResult {
+	/** Valid todos in list order with compact positions per parent and section. */
+	todos: PersistedTodo[];
+	repairs: TodoRepair[];
+	quarantined: QuarantinedEntry[];
+}
+
+/**
+ * Validates stored todo entries, repairing what can be derived (duplicate or missing IDs, invalid
+ * positions, flags, timestamps, parents, sections, tags, due dates, priorities, notes, anchors,
+ * and recurrence rules) and quarantining entries without a usable title. Invalid recurrence rules
+ * are dropped, so such todos no longer repeat. Positions are renumbered per parent and section in
+ * list order; entries with invalid positions keep their relative order at the end. Subtasks whose
+ * parent is missing become top-level todos.
+ *
+ * @param entries - Raw entries as read from storage.
+ * @param now - Timestamp used when no other timestamp of the todo is valid.
+ * @param createId - Generates IDs for todos with missing or duplicate ones.
+ * @returns Repaired todos together with what was changed.
+ */
+export function checkPersistedTodos(
+	entries: readonly unknown[],
+	now: string = new Date().toISOString(),
+	createId: () => string = randomUUID
+): IntegrityResult {
+	const repairs: TodoRepair[] = [];
+	const quarantined: QuarantinedEntry[] = [];
+	const seenIds = new Set<string>();
+	const checked: PersistedTodo[] = [];
+
+	entries.forEach((entry) => {
+		if (!isRecord(entry)) {
+			quarantined.push({ entry, reason: 'notAnObject' });
+			return;
+		}
+		if (typeof entry.title !== 'string' || entry.title.trim().length === 0) {
+			quarantined.push({ entry, reason: 'missingTitle' });
+			return;
+		}
+		const fields: RepairedField[] = [];
+		let id = entry.id;
+		if (typeof id !== 'string' || id.length === 0 || seenIds.has(id)) {
+			id = createId();
+			fields.push('id');
+		}
+		seenIds.add(id as string);
+		const completed = entry.completed === true;
+		if (typeof entry.completed !== 'boolean') {
+			fields.push('completed');
+		}
+		const validPosition = typeof entry.position === 'number' && Number.isFinite(entry.position);
+		if (!validPosition) {
+			fields.push('position');
+		}
+		let createdAt = validTimestamp(entry.createdAt);
+		let updatedAt = validTimestamp(entry.updatedAt);
+		if (!createdAt) {
+			createdAt = updatedAt ?? now;
+			fields.push('createdAt');
+		}
+		if (!updatedAt) {
+			updatedAt = createdAt;
+			fields.push('updatedAt');
+		}
+		const todo: PersistedTodo = {
+			...(entry as Partial<PersistedTodo>),
+			id: id as string,
+			title: entry.title,
+			completed,
+			position: validPosition ? (entry.position as number) : Number.POSITIVE_INFINITY,
+			createdAt,
+			updatedAt,
+		};
+		if (entry.completedAt !== undefined && !validTimestamp(entry.completedAt)) {
+			todo.completedAt = completed ? updatedAt : undefined;
+			fields.push('completedAt');
+		}
+		if (entry.parentId !== undefined && typeof entry.parentId !== 'string') {
+			todo.parentId = undefined;
+			fields.push('parentId');
+		}
+		if (
+			entry.section !== undefined &&
+			(typeof entry.section !== 'string' || entry.section.trim().length === 0)
+		) {
+			todo.section = undefined;
+			fields.push('section');
+		}
+		if (entry.tags !== undefined) {
+			const tags = Array.isArray(entry.tags)
+				? entry.tags.filter((tag) => typeof tag === 'string' && tag.trim().length > 0)
+				: [];
+			if (!Array.isArray(entry.tags) || tags.length !== entry.tags.length) {
+				todo.tags = tags.length > 0 ? tags : undefined;
+				fields.push('tags');
+			}
+		}
+		if (entry.dueDate !== undefined && !isDueDate(entry.dueDate)) {
+			todo.dueDate = undefined;
+			fields.push('dueDate');
+		}
+		if (entry.priority !== undefined && !isTodoPriority(entry.priority)) {
+			todo.priority = undefined;
+			fields.push('priority');
+		}
+		if (entry.notes !== undefined && typeof entry.notes !== 'string') {
+			todo.notes = undefined;
+			fields.push('notes');
+		}
+		if (entry.anchor !== undefined && !isTodoAnchor(entry.anchor)) {
+			todo.anchor = undefined;
+			fields.push('anchor');
+		}
+		if (entry.recurrence !== undefined && !isTodoRecurrence(entry.recurrence)) {
+			todo.recurrence = undefined;
+			fields.push('recurrence');
+		}
+		fields.forEach((field) => repairs.push({ todoId: todo.id, field }));
+		checked.push(todo);
+	});
+	const detached = findDetachedSubtasks(checked);
+	checked.forEach((todo) => {
+		if (detached.has(todo.id)) {
+			todo.parentId = undefined;
+			repairs.push({ todoId: todo.id, field: 'parentId' });
+		}
+	});
+
+	// Infinity - Infinity is NaN, so todos with invalid positions fall back to their list order.
+	const todos = compactPositions(
+		checked
+			.map((todo, index) => ({ todo, index }))
+			.sort((a, b) => a.todo.position - b.todo.position || a.index - b.index)
+			.map(({ todo }) => todo)
+	);
+	return { todos, repairs, quarantined };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validTimestamp(value: unknown): string | undefined {
+	return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
@@ -0,0 +1,82 @@
+import { findMigrationError, tryMigratePayload, VersionedPayload } from '../stateMigrations';
+import { QuarantinedEntry } from '../types/integrity';
+import { ScopeTarget } from '../types/scope';
+import { ScopeMementoResolver, storageKey } from './todoStorage';
+
+const QUARANTINE_KEY = 'todo.quarantine';
+const QUARANTINE_VERSION = 1;
+
+/** A stored entry removed from its list by the integrity check, kept for manual recovery. */
+export interface QuarantineRecord extends QuarantinedEntry {
+	quarantinedAt: string;
+}
+
+interface PersistedQuarantine {
+	version: number;
+	scopes: Record<string, QuarantineRecord[]>;
+}
+
+/**
+ * Keeps stored entries that failed the integrity check so their raw data is never lost. Records
+ * are stored next to the trash: in memory for session-only lists, in the VS Code mementos otherwise.
+ */
+export class TodoQuarantine {
+	constructor(
+		private readonly mementoFor: ScopeMementoResolver,
+		private readonly now: () => number = () => Date.now()
+	) {}
+
+	/**
+	 * Lists the quarantined entries of a scope, oldest first.
+	 *
+	 * @param scope - Scope whose quarantine should be listed.
+	 */
+	list(scope: ScopeTarget): QuarantineRecord[] {
+		return [...(this.read(scope).scopes[storageKey(scope)] ?? [])];
+	}
+
+	/**
+	 * Adds entries removed from the list of a scope.
+	 *
+	 * @param scope - Scope the entries were read from.
+	 * @param entries - Entries that could not be repaired.
+	 * @throws Error when the stored quarantine could not be read, so its records are never lost.
+	 */
+	async add(scope: ScopeTarget, entries: QuarantinedEntry[]): Promise<void> {
+		if (entries.length === 0) {
+			return;
+		}
+		const readError = this.readError(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite a quarantine that could not be read: ${readError}`);
+		}
+		const state = this.read(scope);
+		const key = storageKey(scope);
+		const quarantinedAt = new Date(this.now()).toISOString();
+		state.scopes[key] = [
+			...(state.scopes[key] ?? []),
+			...entries.map((entry) => ({ ...entry, quarantinedAt })),
+		];
+		await this.mementoFor(scope, QUARANTINE_KEY).update(QUARANTINE_KEY, state);
+	}
+
+	/**
+	 * Describes why the stored quarantine of a scope cannot be read, e.g. because a newer version
+	 * of the extension wrote it. Such a quarantine lists nothing and is never written.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const stored = this.mementoFor(scope, QUARANTINE_KEY).get<VersionedPayload>(QUARANTINE_KEY);
+		const error = stored ? findMigrationError(stored, QUARANTINE_VERSION, []) : undefined;
+		return error ? `${QUARANTINE_KEY}: ${error}` : undefined;
+	}
+
+	private read(scope: ScopeTarget): PersistedQuarantine {
+		const stored = this.mementoFor(scope, QUARANTINE_KEY).get<VersionedPayload>(QUARANTINE_KEY);
+		const payload = stored
+			? tryMigratePayload<PersistedQuarantine>(stored, QUARANTINE_VERSION, [], QUARANTINE_KEY)
+			: undefined;
+		return { version: QUARANTINE_VERSION, scopes: { ...payload?.scopes } };
+	}
+}
@@ -0,0 +1,72 @@
+import { findMigrationError, tryMigratePayload, VersionedPayload } from '../stateMigrations';
+import { ScopeTarget } from '../types/scope';
+import { ScopeMementoResolver, storageKey } from './todoStorage';
+
+/** Memento key of the section names; also names their data in todo files. */
+export const SECTIONS_KEY = 'todo.sections';
+const SECTIONS_VERSION = 1;
+
+interface PersistedSections {
+	version: number;
+	scopes: Record<string, string[]>;
+}
+
+/**
+ * Keeps the ordered section names of each scope, so sections stay in place while they are empty.
+ * Todos store the name of their section themselves; like the archive, the names are stored where
+ * the scope's todos are.
+ */
+export class TodoSections {
+	constructor(private readonly mementoFor: ScopeMementoResolver) {}
+
+	/**
+	 * Lists the section names of a scope in display order.
+	 *
+	 * @param scope - Scope whose sections should be listed.
+	 */
+	list(scope: ScopeTarget): string[] {
+		return [...(this.read(scope).scopes[storageKey(scope)] ?? [])];
+	}
+
+	/**
+	 * Replaces the section names of a scope.
+	 *
+	 * @param scope - Scope the sections belong to.
+	 * @param names - Section names in display order; an empty list drops the scope's entry.
+	 * @throws Error when the stored section names could not be read, so they are never overwritten.
+	 */
+	async write(scope: ScopeTarget, names: string[]): Promise<void> {
+		const readError = this.readError(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite sections that could not be read: ${readError}`);
+		}
+		const state = this.read(scope);
+		const key = storageKey(scope);
+		if (names.length > 0) {
+			state.scopes[key] = names;
+		} else {
+			delete state.scopes[key];
+		}
+		await this.mementoFor(scope, SECTIONS_KEY).update(SECTIONS_KEY, state);
+	}
+
+	/**
+	 * Describes why the stored section names of a scope cannot be read, e.g. because a newer
+	 * version of the extension wrote them. Such names list as empty and are never written.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const stored = this.mementoFor(scope, SECTIONS_KEY).get<VersionedPayload>(SECTIONS_KEY);
+		const error = stored ? findMigrationError(stored, SECTIONS_VERSION, []) : undefined;
+		return error ? `${SECTIONS_KEY}: ${error}` : undefined;
+	}
+
+	private read(scope: ScopeTarget): PersistedSections {
+		const stored = this.mementoFor(scope, SECTIONS_KEY).get<VersionedPayload>(SECTIONS_KEY);
+		const payload = stored
+			? tryMigratePayload<PersistedSections>(stored, SECTIONS_VERSION, [], SECTIONS_KEY)
+			: undefined;
+		return { version: SECTIONS_VERSION, scopes: { ...payload?.scopes } };
+	}
+}
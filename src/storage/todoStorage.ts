@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+
+import { Todo } from '../types';
+import { ScopeTarget } from '../types/scope';
+
+/** Todo fields written to storage; scope metadata is derived from where the list is stored. */
+export type PersistedTodo = Omit<Todo, 'scope' | 'workspaceFolder'>;
+
+/** Layout shared by every single-scope payload (global memento, todo files). */
+export interface PersistedScopeState {
+	version: number;
+	todos: PersistedTodo[];
+}
+
+/** Resolves the memento in which a side store keeps the data of a scope under its key. */
+export type ScopeMementoResolver = (scope: ScopeTarget, key: string) => vscode.Memento;
+
+/** Identifiers of the storage backends that can be selected per scope. */
+export type StorageBackendId = 'memento' | 'file' | 'memory';
+
+/**
+ * Reads and writes the todo list of a single scope. Reads stay synchronous so the repository API
+ * does not change; backends with asynchronous I/O cache their data in `load`.
+ */
+export interface TodoStorageProvider {
+	readonly id: StorageBackendId;
+	/**
+	 * Returns the stored todos for a scope.
+	 *
+	 * @returns Todos at the current schema version, or undefined when the backend has no list yet.
+	 */
+	read(scope: ScopeTarget): PersistedTodo[] | undefined;
+	/**
+	 * Describes why the stored data of a scope cannot be read (e.g. it was written by a newer
+	 * version of the extension). Such scopes read as empty and are never written.
+	 *
+	 * @returns The problem, or undefined when the scope is readable.
+	 */
+	readError?(scope: ScopeTarget): string | undefined;
+	/** Replaces the stored list for a scope. */
+	write(scope: ScopeTarget, todos: PersistedTodo[]): Promise<void>;
+	/**
+	 * Returns the memento in which a side store (trash, archive, sections, quarantine) keeps the data
+	 * of a scope under its key, so that data lives where the scope's todos live.
+	 *
+	 * @param local - The VS Code memento of the scope, used when the backend returns undefined.
+	 */
+	stateFor?(scope: ScopeTarget, key: string, local: vscode.Memento): vscode.Memento | undefined;
+	/** Reads a scope into memory ahead of synchronous reads. */
+	load?(scope: ScopeTarget): Promise<void>;
+	/** Drops cached data for a scope, e.g. after another backend was selected for it. */
+	unload?(scope: ScopeTarget): void;
+	/** Fires when a scope's data was changed outside the extension and has been re-read. */
+	readonly onDidChange?: vscode.Event<ScopeTarget>;
+}
+
+/**
+ * Serializes a scope into a stable key for backend caches.
+ *
+ * @param scope - Scope to serialize.
+ */
+export function storageKey(scope: ScopeTarget): string {
+	return scope.scope === 'global' ? 'global' : `workspace:${scope.workspaceFolder}`;
+}
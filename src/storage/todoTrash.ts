@@ -0,0 +1,143 @@
+import { findMigrationError, tryMigratePayload, VersionedPayload } from '../stateMigrations';
+import { ScopeTarget } from '../types/scope';
+import { PersistedTodo, ScopeMementoResolver, storageKey } from './todoStorage';
+
+const TRASH_KEY = 'todo.trash';
+const TRASH_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days deleted todos stay in the trash unless configured otherwise. */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** A deleted todo kept in the trash of the scope it was removed from. */
+export interface TrashedTodo {
+	todo: PersistedTodo;
+	deletedAt: string;
+}
+
+interface PersistedTrash {
+	version: number;
+	scopes: Record<string, TrashedTodo[]>;
+}
+
+/**
+ * Keeps deleted todos per scope for a retention period so they can be restored later. The trash
+ * lives in memory for session-only lists and in the VS Code mementos otherwise (profile for global,
+ * workspace for project scopes), even when the todos are stored in a shared file, so deleted items
+ * are never committed.
+ */
+export class TodoTrash {
+	constructor(
+		private readonly mementoFor: ScopeMementoResolver,
+		private readonly retentionDays: () => number = () => DEFAULT_TRASH_RETENTION_DAYS,
+		private readonly now: () => number = () => Date.now()
+	) {}
+
+	/**
+	 * Lists unexpired deleted todos of a scope, most recently deleted first.
+	 *
+	 * @param scope - Scope whose trash should be listed.
+	 */
+	list(scope: ScopeTarget): TrashedTodo[] {
+		return this.live(this.read(scope).scopes[storageKey(scope)] ?? [])
+			.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+			.map((entry) => ({ ...entry, todo: { ...entry.todo } }));
+	}
+
+	/**
+	 * Moves deleted todos into the trash and drops entries whose todo is back in the list (after an
+	 * undo or restore). Expired entries are pruned on every update.
+	 *
+	 * @param scope - Scope the todos belong to.
+	 * @param deleted - Todos that were just deleted.
+	 * @param presentIds - IDs currently in the scope's list.
+	 */
+	async update(scope: ScopeTarget, deleted: PersistedTodo[], presentIds: Set<string>): Promise<void> {
+		const state = this.read(scope);
+		const key = storageKey(scope);
+		const existing = state.scopes[key] ?? [];
+		const deletedAt = new Date(this.now()).toISOString();
+		const added = this.retentionDays() > 0 ? deleted.map((todo) => ({ todo, deletedAt })) : [];
+		const deletedIds = new Set(deleted.map((todo) => todo.id));
+		const next = this.live([
+			...existing.filter(
+				(entry) => !presentIds.has(entry.todo.id) && !deletedIds.has(entry.todo.id)
+			),
+			...added,
+		]);
+		if (added.length === 0 && next.length === existing.length) {
+			return;
+		}
+		await this.write(scope, state, next);
+	}
+
+	/**
+	 * Removes the given todos from the trash of a scope.
+	 *
+	 * @param scope - Scope whose trash should be emptied.
+	 * @param ids - IDs to remove; omitted to empty the whole scope.
+	 * @returns Number of entries removed.
+	 */
+	async remove(scope: ScopeTarget, ids?: string[]): Promise<number> {
+		const state = this.read(scope);
+		const existing = state.scopes[storageKey(scope)] ?? [];
+		const next = ids ? existing.filter((entry) => !ids.includes(entry.todo.id)) : [];
+		if (next.length === existing.length) {
+			return 0;
+		}
+		await this.write(scope, state, next);
+		return existing.length - next.length;
+	}
+
+	/**
+	 * Describes why the stored trash of a scope cannot be read, e.g. because a newer version of the
+	 * extension wrote it. Such a trash lists nothing and is never written.
+	 *
+	 * @param scope - Scope to check.
+	 */
+	readError(scope: ScopeTarget): string | undefined {
+		const stored = this.mementoFor(scope, TRASH_KEY).get<VersionedPayload>(TRASH_KEY);
+		const error = stored ? findMigrationError(stored, TRASH_VERSION, []) : undefined;
+		return error ? `${TRASH_KEY}: ${error}` : undefined;
+	}
+
+	/**
+	 * Drops expired entries of a scope without other changes.
+	 *
+	 * @param scope - Scope whose trash should be pruned.
+	 */
+	async purge(scope: ScopeTarget): Promise<void> {
+		await this.update(scope, [], new Set());
+	}
+
+	private live(entries: TrashedTodo[]): TrashedTodo[] {
+		const cutoff = this.now() - this.retentionDays() * DAY_MS;
+		return entries.filter((entry) => Date.parse(entry.deletedAt) > cutoff);
+	}
+
+	private read(scope: ScopeTarget): PersistedTrash {
+		const stored = this.mementoFor(scope, TRASH_KEY).get<VersionedPayload>(TRASH_KEY);
+		const payload = stored
+			? tryMigratePayload<PersistedTrash>(stored, TRASH_VERSION, [], TRASH_KEY)
+			: undefined;
+		return { version: TRASH_VERSION, scopes: { ...payload?.scopes } };
+	}
+
+	private async write(
+		scope: ScopeTarget,
+		state: PersistedTrash,
+		entries: TrashedTodo[]
+	): Promise<void> {
+		const readError = this.readError(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite a trash that could not be read: ${readError}`);
+		}
+		const key = storageKey(scope);
+		if (entries.length > 0) {
+			state.scopes[key] = entries;
+		} else {
+			delete state.scopes[key];
+		}
+		await this.mementoFor(scope, TRASH_KEY).update(TRASH_KEY, state);
+	}
+}
@@ -5,17 +5,34 @@ import { afterEach } from 'mocha';
 import * as vscode from 'vscode';
 
 import { HandlerContext } from '../types/handlerContext';
-import { addTodo, editTodo } from '../adapters/commandRouter';
+import {
+	addTodo,
+	addTodoAtCursor,
+	editTodo,
+	filterByTag,
+	reanchorTodo,
+	setDueDate,
+	setPriority,
+	setRecurrence,
+} from '../adapters/commandRouter';
+import { toDueDate } from '../domain/todo';
+import { redoLastChange, undoLastChange } from '../services/todoOperations';
 import { TodoWebviewHost } from '../todoWebviewHost';
 import { TodoRepository } from '../todoRepository';
 import { AutoDeleteCoordinator } from '../services/autoDeleteService';
 import { ScopeTarget } from '../types/scope';
+import { TodoChangeEvent } from '../types';
+import { WebviewStateSnapshot } from '../webviewState';
 import { handleWebviewMessage } from '../adapters/webviewRouter';
+import { handleWorkspaceFoldersChanged } from '../extension';
+import { registerStateBroadcast } from '../adapters/stateBroadcaster';
 import { InboundMessage } from '../types/webviewMessages';
 import {
 	FakeWebviewHost,
 	InMemoryMemento,
+	overrideActiveTextEditor,
 	overrideWorkspaceFolders,
+	restoreActiveTextEditorDescriptor,
 	restoreWorkspaceFoldersDescriptor,
 	stubReadConfig,
 } from './testUtils';
@@ -26,9 +43,16 @@ interface RepositoryHarness {
 	workspaceState: InMemoryMemento;
 }
 
-function createRepositoryHarness(): RepositoryHarness {
-	const globalState = new InMemoryMemento();
-	const workspaceState = new InMemoryMemento();
+/** Memento whose writes land asynchronously, widening the window for racing read-modify-writes. */
+class SlowMemento extends InMemoryMemento {
+	update<T>(key: string, value: T): Thenable<void> {
+		return new Promise((resolve) => setTimeout(() => resolve(super.update(key, value)), 5));
+	}
+}
+
+function createRepositoryHarness(slowWrites = false): RepositoryHarness {
+	const globalState = slowWrites ? new SlowMemento() : new InMemoryMemento();
+	const workspaceState = slowWrites ? new SlowMemento() : new InMemoryMemento();
 	const repository = new TodoRepository({
 		globalState,
 		workspaceState,
@@ -41,8 +65,13 @@ suite('Command handlers', () => {
 	const originalExecuteCommand = vscode.commands.executeCommand;
 	const originalShowWarningMessage = vscode.window.showWarningMessage;
 	const originalShowInformationMessage = vscode.window.showInformationMessage;
+	const originalShowInputBox = vscode.window.showInputBox;
 	const originalGetConfiguration = vscode.workspace.getConfiguration;
+	const originalGetWorkspaceFolder = vscode.workspace.getWorkspaceFolder;
+	const originalOpenTextDocument = vscode.workspace.openTextDocument;
+	const originalShowTextDocument = vscode.window.showTextDocument;
 	const activeAutoDeleteCoordinators: AutoDeleteCoordinator<HandlerContext>[] = [];
+	const stateBroadcasts: vscode.Disposable[] = [];
 	let restoreReadConfig: (() => void) | undefined;
 
 	function createAutoDelete(host?: FakeWebviewHost): AutoDeleteCoordinator<HandlerContext> {
@@ -70,9 +99,14 @@ suite('Command handlers', () => {
 		webviewHost: Pick<TodoWebviewHost, 'postMessage' | 'broadcast'>,
 		autoDelete: AutoDeleteCoordinator<HandlerContext>
 	): HandlerContext {
+		stateBroadcasts.push(registerStateBroadcast(repository, webviewHost as TodoWebviewHost));
 		return { repository, webviewHost: webviewHost as TodoWebviewHost, autoDelete };
 	}
 
+	function stateUpdates(host: FakeWebviewHost): Array<{ mode: string }> {
+		return host.postMessages.filter((entry) => entry.message.type === 'stateUpdate');
+	}
+
 	async function removeTodoWithoutUndo(
 		repository: TodoRepository,
 		scope: ScopeTarget,
@@ -107,13 +141,24 @@ suite('Command handlers', () => {
 			originalShowWarningMessage;
 		(vscode.window as unknown as { showInformationMessage: typeof vscode.window.showInformationMessage }).showInformationMessage =
 			originalShowInformationMessage;
+		(vscode.window as unknown as { showInputBox: typeof vscode.window.showInputBox }).showInputBox =
+			originalShowInputBox;
 		(vscode.workspace as unknown as { getConfiguration: typeof vscode.workspace.getConfiguration }).getConfiguration =
 			originalGetConfiguration;
+		(vscode.workspace as unknown as { getWorkspaceFolder: typeof vscode.workspace.getWorkspaceFolder }).getWorkspaceFolder =
+			originalGetWorkspaceFolder;
+		(vscode.workspace as unknown as { openTextDocument: typeof vscode.workspace.openTextDocument }).openTextDocument =
+			originalOpenTextDocument;
+		(vscode.window as unknown as { showTextDocument: typeof vscode.window.showTextDocument }).showTextDocument =
+			originalShowTextDocument;
 		restoreReadConfig?.();
 		restoreReadConfig = undefined;
 		activeAutoDeleteCoordinators.forEach((instance) => instance.dispose());
 		activeAutoDeleteCoordinators.length = 0;
+		stateBroadcasts.forEach((disposable) => disposable.dispose());
+		stateBroadcasts.length = 0;
 		restoreWorkspaceFoldersDescriptor();
+		restoreActiveTextEditorDescriptor();
 	});
 
 	test('addTodo dispatches inline create after focusing container', async () => {
@@ -132,16 +177,9 @@ suite('Command handlers', () => {
 		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
 			showQuickPickStub;
 
-		await addTodo(toHandlerContext(repository, host, autoDelete), () =>
-			host.broadcast({ type: 'stateUpdate', payload: null })
-		);
+		await addTodo(toHandlerContext(repository, host, autoDelete));
 
 		assert.deepStrictEqual(executedCommands, ['workbench.view.extension.todoContainer']);
-		assert.ok(
-			host.broadcastMessages.some(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			)
-		);
 		assert.deepStrictEqual(host.postMessages[0], {
 			mode: 'global',
 			message: { type: 'startInlineCreate', scope: { scope: 'global' } },
@@ -174,16 +212,9 @@ suite('Command handlers', () => {
 	(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
 		showQuickPickStub;
 
-		await addTodo(toHandlerContext(repository, host, autoDelete), () =>
-			host.broadcast({ type: 'stateUpdate', payload: null })
-		);
+		await addTodo(toHandlerContext(repository, host, autoDelete));
 
 		assert.deepStrictEqual(executedCommands, ['workbench.view.extension.todoContainer']);
-		assert.ok(
-			host.broadcastMessages.some(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			)
-		);
 		assert.deepStrictEqual(host.postMessages[0], {
 			mode: 'projects',
 			message: {
@@ -193,6 +224,30 @@ suite('Command handlers', () => {
 		});
 	});
 
+	test('addTodo asks for a section once the scope has sections', async () => {
+		const { repository } = createRepositoryHarness();
+		await repository.addSection({ scope: 'global' }, 'Bugs');
+		const host = new FakeWebviewHost();
+		(vscode.commands as unknown as { executeCommand: typeof vscode.commands.executeCommand }).executeCommand =
+			(async () => undefined) as typeof vscode.commands.executeCommand;
+		const pickedTitles: string[] = [];
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any, options?: any) => {
+			pickedTitles.push(options?.title);
+			const list = items as readonly vscode.QuickPickItem[];
+			return (list.find((item) => item.label === 'Bugs') ?? list[0]) as any;
+		};
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+
+		await addTodo(toHandlerContext(repository, host, createAutoDelete(host)));
+
+		assert.strictEqual(pickedTitles.length, 2);
+		assert.deepStrictEqual(host.postMessages[0], {
+			mode: 'global',
+			message: { type: 'startInlineCreate', scope: { scope: 'global' }, section: 'Bugs' },
+		});
+	});
+
 	test('editTodo dispatches inline edit for selected todo', async () => {
 		const { repository } = createRepositoryHarness();
 		const todo = repository.createTodo({ title: 'Edit me', scope: 'global' });
@@ -212,16 +267,9 @@ suite('Command handlers', () => {
 		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
 			showQuickPickStub;
 
-		await editTodo(toHandlerContext(repository, host, autoDelete), () =>
-			host.broadcast({ type: 'stateUpdate', payload: null })
-		);
+		await editTodo(toHandlerContext(repository, host, autoDelete));
 
 		assert.deepStrictEqual(executedCommands, ['workbench.view.extension.todoContainer']);
-		assert.ok(
-			host.broadcastMessages.some(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			)
-		);
 		assert.deepStrictEqual(host.postMessages[0], {
 			mode: 'global',
 			message: { type: 'startInlineEdit', scope: { scope: 'global' }, todoId: todo.id },
@@ -261,16 +309,9 @@ suite('Command handlers', () => {
 	(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
 		showQuickPickStub;
 
-	await editTodo(toHandlerContext(repository, host, autoDelete), () =>
-		host.broadcast({ type: 'stateUpdate', payload: null })
-	);
+	await editTodo(toHandlerContext(repository, host, autoDelete));
 
 	assert.deepStrictEqual(executedCommands, ['workbench.view.extension.todoContainer']);
-	assert.ok(
-		host.broadcastMessages.some(
-			(message) => (message as { type: string }).type === 'stateUpdate'
-		)
-	);
 	assert.deepStrictEqual(host.postMessages[0], {
 		mode: 'projects',
 		message: {
@@ -281,6 +322,84 @@ suite('Command handlers', () => {
 	});
 });
 
+	test('loads the lists of workspace folders added while running', async () => {
+		const folderA = vscode.Uri.parse('file:///added-a');
+		const folderB = vscode.Uri.parse('file:///added-b');
+		const added = { uri: folderB, name: 'Workspace B', index: 1 };
+		overrideWorkspaceFolders([{ uri: folderA, name: 'Workspace A', index: 0 }, added]);
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({
+			title: 'Waiting in B',
+			scope: 'workspace',
+			workspaceFolder: folderB.toString(),
+		});
+		await repository.saveWorkspaceTodos(folderB.toString(), [todo]);
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		const events: TodoChangeEvent[] = [];
+		stateBroadcasts.push(repository.onDidChange((event) => events.push(event)));
+
+		await handleWorkspaceFoldersChanged({ added: [added], removed: [] }, context);
+
+		assert.deepStrictEqual(events, [
+			{ kind: 'reload', scopes: [{ scope: 'workspace', workspaceFolder: folderB.toString() }] },
+		]);
+		assert.deepStrictEqual(
+			stateUpdates(host).map((entry) => entry.mode),
+			['projects']
+		);
+		const folderTitles = host.postMessages.flatMap((entry) =>
+			entry.message.type === 'stateUpdate'
+				? [
+						(entry.message.payload as WebviewStateSnapshot).projects.folders.map((folder) =>
+							folder.todos.map((item) => item.title)
+						),
+					]
+				: []
+		);
+		assert.deepStrictEqual(folderTitles, [[[], ['Waiting in B']]]);
+	});
+
+	test('releases workspace folders removed while running', async () => {
+		const folderA = vscode.Uri.parse('file:///removed-a');
+		const folderB = vscode.Uri.parse('file:///removed-b');
+		const removed = { uri: folderB, name: 'Workspace B', index: 1 };
+		overrideWorkspaceFolders([{ uri: folderA, name: 'Workspace A', index: 0 }, removed]);
+		const { repository, workspaceState } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: folderB.toString() };
+		const todo = repository.createTodo({
+			title: 'Done in B',
+			scope: 'workspace',
+			workspaceFolder: folderB.toString(),
+		});
+		await repository.mutate(scope, 'create', (todos) => [...todos, { ...todo, completed: true }]);
+		restoreReadConfig = stubReadConfig({
+			autoDeleteCompleted: true,
+			autoDeleteDelayMs: 5,
+			autoDeleteFadeMs: 5,
+			confirmDestructiveActions: true,
+		});
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		context.autoDelete.schedule(context, scope, todo.id);
+		overrideWorkspaceFolders([{ uri: folderA, name: 'Workspace A', index: 0 }]);
+
+		await handleWorkspaceFoldersChanged({ added: [], removed: [removed] }, context);
+		await new Promise((resolve) => setTimeout(resolve, 30));
+
+		assert.ok(!host.postMessages.some((entry) => entry.message.type === 'autoDeleteCue'));
+		assert.strictEqual(await repository.undo(), undefined);
+		assert.deepStrictEqual(
+			stateUpdates(host).map((entry) => entry.mode),
+			['projects']
+		);
+		assert.strictEqual(
+			workspaceState.get<{ todos: unknown[] }>(`todo.workspaceState:${folderB.toString()}`)
+				?.todos.length,
+			1
+		);
+	});
+
 	test('reorders workspace todos via webview message', async () => {
 		const folder = vscode.Uri.parse('file:///project');
 		overrideWorkspaceFolders([{ uri: folder, name: 'project', index: 0 }]);
@@ -313,10 +432,409 @@ suite('Command handlers', () => {
 		assert.strictEqual(todos[0].id, todoB.id);
 		assert.strictEqual(todos[0].position, 1);
 		assert.strictEqual(todos[1].id, todoA.id);
-		assert.ok(
-			host.broadcastMessages.some(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			)
+		assert.deepStrictEqual(
+			stateUpdates(host).map((update) => update.mode),
+			['projects']
+		);
+	});
+
+	test('nests todos via indent, outdent, and drag-and-drop messages', async () => {
+		const { repository } = createRepositoryHarness();
+		const [first, second, third] = ['First', 'Second', 'Third'].map((title, index) =>
+			repository.createTodo({ title, scope: 'global', position: index + 1 })
+		);
+		await repository.saveGlobalTodos([first, second, third]);
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+		const structure = () =>
+			repository
+				.getGlobalTodos()
+				.sort((a, b) => a.position - b.position)
+				.map((todo) => [todo.title, todo.parentId, todo.position]);
+
+		await send({ type: 'changeTodoLevel', scope: { scope: 'global' }, todoId: second.id, direction: 'indent' });
+		await send({ type: 'changeTodoLevel', scope: { scope: 'global' }, todoId: third.id, direction: 'indent' });
+		await send({ type: 'changeTodoLevel', scope: { scope: 'global' }, todoId: first.id, direction: 'indent' });
+		assert.deepStrictEqual(structure(), [
+			['First', undefined, 1],
+			['Second', first.id, 1],
+			['Third', first.id, 2],
+		]);
+
+		await send({ type: 'changeTodoLevel', scope: { scope: 'global' }, todoId: second.id, direction: 'outdent' });
+		assert.deepStrictEqual(structure(), [
+			['First', undefined, 1],
+			['Third', first.id, 1],
+			['Second', undefined, 2],
+		]);
+
+		await send({
+			type: 'reorderTodos',
+			scope: { scope: 'global' },
+			order: [second.id, first.id, third.id],
+			moved: { todoId: first.id, parentId: second.id },
+		});
+		assert.deepStrictEqual(structure(), [
+			['Second', undefined, 1],
+			['First', second.id, 1],
+			['Third', first.id, 1],
+		]);
+
+		await send({
+			type: 'reorderTodos',
+			scope: { scope: 'global' },
+			order: [first.id, third.id, second.id],
+			moved: { todoId: second.id, parentId: third.id },
+		});
+		assert.strictEqual(
+			repository.getGlobalTodos().find((todo) => todo.id === second.id)?.parentId,
+			undefined
+		);
+	});
+
+	test('creates todos in sections and moves them between sections via drag-and-drop', async () => {
+		const { repository } = createRepositoryHarness();
+		await repository.addSection({ scope: 'global' }, 'Bugs');
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+		const structure = () =>
+			repository
+				.getGlobalTodos()
+				.sort((a, b) => (a.section ?? '').localeCompare(b.section ?? '') || a.position - b.position)
+				.map((todo) => [todo.title, todo.section, todo.position]);
+
+		await send({ type: 'commitCreate', scope: { scope: 'global' }, title: 'Loose' });
+		await send({ type: 'commitCreate', scope: { scope: 'global' }, title: 'Crash', section: 'Bugs' });
+		await send({ type: 'commitCreate', scope: { scope: 'global' }, title: 'Later' });
+		assert.deepStrictEqual(structure(), [
+			['Loose', undefined, 1],
+			['Later', undefined, 2],
+			['Crash', 'Bugs', 1],
+		]);
+
+		const [loose, later, crash] = ['Loose', 'Later', 'Crash'].map(
+			(title) => repository.getGlobalTodos().find((todo) => todo.title === title)!
+		);
+		await send({
+			type: 'reorderTodos',
+			scope: { scope: 'global' },
+			order: [later.id, crash.id, loose.id],
+			moved: { todoId: loose.id, section: 'Bugs' },
+		});
+		assert.deepStrictEqual(structure(), [
+			['Later', undefined, 1],
+			['Crash', 'Bugs', 1],
+			['Loose', 'Bugs', 2],
+		]);
+
+		await send({
+			type: 'reorderTodos',
+			scope: { scope: 'global' },
+			order: [crash.id, later.id, loose.id],
+			moved: { todoId: crash.id },
+		});
+		assert.deepStrictEqual(structure(), [
+			['Crash', undefined, 1],
+			['Later', undefined, 2],
+			['Loose', 'Bugs', 1],
+		]);
+	});
+
+	test('parses #tag tokens from inline create and edit input into tags', async () => {
+		const { repository } = createRepositoryHarness();
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+
+		await send({ type: 'commitCreate', scope: { scope: 'global' }, title: 'Fix login #auth #UI #auth' });
+		const [created] = repository.getGlobalTodos();
+		assert.strictEqual(created.title, 'Fix login');
+		assert.deepStrictEqual(created.tags, ['auth', 'ui']);
+
+		await send({
+			type: 'commitEdit',
+			scope: { scope: 'global' },
+			todoId: created.id,
+			title: 'Fix login for issue #42 #backend',
+		});
+		const [edited] = repository.getGlobalTodos();
+		assert.strictEqual(edited.title, 'Fix login for issue #42');
+		assert.deepStrictEqual(edited.tags, ['backend']);
+
+		await send({ type: 'commitEdit', scope: { scope: 'global' }, todoId: created.id, title: 'Fix login' });
+		assert.strictEqual(repository.getGlobalTodos()[0].tags, undefined);
+	});
+
+	test('filterByTag offers tags of all lists and broadcasts the picked filter', async () => {
+		const folder = vscode.Uri.parse('file:///workspace-tags');
+		overrideWorkspaceFolders([{ uri: folder, name: 'Workspace', index: 0 }]);
+		const { repository } = createRepositoryHarness();
+		await repository.saveGlobalTodos([
+			repository.createTodo({ title: 'Write docs', scope: 'global', tags: ['docs'] }),
+		]);
+		await repository.saveWorkspaceTodos(folder.toString(), [
+			repository.createTodo({
+				title: 'Fix build',
+				scope: 'workspace',
+				workspaceFolder: folder.toString(),
+				tags: ['ci', 'docs'],
+			}),
+		]);
+		const host = new FakeWebviewHost();
+		(vscode.commands as unknown as { executeCommand: typeof vscode.commands.executeCommand }).executeCommand =
+			(async () => undefined) as typeof vscode.commands.executeCommand;
+		let offered: string[] = [];
+		let pick = '#docs';
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) => {
+			const list = items as readonly vscode.QuickPickItem[];
+			offered = list.map((item) => item.label);
+			return list.find((item) => item.label === pick) as any;
+		};
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+
+		await filterByTag(context);
+		pick = 'tags.filter.all';
+		await filterByTag(context);
+
+		assert.deepStrictEqual(offered, ['tags.filter.all', '#ci', '#docs']);
+		assert.deepStrictEqual(host.broadcastMessages, [
+			{ type: 'setTagFilter', tag: 'docs' },
+			{ type: 'setTagFilter' },
+		]);
+	});
+
+	test('sets and removes due dates via the webview and the setDueDate command', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Ship release', scope: 'global' });
+		await repository.saveGlobalTodos([todo]);
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+
+		await send({ type: 'setDueDate', scope: { scope: 'global' }, todoId: todo.id, dueDate: '2025-02-30' });
+		assert.strictEqual(repository.getGlobalTodos()[0].dueDate, undefined);
+		await send({ type: 'setDueDate', scope: { scope: 'global' }, todoId: todo.id, dueDate: '2025-03-01' });
+		assert.strictEqual(repository.getGlobalTodos()[0].dueDate, '2025-03-01');
+
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) =>
+			(items as readonly vscode.QuickPickItem[])[0] as any;
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+		const inputs: Array<string | undefined> = [];
+		let answer = '2025-04-15';
+		const showInputBoxStub: typeof vscode.window.showInputBox = async (options) => {
+			inputs.push(options?.value);
+			assert.ok(options?.validateInput?.('tomorrow'));
+			return answer;
+		};
+		(vscode.window as unknown as { showInputBox: typeof vscode.window.showInputBox }).showInputBox =
+			showInputBoxStub;
+
+		await setDueDate(context);
+		assert.strictEqual(repository.getGlobalTodos()[0].dueDate, '2025-04-15');
+		answer = ' ';
+		await setDueDate(context);
+		assert.strictEqual(repository.getGlobalTodos()[0].dueDate, undefined);
+		assert.deepStrictEqual(inputs, ['2025-03-01', '2025-04-15']);
+	});
+
+	test('sets priorities from !priority tokens and the setPriority command', async () => {
+		const { repository } = createRepositoryHarness();
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+
+		await send({ type: 'commitCreate', scope: { scope: 'global' }, title: 'Deploy !HIGH #ops' });
+		const [created] = repository.getGlobalTodos();
+		assert.deepStrictEqual([created.title, created.tags, created.priority], ['Deploy', ['ops'], 'high']);
+
+		await send({ type: 'commitEdit', scope: { scope: 'global' }, todoId: created.id, title: 'Deploy #ops' });
+		assert.strictEqual(repository.getGlobalTodos()[0].priority, undefined);
+
+		let pickCount = 0;
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) => {
+			pickCount += 1;
+			const list = items as readonly vscode.QuickPickItem[];
+			return list.find((item) => item.label === 'priority.medium') as any;
+		};
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+		await setPriority(context, { todoId: created.id, scope: 'global' });
+		assert.strictEqual(repository.getGlobalTodos()[0].priority, 'medium');
+		assert.strictEqual(pickCount, 1);
+	});
+
+	test('saves notes from inline edits and shows them in the editTodo quick pick', async () => {
+		const { repository } = createRepositoryHarness();
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		const send = (message: InboundMessage) => handleWebviewMessage({ mode: 'global', message }, context);
+		const todo = repository.createTodo({ title: 'Write docs', scope: 'global' });
+		await repository.saveGlobalTodos([todo]);
+		const scope = { scope: 'global' } as const;
+
+		await send({ type: 'commitEdit', scope, todoId: todo.id, title: 'Write docs', notes: '- intro\n- **usage**\n\n' });
+		assert.strictEqual(repository.getGlobalTodos()[0].notes, '- intro\n- **usage**');
+
+		await send({ type: 'commitEdit', scope, todoId: todo.id, title: 'Write the docs' });
+		assert.strictEqual(repository.getGlobalTodos()[0].notes, '- intro\n- **usage**');
+
+		let pickedDetails: Array<string | undefined> = [];
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) => {
+			pickedDetails = (items as readonly vscode.QuickPickItem[]).map((item) => item.detail);
+			return undefined;
+		};
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+		await editTodo(context);
+		assert.deepStrictEqual(pickedDetails, ['- intro - **usage**']);
+
+		await send({ type: 'commitEdit', scope, todoId: todo.id, title: 'Write the docs', notes: '  \n' });
+		assert.strictEqual(repository.getGlobalTodos()[0].notes, undefined);
+	});
+
+	test('addTodoAtCursor anchors a project todo at the selection and reveals it', async () => {
+		const { repository } = createRepositoryHarness();
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		const folder = { uri: vscode.Uri.parse('file:///repo'), name: 'repo', index: 0 } as vscode.WorkspaceFolder;
+		const folderKey = folder.uri.toString();
+		const scope = { scope: 'workspace', workspaceFolder: folderKey } as const;
+		overrideWorkspaceFolders([folder]);
+		overrideActiveTextEditor({
+			document: { uri: vscode.Uri.parse('file:///repo/src/app.ts') },
+			selection: new vscode.Selection(41, 4, 41, 12),
+		} as unknown as vscode.TextEditor);
+		(vscode.workspace as unknown as { getWorkspaceFolder: typeof vscode.workspace.getWorkspaceFolder }).getWorkspaceFolder =
+			() => folder;
+		(vscode.commands as unknown as { executeCommand: typeof vscode.commands.executeCommand }).executeCommand =
+			async () => undefined as unknown as never;
+
+		await addTodoAtCursor(context);
+
+		const anchor = { path: 'src/app.ts', startLine: 41, startColumn: 4, endLine: 41, endColumn: 12 };
+		assert.deepStrictEqual(host.postMessages[0], {
+			mode: 'projects',
+			message: { type: 'startInlineCreate', scope, anchor },
+		});
+
+		await handleWebviewMessage(
+			{ mode: 'projects', message: { type: 'commitCreate', scope, title: 'Handle errors', anchor } },
+			context
+		);
+		await handleWebviewMessage(
+			{ mode: 'global', message: { type: 'commitCreate', scope: { scope: 'global' }, title: 'Global', anchor } },
+			context
+		);
+		const [todo] = repository.getWorkspaceTodos(folderKey);
+		assert.deepStrictEqual(todo.anchor, anchor);
+		assert.strictEqual(repository.getGlobalTodos()[0].anchor, undefined);
+
+		const opened: string[] = [];
+		let selection: vscode.Range | undefined;
+		const openTextDocumentStub = async (uri: vscode.Uri) => {
+			opened.push(uri.toString());
+			return { uri } as vscode.TextDocument;
+		};
+		(vscode.workspace as unknown as { openTextDocument: typeof openTextDocumentStub }).openTextDocument =
+			openTextDocumentStub;
+		const showTextDocumentStub = async (
+			_document: vscode.TextDocument,
+			options?: vscode.TextDocumentShowOptions
+		) => {
+			selection = options?.selection;
+			return undefined as unknown as vscode.TextEditor;
+		};
+		(vscode.window as unknown as { showTextDocument: typeof showTextDocumentStub }).showTextDocument =
+			showTextDocumentStub;
+
+		await handleWebviewMessage(
+			{ mode: 'projects', message: { type: 'revealAnchor', scope, todoId: todo.id } },
+			context
+		);
+
+		assert.deepStrictEqual(opened, ['file:///repo/src/app.ts']);
+		assert.deepStrictEqual(
+			selection && [selection.start.line, selection.start.character, selection.end.line, selection.end.character],
+			[41, 4, 41, 12]
+		);
+	});
+
+	test('reanchorTodo moves a stale anchor to the selection, offering stale todos first', async () => {
+		const { repository } = createRepositoryHarness();
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		const folder = { uri: vscode.Uri.parse('file:///repo'), name: 'repo', index: 0 } as vscode.WorkspaceFolder;
+		const scope = { scope: 'workspace', workspaceFolder: folder.uri.toString() } as const;
+		const current = repository.createTodo({
+			title: 'Current',
+			scope: 'workspace',
+			workspaceFolder: scope.workspaceFolder,
+			anchor: { path: 'src/app.ts', startLine: 1, startColumn: 0, endLine: 1, endColumn: 4 },
+		});
+		const stale = repository.createTodo({
+			title: 'Stale',
+			scope: 'workspace',
+			workspaceFolder: scope.workspaceFolder,
+			anchor: { path: 'src/app.ts', startLine: 9, startColumn: 0, endLine: 9, endColumn: 0, stale: true },
+		});
+		await repository.mutate(scope, 'create', (todos) => [...todos, current, stale]);
+		overrideWorkspaceFolders([folder]);
+		overrideActiveTextEditor({
+			document: { uri: vscode.Uri.parse('file:///repo/src/app.ts') },
+			selection: new vscode.Selection(12, 2, 14, 0),
+		} as unknown as vscode.TextEditor);
+		(vscode.workspace as unknown as { getWorkspaceFolder: typeof vscode.workspace.getWorkspaceFolder }).getWorkspaceFolder =
+			() => folder;
+		let offered: string[] = [];
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) => {
+			const picks = items as readonly vscode.QuickPickItem[];
+			offered = picks.map((item) => item.label);
+			return picks[0] as any;
+		};
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+
+		await reanchorTodo(context);
+
+		assert.deepStrictEqual(offered, ['Stale', 'Current']);
+		const anchors = Object.fromEntries(
+			repository.getWorkspaceTodos(scope.workspaceFolder).map((todo) => [todo.title, todo.anchor])
+		);
+		assert.deepStrictEqual(anchors, {
+			Current: { path: 'src/app.ts', startLine: 1, startColumn: 0, endLine: 1, endColumn: 4 },
+			Stale: { path: 'src/app.ts', startLine: 12, startColumn: 2, endLine: 14, endColumn: 0 },
+		});
+	});
+
+	test('removes a todo together with its subtasks', async () => {
+		const { repository } = createRepositoryHarness();
+		const parent = repository.createTodo({ title: 'Parent', scope: 'global' });
+		const child = repository.createTodo({ title: 'Child', scope: 'global', parentId: parent.id });
+		const other = repository.createTodo({ title: 'Other', scope: 'global', position: 2 });
+		await repository.saveGlobalTodos([parent, child, other]);
+		(vscode.window as unknown as { showInformationMessage: typeof vscode.window.showInformationMessage }).showInformationMessage =
+			async () => undefined;
+
+		await handleWebviewMessage(
+			{ mode: 'global', message: { type: 'removeTodo', scope: { scope: 'global' }, todoId: parent.id } },
+			toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete())
+		);
+
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => todo.title),
+			['Other']
+		);
+		assert.deepStrictEqual(
+			repository
+				.getDeletedTodos({ scope: 'global' })
+				.map((entry) => entry.todo.title)
+				.sort(),
+			['Child', 'Parent']
+		);
+		await repository.undo();
+		assert.strictEqual(
+			repository.getGlobalTodos().find((todo) => todo.id === child.id)?.parentId,
+			parent.id
 		);
 	});
 
@@ -367,11 +885,7 @@ suite('Command handlers', () => {
 		assert.strictEqual(restored[0].title, 'A');
 		assert.strictEqual(restored[1].title, 'B');
 		assert.ok(infoMessages.length >= 2);
-		assert.ok(
-			host.broadcastMessages.filter(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			).length >= 2
-		);
+		assert.ok(stateUpdates(host).length >= 2);
 	});
 
 	test('removes a todo via webview with undo support', async () => {
@@ -412,13 +926,96 @@ suite('Command handlers', () => {
 		const restoredMessages = ['Restored "Remove me" to Global', 'command.undo.todo.success'];
 		assert.ok(removedMessages.includes(infoMessages[0][0]));
 		assert.ok(restoredMessages.includes(infoMessages[1][0]));
-		assert.ok(
-			host.broadcastMessages.filter(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			).length >= 2
+		assert.ok(stateUpdates(host).length >= 2);
+	});
+
+	test('applies overlapping webview mutations in order without losing updates', async () => {
+		const { repository } = createRepositoryHarness(true);
+		const todoA = repository.createTodo({ title: 'A', scope: 'global', position: 1 });
+		const todoB = repository.createTodo({ title: 'B', scope: 'global', position: 2 });
+		await repository.saveGlobalTodos([todoA, todoB]);
+		restoreReadConfig = stubReadConfig({
+			autoDeleteCompleted: false,
+			autoDeleteDelayMs: 5,
+			autoDeleteFadeMs: 10,
+			confirmDestructiveActions: true,
+		});
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const messages: InboundMessage[] = [
+			{ type: 'toggleComplete', scope: { scope: 'global' }, todoId: todoA.id },
+			{ type: 'reorderTodos', scope: { scope: 'global' }, order: [todoB.id, todoA.id] },
+			{ type: 'commitEdit', scope: { scope: 'global' }, todoId: todoB.id, title: 'B renamed' },
+		];
+
+		await Promise.all(
+			messages.map((message) => handleWebviewMessage({ mode: 'global', message }, context))
+		);
+
+		const todos = repository.getGlobalTodos().sort((a, b) => a.position - b.position);
+		assert.deepStrictEqual(
+			todos.map((todo) => [todo.id, todo.title, todo.completed]),
+			[
+				[todoB.id, 'B renamed', false],
+				[todoA.id, 'A', true],
+			]
 		);
 	});
 
+	test('keeps every todo created by rapid successive commits', async () => {
+		const { repository } = createRepositoryHarness(true);
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+
+		await Promise.all(
+			['One', 'Two', 'Three'].map((title) =>
+				handleWebviewMessage(
+					{
+						mode: 'global',
+						message: { type: 'commitCreate', scope: { scope: 'global' }, title },
+					},
+					context
+				)
+			)
+		);
+
+		const todos = repository.getGlobalTodos().sort((a, b) => a.position - b.position);
+		assert.deepStrictEqual(
+			todos.map((todo) => [todo.title, todo.position]),
+			[
+				['One', 1],
+				['Two', 2],
+				['Three', 3],
+			]
+		);
+	});
+
+	test('undoes and redoes webview changes through the history commands', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Undo me', scope: 'global' });
+		await repository.saveGlobalTodos([todo]);
+		restoreReadConfig = stubReadConfig({
+			autoDeleteCompleted: false,
+			autoDeleteDelayMs: 5,
+			autoDeleteFadeMs: 10,
+			confirmDestructiveActions: true,
+		});
+		const context = toHandlerContext(repository, new FakeWebviewHost(), createAutoDelete());
+		const messages: InboundMessage[] = [
+			{ type: 'toggleComplete', scope: { scope: 'global' }, todoId: todo.id },
+			{ type: 'commitEdit', scope: { scope: 'global' }, todoId: todo.id, title: 'Edited' },
+		];
+		for (const message of messages) {
+			await handleWebviewMessage({ mode: 'global', message }, context);
+		}
+
+		assert.strictEqual(await undoLastChange(context), true);
+		assert.strictEqual(repository.getGlobalTodos()[0].title, 'Undo me');
+		assert.strictEqual(await undoLastChange(context), true);
+		assert.strictEqual(repository.getGlobalTodos()[0].completed, false);
+		assert.strictEqual(await redoLastChange(context), true);
+		assert.strictEqual(repository.getGlobalTodos()[0].completed, true);
+		assert.strictEqual(repository.getGlobalTodos()[0].title, 'Undo me');
+	});
+
 	test('auto-deletes completed todos after the configured delay', async () => {
 		const { repository } = createRepositoryHarness();
 		const todo = repository.createTodo({ title: 'Auto remove', scope: 'global' });
@@ -490,6 +1087,59 @@ suite('Command handlers', () => {
 		assert.strictEqual(autoDeleteMessages.length, 0);
 	});
 
+	test('completing a recurring todo adds the next occurrence instead of auto-deleting it', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Water plants', scope: 'global' });
+		await repository.saveGlobalTodos([todo]);
+		const host = new FakeWebviewHost();
+		const context = toHandlerContext(repository, host, createAutoDelete(host));
+		restoreReadConfig = stubReadConfig({
+			autoDeleteCompleted: true,
+			autoDeleteDelayMs: 5,
+			autoDeleteFadeMs: 10,
+			confirmDestructiveActions: true,
+		});
+		const showQuickPickStub: typeof vscode.window.showQuickPick = async (items: any) =>
+			(items as readonly vscode.QuickPickItem[])[0] as any;
+		(vscode.window as unknown as { showQuickPick: typeof vscode.window.showQuickPick }).showQuickPick =
+			showQuickPickStub;
+		const today = new Date();
+		const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+
+		await setRecurrence(context, { todoId: todo.id, scope: 'global' });
+
+		const [recurring] = repository.getGlobalTodos();
+		assert.deepStrictEqual(recurring.recurrence, { frequency: 'daily' });
+		assert.strictEqual(recurring.dueDate, toDueDate(today));
+
+		await handleWebviewMessage(
+			{ mode: 'global', message: { type: 'toggleComplete', scope: { scope: 'global' }, todoId: todo.id } },
+			context
+		);
+		await new Promise((resolve) => setTimeout(resolve, 40));
+
+		const [next] = repository.getGlobalTodos();
+		assert.notStrictEqual(next.id, todo.id);
+		assert.deepStrictEqual(
+			[next.title, next.completed, next.dueDate],
+			['Water plants', false, toDueDate(tomorrow)]
+		);
+		assert.deepStrictEqual(
+			repository.getArchivedTodos({ scope: 'global' }).map((item) => [item.id, item.completed]),
+			[[todo.id, true]]
+		);
+		assert.ok(host.postMessages.every((entry) => entry.message.type !== 'autoDeleteCue'));
+
+		await handleWebviewMessage(
+			{ mode: 'global', message: { type: 'stopRecurrence', scope: { scope: 'global' }, todoId: next.id } },
+			context
+		);
+
+		const [stopped] = repository.getGlobalTodos();
+		assert.strictEqual(stopped.recurrence, undefined);
+		assert.strictEqual(stopped.dueDate, toDueDate(tomorrow));
+	});
+
 	test('clears and restores global todos via undo from webview', async () => {
 		const { repository } = createRepositoryHarness();
 		const todoA = repository.createTodo({ title: 'Global A', scope: 'global' });
@@ -527,10 +1177,33 @@ suite('Command handlers', () => {
 		assert.strictEqual(restored[0].title, 'Global A');
 		assert.strictEqual(restored[1].title, 'Global B');
 		assert.ok(infoMessages.length >= 2);
-		assert.ok(
-			host.broadcastMessages.filter(
-				(message) => (message as { type: string }).type === 'stateUpdate'
-			).length >= 2
+		assert.ok(stateUpdates(host).length >= 2);
+	});
+
+	test('warns when an inline edit conflicts with an external change', async () => {
+		const { repository } = createRepositoryHarness();
+		const host = new FakeWebviewHost();
+		const autoDelete = createAutoDelete();
+		const warnings: any[] = [];
+		(vscode.window as unknown as { showWarningMessage: typeof vscode.window.showWarningMessage }).showWarningMessage =
+			async (...args: any[]) => {
+				warnings.push(args);
+				return undefined;
+			};
+
+		const message: InboundMessage = {
+			type: 'inlineEditConflict',
+			scope: { scope: 'global' },
+			todoId: 'todo-1',
+			title: 'Changed by a teammate',
+		};
+		await handleWebviewMessage(
+			{ mode: 'global', message },
+			toHandlerContext(repository, host, autoDelete)
 		);
+
+		assert.strictEqual(warnings.length, 1);
+		assert.ok(String(warnings[0][0]).length > 0);
+		assert.strictEqual(stateUpdates(host).length, 0);
 	});
-});
\ No newline at end of file
+});
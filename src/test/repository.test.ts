@@ -1,9 +1,21 @@
 /** Tests repository persistence and normalization utilities. */
 
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
 
+import { AnchorChange, renameAnchor, trackAnchor } from '../domain/anchor';
+import { SCHEMA_VERSION, StateMigrations } from '../stateMigrations';
+import { FileStorageProvider } from '../storage/fileStorage';
+import { MementoStorageProvider } from '../storage/mementoStorage';
+import { createMemoryStorageProvider } from '../storage/memoryStorage';
+import { PersistedTodo, TodoStorageProvider } from '../storage/todoStorage';
+import { TodoTrash } from '../storage/todoTrash';
 import { TodoRepository } from '../todoRepository';
-import { Todo } from '../types';
+import { ScopeTarget } from '../types/scope';
+import { Todo, TodoChangeEvent } from '../types';
 import { InMemoryMemento } from './testUtils';
 
 interface RepositoryHarness {
@@ -22,6 +34,96 @@ function createRepositoryHarness(): RepositoryHarness {
 	return { repository, globalState, workspaceState };
 }
 
+/** Builds a v1 → v2 → v3 pipeline that records the order steps ran in. */
+function createMigrationPipeline(steps: string[]): StateMigrations {
+	return {
+		global: [
+			{
+				fromVersion: 2,
+				migrate: (payload) => {
+					steps.push('global:2');
+					return { ...payload, version: 3 };
+				},
+			},
+			{
+				fromVersion: 1,
+				migrate: (payload) => {
+					steps.push('global:1');
+					const todos = payload.todos as Array<Record<string, unknown>>;
+					return {
+						...payload,
+						version: 2,
+						todos: todos.map((todo) => ({ ...todo, title: `${todo.title as string}!` })),
+					};
+				},
+			},
+		],
+		workspace: [
+			{
+				fromVersion: 1,
+				migrate: (payload) => {
+					steps.push('workspace:1');
+					return { ...payload, version: 2 };
+				},
+			},
+			{
+				fromVersion: 2,
+				migrate: (payload) => {
+					steps.push('workspace:2');
+					return { ...payload, version: 3 };
+				},
+			},
+		],
+		file: [],
+	};
+}
+
+/** Creates a repository whose workspace folders opt into `.vscode/todos.json` storage. */
+function createFileRepositoryHarness(enabled = true) {
+	const folder = vscode.Uri.file(fs.mkdtempSync(path.join(os.tmpdir(), 'todo-file-')));
+	const store = new FileStorageProvider();
+	const globalState = new InMemoryMemento();
+	const workspaceState = new InMemoryMemento();
+	const repository = new TodoRepository(
+		{ globalState, workspaceState },
+		{
+			backends: [store],
+			selectBackend: (scope) => (scope.scope === 'workspace' && enabled ? 'file' : 'memento'),
+		}
+	);
+	const folderKey = folder.toString();
+	const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: folderKey };
+	return { repository, store, workspaceState, folderKey, scope };
+}
+
+async function readTodoFile(store: FileStorageProvider, scope: ScopeTarget) {
+	const content = await vscode.workspace.fs.readFile(store.fileUri(scope));
+	return JSON.parse(new TextDecoder().decode(content)) as { version: number; todos: Todo[] };
+}
+
+/** Opens repositories like windows of one profile: separate global mementos, shared sync folder. */
+function createWindowFactory() {
+	const globalStorageUri = vscode.Uri.file(fs.mkdtempSync(path.join(os.tmpdir(), 'todo-sync-')));
+	return (globalState = new InMemoryMemento()) => {
+		const repository = new TodoRepository(
+			{ globalState, workspaceState: new InMemoryMemento() },
+			{ globalStorageUri }
+		);
+		return { repository, globalState };
+	};
+}
+
+function storedTodo(id: string, title: string, position: number): PersistedTodo {
+	return {
+		id,
+		title,
+		completed: false,
+		position,
+		createdAt: '2025-01-01T00:00:00.000Z',
+		updatedAt: '2025-01-01T00:00:00.000Z',
+	};
+}
+
 suite('TodoRepository', () => {
 	test('creates scoped todos with metadata', () => {
 		const { repository } = createRepositoryHarness();
@@ -55,20 +157,1321 @@ suite('TodoRepository', () => {
 		assert.strictEqual(todos[0].title, 'Write docs');
 	});
 
-	test('captures and restores snapshots per scope', () => {
+	test('undoes and redoes recorded changes across scopes in order', async () => {
+		const { repository } = createRepositoryHarness();
+		const workspace: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///history' };
+		const globalTodo = repository.createTodo({ title: 'Global', scope: 'global' });
+		await repository.mutate({ scope: 'global' }, 'create', (todos) => [...todos, globalTodo]);
+		await repository.mutate(workspace, 'create', (todos) => [
+			...todos,
+			repository.createTodo({
+				title: 'Project',
+				scope: 'workspace',
+				workspaceFolder: 'file:///history',
+			}),
+		]);
+		await repository.mutate({ scope: 'global' }, 'toggle', (todos) =>
+			todos.map((todo) => ({ ...todo, completed: true }))
+		);
+
+		assert.strictEqual((await repository.undo())?.kind, 'toggle');
+		assert.strictEqual(repository.getGlobalTodos()[0].completed, false);
+		assert.strictEqual((await repository.undo())?.kind, 'create');
+		assert.strictEqual(repository.readTodos(workspace).length, 0);
+		assert.strictEqual((await repository.redo())?.kind, 'create');
+		assert.strictEqual(repository.readTodos(workspace)[0].title, 'Project');
+		assert.strictEqual(repository.getGlobalTodos()[0].completed, false);
+	});
+
+	test('drops redo entries once a new change is recorded', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Only', scope: 'global' });
+		await repository.mutate({ scope: 'global' }, 'create', (todos) => [...todos, todo]);
+		await repository.undo();
+
+		await repository.mutate({ scope: 'global' }, 'create', (todos) => [
+			...todos,
+			repository.createTodo({ title: 'Replacement', scope: 'global' }),
+		]);
+
+		assert.strictEqual(await repository.redo(), undefined);
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((item) => item.title),
+			['Replacement']
+		);
+	});
+
+	test('ignores undo requests for entries that are no longer the latest change', async () => {
+		const { repository } = createRepositoryHarness();
+		const first = await repository.mutate({ scope: 'global' }, 'create', (todos) => [
+			...todos,
+			repository.createTodo({ title: 'First', scope: 'global' }),
+		]);
+		await repository.mutate({ scope: 'global' }, 'create', (todos) => [
+			...todos,
+			repository.createTodo({ title: 'Second', scope: 'global' }),
+		]);
+
+		assert.strictEqual(await repository.undo(first?.id), undefined);
+		assert.strictEqual(repository.getGlobalTodos().length, 2);
+	});
+
+	test('moves removed todos to the trash and restores them at their original position', async () => {
+		const { repository } = createRepositoryHarness();
+		const titles = ['First', 'Second', 'Third'];
+		await repository.saveGlobalTodos(
+			titles.map((title, index) =>
+				repository.createTodo({ title, scope: 'global', position: index + 1 })
+			)
+		);
+		const second = repository.getGlobalTodos()[1];
+
+		await repository.mutate({ scope: 'global' }, 'remove', (todos) =>
+			todos.filter((todo) => todo.id !== second.id)
+		);
+		assert.deepStrictEqual(
+			repository.getDeletedTodos({ scope: 'global' }).map((entry) => entry.todo.title),
+			['Second']
+		);
+
+		await repository.restoreDeletedTodos({ scope: 'global' }, [second.id]);
+
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => [todo.title, todo.position]),
+			[
+				['First', 1],
+				['Second', 2],
+				['Third', 3],
+			]
+		);
+		assert.strictEqual(repository.getDeletedTodos({ scope: 'global' }).length, 0);
+	});
+
+	test('takes undone removals out of the trash and never trashes edits', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Keep', scope: 'global' });
+		await repository.mutate({ scope: 'global' }, 'create', () => [todo]);
+		await repository.mutate({ scope: 'global' }, 'edit', (todos) =>
+			todos.map((item) => ({ ...item, title: 'Kept' }))
+		);
+		await repository.mutate({ scope: 'global' }, 'clear', () => []);
+		assert.strictEqual(repository.getDeletedTodos({ scope: 'global' }).length, 1);
+
+		await repository.undo();
+
+		assert.strictEqual(repository.getGlobalTodos()[0].title, 'Kept');
+		assert.strictEqual(repository.getDeletedTodos({ scope: 'global' }).length, 0);
+	});
+
+	test('drops trashed todos once the retention period has passed', async () => {
+		const workspaceState = new InMemoryMemento();
+		let now = Date.parse('2025-01-01T00:00:00Z');
+		const trash = new TodoTrash(() => workspaceState, () => 7, () => now);
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///trash' };
+		await trash.update(scope, [storedTodo('old', 'Old', 1)], new Set());
+		now += 6 * 24 * 60 * 60 * 1000;
+		await trash.update(scope, [storedTodo('new', 'New', 1)], new Set());
+
+		now += 2 * 24 * 60 * 60 * 1000;
+		await trash.purge(scope);
+
+		assert.deepStrictEqual(
+			trash.list(scope).map((entry) => entry.todo.id),
+			['new']
+		);
+	});
+
+	test('keeps a trash written by a newer version read-only instead of overwriting it', async () => {
+		const { repository, workspaceState } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///newer' };
+		const newer = { version: 2, scopes: { 'workspace:file:///newer': [] } };
+		await workspaceState.update('todo.trash', newer);
+		const todo = repository.createTodo({
+			title: 'Kept',
+			scope: 'workspace',
+			workspaceFolder: 'file:///newer',
+		});
+
+		assert.deepStrictEqual(repository.getDeletedTodos(scope), []);
+		assert.match(repository.getReadError(scope) ?? '', /todo\.trash: .*version 2/);
+		await assert.rejects(
+			() => repository.mutate(scope, 'create', () => [todo]),
+			/could not be read/
+		);
+		assert.deepStrictEqual(workspaceState.get('todo.trash'), newer);
+	});
+
+	test('keeps an archive written by a newer version read-only instead of overwriting it', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		const newer = { version: 2, scopes: { global: [storedTodo('old', 'Archived later', 1)] } };
+		await globalState.update('todo.archive', newer);
+		const todo = repository.createTodo({ title: 'Done', scope: 'global' });
+
+		assert.deepStrictEqual(repository.getArchivedTodos(scope), []);
+		assert.match(repository.getReadError(scope) ?? '', /todo\.archive: .*version 2/);
+		await assert.rejects(
+			() => repository.mutate(scope, 'create', () => [{ ...todo, completed: true }]),
+			/could not be read/
+		);
+		assert.deepStrictEqual(globalState.get('todo.archive'), newer);
+	});
+
+	test('archives completed todos and restores them as open todos', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///archive' };
+		const done = repository.createTodo({
+			title: 'Ship',
+			scope: 'workspace',
+			workspaceFolder: 'file:///archive',
+			position: 1,
+		});
+		const open = repository.createTodo({
+			title: 'Plan',
+			scope: 'workspace',
+			workspaceFolder: 'file:///archive',
+			position: 2,
+		});
+		await repository.mutate(scope, 'create', () => [
+			{ ...done, completed: true, completedAt: '2025-03-01T10:00:00.000Z' },
+			open,
+		]);
+
+		const archived = await repository.archiveTodos(scope, [done.id, open.id]);
+
+		assert.ok(archived);
+		assert.deepStrictEqual(
+			repository.getWorkspaceTodos('file:///archive').map((todo) => todo.title),
+			['Plan']
+		);
+		const [entry] = repository.getArchivedTodos(scope);
+		assert.strictEqual(entry.title, 'Ship');
+		assert.strictEqual(entry.completedAt, '2025-03-01T10:00:00.000Z');
+
+		await repository.restoreArchivedTodos(scope, [done.id]);
+
+		const restored = repository.getWorkspaceTodos('file:///archive');
+		assert.deepStrictEqual(
+			restored.map((todo) => [todo.title, todo.completed, todo.completedAt]),
+			[
+				['Plan', false, undefined],
+				['Ship', false, undefined],
+			]
+		);
+		assert.strictEqual(repository.getArchivedTodos(scope).length, 0);
+
+		await repository.undo();
+		assert.deepStrictEqual(
+			repository.getArchivedTodos(scope).map((todo) => [todo.title, todo.completed]),
+			[['Ship', true]]
+		);
+	});
+
+	test('restores the archived parents of a restored subtask with it', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		const release = repository.createTodo({ title: 'Release', scope: 'global' });
+		const notes = repository.createTodo({
+			title: 'Notes',
+			scope: 'global',
+			parentId: release.id,
+		});
+		const typos = repository.createTodo({ title: 'Typos', scope: 'global', parentId: notes.id });
+		await repository.mutate(scope, 'create', () =>
+			[release, notes, typos].map((todo) => ({ ...todo, completed: true }))
+		);
+		await repository.archiveTodos(scope, [release.id]);
+
+		await repository.restoreArchivedTodos(scope, [typos.id]);
+
+		const todos = repository.getGlobalTodos();
+		assert.deepStrictEqual(
+			todos.map((todo) => [todo.title, todo.parentId, todo.completed]),
+			[
+				['Release', undefined, false],
+				['Notes', release.id, false],
+				['Typos', notes.id, false],
+			]
+		);
+		assert.deepStrictEqual(repository.getArchivedTodos(scope), []);
+	});
+
+	test('archives completed occurrences of recurring todos and adds the next one in their place', async () => {
 		const { repository } = createRepositoryHarness();
-		const workspaceFolder = 'file:///restore';
+		const scope: ScopeTarget = { scope: 'global' };
+		const weekly = {
+			...repository.createTodo({ title: 'Review PRs', scope: 'global', tags: ['team'] }),
+			dueDate: '2025-03-03',
+			recurrence: { frequency: 'weekly', weekday: 1 } as const,
+		};
+		const step = repository.createTodo({ title: 'Triage', scope: 'global', parentId: weekly.id });
+		const later = repository.createTodo({ title: 'Later', scope: 'global' });
+		await repository.mutate(scope, 'create', () => [
+			weekly,
+			{ ...step, completed: true, completedAt: '2025-03-03T09:00:00.000Z' },
+			{ ...later, position: 2 },
+		]);
+
+		// Completed two days late, on Wednesday: the next occurrence is due next Monday.
+		const entry = await repository.toggleTodo(scope, weekly.id, new Date(2025, 2, 5, 12));
+
+		assert.strictEqual(entry?.kind, 'recur');
+		const todos = repository.getGlobalTodos();
+		assert.deepStrictEqual(
+			todos.map((todo) => [todo.title, todo.completed, todo.dueDate, todo.recurrence, todo.tags]),
+			[
+				['Review PRs', false, '2025-03-10', { frequency: 'weekly', weekday: 1 }, ['team']],
+				['Triage', false, undefined, undefined, undefined],
+				['Later', false, undefined, undefined, undefined],
+			]
+		);
+		assert.ok(todos.every((todo) => todo.id !== weekly.id && todo.id !== step.id));
+		assert.strictEqual(todos[1].parentId, todos[0].id);
+		assert.deepStrictEqual(
+			repository.getArchivedTodos(scope).map((todo) => [todo.title, todo.dueDate, todo.completed]),
+			[
+				['Review PRs', '2025-03-03', true],
+				['Triage', undefined, true],
+			]
+		);
+		assert.strictEqual(await repository.toggleTodo(scope, 'missing'), undefined);
+
+		await repository.undo();
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => todo.id),
+			[weekly.id, step.id, later.id]
+		);
+		assert.strictEqual(repository.getArchivedTodos(scope).length, 0);
+
+		await repository.redo();
+		assert.strictEqual(repository.getArchivedTodos(scope).length, 2);
+	});
+
+	test('restores a past occurrence without its rule while the series continues', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		const daily = {
+			...repository.createTodo({ title: 'Stand-up', scope: 'global' }),
+			dueDate: '2025-03-03',
+			recurrence: { frequency: 'daily' } as const,
+		};
+		const stopped = {
+			...repository.createTodo({ title: 'Retro', scope: 'global', position: 2 }),
+			completed: true,
+			recurrence: { frequency: 'weekly', weekday: 5 } as const,
+		};
+		await repository.mutate(scope, 'create', () => [daily, stopped]);
+		await repository.toggleTodo(scope, daily.id, new Date(2025, 2, 3, 12));
+		await repository.archiveTodos(scope, [stopped.id]);
+
+		await repository.restoreArchivedTodos(scope, [daily.id, stopped.id]);
+
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => [todo.title, todo.dueDate, todo.recurrence]),
+			[
+				['Stand-up', '2025-03-04', { frequency: 'daily' }],
+				['Stand-up', '2025-03-03', undefined],
+				['Retro', undefined, { frequency: 'weekly', weekday: 5 }],
+			]
+		);
+	});
+
+	test('decides how to toggle a recurring todo after the writes queued before it', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		const daily = {
+			...repository.createTodo({ title: 'Stand-up', scope: 'global' }),
+			recurrence: { frequency: 'daily' } as const,
+		};
+		await repository.mutate(scope, 'create', () => [daily]);
+
+		const stop = repository.mutate(scope, 'edit', (todos) =>
+			todos.map((todo) => ({ ...todo, recurrence: undefined }))
+		);
+		const toggle = repository.toggleTodo(scope, daily.id);
+		await stop;
+
+		assert.strictEqual((await toggle)?.kind, 'toggle');
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => [todo.id, todo.completed]),
+			[[daily.id, true]]
+		);
+		assert.strictEqual(repository.getArchivedTodos(scope).length, 0);
+	});
+
+	test('adds, renames, and removes sections while keeping their todos', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		assert.strictEqual(await repository.addSection(scope, ' Backlog '), true);
+		assert.strictEqual(await repository.addSection(scope, 'Bugs'), true);
+		assert.strictEqual(await repository.addSection(scope, 'Bugs'), false);
+		const loose = repository.createTodo({ title: 'Loose', scope: 'global' });
+		const crash = repository.createTodo({ title: 'Crash', scope: 'global', section: 'Bugs' });
+		const typo = repository.createTodo({ title: 'Typo', scope: 'global', section: 'Bugs' });
+		const shared = repository.createTodo({ title: 'Shared', scope: 'global', section: 'Team' });
+		await repository.mutate(scope, 'create', () => [loose, crash, typo, shared]);
+		const layout = () =>
+			repository
+				.getGlobalTodos()
+				.sort((a, b) => (a.section ?? '').localeCompare(b.section ?? '') || a.position - b.position)
+				.map((todo) => [todo.title, todo.section, todo.position]);
+
+		assert.deepStrictEqual(repository.getSections(scope), ['Backlog', 'Bugs', 'Team']);
+		assert.deepStrictEqual(layout(), [
+			['Loose', undefined, 1],
+			['Crash', 'Bugs', 1],
+			['Typo', 'Bugs', 2],
+			['Shared', 'Team', 1],
+		]);
+
+		assert.strictEqual(await repository.renameSection(scope, 'Bugs', 'Backlog'), false);
+		assert.strictEqual(await repository.renameSection(scope, 'Bugs', 'Issues'), true);
+		assert.deepStrictEqual(repository.getSections(scope), ['Backlog', 'Issues', 'Team']);
+
+		assert.strictEqual(await repository.removeSection(scope, 'Issues'), true);
+		assert.deepStrictEqual(repository.getSections(scope), ['Backlog', 'Team']);
+		assert.deepStrictEqual(layout(), [
+			['Loose', undefined, 1],
+			['Crash', undefined, 2],
+			['Typo', undefined, 3],
+			['Shared', 'Team', 1],
+		]);
+	});
+
+	test('keeps sections written by a newer version read-only instead of overwriting them', async () => {
+		const { repository, workspaceState } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///newer' };
+		const newer = { version: 2, scopes: { 'workspace:file:///newer': ['Later'] } };
+		await workspaceState.update('todo.sections', newer);
+
+		assert.deepStrictEqual(repository.getSections(scope), []);
+		assert.match(repository.getReadError(scope) ?? '', /todo\.sections: .*version 2/);
+		await assert.rejects(() => repository.addSection(scope, 'Bugs'), /could not be read/);
+		assert.deepStrictEqual(workspaceState.get('todo.sections'), newer);
+	});
+
+	test('keeps renamed and removed sections when undoing an earlier change', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'global' };
+		await repository.addSection(scope, 'Bugs');
+		await repository.addSection(scope, 'Later');
+		const crash = repository.createTodo({ title: 'Crash', scope: 'global', section: 'Bugs' });
+		const idea = repository.createTodo({ title: 'Idea', scope: 'global', section: 'Later' });
+		await repository.mutate(scope, 'create', (todos) => [...todos, crash, idea]);
+		const typo = repository.createTodo({ title: 'Typo', scope: 'global', section: 'Bugs' });
+		await repository.mutate(scope, 'create', (todos) => [...todos, typo]);
+		const layout = () =>
+			repository
+				.getGlobalTodos()
+				.sort((a, b) => a.title.localeCompare(b.title))
+				.map((todo) => [todo.title, todo.section]);
+
+		await repository.renameSection(scope, 'Bugs', 'Issues');
+		await repository.removeSection(scope, 'Later');
+		await repository.undo();
+
+		assert.deepStrictEqual(layout(), [
+			['Crash', 'Issues'],
+			['Idea', undefined],
+		]);
+		await repository.redo();
+		assert.deepStrictEqual(layout(), [
+			['Crash', 'Issues'],
+			['Idea', undefined],
+			['Typo', 'Issues'],
+		]);
+		assert.deepStrictEqual(repository.getSections(scope), ['Issues']);
+	});
+
+	test('moves anchors along with edits and renames of their files', async () => {
+		const { repository } = createRepositoryHarness();
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///repo' };
+		await repository.mutate(scope, 'create', (todos) => [
+			...todos,
+			repository.createTodo({
+				title: 'Anchored',
+				scope: 'workspace',
+				workspaceFolder: 'file:///repo',
+				anchor: { path: 'src/app.ts', startLine: 10, startColumn: 2, endLine: 10, endColumn: 8 },
+			}),
+		]);
+		const edit = (path: string, change: AnchorChange) =>
+			repository.updateAnchors(scope, (anchor) =>
+				anchor.path === path ? trackAnchor(anchor, change) : anchor
+			);
+		const currentAnchor = () => repository.readTodos(scope)[0].anchor;
+
+		// Lines inserted above and text typed before the anchor on its line shift it.
+		assert.strictEqual(
+			await edit('src/app.ts', { startLine: 3, startColumn: 0, endLine: 3, endColumn: 0, text: 'a\nb\n' }),
+			true
+		);
+		await edit('src/app.ts', { startLine: 12, startColumn: 0, endLine: 12, endColumn: 0, text: '  ' });
+		// Edits below the anchor or in other files leave it alone.
+		assert.strictEqual(
+			await edit('src/app.ts', { startLine: 20, startColumn: 0, endLine: 21, endColumn: 0, text: '' }),
+			false
+		);
+		assert.strictEqual(
+			await edit('src/other.ts', { startLine: 0, startColumn: 0, endLine: 0, endColumn: 0, text: '\n' }),
+			false
+		);
+		assert.deepStrictEqual(currentAnchor(), {
+			path: 'src/app.ts',
+			startLine: 12,
+			startColumn: 4,
+			endLine: 12,
+			endColumn: 10,
+		});
+
+		await repository.updateAnchors(scope, (anchor) => renameAnchor(anchor, 'src', 'lib'));
+		assert.strictEqual(currentAnchor()?.path, 'lib/app.ts');
+
+		// Deleting the anchored line marks the anchor stale where the line was.
+		await edit('lib/app.ts', { startLine: 12, startColumn: 0, endLine: 13, endColumn: 0, text: '' });
+		const stale = { path: 'lib/app.ts', startLine: 12, startColumn: 0, endLine: 12, endColumn: 0, stale: true };
+		assert.deepStrictEqual(currentAnchor(), stale);
+
+		// Anchor updates are not undoable themselves, and undoing older changes keeps them.
+		await repository.undo();
+		assert.deepStrictEqual(repository.readTodos(scope), []);
+		await repository.redo();
+		assert.deepStrictEqual(currentAnchor(), stale);
+	});
+
+	test('takes undone archiving out of the archive and skips reopened todos', async () => {
+		const { repository } = createRepositoryHarness();
+		const todo = repository.createTodo({ title: 'Review', scope: 'global' });
+		await repository.mutate({ scope: 'global' }, 'create', () => [{ ...todo, completed: true }]);
+		await repository.archiveTodos({ scope: 'global' }, [todo.id]);
+		assert.ok(repository.getArchivedTodos({ scope: 'global' })[0].completedAt);
+
+		await repository.undo();
+
+		assert.strictEqual(repository.getGlobalTodos().length, 1);
+		assert.strictEqual(repository.getArchivedTodos({ scope: 'global' }).length, 0);
+		await repository.mutate({ scope: 'global' }, 'toggle', (todos) =>
+			todos.map((item) => ({ ...item, completed: false }))
+		);
+		assert.strictEqual(await repository.archiveTodos({ scope: 'global' }, [todo.id]), undefined);
+	});
+
+	test('repairs stored todos on load and quarantines entries without a title', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		await globalState.update('todo.globalState', {
+			version: 1,
+			todos: [
+				storedTodo('dup', 'First', 2),
+				{ ...storedTodo('dup', 'Second', 1), createdAt: 'yesterday' },
+				{ ...storedTodo('pos', 'Third', 3), position: 'last' },
+				storedTodo('blank', ' ', 4),
+				{ id: 'untitled' },
+			],
+		});
+
+		await repository.loadScopes([{ scope: 'global' }]);
+
+		const todos = repository.getGlobalTodos();
+		assert.deepStrictEqual(
+			todos.map((todo) => [todo.title, todo.position]),
+			[
+				['Second', 1],
+				['First', 2],
+				['Third', 3],
+			]
+		);
+		assert.strictEqual(new Set(todos.map((todo) => todo.id)).size, 3);
+		assert.strictEqual(todos[0].createdAt, todos[0].updatedAt);
+		const [report] = repository.getIntegrityReports();
+		assert.deepStrictEqual(
+			report.repairs.map((repair) => repair.field),
+			['id', 'createdAt', 'position']
+		);
+		assert.deepStrictEqual(
+			repository.getQuarantinedEntries({ scope: 'global' }).map((entry) => entry.reason),
+			['missingTitle', 'missingTitle']
+		);
+
+		const [recheck] = await repository.checkIntegrity([{ scope: 'global' }]);
+		assert.strictEqual(recheck.repairs.length + recheck.quarantined.length, 0);
+	});
+
+	test('leaves stored todos unrepaired while the quarantine cannot be read', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		const stored = { version: 1, todos: [storedTodo('kept', 'Kept', 1), { id: 'untitled' }] };
+		const newer = { version: 2, scopes: { global: [{ raw: { id: 'lost' } }] } };
+		await globalState.update('todo.globalState', stored);
+		await globalState.update('todo.quarantine', newer);
+
+		await repository.loadScopes([{ scope: 'global' }]);
+
+		assert.match(repository.getReadError({ scope: 'global' }) ?? '', /todo\.quarantine: /);
+		assert.deepStrictEqual(repository.getQuarantinedEntries({ scope: 'global' }), []);
+		assert.deepStrictEqual(repository.getIntegrityReports(), []);
+		assert.deepStrictEqual(globalState.get('todo.globalState'), stored);
+		assert.deepStrictEqual(globalState.get('todo.quarantine'), newer);
+	});
+
+	test('drops invalid tags, due dates, priorities, anchors, and recurrence rules of stored todos', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		await globalState.update('todo.globalState', {
+			version: 1,
+			todos: [
+				{
+					...storedTodo('a', 'Valid', 1),
+					tags: ['ui'],
+					dueDate: '2025-02-28',
+					priority: 'low',
+					anchor: { path: 'src/a.ts', startLine: 3, startColumn: 0, endLine: 3, endColumn: 5 },
+					recurrence: { frequency: 'monthly', day: 31 },
+				},
+				{
+					...storedTodo('b', 'Invalid', 2),
+					tags: ['ui', 7],
+					dueDate: '2025-02-30',
+					priority: 'urgent',
+					anchor: { path: '../outside.ts', startLine: 3, startColumn: 0, endLine: 2, endColumn: 0 },
+					recurrence: { frequency: 'weekly', weekday: 7 },
+				},
+			],
+		});
+
+		await repository.loadScopes([{ scope: 'global' }]);
+
+		assert.deepStrictEqual(
+			repository
+				.getGlobalTodos()
+				.map((todo) => [
+					todo.tags,
+					todo.dueDate,
+					todo.priority,
+					todo.anchor?.path,
+					todo.recurrence?.frequency,
+				]),
+			[
+				[['ui'], '2025-02-28', 'low', 'src/a.ts', 'monthly'],
+				[['ui'], undefined, undefined, undefined, undefined],
+			]
+		);
+		assert.deepStrictEqual(
+			repository.getIntegrityReports()[0].repairs.map((repair) => repair.field),
+			['tags', 'dueDate', 'priority', 'anchor', 'recurrence']
+		);
+	});
+
+	test('reattaches, merges, and deletes orphaned workspace lists', async () => {
+		const { repository } = createRepositoryHarness();
+		await repository.saveWorkspaceTodos('file:///old-name', [
+			repository.createTodo({
+				title: 'Moved',
+				scope: 'workspace',
+				workspaceFolder: 'file:///old-name',
+				position: 1,
+			}),
+		]);
+		await repository.saveWorkspaceTodos('file:///removed', [
+			repository.createTodo({
+				title: 'Gone',
+				scope: 'workspace',
+				workspaceFolder: 'file:///removed',
+			}),
+		]);
+		await repository.saveWorkspaceTodos('file:///current', [
+			repository.createTodo({
+				title: 'Existing',
+				scope: 'workspace',
+				workspaceFolder: 'file:///current',
+				position: 1,
+			}),
+		]);
+
+		const orphaned = repository.getOrphanedWorkspaceLists(['file:///current']);
+		assert.deepStrictEqual(
+			orphaned.map((list) => list.workspaceFolder),
+			['file:///old-name', 'file:///removed']
+		);
+
+		const moved = await repository.moveWorkspaceTodos('file:///old-name', 'file:///current');
+		assert.strictEqual(moved, 1);
+		await repository.deleteWorkspaceTodos('file:///removed');
+
+		assert.deepStrictEqual(
+			repository.getWorkspaceTodos('file:///current').map((todo) => [todo.title, todo.position]),
+			[
+				['Existing', 1],
+				['Moved', 2],
+			]
+		);
+		assert.deepStrictEqual(repository.getOrphanedWorkspaceLists(['file:///current']), []);
+	});
+
+	test('migrates stored payloads through each step in order and writes them back', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		await globalState.update('todo.globalState', {
+			version: 1,
+			todos: [storedTodo('a', 'Legacy', 1)],
+		});
+		await workspaceState.update('todo.workspaceState', {
+			version: 1,
+			folders: { 'file:///legacy': [storedTodo('b', 'Folder legacy', 1)] },
+		});
+		const steps: string[] = [];
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ schemaVersion: 3, migrations: createMigrationPipeline(steps) }
+		);
+
+		const results = await repository.migrateStorage();
+
+		assert.deepStrictEqual(steps, ['global:1', 'global:2', 'workspace:1', 'workspace:2']);
+		assert.deepStrictEqual(results, [
+			{ key: 'todo.globalState', fromVersion: 1, toVersion: 3 },
+			{ key: 'todo.workspaceState', fromVersion: 1, toVersion: 3 },
+		]);
+		const storedGlobal = globalState.get<{ version: number; todos: Todo[] }>('todo.globalState');
+		assert.strictEqual(storedGlobal?.version, 3);
+		assert.strictEqual(storedGlobal?.todos[0].title, 'Legacy!');
+		assert.strictEqual(
+			workspaceState.get<{ version: number }>('todo.workspaceState:file:///legacy')?.version,
+			3
+		);
+		assert.strictEqual(repository.getWorkspaceTodos('file:///legacy')[0].title, 'Folder legacy');
+	});
+
+	test('splits the combined project payload into one payload per folder', async () => {
+		const harness = createRepositoryHarness();
+		const legacy = {
+			version: 1,
+			folders: {
+				'file:///a': [storedTodo('a', 'In A', 1)],
+				'file:///b': [storedTodo('b', 'In B', 1)],
+			},
+		};
+		await harness.workspaceState.update('todo.workspaceState', legacy);
+		assert.strictEqual(harness.repository.getWorkspaceTodos('file:///b')[0].title, 'In B');
+
+		const results = await harness.repository.migrateStorage();
+
+		assert.deepStrictEqual(results, [
+			{ key: 'todo.workspaceState', fromVersion: 1, toVersion: 1 },
+		]);
+		assert.strictEqual(harness.workspaceState.get('todo.workspaceState'), undefined);
+		assert.deepStrictEqual(harness.workspaceState.get('todo.workspaceState.backup'), legacy);
+		assert.deepStrictEqual(harness.workspaceState.get('todo.workspaceState:file:///a'), {
+			version: 1,
+			todos: [storedTodo('a', 'In A', 1)],
+		});
+		assert.deepStrictEqual(
+			harness.repository.getOrphanedWorkspaceLists([]).map((list) => list.workspaceFolder),
+			['file:///a', 'file:///b']
+		);
+	});
+
+	test('serves reads from the cache and writes only the saved folder', async () => {
+		const harness = createRepositoryHarness();
+		const first = harness.repository.createTodo({
+			title: 'First',
+			scope: 'workspace',
+			workspaceFolder: 'file:///a',
+		});
+		await harness.repository.saveWorkspaceTodos('file:///a', [first]);
+		await harness.repository.saveWorkspaceTodos('file:///b', [{ ...first, id: 'other' }]);
+		const listKeys = (keys: string[]) => keys.filter((key) => key.startsWith('todo.workspaceState'));
+		const readKeys: string[] = [];
+		const updatedKeys: string[] = [];
+		const { get, update } = harness.workspaceState;
+		harness.workspaceState.get = <T>(key: string, defaultValue?: T) => {
+			readKeys.push(key);
+			return get.call(harness.workspaceState, key, defaultValue) as T | undefined;
+		};
+		harness.workspaceState.update = (key, value) => {
+			updatedKeys.push(key);
+			return update.call(harness.workspaceState, key, value);
+		};
+
+		const todos = harness.repository.getWorkspaceTodos('file:///a');
+		todos[0].title = 'Changed by a caller';
+		const second = harness.repository.createTodo({
+			title: 'Second',
+			scope: 'workspace',
+			workspaceFolder: 'file:///a',
+		});
+		await harness.repository.saveWorkspaceTodos('file:///a', [...todos, second]);
+
+		assert.deepStrictEqual(listKeys(readKeys), []);
+		assert.strictEqual(second.position, 2);
+		assert.deepStrictEqual(listKeys(updatedKeys), ['todo.workspaceState:file:///a']);
+		assert.deepStrictEqual(
+			harness.repository.getWorkspaceTodos('file:///a').map((todo) => todo.title),
+			['Changed by a caller', 'Second']
+		);
+		assert.strictEqual(harness.repository.getWorkspaceTodos('file:///b').length, 1);
+	});
+
+	test('keeps a pre-migration backup of each upgraded payload', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		const legacy = { version: 1, todos: [storedTodo('a', 'Backup me', 1)] };
+		await globalState.update('todo.globalState', legacy);
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ schemaVersion: 3, migrations: createMigrationPipeline([]) }
+		);
+
+		await repository.migrateStorage();
+
+		assert.deepStrictEqual(globalState.get('todo.globalState.backup'), legacy);
+		assert.strictEqual(workspaceState.get('todo.workspaceState.backup'), undefined);
+	});
+
+	test('rolls back to the original payload when a migration step fails', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		const legacy = { version: 1, todos: [storedTodo('a', 'Keep me', 1)] };
+		await globalState.update('todo.globalState', legacy);
+		const migrations = createMigrationPipeline([]);
+		migrations.global[0] = {
+			fromVersion: 2,
+			migrate: () => {
+				throw new Error('boom');
+			},
+		};
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ schemaVersion: 3, migrations }
+		);
+
+		await assert.rejects(() => repository.migrateStorage(), /boom/);
+
+		assert.deepStrictEqual(globalState.get('todo.globalState'), legacy);
+		assert.deepStrictEqual(globalState.get('todo.globalState.backup'), legacy);
+	});
+
+	test('fails when no migration step covers a stored version', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		const legacy = { version: 1, todos: [storedTodo('a', 'Orphaned', 1)] };
+		await globalState.update('todo.globalState', legacy);
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ schemaVersion: 2, migrations: { global: [], workspace: [], file: [] } }
+		);
+
+		await assert.rejects(() => repository.migrateStorage(), /No migration registered/);
+		assert.deepStrictEqual(globalState.get('todo.globalState'), legacy);
+	});
+
+	test('reads older payloads through the pipeline before they are migrated on disk', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		await globalState.update('todo.globalState', {
+			version: 1,
+			todos: [storedTodo('a', 'Lazy', 1)],
+		});
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ schemaVersion: 3, migrations: createMigrationPipeline([]) }
+		);
+
+		const todos = repository.getGlobalTodos();
+		assert.strictEqual(todos.length, 1);
+		assert.strictEqual(todos[0].title, 'Lazy!');
+		assert.strictEqual(globalState.get<{ version: number }>('todo.globalState')?.version, 1);
+	});
+
+	test('keeps payloads written by a newer version read-only instead of overwriting them', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		const newer = { version: SCHEMA_VERSION + 1, todos: [storedTodo('a', 'From the future', 1)] };
+		await globalState.update('todo.globalState', newer);
+
+		assert.deepStrictEqual(await repository.migrateStorage(), []);
+		await repository.loadScopes([{ scope: 'global' }]);
+
+		assert.deepStrictEqual(repository.getGlobalTodos(), []);
+		assert.match(repository.getReadError({ scope: 'global' }) ?? '', /newer than supported/);
+		const todo = repository.createTodo({ title: 'Written by an older version', scope: 'global' });
+		await assert.rejects(() => repository.saveGlobalTodos([todo]), /could not be read/);
+		await assert.rejects(
+			() => repository.mutate({ scope: 'global' }, 'create', (todos) => [...todos, todo]),
+			/could not be read/
+		);
+		assert.deepStrictEqual(globalState.get('todo.globalState'), newer);
+	});
+
+	test('leaves current payloads untouched without creating backups', async () => {
+		const harness = createRepositoryHarness();
+		const todo = harness.repository.createTodo({ title: 'Current', scope: 'global' });
+		await harness.repository.saveGlobalTodos([todo]);
+
+		const results = await harness.repository.migrateStorage();
+
+		assert.deepStrictEqual(results, []);
+		assert.strictEqual(harness.globalState.get('todo.globalState.backup'), undefined);
+	});
+
+	test('persists project todos to .vscode/todos.json when file storage is enabled', async () => {
+		const { repository, store, workspaceState, folderKey, scope } = createFileRepositoryHarness();
+		await repository.loadScopes([scope]);
 		const todo = repository.createTodo({
-			title: 'Snapshot me',
+			title: 'Shared task',
+			scope: 'workspace',
+			workspaceFolder: folderKey,
+		});
+
+		await repository.saveWorkspaceTodos(folderKey, [todo]);
+
+		const file = await readTodoFile(store, scope);
+		assert.strictEqual(file.version, 1);
+		assert.strictEqual(file.todos[0].title, 'Shared task');
+		assert.strictEqual((file.todos[0] as Partial<Todo>).scope, undefined);
+		assert.strictEqual(workspaceState.get('todo.workspaceState'), undefined);
+		assert.strictEqual(repository.getWorkspaceTodos(folderKey)[0].title, 'Shared task');
+	});
+
+	test('shares the archive and sections through the todo file but keeps the trash local', async () => {
+		const { repository, store, workspaceState, folderKey, scope } = createFileRepositoryHarness();
+		await repository.loadScopes([scope]);
+		const done = repository.createTodo({
+			title: 'Done',
+			scope: 'workspace',
+			workspaceFolder: folderKey,
+		});
+		const gone = repository.createTodo({
+			title: 'Gone',
 			scope: 'workspace',
-			workspaceFolder,
+			workspaceFolder: folderKey,
 		});
-		const scopeKey = repository.scopeKey('workspace', workspaceFolder);
+		await repository.mutate(scope, 'create', () => [{ ...done, completed: true }, gone]);
+
+		await repository.archiveTodos(scope, [done.id]);
+		await repository.mutate(scope, 'remove', () => []);
+		await repository.addSection(scope, 'Later');
+
+		const file = (await readTodoFile(store, scope)) as unknown as {
+			archive: { entries: Todo[] };
+			sections: { version: number; entries: string[] };
+		};
+		assert.deepStrictEqual(file.archive.entries.map((todo) => todo.title), ['Done']);
+		assert.deepStrictEqual(file.sections, { version: 1, entries: ['Later'] });
+		assert.strictEqual(workspaceState.get('todo.archive'), undefined);
+		assert.strictEqual(workspaceState.get('todo.sections'), undefined);
+		assert.ok(workspaceState.get('todo.trash'));
+
+		const teammate = new TodoRepository(
+			{ globalState: new InMemoryMemento(), workspaceState: new InMemoryMemento() },
+			{ backends: [new FileStorageProvider()], selectBackend: () => 'file' }
+		);
+		await teammate.loadScopes([scope]);
+		assert.deepStrictEqual(teammate.getArchivedTodos(scope).map((todo) => todo.title), ['Done']);
+		assert.deepStrictEqual(teammate.getSections(scope), ['Later']);
+		assert.strictEqual(teammate.getDeletedTodos(scope).length, 0);
+	});
+
+	test('reads project todos written to the shared file by someone else', async () => {
+		const { repository, folderKey, scope } = createFileRepositoryHarness();
+		const writer = new FileStorageProvider();
+		await writer.write(scope, [storedTodo('teammate', 'From a teammate', 1)]);
+
+		await repository.loadScopes([scope]);
+
+		const todos = repository.getWorkspaceTodos(folderKey);
+		assert.strictEqual(todos.length, 1);
+		assert.strictEqual(todos[0].title, 'From a teammate');
+		assert.strictEqual(todos[0].workspaceFolder, folderKey);
+	});
+
+	test('falls back to the workspace memento until the shared file exists', async () => {
+		const { repository, workspaceState, folderKey, scope } = createFileRepositoryHarness();
+		await workspaceState.update('todo.workspaceState', {
+			version: 1,
+			folders: { [folderKey]: [storedTodo('local', 'Local only', 1)] },
+		});
+		await repository.loadScopes([scope]);
+
+		assert.strictEqual(repository.getWorkspaceTodos(folderKey)[0].title, 'Local only');
+	});
+
+	test('keeps a todo file that cannot be parsed read-only instead of overwriting it', async () => {
+		const { repository, store, workspaceState, folderKey, scope } = createFileRepositoryHarness();
+		await workspaceState.update(`todo.workspaceState:${folderKey}`, {
+			version: SCHEMA_VERSION,
+			todos: [storedTodo('local', 'Stale local copy', 1)],
+		});
+		const conflicted = '{\n<<<<<<< HEAD\n\t"version": 1,\n=======\n';
+		await vscode.workspace.fs.writeFile(store.fileUri(scope), new TextEncoder().encode(conflicted));
+
+		await repository.loadScopes([scope]);
+
+		assert.deepStrictEqual(repository.getWorkspaceTodos(folderKey), []);
+		assert.ok(repository.getReadError(scope));
+		const todo = repository.createTodo({
+			title: 'Written over the conflict',
+			scope: 'workspace',
+			workspaceFolder: folderKey,
+		});
+		await assert.rejects(
+			() => repository.saveWorkspaceTodos(folderKey, [todo]),
+			/could not be read/
+		);
+		const content = await vscode.workspace.fs.readFile(store.fileUri(scope));
+		assert.strictEqual(new TextDecoder().decode(content), conflicted);
+	});
+
+	test('keeps using the workspace memento when file storage is disabled', async () => {
+		const { repository, store, workspaceState, folderKey, scope } =
+			createFileRepositoryHarness(false);
+		const todo = repository.createTodo({
+			title: 'Private task',
+			scope: 'workspace',
+			workspaceFolder: folderKey,
+		});
+
+		await repository.saveWorkspaceTodos(folderKey, [todo]);
+
+		assert.ok(workspaceState.get(`todo.workspaceState:${folderKey}`));
+		await store.load(scope);
+		assert.strictEqual(store.read(scope), undefined);
+	});
+
+	test('delegates each scope to the backend selected for it', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		const memory = createMemoryStorageProvider();
+		let globalBackend: 'memento' | 'memory' = 'memory';
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ backends: [memory], selectBackend: () => globalBackend }
+		);
+		const todo = repository.createTodo({ title: 'Session only', scope: 'global' });
+
+		await repository.saveGlobalTodos([todo]);
+
+		assert.strictEqual(globalState.get('todo.globalState'), undefined);
+		assert.strictEqual(memory.read({ scope: 'global' })?.[0].title, 'Session only');
+		assert.strictEqual(repository.getGlobalTodos()[0].title, 'Session only');
+
+		globalBackend = 'memento';
+		assert.strictEqual(repository.getGlobalTodos().length, 0);
+	});
+
+	test('keeps the trash, archive and sections of session-only lists in memory', async () => {
+		const globalState = new InMemoryMemento();
+		const workspaceState = new InMemoryMemento();
+		const repository = new TodoRepository(
+			{ globalState, workspaceState },
+			{ backends: [createMemoryStorageProvider()], selectBackend: () => 'memory' }
+		);
+		const scope: ScopeTarget = { scope: 'global' };
+		const done = repository.createTodo({ title: 'Done', scope: 'global' });
+		const gone = repository.createTodo({ title: 'Gone', scope: 'global' });
+		await repository.mutate(scope, 'create', () => [{ ...done, completed: true }, gone]);
+
+		await repository.archiveTodos(scope, [done.id]);
+		await repository.mutate(scope, 'remove', () => []);
+		await repository.addSection(scope, 'Later');
+
+		assert.deepStrictEqual(repository.getArchivedTodos(scope).map((todo) => todo.title), ['Done']);
+		assert.deepStrictEqual(
+			repository.getDeletedTodos(scope).map((entry) => entry.todo.title),
+			['Gone']
+		);
+		assert.deepStrictEqual(repository.getSections(scope), ['Later']);
+		assert.deepStrictEqual(globalState.keys(), []);
+		assert.deepStrictEqual(workspaceState.keys(), []);
+	});
+
+	test('falls back to the mementos for unknown backend identifiers', async () => {
+		const harness = createRepositoryHarness();
+		const repository = new TodoRepository(
+			{ globalState: harness.globalState, workspaceState: harness.workspaceState },
+			{ selectBackend: () => 'file' }
+		);
+		const todo = repository.createTodo({ title: 'Still saved', scope: 'global' });
+
+		await repository.saveGlobalTodos([todo]);
+
+		assert.strictEqual(harness.repository.getGlobalTodos()[0].title, 'Still saved');
+	});
+
+	test('fires change events for the written scope with the change kind', async () => {
+		const repository = new TodoRepository({
+			globalState: new InMemoryMemento(),
+			workspaceState: new InMemoryMemento(),
+		});
+		const changes: TodoChangeEvent[] = [];
+		repository.onDidChange((event) => changes.push(event));
+		const todo = repository.createTodo({
+			title: 'Ship',
+			scope: 'workspace',
+			workspaceFolder: 'file:///ship',
+		});
+
+		await repository.persistTodos(
+			{ scope: 'workspace', workspaceFolder: 'file:///ship' },
+			[todo],
+			'create'
+		);
+		await repository.saveGlobalTodos([]);
+
+		assert.deepStrictEqual(changes, [
+			{ scopes: [{ scope: 'workspace', workspaceFolder: 'file:///ship' }], kind: 'create' },
+			{ scopes: [{ scope: 'global' }], kind: 'update' },
+		]);
+		repository.dispose();
+	});
+
+	test('forwards external changes only from the backend selected for the scope', async () => {
+		const emitter = new vscode.EventEmitter<ScopeTarget>();
+		const watched: TodoStorageProvider = {
+			id: 'file',
+			read: () => [storedTodo('external', 'Pulled from git', 1)],
+			write: async () => undefined,
+			onDidChange: emitter.event,
+		};
+		const repository = new TodoRepository(
+			{ globalState: new InMemoryMemento(), workspaceState: new InMemoryMemento() },
+			{
+				backends: [watched],
+				selectBackend: (scope) => (scope.scope === 'workspace' ? 'file' : 'memento'),
+			}
+		);
+		const changes: TodoChangeEvent[] = [];
+		repository.onDidChange((event) => changes.push(event));
+
+		const workspaceScope: ScopeTarget = { scope: 'workspace', workspaceFolder: 'file:///pulled' };
+		emitter.fire(workspaceScope);
+		emitter.fire({ scope: 'global' });
+
+		assert.deepStrictEqual(changes, [{ scopes: [workspaceScope], kind: 'external' }]);
+		assert.strictEqual(repository.getWorkspaceTodos('file:///pulled')[0].title, 'Pulled from git');
+		repository.dispose();
+		emitter.dispose();
+	});
+
+	test('merges a stale global save with the list another window published', async () => {
+		const openWindow = createWindowFactory();
+		const first = openWindow().repository;
+		const second = openWindow().repository;
+		await first.loadScopes([{ scope: 'global' }]);
+		await second.loadScopes([{ scope: 'global' }]);
+		const changes: TodoChangeEvent[] = [];
+		second.onDidChange((event) => changes.push(event));
+
+		await first.saveGlobalTodos([first.createTodo({ title: 'From first', scope: 'global' })]);
+		// The second window has not seen the first window's save and writes its stale list.
+		await second.saveGlobalTodos([second.createTodo({ title: 'From second', scope: 'global' })]);
+
+		assert.deepStrictEqual(
+			second.getGlobalTodos().map((todo) => [todo.title, todo.position]),
+			[
+				['From first', 1],
+				['From second', 2],
+			]
+		);
+		assert.deepStrictEqual(changes.map((event) => event.kind), ['external', 'update']);
+		assert.strictEqual(await second.undo(), undefined);
+		first.dispose();
+		second.dispose();
+	});
+
+	test('keeps todos brought back by an undo or from the trash in other windows', async () => {
+		const openWindow = createWindowFactory();
+		const first = openWindow().repository;
+		const second = openWindow().repository;
+		await first.loadScopes([{ scope: 'global' }]);
+		await second.loadScopes([{ scope: 'global' }]);
+		const scope: ScopeTarget = { scope: 'global' };
+		const undone = first.createTodo({ title: 'Undone', scope: 'global' });
+		const restored = first.createTodo({ title: 'Restored', scope: 'global' });
+		await first.saveGlobalTodos([undone, restored]);
+		const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+		await tick();
+		await first.mutate(scope, 'remove', () => []);
+		// The second window learns about the removal, and its tombstones, with its next save.
+		await second.saveGlobalTodos(second.getGlobalTodos());
+		assert.deepStrictEqual(second.getGlobalTodos(), []);
+		await tick();
+
+		await first.undo();
+		await first.mutate(scope, 'remove', (todos) => todos.filter((todo) => todo.id !== restored.id));
+		await first.restoreDeletedTodos(scope, [restored.id]);
+		await second.saveGlobalTodos(second.getGlobalTodos());
+		await first.saveGlobalTodos(first.getGlobalTodos());
+
+		for (const repository of [first, second]) {
+			assert.deepStrictEqual(
+				repository.getGlobalTodos().map((todo) => todo.title),
+				['Undone', 'Restored']
+			);
+		}
+		first.dispose();
+		second.dispose();
+	});
+
+	test('adopts the global list published by another window while it was closed', async () => {
+		const openWindow = createWindowFactory();
+		const first = openWindow();
+		const second = openWindow();
+		await first.repository.loadScopes([{ scope: 'global' }]);
+		await second.repository.loadScopes([{ scope: 'global' }]);
+		const kept = first.repository.createTodo({ title: 'Kept', scope: 'global' });
+		const removed = first.repository.createTodo({ title: 'Removed', scope: 'global' });
+		await first.repository.saveGlobalTodos([kept, removed]);
+		await second.repository.saveGlobalTodos([
+			kept,
+			removed,
+			second.repository.createTodo({ title: 'Added', scope: 'global' }),
+		]);
+		second.repository.dispose();
+
+		await first.repository.saveGlobalTodos([kept]);
+		const reopened = openWindow(second.globalState).repository;
+		await reopened.loadScopes([{ scope: 'global' }]);
+
+		assert.deepStrictEqual(reopened.getGlobalTodos().map((todo) => todo.title), ['Kept', 'Added']);
+		first.repository.dispose();
+		reopened.dispose();
+	});
+
+	test('merges global todos synced in from another machine by id and update time', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		repository.setGlobalSettingsSync(true);
+		await repository.loadScopes([{ scope: 'global' }]);
+		const asGlobal = (todo: PersistedTodo): Todo => ({ ...todo, scope: 'global' });
+		const shared = storedTodo('shared', 'Shared', 1);
+		const gone = storedTodo('gone', 'Removed elsewhere', 2);
+		await repository.saveGlobalTodos([asGlobal(shared), asGlobal(gone)]);
+		// Settings Sync replaces the memento with the other machine's copy.
+		await globalState.update('todo.globalState', {
+			version: 1,
+			revision: 'other-machine',
+			todos: [
+				{ ...shared, title: 'Renamed elsewhere', updatedAt: '2025-02-01T00:00:00.000Z' },
+				storedTodo('remote', 'Added elsewhere', 2),
+			],
+			tombstones: [{ id: 'gone', deletedAt: '2025-02-01T00:00:00.000Z' }],
+		});
+
+		await repository.saveGlobalTodos([
+			asGlobal(shared),
+			asGlobal(gone),
+			asGlobal(storedTodo('local', 'Added here', 3)),
+		]);
+
+		assert.deepStrictEqual(globalState.keysForSync, ['todo.globalState']);
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => todo.title),
+			['Renamed elsewhere', 'Added elsewhere', 'Added here']
+		);
+		repository.setGlobalSettingsSync(false);
+		assert.deepStrictEqual(globalState.keysForSync, []);
+		repository.dispose();
+	});
+
+	test('keeps todos brought back by an undo or from the trash when Settings Sync merges', async () => {
+		const { repository, globalState } = createRepositoryHarness();
+		repository.setGlobalSettingsSync(true);
+		const scope: ScopeTarget = { scope: 'global' };
+		await repository.loadScopes([scope]);
+		const undone = repository.createTodo({ title: 'Undone', scope: 'global', position: 1 });
+		const restored = repository.createTodo({ title: 'Restored', scope: 'global', position: 2 });
+		await repository.saveGlobalTodos([undone, restored]);
+		const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+		await tick();
+		await repository.mutate(scope, 'remove', () => []);
+		// The other machine received the removal and keeps its tombstones.
+		const removedElsewhere = globalState.get<object>('todo.globalState');
+		await tick();
+
+		await repository.undo();
+		await repository.mutate(scope, 'remove', (todos) =>
+			todos.filter((todo) => todo.id !== restored.id)
+		);
+		await repository.restoreDeletedTodos(scope, [restored.id]);
+		await globalState.update('todo.globalState', {
+			...removedElsewhere,
+			revision: 'other-machine',
+		});
+		await repository.saveGlobalTodos(repository.getGlobalTodos());
+
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => todo.title),
+			['Undone', 'Restored']
+		);
+		repository.dispose();
+	});
+
+	test('adopts a global list synced in by Settings Sync without rewriting it', async () => {
+		const globalState = new InMemoryMemento();
+		const provider = new MementoStorageProvider({
+			globalState,
+			workspaceState: new InMemoryMemento(),
+		});
+		const changes: ScopeTarget[] = [];
+		provider.onDidChange((scope) => changes.push(scope));
+		provider.setSettingsSync(true);
+		await provider.load({ scope: 'global' });
+		await provider.write({ scope: 'global' }, [storedTodo('local', 'Local', 1)]);
+		assert.strictEqual(await provider.checkSyncedGlobalState(), false);
+
+		const synced = {
+			version: 1,
+			revision: 'other-machine',
+			todos: [storedTodo('local', 'Local', 1), storedTodo('remote', 'Remote', 2)],
+			tombstones: [],
+		};
+		await globalState.update('todo.globalState', synced);
+
+		assert.strictEqual(await provider.checkSyncedGlobalState(), true);
+		assert.deepStrictEqual(globalState.get('todo.globalState'), synced);
+		assert.deepStrictEqual(changes, [{ scope: 'global' }]);
+		provider.dispose();
+	});
+
+	test('backs up lists before clearing them and restores a backup', async () => {
+		const globalStorageUri = vscode.Uri.file(fs.mkdtempSync(path.join(os.tmpdir(), 'todo-bak-')));
+		const repository = new TodoRepository(
+			{ globalState: new InMemoryMemento(), workspaceState: new InMemoryMemento() },
+			{ globalStorageUri, backupRetentionCount: () => 2 }
+		);
+		const scope: ScopeTarget = { scope: 'global' };
+		const first = repository.createTodo({ title: 'First', scope: 'global' });
+		const second = repository.createTodo({ title: 'Second', scope: 'global', position: 2 });
+		const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+		await repository.saveGlobalTodos([first]);
+		await repository.backupScopes([scope]);
+		await repository.backupScopes([scope]);
+		await tick();
+		await repository.saveGlobalTodos([first, second]);
+		await repository.mutate(scope, 'clear', () => []);
+
+		const backups = await repository.listBackups();
+		assert.deepStrictEqual(
+			backups.map((backup) => [backup.reason, backup.todos.map((todo) => todo.title)]),
+			[
+				['clear', ['First', 'Second']],
+				['periodic', ['First']],
+			]
+		);
+		assert.strictEqual(backups[0].todos[0].scope, 'global');
+
+		await tick();
+		await repository.saveGlobalTodos([repository.createTodo({ title: 'Later', scope: 'global' })]);
+		const restored = await repository.restoreBackup(backups[0]);
 
-		repository.captureSnapshot(scopeKey, [todo]);
-		const restored = repository.consumeSnapshot(scopeKey) as Todo[];
-		assert.strictEqual(restored.length, 1);
-		assert.strictEqual(restored[0].title, 'Snapshot me');
-		assert.strictEqual(repository.consumeSnapshot(scopeKey), undefined);
+		assert.deepStrictEqual(
+			repository.getGlobalTodos().map((todo) => todo.title),
+			['First', 'Second']
+		);
+		assert.strictEqual(repository.getDeletedTodos(scope)[0].todo.title, 'Later');
+		const remaining = await repository.listBackups();
+		assert.deepStrictEqual(
+			remaining.map((backup) => backup.reason),
+			['restoreBackup', 'clear']
+		);
+		assert.strictEqual((await repository.undo(restored?.id))?.kind, 'restoreBackup');
+		assert.strictEqual(repository.getGlobalTodos()[0].title, 'Later');
+		repository.dispose();
 	});
-});
\ No newline at end of file
+});
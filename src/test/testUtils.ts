@@ -3,38 +3,12 @@
 import * as vscode from 'vscode';
 
 import * as config from '../adapters/config';
+import { InMemoryMemento } from '../storage/memoryStorage';
 import { TodoWebviewHost } from '../todoWebviewHost';
 import { OutboundMessage } from '../types/webviewMessages';
 
-/** Minimal in-memory stand-in for VS Code's Memento used by the repository during tests. */
-export class InMemoryMemento implements vscode.Memento {
-	private readonly store = new Map<string, unknown>();
-	private syncedKeys: readonly string[] = [];
-
-	get<T>(key: string, defaultValue?: T): T | undefined {
-		if (this.store.has(key)) {
-			return this.store.get(key) as T;
-		}
-		return defaultValue;
-	}
-
-	update<T>(key: string, value: T): Thenable<void> {
-		if (value === undefined) {
-			this.store.delete(key);
-		} else {
-			this.store.set(key, value);
-		}
-		return Promise.resolve();
-	}
-
-	keys(): readonly string[] {
-		return Array.from(this.store.keys());
-	}
-
-	setKeysForSync(keys: readonly string[]): void {
-		this.syncedKeys = keys;
-	}
-}
+/** In-memory Memento shared with the `memory` storage backend, re-exported for test harnesses. */
+export { InMemoryMemento };
 
 const workspaceFoldersDescriptor = Object.getOwnPropertyDescriptor(
 	vscode.workspace,
@@ -58,6 +32,25 @@ export function restoreWorkspaceFoldersDescriptor(): void {
 	Object.defineProperty(vscode.workspace, 'workspaceFolders', { get: () => undefined });
 }
 
+const activeTextEditorDescriptor = Object.getOwnPropertyDescriptor(vscode.window, 'activeTextEditor');
+
+/** Overrides the active text editor for the duration of a test. */
+export function overrideActiveTextEditor(editor: vscode.TextEditor | undefined): void {
+	Object.defineProperty(vscode.window, 'activeTextEditor', {
+		get: () => editor,
+		configurable: true,
+	});
+}
+
+/** Restores the activeTextEditor descriptor after a test finishes. */
+export function restoreActiveTextEditorDescriptor(): void {
+	if (activeTextEditorDescriptor) {
+		Object.defineProperty(vscode.window, 'activeTextEditor', activeTextEditorDescriptor);
+		return;
+	}
+	Object.defineProperty(vscode.window, 'activeTextEditor', { get: () => undefined });
+}
+
 /** Temporarily overrides readConfig during a test. Restored by calling the returned disposer. */
 export function stubReadConfig(next: config.TodoConfig): () => void {
 	const original = config.readConfig;
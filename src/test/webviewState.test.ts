@@ -6,6 +6,7 @@ import * as vscode from 'vscode';
 import * as l10n from '@vscode/l10n';
 
 import { TodoRepository } from '../todoRepository';
+import { toDueDate } from '../domain/todo';
 import { buildWebviewStateSnapshot } from '../webviewState';
 import {
 	InMemoryMemento,
@@ -72,6 +73,149 @@ suite('buildWebviewStateSnapshot', () => {
 		);
 	});
 
+	test('lists subtasks below their parent with depth and a completion rollup', async () => {
+		const { repository } = createRepositoryHarness();
+		overrideWorkspaceFolders([]);
+		const parent = repository.createTodo({ title: 'Parent', scope: 'global' });
+		const later = repository.createTodo({ title: 'Later', scope: 'global', position: 2 });
+		const first = repository.createTodo({
+			title: 'First step',
+			scope: 'global',
+			parentId: parent.id,
+			position: 1,
+		});
+		const second = repository.createTodo({
+			title: 'Second step',
+			scope: 'global',
+			parentId: parent.id,
+			position: 2,
+		});
+		const detail = repository.createTodo({
+			title: 'Detail',
+			scope: 'global',
+			parentId: second.id,
+			position: 1,
+		});
+		first.completed = true;
+		await repository.saveGlobalTodos([later, detail, second, first, parent]);
+
+		const snapshot = buildWebviewStateSnapshot(repository);
+
+		assert.deepStrictEqual(
+			snapshot.global.todos.map((todo) => [todo.title, todo.depth, todo.subtasks]),
+			[
+				['Parent', 0, { completed: 1, total: 2 }],
+				['First step', 1, undefined],
+				['Second step', 1, { completed: 0, total: 1 }],
+				['Detail', 2, undefined],
+				['Later', 0, undefined],
+			]
+		);
+		assert.strictEqual(snapshot.global.todos[3].parentId, second.id);
+	});
+
+	test('lists todos outside any section first, then each section in order', async () => {
+		const { repository } = createRepositoryHarness();
+		overrideWorkspaceFolders([]);
+		await repository.addSection({ scope: 'global' }, 'This week');
+		await repository.addSection({ scope: 'global' }, 'Empty');
+		const planned = repository.createTodo({ title: 'Planned', scope: 'global', section: 'Bugs' });
+		const week = repository.createTodo({ title: 'Week', scope: 'global', section: 'This week' });
+		const loose = repository.createTodo({ title: 'Loose', scope: 'global' });
+		await repository.saveGlobalTodos([planned, week, loose]);
+
+		const snapshot = buildWebviewStateSnapshot(repository);
+
+		assert.deepStrictEqual(snapshot.global.sections, ['This week', 'Empty', 'Bugs']);
+		assert.deepStrictEqual(
+			snapshot.global.todos.map((todo) => [todo.title, todo.section]),
+			[
+				['Loose', undefined],
+				['Week', 'This week'],
+				['Planned', 'Bugs'],
+			]
+		);
+	});
+
+	test('lists the tags of each todo and the tags used across the scope', async () => {
+		const { repository } = createRepositoryHarness();
+		overrideWorkspaceFolders([]);
+		await repository.saveGlobalTodos([
+			repository.createTodo({ title: 'Tagged', scope: 'global', tags: ['ui', 'auth'] }),
+			repository.createTodo({ title: 'Plain', scope: 'global' }),
+			repository.createTodo({ title: 'Also tagged', scope: 'global', tags: ['backend', 'ui'] }),
+		]);
+
+		const snapshot = buildWebviewStateSnapshot(repository);
+
+		assert.deepStrictEqual(snapshot.global.tags, ['auth', 'backend', 'ui']);
+		assert.deepStrictEqual(
+			snapshot.global.todos.map((todo) => [todo.title, todo.tags]),
+			[
+				['Tagged', ['ui', 'auth']],
+				['Plain', []],
+				['Also tagged', ['backend', 'ui']],
+			]
+		);
+	});
+
+	test('renders notes as sanitized Markdown', async () => {
+		const { repository } = createRepositoryHarness();
+		overrideWorkspaceFolders([]);
+		await repository.saveGlobalTodos([
+			{
+				...repository.createTodo({ title: 'With notes', scope: 'global' }),
+				notes: 'See **[spec](https://example.com/spec)** <script>alert(1)</script>\n[run](javascript:alert(1))',
+			},
+			repository.createTodo({ title: 'Without notes', scope: 'global' }),
+		]);
+
+		const [withNotes, withoutNotes] = buildWebviewStateSnapshot(repository).global.todos;
+
+		assert.strictEqual(
+			withNotes.notesHtml,
+			'<p>See <strong><a href="https://example.com/spec">spec</a></strong> &lt;script&gt;alert(1)&lt;/script&gt;<br>run</p>'
+		);
+		assert.strictEqual(withoutNotes.notesHtml, undefined);
+	});
+
+	test('describes due dates relative to today and flags overdue active todos', async () => {
+		const { repository } = createRepositoryHarness();
+		overrideWorkspaceFolders([]);
+		const inDays = (days: number) => {
+			const date = new Date();
+			date.setDate(date.getDate() + days);
+			return toDueDate(date);
+		};
+		const todos = [
+			{ title: 'Late', dueDate: inDays(-3) },
+			{ title: 'Yesterday', dueDate: inDays(-1) },
+			{ title: 'Today', dueDate: inDays(0) },
+			{ title: 'Soon', dueDate: inDays(4) },
+			{ title: 'Done late', dueDate: inDays(-2), completed: true },
+			{ title: 'Someday' },
+		].map(({ title, dueDate, completed }) => ({
+			...repository.createTodo({ title, scope: 'global' }),
+			dueDate,
+			completed: completed ?? false,
+		}));
+		await repository.saveGlobalTodos(todos);
+
+		const snapshot = buildWebviewStateSnapshot(repository);
+
+		assert.deepStrictEqual(
+			snapshot.global.todos.map((todo) => [todo.title, todo.dueLabel, todo.overdue]),
+			[
+				['Late', l10n.t('due.overdue.many', 3), true],
+				['Yesterday', l10n.t('due.overdue.one', '1 day overdue'), true],
+				['Today', l10n.t('due.today', 'today'), false],
+				['Soon', l10n.t('due.inDays', 4), false],
+				['Done late', l10n.t('due.overdue.many', 2), false],
+				['Someday', undefined, false],
+			]
+		);
+	});
+
 	test('captures workspace metadata and localized labels across folders', async () => {
 		const { repository } = createRepositoryHarness();
 		const folderA = vscode.Uri.parse('file:///workspace-a');
@@ -104,6 +248,9 @@ suite('buildWebviewStateSnapshot', () => {
 			description: folderA.fsPath,
 			emptyLabel: l10n.t('webview.projects.empty', 'No project TODOs yet'),
 			todos: [],
+			sections: [],
+			tags: [],
+			archived: [],
 		});
 		assert.strictEqual(secondFolder.key, folderB.toString());
 		assert.strictEqual(secondFolder.label, 'Workspace B');
@@ -1,27 +1,46 @@
 import { randomUUID } from 'crypto';
 import * as vscode from 'vscode';
 
-import { normalizePositions } from './domain/todo';
-import { ScopeKey, Todo, TodoScope } from './types';
+import {
+	cloneTodo,
+	collectSubtree,
+	compactPositions,
+	insertTodosAtPositions,
+	normalizePositions,
+	siblingGroupKey,
+	toggleCompletion,
+	touchRevivedTodos,
+} from './domain/todo';
+import { isSameRecurrence, nextDueDate } from './domain/recurrence';
+import { HistoryEntry, UndoHistory } from './services/undoHistory';
+import { StateMigrations } from './stateMigrations';
+import { MementoStorageProvider, MigrationResult } from './storage/mementoStorage';
+import {
+	PersistedTodo,
+	ScopeMementoResolver,
+	StorageBackendId,
+	TodoStorageProvider,
+} from './storage/todoStorage';
+import { TodoArchive } from './storage/todoArchive';
+import { TodoBackups } from './storage/todoBackups';
+import { checkPersistedTodos } from './storage/todoIntegrity';
+import { QuarantineRecord, TodoQuarantine } from './storage/todoQuarantine';
+import { TodoSections } from './storage/todoSections';
+import { TodoTrash } from './storage/todoTrash';
+import {
+	ScopeKey,
+	Todo,
+	TodoAnchor,
+	TodoChangeEvent,
+	TodoChangeKind,
+	TodoPriority,
+	TodoScope,
+} from './types';
+import { BackupReason, TodoBackup } from './types/backup';
+import { IntegrityReport } from './types/integrity';
+import { ScopeTarget } from './types/scope';
 
-const GLOBAL_STATE_KEY = 'todo.globalState';
-const WORKSPACE_STATE_KEY = 'todo.workspaceState';
-const SCHEMA_VERSION = 1;
-
-type PersistedTodo = Omit<Todo, 'scope' | 'workspaceFolder'>;
-
-interface PersistedGlobalState {
-	version: number;
-	todos: PersistedTodo[];
-}
-
-interface PersistedWorkspaceState {
-	version: number;
-	folders: Record<string, PersistedTodo[]>;
-}
-
-const DEFAULT_GLOBAL_STATE: PersistedGlobalState = { version: SCHEMA_VERSION, todos: [] };
-const DEFAULT_WORKSPACE_STATE: PersistedWorkspaceState = { version: SCHEMA_VERSION, folders: {} };
+export type { HistoryEntry, IntegrityReport, MigrationResult, QuarantineRecord, TodoBackup };
 
 /** Input parameters used to create a new todo entity prior to persistence. */
 export interface CreateTodoInput {
@@ -29,41 +48,243 @@ export interface CreateTodoInput {
 	scope: TodoScope;
 	workspaceFolder?: string;
 	position?: number;
+	/** ID of the todo the new todo becomes a subtask of. */
+	parentId?: string;
+	/** Section the new todo is listed in; ignored for subtasks, which follow their parent. */
+	section?: string;
+	/** Tags of the new todo, already parsed and lowercased. */
+	tags?: string[];
+	priority?: TodoPriority;
+	/** Code location the new todo refers to. */
+	anchor?: TodoAnchor;
+}
+
+/** A deleted todo waiting in the trash of its scope. */
+export interface DeletedTodo {
+	todo: Todo;
+	deletedAt: string;
+}
+
+/** A project list stored for a workspace folder key that is not open anymore. */
+export interface OrphanedWorkspaceList {
+	workspaceFolder: string;
+	todos: Todo[];
 }
 
+/** Change kinds whose removed todos are moved to the trash instead of being discarded. */
+const TRASHING_KINDS: ReadonlySet<TodoChangeKind> = new Set<TodoChangeKind>([
+	'remove',
+	'clear',
+	'autoDelete',
+	'restoreBackup',
+]);
+
+/** Change kinds whose removed todos are moved to the archive. */
+const ARCHIVING_KINDS: ReadonlySet<TodoChangeKind> = new Set<TodoChangeKind>(['archive', 'recur']);
+
+/** Change kinds that replace a whole list and therefore back it up first. */
+const BACKUP_KINDS: ReadonlySet<TodoChangeKind> = new Set<TodoChangeKind>([
+	'clear',
+	'restoreBackup',
+]);
+
+/** Kinds whose removals apply when undoing a change of the key kind. */
+const UNDO_REMOVAL_KINDS: Partial<Record<TodoChangeKind, TodoChangeKind>> = {
+	restore: 'remove',
+	unarchive: 'archive',
+};
+
 /** Minimal slice of the extension context used by the repository. */
 export type RepositoryContext = Pick<vscode.ExtensionContext, 'globalState' | 'workspaceState'>;
 
+/** Optional storage backends and schema overrides (the latter primarily to exercise migrations). */
+export interface RepositoryOptions {
+	schemaVersion?: number;
+	migrations?: StateMigrations;
+	/** Additional backends the repository can delegate to besides the built-in mementos. */
+	backends?: TodoStorageProvider[];
+	/** Picks the backend for a scope; scopes default to the mementos. */
+	selectBackend?: (scope: ScopeTarget) => StorageBackendId;
+	/** Days deleted todos stay restorable; `0` discards them right away. */
+	trashRetentionDays?: () => number;
+	/**
+	 * Folder shared by all windows of the profile, used to sync memento-backed global todos and to
+	 * store backups; both are off without it.
+	 */
+	globalStorageUri?: vscode.Uri;
+	/** Backups kept per list; `0` turns backups off. */
+	backupRetentionCount?: () => number;
+}
+
 /**
- * Persists todos into VS Code's global/workspace mementos while handling scope-aware metadata
- * such as positions and workspace folders. It also manages undo snapshots for destructive actions.
+ * Persists todos through pluggable storage backends (VS Code mementos by default) while handling
+ * scope-aware metadata such as positions and workspace folders. It also keeps the session's
+ * undo/redo history, the trash of deleted todos and the archive of completed ones, upgrades memento
+ * payloads written with older schema versions, and announces every change through
+ * {@link TodoRepository.onDidChange} so views never have to be refreshed by hand.
+ * Writes are serialized per scope; use {@link TodoRepository.mutate} for read-modify-write updates so
+ * concurrent handlers cannot overwrite each other. Lists are cached in memory per scope: writes
+ * update the cache as they go to the backend, and backend change events or reloads drop it.
  */
-export class TodoRepository {
-	private undoSnapshots = new Map<ScopeKey, Todo[]>();
+export class TodoRepository implements vscode.Disposable {
+	private readonly history = new UndoHistory();
+	private readonly trash: TodoTrash;
+	private readonly archive: TodoArchive;
+	private readonly sections: TodoSections;
+	private readonly quarantine: TodoQuarantine;
+	private readonly backups: TodoBackups | undefined;
+	/** Integrity problems fixed since activation, keyed by scope. */
+	private readonly integrityReports = new Map<ScopeKey, IntegrityReport>();
+	/** Tail of the pending write queue per scope; writes to a scope run strictly one at a time. */
+	private readonly writeQueues = new Map<ScopeKey, Promise<void>>();
+	/**
+	 * Todos per scope as last read or written, with the backend they were read from and the reason
+	 * they could not be read, if any.
+	 */
+	private readonly cache = new Map<
+		ScopeKey,
+		{ backend: TodoStorageProvider; todos: Todo[]; readError?: string }
+	>();
+	private readonly mementoStorage: MementoStorageProvider;
+	private readonly backends = new Map<StorageBackendId, TodoStorageProvider>();
+	private readonly selectBackend: (scope: ScopeTarget) => StorageBackendId;
+	private readonly disposables: vscode.Disposable[] = [];
+	private readonly onDidChangeEmitter = new vscode.EventEmitter<TodoChangeEvent>();
+
+	/**
+	 * Fires after todos of one or more scopes were written, reloaded, or changed outside the
+	 * extension by the backend of the scope.
+	 */
+	readonly onDidChange = this.onDidChangeEmitter.event;
 
-	constructor(private readonly context: RepositoryContext) {}
+	constructor(context: RepositoryContext, options: RepositoryOptions = {}) {
+		this.mementoStorage = new MementoStorageProvider(context, {
+			schemaVersion: options.schemaVersion,
+			migrations: options.migrations,
+			globalStorageUri: options.globalStorageUri,
+		});
+		this.disposables.push(this.mementoStorage);
+		const mementoFor: ScopeMementoResolver = (scope, key) => {
+			const local = scope.scope === 'global' ? context.globalState : context.workspaceState;
+			return this.backendFor(scope).stateFor?.(scope, key, local) ?? local;
+		};
+		this.trash = new TodoTrash(mementoFor, options.trashRetentionDays);
+		this.archive = new TodoArchive(mementoFor);
+		this.sections = new TodoSections(mementoFor);
+		this.quarantine = new TodoQuarantine(mementoFor);
+		this.backups = options.globalStorageUri
+			? new TodoBackups(options.globalStorageUri, options.backupRetentionCount)
+			: undefined;
+		this.backends.set(this.mementoStorage.id, this.mementoStorage);
+		options.backends?.forEach((backend) => this.backends.set(backend.id, backend));
+		this.selectBackend = options.selectBackend ?? (() => 'memento');
+		this.backends.forEach((backend) => {
+			const disposable = backend.onDidChange?.((scope) => {
+				if (this.backendFor(scope) === backend) {
+					this.cache.delete(this.keyOf(scope));
+					this.onDidChangeEmitter.fire({ scopes: [scope], kind: 'external' });
+					// Queued so history recorded by a write still in progress is dropped as well.
+					this.enqueueWrite(scope, async () => {
+						this.history.forgetScope(scope);
+						await this.repairScope(scope);
+					}).catch((error) => console.error('Todo integrity check failed', error));
+				}
+			});
+			if (disposable) {
+				this.disposables.push(disposable);
+			}
+		});
+	}
+
+	/** Releases backend subscriptions and the change emitter. */
+	dispose(): void {
+		this.disposables.forEach((disposable) => disposable.dispose());
+		this.onDidChangeEmitter.dispose();
+	}
+
+	/**
+	 * Upgrades memento payloads written by older versions of the extension and writes the result
+	 * back. The original payload is kept under a backup key so a failed migration can be rolled back.
+	 *
+	 * @returns One entry per payload that was upgraded.
+	 * @throws Error when a migration fails; the original payload is restored before rethrowing.
+	 */
+	async migrateStorage(): Promise<MigrationResult[]> {
+		try {
+			return await this.mementoStorage.migrate();
+		} finally {
+			this.cache.clear();
+		}
+	}
 
 	/**
-	 * Reads all global-scope todos currently stored in the profile memento.
+	 * Turns Settings Sync for the global list in the profile memento on or off. Lists synced in from
+	 * other machines are merged with the local list by todo ID and `updatedAt`.
+	 *
+	 * @param enabled - Whether the global list should follow the user to other machines.
+	 */
+	setGlobalSettingsSync(enabled: boolean): void {
+		this.mementoStorage.setSettingsSync(enabled);
+	}
+
+	/**
+	 * Prepares the selected backend of each scope for synchronous reads and releases cached data in
+	 * backends that are no longer selected. Call after activation and whenever the selection changes.
+	 * Loaded lists pass the integrity check before a `reload` change fires for the scopes; their undo
+	 * history is dropped since it may no longer match the loaded lists.
+	 *
+	 * @param scopes - Scopes to prepare.
+	 */
+	async loadScopes(scopes: ScopeTarget[]): Promise<void> {
+		await Promise.all(
+			scopes.map(async (scope) => {
+				const selected = this.backendFor(scope);
+				this.backends.forEach((backend) => {
+					if (backend !== selected) {
+						backend.unload?.(scope);
+					}
+				});
+				await selected.load?.(scope);
+				this.cache.delete(this.keyOf(scope));
+				await this.checkIntegrity([scope]);
+				this.history.forgetScope(scope);
+			})
+		);
+		if (scopes.length > 0) {
+			this.onDidChangeEmitter.fire({ scopes, kind: 'reload' });
+		}
+	}
+
+	/**
+	 * Describes why the stored todos of a scope, or its trash, archive, sections, or quarantine, could
+	 * not be read. Such scopes refuse writes, so the stored data is never overwritten; unreadable
+	 * todos or side stores list as empty.
+	 *
+	 * @param scope - Scope to check.
+	 * @returns The problem reported by the scope's backend or side stores, or undefined when the
+	 * scope is readable.
+	 */
+	getReadError(scope: ScopeTarget): string | undefined {
+		return this.cachedScope(scope).readError;
+	}
+
+	/**
+	 * Reads all global-scope todos from the selected backend.
 	 *
 	 * @returns A deep copy of global todos sorted in persisted order.
 	 */
 	getGlobalTodos(): Todo[] {
-		const state = this.getGlobalState();
-		return state.todos.map((entity) => this.toTodo('global', undefined, entity));
+		return this.cachedTodos({ scope: 'global' }).map((todo) => cloneTodo(todo));
 	}
 
 	/**
 	 * Persists global todos, retaining only fields that belong in the serialized payload.
 	 *
 	 * @param todos - Todos to write to the global state memento.
+	 * @param kind - Change kind reported to {@link TodoRepository.onDidChange} listeners.
 	 */
-	async saveGlobalTodos(todos: Todo[]): Promise<void> {
-		const payload: PersistedGlobalState = {
-			version: SCHEMA_VERSION,
-			todos: todos.map((todo) => this.toEntity(todo)),
-		};
-		await this.context.globalState.update(GLOBAL_STATE_KEY, payload);
+	async saveGlobalTodos(todos: Todo[], kind: TodoChangeKind = 'update'): Promise<void> {
+		await this.replaceScope({ scope: 'global' }, todos, kind);
 	}
 
 	/**
@@ -74,9 +295,9 @@ export class TodoRepository {
 	 */
 	getWorkspaceTodos(workspaceFolder: string): Todo[] {
 		const folderKey = this.ensureWorkspaceFolder(workspaceFolder);
-		const state = this.getWorkspaceState();
-		const todos = state.folders[folderKey] ?? [];
-		return todos.map((entity) => this.toTodo('workspace', folderKey, entity));
+		return this.cachedTodos({ scope: 'workspace', workspaceFolder: folderKey }).map((todo) =>
+			cloneTodo(todo)
+		);
 	}
 
 	/**
@@ -84,12 +305,534 @@ export class TodoRepository {
 	 *
 	 * @param workspaceFolder - Workspace folder key (URI string) to write to.
 	 * @param todos - Todos to store for the folder.
+	 * @param kind - Change kind reported to {@link TodoRepository.onDidChange} listeners.
 	 */
-	async saveWorkspaceTodos(workspaceFolder: string, todos: Todo[]): Promise<void> {
+	async saveWorkspaceTodos(
+		workspaceFolder: string,
+		todos: Todo[],
+		kind: TodoChangeKind = 'update'
+	): Promise<void> {
 		const folderKey = this.ensureWorkspaceFolder(workspaceFolder);
-		const state = this.getWorkspaceState();
-		state.folders[folderKey] = todos.map((todo) => this.toEntity(todo));
-		await this.context.workspaceState.update(WORKSPACE_STATE_KEY, state);
+		await this.replaceScope({ scope: 'workspace', workspaceFolder: folderKey }, todos, kind);
+	}
+
+	/**
+	 * Applies a read-modify-write update to a scope atomically. The recipe runs once every earlier
+	 * write to the scope has finished and receives a fresh copy of its todos, so overlapping
+	 * operations (a toggle racing a reorder, an auto-delete firing during an edit) apply in order
+	 * without losing updates.
+	 *
+	 * @param scope - Scope to update.
+	 * @param kind - Change kind reported to {@link TodoRepository.onDidChange} listeners.
+	 * @param recipe - Returns the next todos for the scope, or undefined to leave it untouched.
+	 * @returns The history entry recording the change (its `after` list holds the persisted todos),
+	 * or undefined when the recipe made no change.
+	 */
+	async mutate(
+		scope: ScopeTarget,
+		kind: TodoChangeKind,
+		recipe: (todos: Todo[]) => Todo[] | undefined
+	): Promise<HistoryEntry | undefined> {
+		return this.enqueueWrite(scope, () => this.applyMutation(scope, kind, recipe));
+	}
+
+	/**
+	 * Reverts the most recent recorded change by restoring its scope to the previous list.
+	 *
+	 * @param entryId - When given, undo only if this entry is still the most recent change (used by
+	 * "Undo" buttons on notifications that may be clicked after other changes happened).
+	 * @returns The undone entry, or undefined when there was nothing (matching) to undo.
+	 */
+	async undo(entryId?: number): Promise<HistoryEntry | undefined> {
+		const entry = this.history.peekUndo();
+		if (!entry || (entryId !== undefined && entry.id !== entryId)) {
+			return undefined;
+		}
+		this.history.popUndo();
+		// Undoing a restore removes the todos again, so they go back where they were restored from.
+		const removalKind = UNDO_REMOVAL_KINDS[entry.kind] ?? 'undo';
+		await this.applyHistory(entry.scope, entry.before, 'undo', removalKind);
+		return entry;
+	}
+
+	/**
+	 * Re-applies the most recently undone change.
+	 *
+	 * @returns The redone entry, or undefined when there was nothing to redo.
+	 */
+	async redo(): Promise<HistoryEntry | undefined> {
+		const entry = this.history.popRedo();
+		if (!entry) {
+			return undefined;
+		}
+		await this.applyHistory(entry.scope, entry.after, 'redo', entry.kind);
+		return entry;
+	}
+
+	/**
+	 * Lists the deleted todos of a scope that can still be restored, most recent first.
+	 *
+	 * @param scope - Scope whose trash should be listed.
+	 */
+	getDeletedTodos(scope: ScopeTarget): DeletedTodo[] {
+		return this.trash.list(scope).map((entry) => ({
+			todo: this.hydrate(scope, entry.todo),
+			deletedAt: entry.deletedAt,
+		}));
+	}
+
+	/**
+	 * Moves deleted todos back into their scope at their original positions.
+	 *
+	 * @param scope - Scope the todos were deleted from.
+	 * @param todoIds - IDs of the deleted todos to restore.
+	 * @returns The recorded change, or undefined when none of the todos were in the trash.
+	 */
+	async restoreDeletedTodos(
+		scope: ScopeTarget,
+		todoIds: string[]
+	): Promise<HistoryEntry | undefined> {
+		return this.mutate(scope, 'restore', (todos) => {
+			const now = new Date().toISOString();
+			const restored = this.getDeletedTodos(scope)
+				.filter((entry) => todoIds.includes(entry.todo.id))
+				.map((entry) => ({ ...entry.todo, updatedAt: now }));
+			return restored.length > 0 ? insertTodosAtPositions(todos, restored) : undefined;
+		});
+	}
+
+	/**
+	 * Permanently deletes trashed todos of a scope.
+	 *
+	 * @param scope - Scope whose trash should be emptied.
+	 * @returns Number of todos deleted.
+	 */
+	async emptyTrash(scope: ScopeTarget): Promise<number> {
+		return this.enqueueWrite(scope, () => this.trash.remove(scope));
+	}
+
+	/**
+	 * Drops trashed todos past the retention period.
+	 *
+	 * @param scopes - Scopes whose trash should be pruned.
+	 */
+	async purgeExpiredTrash(scopes: ScopeTarget[]): Promise<void> {
+		await Promise.all(
+			scopes.map((scope) => this.enqueueWrite(scope, () => this.trash.purge(scope)))
+		);
+	}
+
+	/**
+	 * Lists the archived todos of a scope, most recently completed first.
+	 *
+	 * @param scope - Scope whose archive should be listed.
+	 */
+	getArchivedTodos(scope: ScopeTarget): Todo[] {
+		return this.archive.list(scope).map((entity) => this.hydrate(scope, entity));
+	}
+
+	/**
+	 * Moves completed todos from the active list of a scope into its archive, together with their
+	 * subtasks. Todos that are no longer completed (e.g. reopened before an auto-archive timer
+	 * fired) stay in the list.
+	 *
+	 * @param scope - Scope containing the todos.
+	 * @param todoIds - IDs of the todos to archive.
+	 * @returns The recorded change, or undefined when no completed todo matched.
+	 */
+	async archiveTodos(scope: ScopeTarget, todoIds: string[]): Promise<HistoryEntry | undefined> {
+		return this.mutate(scope, 'archive', (todos) => {
+			const archived = new Set(
+				todos
+					.filter((todo) => todo.completed && todoIds.includes(todo.id))
+					.flatMap((todo) => Array.from(collectSubtree(todos, todo.id)))
+			);
+			return archived.size === 0 ? undefined : todos.filter((todo) => !archived.has(todo.id));
+		});
+	}
+
+	/**
+	 * Toggles completion of a todo. Completing a recurring todo instead moves it into the archive
+	 * together with its subtasks, and a copy with the next due date and reopened copies of the
+	 * subtasks takes its place in the list. Which of the two applies is decided once every earlier
+	 * write to the scope has finished, so a queued edit of the rule is taken into account.
+	 *
+	 * @param scope - Scope containing the todo.
+	 * @param todoId - ID of the todo to toggle.
+	 * @param today - Current date, used for timestamps and the next due date.
+	 * @returns The recorded change (of kind `recur` when an occurrence was completed), or undefined
+	 * when the todo does not exist.
+	 */
+	async toggleTodo(
+		scope: ScopeTarget,
+		todoId: string,
+		today = new Date()
+	): Promise<HistoryEntry | undefined> {
+		return this.enqueueWrite(scope, async () => {
+			const current = this.cachedTodos(scope).find((todo) => todo.id === todoId);
+			if (current?.recurrence && !current.completed) {
+				return this.applyMutation(scope, 'recur', (todos) =>
+					this.completeOccurrence(todos, todoId, today)
+				);
+			}
+			return this.applyMutation(scope, 'toggle', (todos) => {
+				const todo = todos.find((item) => item.id === todoId);
+				if (!todo) {
+					return undefined;
+				}
+				toggleCompletion(todo, today.toISOString());
+				return todos;
+			});
+		});
+	}
+
+	/**
+	 * Moves archived todos back to the end of the active list of their scope as open todos. Archived
+	 * ancestors of a restored subtask are restored with it, so it keeps its place in the tree. A
+	 * past occurrence of a recurring todo whose series continues in the list comes back without
+	 * its rule, so the series is not repeated twice.
+	 *
+	 * @param scope - Scope the todos were archived from.
+	 * @param todoIds - IDs of the archived todos to restore.
+	 * @returns The recorded change, or undefined when none of the todos were archived.
+	 */
+	async restoreArchivedTodos(
+		scope: ScopeTarget,
+		todoIds: string[]
+	): Promise<HistoryEntry | undefined> {
+		return this.mutate(scope, 'unarchive', (todos) => {
+			const now = new Date().toISOString();
+			const archived = this.getArchivedTodos(scope);
+			const archivedById = new Map(archived.map((todo) => [todo.id, todo]));
+			const ids = new Set<string>();
+			todoIds.forEach((todoId) => {
+				for (let todo = archivedById.get(todoId); todo && !ids.has(todo.id); ) {
+					ids.add(todo.id);
+					todo = todo.parentId ? archivedById.get(todo.parentId) : undefined;
+				}
+			});
+			const continues = (occurrence: Todo) =>
+				todos.some(
+					(todo) =>
+						!todo.completed &&
+						todo.title === occurrence.title &&
+						isSameRecurrence(todo.recurrence, occurrence.recurrence)
+				);
+			const restored = archived
+				.filter((todo) => ids.has(todo.id))
+				.map((todo, index) => ({
+					...todo,
+					completed: false,
+					completedAt: undefined,
+					position: todos.length + index + 1,
+					updatedAt: now,
+					recurrence: todo.recurrence && continues(todo) ? undefined : todo.recurrence,
+				}));
+			return restored.length > 0 ? [...todos, ...restored] : undefined;
+		});
+	}
+
+	/**
+	 * Lists the sections of a scope in display order: the sections added to the scope, followed by
+	 * sections only known from its todos (e.g. todos read from a shared todo file).
+	 *
+	 * @param scope - Scope whose sections should be listed.
+	 */
+	getSections(scope: ScopeTarget): string[] {
+		const sections = this.sections.list(scope);
+		[...this.cachedTodos(scope)]
+			.sort((a, b) => a.position - b.position)
+			.forEach((todo) => {
+				if (todo.section !== undefined && !sections.includes(todo.section)) {
+					sections.push(todo.section);
+				}
+			});
+		return sections;
+	}
+
+	/**
+	 * Adds an empty section at the end of a scope.
+	 *
+	 * @param scope - Scope to add the section to.
+	 * @param name - Name of the section.
+	 * @returns False when the name is blank or already used by a section of the scope.
+	 */
+	async addSection(scope: ScopeTarget, name: string): Promise<boolean> {
+		const trimmed = name.trim();
+		return this.enqueueWrite(scope, async () => {
+			const sections = this.getSections(scope);
+			if (trimmed.length === 0 || sections.includes(trimmed)) {
+				return false;
+			}
+			await this.sections.write(scope, [...sections, trimmed]);
+			this.onDidChangeEmitter.fire({ scopes: [scope], kind: 'section' });
+			return true;
+		});
+	}
+
+	/**
+	 * Renames a section of a scope and moves its todos along. Section changes are not recorded in
+	 * the undo history but are applied to the todos it restores.
+	 *
+	 * @param scope - Scope containing the section.
+	 * @param from - Current name of the section.
+	 * @param to - New name of the section.
+	 * @returns False when the section does not exist, or the new name is blank or already used.
+	 */
+	async renameSection(scope: ScopeTarget, from: string, to: string): Promise<boolean> {
+		const trimmed = to.trim();
+		return this.enqueueWrite(scope, async () => {
+			const sections = this.getSections(scope);
+			if (!sections.includes(from) || trimmed.length === 0 || sections.includes(trimmed)) {
+				return false;
+			}
+			await this.sections.write(
+				scope,
+				sections.map((section) => (section === from ? trimmed : section))
+			);
+			const rename = (todos: Todo[]) =>
+				todos.map((todo) => (todo.section === from ? { ...todo, section: trimmed } : todo));
+			await this.writeSectionTodos(scope, rename);
+			this.history.updateTodos(scope, rename);
+			return true;
+		});
+	}
+
+	/**
+	 * Removes a section from a scope. Its todos stay in the list and move to the end of the todos
+	 * outside any section, in the current list as well as in the lists the undo history restores.
+	 *
+	 * @param scope - Scope containing the section.
+	 * @param name - Name of the section to remove.
+	 * @returns False when the section does not exist.
+	 */
+	async removeSection(scope: ScopeTarget, name: string): Promise<boolean> {
+		return this.enqueueWrite(scope, async () => {
+			const sections = this.getSections(scope);
+			if (!sections.includes(name)) {
+				return false;
+			}
+			await this.sections.write(scope, sections.filter((section) => section !== name));
+			const unsection = (todos: Todo[]) => {
+				const offset = todos
+					.filter((todo) => todo.section === undefined && todo.parentId === undefined)
+					.reduce((max, todo) => Math.max(max, todo.position), 0);
+				return todos.map((todo) => {
+					if (todo.section !== name) {
+						return todo;
+					}
+					const position = todo.parentId === undefined ? todo.position + offset : todo.position;
+					return { ...todo, section: undefined, position };
+				});
+			};
+			await this.writeSectionTodos(scope, unsection);
+			this.history.updateTodos(scope, unsection);
+			return true;
+		});
+	}
+
+	/**
+	 * Updates the code anchors of a scope's todos, e.g. to follow edits and renames of the anchored
+	 * files. Anchor updates keep `updatedAt`, are not recorded in the undo history, and are applied
+	 * to the todos the history restores as well.
+	 *
+	 * @param scope - Scope whose anchors are updated.
+	 * @param update - Returns the next anchor, or the same anchor to leave it unchanged.
+	 * @returns True when an anchor changed.
+	 */
+	async updateAnchors(
+		scope: ScopeTarget,
+		update: (anchor: TodoAnchor) => TodoAnchor
+	): Promise<boolean> {
+		const updateTodo = (todo: Todo): Todo => {
+			const anchor = todo.anchor && update(todo.anchor);
+			return anchor === todo.anchor ? todo : { ...todo, anchor };
+		};
+		return this.enqueueWrite(scope, async () => {
+			const todos = this.cachedTodos(scope);
+			const next = todos.map(updateTodo);
+			if (next.every((todo, index) => todo === todos[index])) {
+				return false;
+			}
+			await this.writeScope(
+				scope,
+				next.map((todo) => this.toEntity(todo)),
+				'anchor'
+			);
+			this.history.updateTodos(scope, (stored) => stored.map(updateTodo));
+			return true;
+		});
+	}
+
+	/**
+	 * Lists project todo lists stored in the workspace memento under folder keys that are no longer
+	 * open, e.g. after a folder was renamed, moved, or removed from the workspace.
+	 *
+	 * @param openFolders - Keys of the currently open workspace folders.
+	 * @returns Non-empty orphaned lists, sorted by folder key.
+	 */
+	getOrphanedWorkspaceLists(openFolders: string[]): OrphanedWorkspaceList[] {
+		return this.mementoStorage
+			.listWorkspaceFolders()
+			.filter((folderKey) => !openFolders.includes(folderKey))
+			.sort()
+			.map((folderKey) => {
+				const stored = this.mementoStorage.read({ scope: 'workspace', workspaceFolder: folderKey });
+				return {
+					workspaceFolder: folderKey,
+					todos: (stored ?? [])
+						.map((entity) => this.toTodo('workspace', folderKey, entity))
+						.sort((a, b) => a.position - b.position),
+				};
+			})
+			.filter((list) => list.todos.length > 0);
+	}
+
+	/**
+	 * Moves an orphaned project list to an open workspace folder. Its todos are appended after the
+	 * target's existing todos (a plain reattach when the target is empty), its sections after the
+	 * target's sections, and the orphaned list is removed.
+	 *
+	 * @param fromFolder - Folder key the orphaned list is stored under.
+	 * @param toFolder - Key of the workspace folder that should receive the todos.
+	 * @returns Number of todos moved.
+	 */
+	async moveWorkspaceTodos(fromFolder: string, toFolder: string): Promise<number> {
+		const source: ScopeTarget = { scope: 'workspace', workspaceFolder: fromFolder };
+		const target: ScopeTarget = { scope: 'workspace', workspaceFolder: toFolder };
+		const moved = (this.mementoStorage.read(source) ?? []).sort(
+			(a, b) => a.position - b.position
+		);
+		if (moved.length === 0 || fromFolder === toFolder) {
+			return 0;
+		}
+		await this.enqueueWrite(target, async () => {
+			const existing = this.readScope(target).sort((a, b) => a.position - b.position);
+			const merged = compactPositions([...existing, ...moved]);
+			const sections = this.getSections(target);
+			await this.sections.write(target, [
+				...sections,
+				...this.sections.list(source).filter((section) => !sections.includes(section)),
+			]);
+			await this.writeScope(target, merged, 'update');
+			this.history.forgetScope(target);
+		});
+		await this.deleteWorkspaceTodos(fromFolder);
+		return moved.length;
+	}
+
+	/**
+	 * Permanently deletes the project list stored in the workspace memento for a folder key.
+	 *
+	 * @param workspaceFolder - Folder key whose list should be deleted.
+	 */
+	async deleteWorkspaceTodos(workspaceFolder: string): Promise<void> {
+		const scope: ScopeTarget = { scope: 'workspace', workspaceFolder };
+		await this.enqueueWrite(scope, async () => {
+			const todos = (this.mementoStorage.read(scope) ?? []).map((entity) =>
+				this.toTodo('workspace', workspaceFolder, entity)
+			);
+			await this.backUp(scope, todos, 'deleteList');
+			await this.mementoStorage.removeWorkspaceFolder(workspaceFolder);
+			await this.sections.write(scope, []);
+			this.cache.delete(this.keyOf(scope));
+		});
+		this.history.forgetScope(scope);
+	}
+
+	/**
+	 * Backs up the lists of the given scopes, skipping empty lists and lists unchanged since their
+	 * latest backup.
+	 *
+	 * @param scopes - Scopes to back up.
+	 */
+	async backupScopes(scopes: ScopeTarget[]): Promise<void> {
+		await Promise.all(
+			scopes.map((scope) =>
+				this.enqueueWrite(scope, () => this.backUp(scope, this.readTodos(scope), 'periodic'))
+			)
+		);
+	}
+
+	/**
+	 * Lists the backups of all lists, newest first.
+	 *
+	 * @returns Backups with their todos; empty when backups are off.
+	 */
+	async listBackups(): Promise<TodoBackup[]> {
+		const backups = (await this.backups?.list()) ?? [];
+		return backups.map(({ id, backup }) => ({
+			id,
+			scope: backup.scope,
+			createdAt: backup.createdAt,
+			reason: backup.reason,
+			todos: backup.todos
+				.map((entity) => this.hydrate(backup.scope, entity))
+				.sort((a, b) => a.position - b.position),
+		}));
+	}
+
+	/**
+	 * Replaces a list with the todos of one of its backups. The current list is backed up first
+	 * and todos missing from the backup go to the trash, so the restore can be undone.
+	 *
+	 * @param backup - Backup to restore.
+	 * @returns The recorded change.
+	 */
+	async restoreBackup(backup: TodoBackup): Promise<HistoryEntry | undefined> {
+		return this.mutate(backup.scope, 'restoreBackup', (todos) =>
+			touchRevivedTodos(
+				todos,
+				backup.todos.map((todo) => cloneTodo(todo)),
+				new Date().toISOString()
+			)
+		);
+	}
+
+	/**
+	 * Releases cached backend data and the undo history of scopes that are no longer open, e.g.
+	 * after their workspace folder was removed. Stored todos are kept.
+	 *
+	 * @param scopes - Scopes to release.
+	 */
+	unloadScopes(scopes: ScopeTarget[]): void {
+		scopes.forEach((scope) => {
+			this.backends.forEach((backend) => backend.unload?.(scope));
+			this.cache.delete(this.keyOf(scope));
+			this.history.forgetScope(scope);
+		});
+	}
+
+	/**
+	 * Validates the stored lists of the given scopes, writing back repaired lists and moving entries
+	 * that cannot be repaired (e.g. without a title) to the quarantine.
+	 *
+	 * @param scopes - Scopes to check.
+	 * @returns One report per scope; reports with changes are also kept for
+	 * {@link TodoRepository.getIntegrityReports}.
+	 */
+	async checkIntegrity(scopes: ScopeTarget[]): Promise<IntegrityReport[]> {
+		return Promise.all(
+			scopes.map((scope) => this.enqueueWrite(scope, () => this.repairScope(scope)))
+		);
+	}
+
+	/** Lists the integrity problems fixed since activation, one report per affected scope. */
+	getIntegrityReports(): IntegrityReport[] {
+		return Array.from(this.integrityReports.values()).map((report) => ({
+			scope: report.scope,
+			repairs: [...report.repairs],
+			quarantined: [...report.quarantined],
+		}));
+	}
+
+	/**
+	 * Lists the stored entries of a scope that failed the integrity check.
+	 *
+	 * @param scope - Scope whose quarantine should be listed.
+	 */
+	getQuarantinedEntries(scope: ScopeTarget): QuarantineRecord[] {
+		return this.quarantine.list(scope);
 	}
 
 	/**
@@ -112,11 +855,16 @@ export class TodoRepository {
 			position: input.position ?? this.nextPosition(input),
 			createdAt: now,
 			updatedAt: now,
+			parentId: input.parentId,
+			section: input.section,
+			tags: input.tags && input.tags.length > 0 ? [...input.tags] : undefined,
+			priority: input.priority,
+			anchor: input.anchor,
 		};
 	}
 
 	/**
-	 * Returns the serialized scope key used for snapshot lookup and undo operations.
+	 * Returns the serialized scope key used to group per-scope state such as the write queue.
 	 *
 	 * @param scope - Target scope for todos.
 	 * @param workspaceFolder - Workspace folder key when scope is `workspace`.
@@ -129,28 +877,6 @@ export class TodoRepository {
 		return `workspace:${folderKey}`;
 	}
 
-	/**
-	 * Captures a deep copy of todos for a scope so destructive actions can be undone temporarily.
-	 *
-	 * @param scope - Scope key used for the undo cache.
-	 * @param todos - Todos to snapshot.
-	 */
-	captureSnapshot(scope: ScopeKey, todos: Todo[]): void {
-		this.undoSnapshots.set(scope, todos.map((todo) => ({ ...todo })));
-	}
-
-	/**
-	 * Retrieves and clears a previously captured snapshot. Returns a cloned copy to avoid mutation.
-	 *
-	 * @param scope - Scope key used for the undo cache.
-	 * @returns Snapshot todos or undefined if none exists.
-	 */
-	consumeSnapshot(scope: ScopeKey): Todo[] | undefined {
-		const snapshot = this.undoSnapshots.get(scope);
-		this.undoSnapshots.delete(scope);
-		return snapshot?.map((todo) => ({ ...todo }));
-	}
-
 	/**
 	 * Reads todos based on a scope target, abstracting away the getGlobal/getWorkspace call.
 	 *
@@ -169,52 +895,317 @@ export class TodoRepository {
 	 *
 	 * @param scope - Target scope descriptor.
 	 * @param todos - Todos to write for the scope.
+	 * @param kind - Change kind reported to {@link TodoRepository.onDidChange} listeners.
 	 */
 	async persistTodos(
 		scope: { scope: 'global' } | { scope: 'workspace'; workspaceFolder: string },
-		todos: Todo[]
+		todos: Todo[],
+		kind: TodoChangeKind = 'update'
 	): Promise<void> {
 		const normalized = normalizePositions(todos);
 		if (scope.scope === 'global') {
-			await this.saveGlobalTodos(normalized);
+			await this.saveGlobalTodos(normalized, kind);
 		} else {
-			await this.saveWorkspaceTodos(scope.workspaceFolder, normalized);
+			await this.saveWorkspaceTodos(scope.workspaceFolder, normalized, kind);
 		}
 	}
 
-	/** Calculates the next position within a scope to keep manual ordering stable. */
+	/** Calculates the next position among the new todo's siblings to keep manual ordering stable. */
 	private nextPosition(input: CreateTodoInput): number {
-		const siblings =
+		const group = siblingGroupKey(input);
+		const siblings = this.cachedTodos(
 			input.scope === 'global'
-				? this.getGlobalTodos()
-				: this.getWorkspaceTodos(this.ensureWorkspaceFolder(input.workspaceFolder));
-		if (siblings.length === 0) {
-			return 1;
+				? { scope: 'global' }
+				: {
+						scope: 'workspace',
+						workspaceFolder: this.ensureWorkspaceFolder(input.workspaceFolder),
+					}
+		);
+		return (
+			siblings
+				.filter((todo) => siblingGroupKey(todo) === group)
+				.reduce((max, todo) => Math.max(max, todo.position), 0) + 1
+		);
+	}
+
+	/** Resolves the backend selected for a scope, falling back to the mementos when unknown. */
+	private backendFor(scope: ScopeTarget): TodoStorageProvider {
+		return this.backends.get(this.selectBackend(scope)) ?? this.mementoStorage;
+	}
+
+	/**
+	 * Returns the cached todos of a scope, reading them from the backend on first use or after the
+	 * backend selected for the scope changed. Callers must copy todos before handing them out.
+	 */
+	private cachedTodos(scope: ScopeTarget): Todo[] {
+		return this.cachedScope(scope).todos;
+	}
+
+	/** Returns the cache entry of a scope, reading the scope from its backend when needed. */
+	private cachedScope(scope: ScopeTarget) {
+		const key = this.keyOf(scope);
+		const backend = this.backendFor(scope);
+		const cached = this.cache.get(key);
+		if (cached?.backend === backend) {
+			return cached;
 		}
-		return Math.max(...siblings.map((todo) => todo.position)) + 1;
+		const entry = {
+			backend,
+			todos: this.readScope(scope).map((entity) => this.hydrate(scope, entity)),
+			readError:
+				backend.readError?.(scope) ??
+				this.trash.readError(scope) ??
+				this.archive.readError(scope) ??
+				this.sections.readError(scope) ??
+				this.quarantine.readError(scope),
+		};
+		this.cache.set(key, entry);
+		return entry;
 	}
 
-	private getGlobalState(): PersistedGlobalState {
-		const stored = this.context.globalState.get<PersistedGlobalState>(GLOBAL_STATE_KEY);
-		if (!stored || stored.version !== SCHEMA_VERSION) {
-			return { ...DEFAULT_GLOBAL_STATE, todos: [] };
+	/**
+	 * Reads a scope from its backend. Backends without a list for the scope yet (e.g. a todo file
+	 * that was never written) fall back to the mementos so switching backends keeps existing todos;
+	 * scopes whose data could not be read stay empty instead.
+	 */
+	private readScope(scope: ScopeTarget): PersistedTodo[] {
+		const backend = this.backendFor(scope);
+		const todos = backend.read(scope);
+		if (todos || backend === this.mementoStorage || backend.readError?.(scope)) {
+			return todos ?? [];
 		}
-		return {
-			version: SCHEMA_VERSION,
-			todos: stored.todos.map((todo) => ({ ...todo })),
+		return this.mementoStorage.read(scope) ?? [];
+	}
+
+	/**
+	 * Replaces an active recurring todo and its subtasks with copies for the next occurrence; the
+	 * completed originals are left out of the result so the `recur` change archives them.
+	 */
+	private completeOccurrence(todos: Todo[], todoId: string, today: Date): Todo[] | undefined {
+		const completed = todos.find((todo) => todo.id === todoId);
+		if (!completed?.recurrence || completed.completed) {
+			return undefined;
+		}
+		const now = today.toISOString();
+		const dueDate = nextDueDate(completed.recurrence, completed.dueDate, today);
+		const subtree = collectSubtree(todos, todoId);
+		const ids = new Map(Array.from(subtree, (id) => [id, randomUUID()]));
+		const next = todos
+			.filter((todo) => subtree.has(todo.id))
+			.map((todo): Todo => ({
+				...cloneTodo(todo),
+				id: ids.get(todo.id) as string,
+				parentId: todo.id === todoId ? todo.parentId : ids.get(todo.parentId as string),
+				completed: false,
+				completedAt: undefined,
+				createdAt: now,
+				updatedAt: now,
+				dueDate: todo.id === todoId ? dueDate : todo.dueDate,
+			}));
+		return [...todos.filter((todo) => !subtree.has(todo.id)), ...next];
+	}
+
+	/**
+	 * Replaces the todos of a scope, recording the change in the history when its kind is undoable.
+	 */
+	private async replaceScope(scope: ScopeTarget, todos: Todo[], kind: TodoChangeKind): Promise<void> {
+		await this.enqueueWrite(scope, async () => {
+			const before = this.readTodos(scope);
+			if (BACKUP_KINDS.has(kind)) {
+				await this.backUp(scope, before, kind as BackupReason);
+			}
+			await this.writeScope(
+				scope,
+				todos.map((todo) => this.toEntity(todo)),
+				kind
+			);
+			await this.syncRemoved(scope, kind, before, todos);
+			if (UndoHistory.isUndoable(kind)) {
+				this.history.record(scope, kind, before, todos);
+			}
+		});
+	}
+
+	/**
+	 * Applies a read-modify-write update as described for {@link TodoRepository.mutate}; callers must
+	 * hold the scope's write queue.
+	 */
+	private async applyMutation(
+		scope: ScopeTarget,
+		kind: TodoChangeKind,
+		recipe: (todos: Todo[]) => Todo[] | undefined
+	): Promise<HistoryEntry | undefined> {
+		const before = this.readTodos(scope);
+		const next = recipe(this.readTodos(scope));
+		if (!next) {
+			return undefined;
+		}
+		const normalized = normalizePositions(next);
+		if (BACKUP_KINDS.has(kind)) {
+			await this.backUp(scope, before, kind as BackupReason);
+		}
+		await this.writeScope(
+			scope,
+			normalized.map((todo) => this.toEntity(todo)),
+			kind
+		);
+		await this.syncRemoved(scope, kind, before, normalized);
+		return this.history.record(scope, kind, before, normalized);
+	}
+
+	/**
+	 * Writes a list restored from the history without recording a new entry. `removalKind` is the
+	 * kind whose trash and archive semantics apply, so redoing a removal trashes the todo again.
+	 */
+	private async applyHistory(
+		scope: ScopeTarget,
+		todos: Todo[],
+		kind: TodoChangeKind,
+		removalKind: TodoChangeKind
+	): Promise<void> {
+		await this.enqueueWrite(scope, async () => {
+			const before = this.readTodos(scope);
+			const after = touchRevivedTodos(before, todos, new Date().toISOString());
+			await this.writeScope(
+				scope,
+				after.map((todo) => this.toEntity(todo)),
+				kind
+			);
+			await this.syncRemoved(scope, removalKind, before, after);
+		});
+	}
+
+	/**
+	 * Writes a scope with the todos of a section change applied and fires a `section` change even
+	 * when no todo was affected; callers must hold the scope's write queue.
+	 */
+	private async writeSectionTodos(
+		scope: ScopeTarget,
+		update: (todos: Todo[]) => Todo[]
+	): Promise<void> {
+		const todos = this.readTodos(scope);
+		const next = update(todos);
+		if (next.every((todo, index) => todo === todos[index])) {
+			this.onDidChangeEmitter.fire({ scopes: [scope], kind: 'section' });
+			return;
+		}
+		const now = new Date().toISOString();
+		await this.writeScope(
+			scope,
+			normalizePositions(
+				next.map((todo, index) => (todo === todos[index] ? todo : { ...todo, updatedAt: now }))
+			).map((todo) => this.toEntity(todo)),
+			'section'
+		);
+	}
+
+	/** Runs the integrity check on a scope; callers must hold the scope's write queue. */
+	private async repairScope(scope: ScopeTarget): Promise<IntegrityReport> {
+		if (this.cachedScope(scope).readError) {
+			// Read-only scopes stay as stored; they are checked again once they can be read.
+			return { scope, repairs: [], quarantined: [] };
+		}
+		const result = checkPersistedTodos(this.readScope(scope));
+		const report: IntegrityReport = {
+			scope,
+			repairs: result.repairs,
+			quarantined: result.quarantined,
 		};
+		if (result.repairs.length === 0 && result.quarantined.length === 0) {
+			return report;
+		}
+		await this.quarantine.add(scope, result.quarantined);
+		await this.writeScope(scope, result.todos, 'repair');
+		this.history.forgetScope(scope);
+		const key = this.keyOf(scope);
+		const previous = this.integrityReports.get(key);
+		this.integrityReports.set(key, {
+			scope,
+			repairs: [...(previous?.repairs ?? []), ...report.repairs],
+			quarantined: [...(previous?.quarantined ?? []), ...report.quarantined],
+		});
+		return report;
 	}
 
-	private getWorkspaceState(): PersistedWorkspaceState {
-		const stored = this.context.workspaceState.get<PersistedWorkspaceState>(WORKSPACE_STATE_KEY);
-		if (!stored || stored.version !== SCHEMA_VERSION) {
-			return { ...DEFAULT_WORKSPACE_STATE, folders: {} };
+	/** Writes a backup of a list; failures are logged so they never block the change itself. */
+	private async backUp(scope: ScopeTarget, todos: Todo[], reason: BackupReason): Promise<void> {
+		try {
+			await this.backups?.create(
+				scope,
+				todos.map((todo) => this.toEntity(todo)),
+				reason
+			);
+		} catch (error) {
+			console.error('Unable to back up todos', error);
 		}
-		const folders: Record<string, PersistedTodo[]> = {};
-		Object.keys(stored.folders).forEach((folderKey) => {
-			folders[folderKey] = stored.folders[folderKey].map((todo) => ({ ...todo }));
+	}
+
+	/**
+	 * Moves todos removed by a trashing change into the trash (or by an archiving change into the
+	 * archive) and takes todos that are back in the list (after an undo or restore) out of both.
+	 */
+	private async syncRemoved(
+		scope: ScopeTarget,
+		kind: TodoChangeKind,
+		before: Todo[],
+		after: Todo[]
+	): Promise<void> {
+		const presentIds = new Set(after.map((todo) => todo.id));
+		const removed = before
+			.filter((todo) => !presentIds.has(todo.id))
+			.map((todo) => this.toEntity(todo));
+		await this.trash.update(scope, TRASHING_KINDS.has(kind) ? removed : [], presentIds);
+		await this.archive.update(scope, ARCHIVING_KINDS.has(kind) ? removed : [], presentIds);
+	}
+
+	/**
+	 * Runs a write once all earlier writes to the same scope have settled. A failed write does not
+	 * block the queue; its error is only reported to the caller that issued it.
+	 */
+	private enqueueWrite<T>(scope: ScopeTarget, task: () => Promise<T>): Promise<T> {
+		const key = this.keyOf(scope);
+		const run = (this.writeQueues.get(key) ?? Promise.resolve()).then(task);
+		const tail = run.then(
+			() => undefined,
+			() => undefined
+		);
+		this.writeQueues.set(key, tail);
+		void tail.then(() => {
+			if (this.writeQueues.get(key) === tail) {
+				this.writeQueues.delete(key);
+			}
 		});
-		return { version: SCHEMA_VERSION, folders };
+		return run;
+	}
+
+	private keyOf(scope: ScopeTarget): ScopeKey {
+		return this.scopeKey(
+			scope.scope,
+			scope.scope === 'workspace' ? scope.workspaceFolder : undefined
+		);
+	}
+
+	private async writeScope(
+		scope: ScopeTarget,
+		todos: PersistedTodo[],
+		kind: TodoChangeKind
+	): Promise<void> {
+		const key = this.keyOf(scope);
+		const backend = this.backendFor(scope);
+		const { readError } = this.cachedScope(scope);
+		if (readError) {
+			throw new Error(`Refusing to overwrite todos that could not be read: ${readError}`);
+		}
+		// Cached up front so a change event the backend fires while writing (after merging in
+		// another copy of the list) drops it again.
+		this.cache.set(key, { backend, todos: todos.map((entity) => this.hydrate(scope, entity)) });
+		try {
+			await backend.write(scope, todos);
+		} catch (error) {
+			this.cache.delete(key);
+			throw error;
+		}
+		this.onDidChangeEmitter.fire({ scopes: [scope], kind });
 	}
 
 	private toEntity(todo: Todo): PersistedTodo {
@@ -230,6 +1221,14 @@ export class TodoRepository {
 		};
 	}
 
+	private hydrate(scope: ScopeTarget, entity: PersistedTodo): Todo {
+		return this.toTodo(
+			scope.scope,
+			scope.scope === 'workspace' ? scope.workspaceFolder : undefined,
+			entity
+		);
+	}
+
 	private ensureWorkspaceFolder(workspaceFolder?: string): string {
 		if (!workspaceFolder) {
 			throw new Error('workspaceFolder must be provided for workspace scoped data.');
@@ -1,9 +1,40 @@
+import { ScopeTarget } from './types/scope';
+
 /** Represents the storage scope a todo belongs to. */
 export type TodoScope = 'global' | 'workspace';
 
 /** Serialized key used to look up todos within global or workspace mementos. */
 export type ScopeKey = 'global' | `workspace:${string}`;
 
+/** Priority of a todo; todos without a priority leave it unset. */
+export type TodoPriority = 'low' | 'medium' | 'high';
+
+/**
+ * Rule by which a todo repeats. Weekdays count from 0 (Sunday) to 6 (Saturday); monthly days
+ * past the end of a month fall on its last day.
+ */
+export type TodoRecurrence =
+	| { frequency: 'daily' }
+	| { frequency: 'weekdays' }
+	| { frequency: 'weekly'; weekday: number }
+	| { frequency: 'monthly'; day: number }
+	| { frequency: 'interval'; days: number };
+
+/**
+ * Range of a workspace file a todo is anchored to. Lines and columns are zero-based like VS Code
+ * positions; the range follows edits and renames of the file.
+ */
+export interface TodoAnchor {
+	/** Path relative to the todo's workspace folder, with `/` separators. */
+	path: string;
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+	/** Set once the anchored text was deleted; cleared by re-anchoring the todo. */
+	stale?: boolean;
+}
+
 /** Shape persisted for each todo item across scopes. */
 export interface Todo {
 	id: string;
@@ -14,11 +45,69 @@ export interface Todo {
 	position: number;
 	createdAt: string;
 	updatedAt: string;
+	/** When the todo was last marked as completed; unset while it is active. */
+	completedAt?: string;
+	/** ID of the todo this one is a subtask of; unset for top-level todos. */
+	parentId?: string;
+	/**
+	 * Name of the section the todo is listed in; unset for todos outside any section. Subtasks are
+	 * always in their parent's section.
+	 */
+	section?: string;
+	/** Lowercase tags parsed from `#tag` tokens in the inline input; unset when untagged. */
+	tags?: string[];
+	/** Calendar day the todo is due (`YYYY-MM-DD`); unset without a due date. */
+	dueDate?: string;
+	/** Priority parsed from `!high`-style tokens or set via `todo.setPriority`. */
+	priority?: TodoPriority;
+	/** Multi-line Markdown notes shown below the todo; unset without notes. */
+	notes?: string;
+	/** Code location the todo refers to, set by `todo.addTodoAtCursor`; only used in project lists. */
+	anchor?: TodoAnchor;
+	/**
+	 * Rule by which the todo repeats; completing it archives the todo and adds the next occurrence.
+	 * Unset for one-off todos.
+	 */
+	recurrence?: TodoRecurrence;
+}
+
+/** Marks a todo removed from a list so merging with an older copy of the list does not revive it. */
+export interface TodoTombstone {
+	id: string;
+	deletedAt: string;
+}
+
+/** One copy of a list that is synced between windows or machines. */
+export interface TodoReplica<T = Todo> {
+	todos: T[];
+	tombstones: TodoTombstone[];
 }
 
-/** Snapshot used for undo flows and bulk operations. */
-export interface TodoSnapshot {
-	scopeKey: ScopeKey;
-	todos: Todo[];
-	capturedAt: number;
-}
\ No newline at end of file
+/** Kind of operation that produced a repository change. */
+export type TodoChangeKind =
+	| 'create'
+	| 'edit'
+	| 'toggle'
+	| 'reorder'
+	| 'remove'
+	| 'clear'
+	| 'restore'
+	| 'autoDelete'
+	| 'archive'
+	| 'unarchive'
+	| 'recur'
+	| 'restoreBackup'
+	| 'section'
+	| 'anchor'
+	| 'undo'
+	| 'redo'
+	| 'update'
+	| 'repair'
+	| 'external'
+	| 'reload';
+
+/** Event fired by the repository whenever todos of one or more scopes change. */
+export interface TodoChangeEvent {
+	scopes: ScopeTarget[];
+	kind: TodoChangeKind;
+}
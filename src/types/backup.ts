@@ -0,0 +1,15 @@
+import { Todo } from '../types';
+import { ScopeTarget } from './scope';
+
+/** Why a backup was taken: on a schedule, or right before a change that replaces a whole list. */
+export type BackupReason = 'periodic' | 'clear' | 'restoreBackup' | 'deleteList';
+
+/** Snapshot of one todo list saved to disk. */
+export interface TodoBackup {
+	/** File name of the backup, unique among all backups. */
+	id: string;
+	scope: ScopeTarget;
+	createdAt: string;
+	reason: BackupReason;
+	todos: Todo[];
+}
@@ -0,0 +1,41 @@
+import { ScopeTarget } from './scope';
+
+/** Todo fields the storage integrity check can repair. */
+export type RepairedField =
+	| 'id'
+	| 'completed'
+	| 'position'
+	| 'createdAt'
+	| 'updatedAt'
+	| 'completedAt'
+	| 'parentId'
+	| 'section'
+	| 'tags'
+	| 'dueDate'
+	| 'priority'
+	| 'notes'
+	| 'anchor'
+	| 'recurrence';
+
+/** Why a stored entry could not be repaired. */
+export type QuarantineReason = 'notAnObject' | 'missingTitle';
+
+/** A field of a stored todo that was repaired. */
+export interface TodoRepair {
+	/** ID of the todo after the repair. */
+	todoId: string;
+	field: RepairedField;
+}
+
+/** A stored entry that was taken out of its list because it could not be repaired. */
+export interface QuarantinedEntry {
+	entry: unknown;
+	reason: QuarantineReason;
+}
+
+/** What the integrity check changed in the stored list of one scope. */
+export interface IntegrityReport {
+	scope: ScopeTarget;
+	repairs: TodoRepair[];
+	quarantined: QuarantinedEntry[];
+}
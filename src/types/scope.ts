@@ -1,6 +1,14 @@
 /** Scope reference used by commands and services to resolve the correct repository slice. */
 export type ScopeTarget = { scope: 'global' } | { scope: 'workspace'; workspaceFolder: string };
 
+/** Checks whether two scope references point at the same list. */
+export function isSameScope(a: ScopeTarget, b: ScopeTarget): boolean {
+	if (a.scope === 'global' || b.scope === 'global') {
+		return a.scope === b.scope;
+	}
+	return a.workspaceFolder === b.workspaceFolder;
+}
+
 /** Scope-aware todo reference that includes the item identifier. */
 export type TodoTarget =
 	| { todoId: string; scope: 'global' }
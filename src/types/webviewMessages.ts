@@ -1,11 +1,20 @@
+import { TodoAnchor } from '../types';
 import { ProviderMode, WebviewScope } from '../todoWebviewHost';
 
 export type { WebviewScope };
 
 /** Message informing the webview about the latest serialized state. */
 export type StateUpdateMessage = { type: 'stateUpdate'; payload: unknown };
-/** Message prompting the webview to start inline creation for a scope. */
-export type StartInlineCreateMessage = { type: 'startInlineCreate'; scope: WebviewScope };
+/**
+ * Message prompting the webview to start inline creation for a scope, optionally in a section or
+ * for a code anchor that is sent back with the new todo.
+ */
+export type StartInlineCreateMessage = {
+	type: 'startInlineCreate';
+	scope: WebviewScope;
+	section?: string;
+	anchor?: TodoAnchor;
+};
 /** Message prompting the webview to enter inline edit mode for a todo. */
 export type StartInlineEditMessage = { type: 'startInlineEdit'; scope: WebviewScope; todoId: string };
 /** Message indicating an auto-delete fade should be shown for a todo. */
@@ -15,33 +24,88 @@ export type AutoDeleteCueMessage = {
 	todoId: string;
 	durationMs: number;
 };
+/** Message setting the tag filter of the webview; an unset tag shows all todos again. */
+export type SetTagFilterMessage = { type: 'setTagFilter'; tag?: string };
 
 /** Union of messages sent from the extension to the webview runtime. */
 export type OutboundMessage =
 	| StateUpdateMessage
 	| StartInlineCreateMessage
 	| StartInlineEditMessage
-	| AutoDeleteCueMessage;
+	| AutoDeleteCueMessage
+	| SetTagFilterMessage;
 
 /** Message sent when the webview initializes so the host can flush pending messages. */
 export type WebviewReadyMessage = { type: 'webviewReady'; mode: ProviderMode };
-/** Message requesting creation of a todo from inline input. */
-export type CommitCreateMessage = { type: 'commitCreate'; scope: WebviewScope; title: string };
-/** Message requesting an inline todo edit be saved. */
+/** Message requesting creation of a todo from inline input, optionally in a section or anchored to code. */
+export type CommitCreateMessage = {
+	type: 'commitCreate';
+	scope: WebviewScope;
+	title: string;
+	section?: string;
+	anchor?: TodoAnchor;
+};
+/** Message requesting an inline todo edit be saved; `notes` is set when the notes were edited too. */
 export type CommitEditMessage = {
 	type: 'commitEdit';
 	scope: WebviewScope;
 	todoId: string;
 	title: string;
+	notes?: string;
 };
 /** Message toggling completion state of a todo. */
 export type ToggleCompleteMessage = { type: 'toggleComplete'; scope: WebviewScope; todoId: string };
 /** Message requesting a todo be removed from a scope. */
 export type RemoveTodoMessage = { type: 'removeTodo'; scope: WebviewScope; todoId: string };
-/** Message communicating a drag-and-drop reordering. */
-export type ReorderTodosMessage = { type: 'reorderTodos'; scope: WebviewScope; order: string[] };
+/**
+ * Message communicating a drag-and-drop reordering; `moved` is set when the dropped todo got a new
+ * parent (`parentId` unset for the top level) or section (`section` unset for no section).
+ */
+export type ReorderTodosMessage = {
+	type: 'reorderTodos';
+	scope: WebviewScope;
+	order: string[];
+	moved?: { todoId: string; parentId?: string; section?: string };
+};
+/** Message turning a todo into a subtask of the todo above it, or moving a subtask up a level. */
+export type ChangeTodoLevelMessage = {
+	type: 'changeTodoLevel';
+	scope: WebviewScope;
+	todoId: string;
+	direction: 'indent' | 'outdent';
+};
+/** Message setting the due date of a todo (`YYYY-MM-DD`); an unset date removes it. */
+export type SetDueDateMessage = {
+	type: 'setDueDate';
+	scope: WebviewScope;
+	todoId: string;
+	dueDate?: string;
+};
+/** Message asking to open the file a todo is anchored to at the anchored range. */
+export type RevealAnchorMessage = { type: 'revealAnchor'; scope: WebviewScope; todoId: string };
+/** Message ending the series of a recurring todo; the todo stays as a one-off todo. */
+export type StopRecurrenceMessage = { type: 'stopRecurrence'; scope: WebviewScope; todoId: string };
+/** Message asking for the name of a new section in a scope. */
+export type AddSectionMessage = { type: 'addSection'; scope: WebviewScope };
+/** Message asking for a new name of a section. */
+export type RenameSectionMessage = { type: 'renameSection'; scope: WebviewScope; section: string };
+/** Message requesting a section be removed; its todos stay in the list. */
+export type RemoveSectionMessage = { type: 'removeSection'; scope: WebviewScope; section: string };
 /** Message requesting a full clear of todos in a scope. */
 export type ClearScopeMessage = { type: 'clearScope'; scope: WebviewScope };
+/** Message requesting archived todos be moved back to the active list. */
+export type RestoreArchivedMessage = {
+	type: 'restoreArchived';
+	scope: WebviewScope;
+	todoIds: string[];
+};
+/** Message reporting that a todo changed externally while the user had unsaved inline edits. */
+export type InlineEditConflictMessage = {
+	type: 'inlineEditConflict';
+	scope: WebviewScope;
+	todoId: string;
+	title: string;
+};
 
 /** Union of messages sent from the webview runtime to the extension. */
 export type InboundMessage =
@@ -51,7 +115,16 @@ export type InboundMessage =
 	| ToggleCompleteMessage
 	| RemoveTodoMessage
 	| ReorderTodosMessage
-	| ClearScopeMessage;
+	| ChangeTodoLevelMessage
+	| SetDueDateMessage
+	| RevealAnchorMessage
+	| StopRecurrenceMessage
+	| AddSectionMessage
+	| RenameSectionMessage
+	| RemoveSectionMessage
+	| ClearScopeMessage
+	| RestoreArchivedMessage
+	| InlineEditConflictMessage;
 
 /** Envelope fired by the webview host when messages arrive from a specific provider. */
 export type WebviewMessageEvent = { mode: ProviderMode; message: InboundMessage };
\ No newline at end of file
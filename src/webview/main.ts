@@ -6,20 +6,53 @@ type ProviderMode = 'global' | 'projects';
 
 type WebviewScope = { scope: 'global' } | { scope: 'workspace'; workspaceFolder: string };
 
+type TodoPriority = 'low' | 'medium' | 'high';
+
+/** Range of a workspace file a todo is anchored to; lines and columns are zero-based. */
+type TodoAnchor = {
+	path: string;
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+	stale?: boolean;
+};
+
 type HostMessage =
 	| { type: 'stateUpdate'; payload: WebviewStateSnapshot }
-	| { type: 'startInlineCreate'; scope: WebviewScope }
+	| { type: 'startInlineCreate'; scope: WebviewScope; section?: string; anchor?: TodoAnchor }
 	| { type: 'startInlineEdit'; scope: WebviewScope; todoId: string }
-	| { type: 'autoDeleteCue'; scope: WebviewScope; todoId: string; durationMs: number };
+	| { type: 'autoDeleteCue'; scope: WebviewScope; todoId: string; durationMs: number }
+	| { type: 'setTagFilter'; tag?: string };
 
 type ExtensionMessage =
 	| { type: 'webviewReady'; mode: ProviderMode }
-	| { type: 'commitCreate'; scope: WebviewScope; title: string }
-	| { type: 'commitEdit'; scope: WebviewScope; todoId: string; title: string }
+	| {
+			type: 'commitCreate';
+			scope: WebviewScope;
+			title: string;
+			section?: string;
+			anchor?: TodoAnchor;
+		}
+	| { type: 'commitEdit'; scope: WebviewScope; todoId: string; title: string; notes?: string }
 	| { type: 'toggleComplete'; scope: WebviewScope; todoId: string }
 	| { type: 'removeTodo'; scope: WebviewScope; todoId: string }
-	| { type: 'reorderTodos'; scope: WebviewScope; order: string[] }
-	| { type: 'clearScope'; scope: WebviewScope };
+	| {
+			type: 'reorderTodos';
+			scope: WebviewScope;
+			order: string[];
+			moved?: TodoMove;
+		}
+	| { type: 'changeTodoLevel'; scope: WebviewScope; todoId: string; direction: 'indent' | 'outdent' }
+	| { type: 'setDueDate'; scope: WebviewScope; todoId: string; dueDate?: string }
+	| { type: 'revealAnchor'; scope: WebviewScope; todoId: string }
+	| { type: 'stopRecurrence'; scope: WebviewScope; todoId: string }
+	| { type: 'addSection'; scope: WebviewScope }
+	| { type: 'renameSection'; scope: WebviewScope; section: string }
+	| { type: 'removeSection'; scope: WebviewScope; section: string }
+	| { type: 'clearScope'; scope: WebviewScope }
+	| { type: 'restoreArchived'; scope: WebviewScope; todoIds: string[] }
+	| { type: 'inlineEditConflict'; scope: WebviewScope; todoId: string; title: string };
 
 interface VsCodeApi<TState> {
 	postMessage(message: ExtensionMessage): void;
@@ -38,6 +71,9 @@ interface WebviewScopeState {
 	label: string;
 	emptyLabel: string;
 	todos: WebviewTodoState[];
+	sections: string[];
+	tags: string[];
+	archived: WebviewTodoState[];
 }
 
 interface WebviewProjectsState {
@@ -52,6 +88,9 @@ interface WebviewWorkspaceState {
 	description?: string;
 	emptyLabel: string;
 	todos: WebviewTodoState[];
+	sections: string[];
+	tags: string[];
+	archived: WebviewTodoState[];
 }
 
 interface WebviewTodoState {
@@ -63,6 +102,21 @@ interface WebviewTodoState {
 	workspaceFolder?: string;
 	createdAt: string;
 	updatedAt: string;
+	completedAt?: string;
+	parentId?: string;
+	depth: number;
+	subtasks?: { completed: number; total: number };
+	section?: string;
+	tags: string[];
+	dueDate?: string;
+	dueLabel?: string;
+	overdue: boolean;
+	priority?: TodoPriority;
+	notes?: string;
+	/** Notes rendered as sanitized HTML by the extension. */
+	notesHtml?: string;
+	anchor?: TodoAnchor;
+	recurrenceLabel?: string;
 }
 
 interface WebviewStrings {
@@ -72,18 +126,75 @@ interface WebviewStrings {
 	removeLabel: string;
 	addLabel: string;
 	clearLabel: string;
+	archiveLabel: string;
+	archiveSearchPlaceholder: string;
+	archiveNoMatches: string;
+	restoreLabel: string;
+	expandSubtasksLabel: string;
+	collapseSubtasksLabel: string;
+	addSectionLabel: string;
+	renameSectionLabel: string;
+	removeSectionLabel: string;
+	expandSectionLabel: string;
+	collapseSectionLabel: string;
+	filterLabel: string;
+	clearFilterLabel: string;
+	filterNoMatches: string;
+	filterByTagLabel: string;
+	filterByPriorityLabel: string;
+	dueDateLabel: string;
+	manualOrderLabel: string;
+	sortByDueLabel: string;
+	groupByPriorityLabel: string;
+	highPriorityLabel: string;
+	mediumPriorityLabel: string;
+	lowPriorityLabel: string;
+	noPriorityLabel: string;
+	showNotesLabel: string;
+	hideNotesLabel: string;
+	notesPlaceholder: string;
+	revealAnchorLabel: string;
+	staleAnchorLabel: string;
+	stopRecurrenceLabel: string;
 }
 
+/** How the todos of a list are ordered on screen; only `manual` follows the stored positions. */
+type ListOrder = 'manual' | 'due' | 'priority';
+
+/** Where a dragged todo lands relative to the row it is dropped on. */
+type DropPlacement = 'before' | 'after' | 'inside';
+
+/** New parent and section of a dropped todo (unset for the top level and for no section). */
+type TodoMove = { todoId: string; parentId?: string; section?: string };
+
 /** Tracks inline creation/editing state per scope within the webview. */
 interface InlineState {
 	creating: boolean;
+	/** Section the inline creation row is shown in; unset for todos outside any section. */
+	creatingSection?: string;
+	/** Code location the created todo is anchored to, see `todo.addTodoAtCursor`. */
+	creatingAnchor?: TodoAnchor;
 	editingId?: string;
+	/** Input text (title and tags) of the edited todo when editing started, used to detect external changes. */
+	editingBaseTitle?: string;
 }
 
 /** Serialized inline state persisted via VS Code's webview state storage. */
 interface StoredInlineState {
 	global: InlineState;
 	workspaces: Record<string, InlineState>;
+	/** IDs of todos whose subtasks are collapsed. */
+	collapsed?: string[];
+	/** IDs of todos whose notes are shown. */
+	expandedNotes?: string[];
+	/** Keys of collapsed sections, see {@link getSectionKey}. */
+	collapsedSections?: string[];
+	/** Tag whose todos are the only ones shown. */
+	tagFilter?: string;
+	/** Priority whose todos are the only ones shown. */
+	priorityFilter?: TodoPriority;
+	/** Display order of scopes not shown in their manual order, keyed by scope. */
+	listOrders?: Record<string, ListOrder>;
 }
 
 const vscode = acquireVsCodeApi<StoredInlineState>();
@@ -94,6 +205,25 @@ let snapshot: WebviewStateSnapshot | undefined;
 const inlineGlobal: InlineState = { creating: false, editingId: undefined };
 const inlineWorkspaces = new Map<string, InlineState>();
 const pendingFocusSelectors = new Set<string>();
+/** Unsaved inline input values keyed by `create:<scope>`, `edit:<todoId>`, or `notes:<todoId>`, kept across renders. */
+const inlineDrafts = new Map<string, string>();
+/** Archive search queries keyed by scope, kept across renders. */
+const archiveQueries = new Map<string, string>();
+/** Scope keys whose archive panel is expanded. */
+const openArchives = new Set<string>();
+/** IDs of todos whose subtasks are hidden. */
+const collapsedTodos = new Set<string>();
+/** IDs of todos whose notes are shown below their row. */
+const expandedNotes = new Set<string>();
+/** Keys of sections whose todos are hidden. */
+const collapsedSections = new Set<string>();
+/** Tag whose todos (with their parents) are the only ones shown; unset to show all todos. */
+let tagFilter: string | undefined;
+/** Priority whose todos (with their parents) are the only ones shown; unset to show all todos. */
+let priorityFilter: TodoPriority | undefined;
+/** Display order per scope key; scopes without an entry are shown in their manual order. */
+const listOrders = new Map<string, ListOrder>();
+let isRendering = false;
 
 restoreInlineState();
 render();
@@ -105,7 +235,7 @@ window.addEventListener('message', (event) => {
 			handleStateUpdate(message.payload);
 			break;
 		case 'startInlineCreate':
-			handleStartInlineCreate(message.scope);
+			handleStartInlineCreate(message.scope, message.section, message.anchor);
 			break;
 		case 'startInlineEdit':
 			handleStartInlineEdit(message.scope, message.todoId);
@@ -113,6 +243,9 @@ window.addEventListener('message', (event) => {
 		case 'autoDeleteCue':
 			handleAutoDeleteCue(message.scope, message.todoId, message.durationMs);
 			break;
+		case 'setTagFilter':
+			setTagFilter(message.tag);
+			break;
 		default:
 			break;
 	}
@@ -128,24 +261,64 @@ vscode.postMessage({ type: 'webviewReady', mode: viewMode });
 function handleStateUpdate(nextSnapshot: WebviewStateSnapshot): void {
 	snapshot = nextSnapshot;
 	pruneInlineState();
+	reconcileInlineEdits();
 	render();
 }
 
 /**
- * Starts inline creation for a given scope and focuses the new input.
- *
- * @param scope - Scope in which the inline row should appear.
+ * Keeps open inline edits in sync with externally changed todos. Untouched drafts adopt the new
+ * title; drafts the user already changed are kept and the extension is told about the conflict.
  */
-function handleStartInlineCreate(scope: WebviewScope): void {
-	if (!scopeAppliesToView(scope)) {
+function reconcileInlineEdits(): void {
+	if (!snapshot) {
 		return;
 	}
-	const inlineState = getInlineState(scope);
-	inlineState.creating = true;
-	inlineState.editingId = undefined;
-	queueFocusSelector(`[data-inline-create="${getScopeKey(scope)}"]`);
+	if (viewMode === 'global') {
+		reconcileInlineEdit({ scope: 'global' }, inlineGlobal, snapshot.global.todos);
+		return;
+	}
+	snapshot.projects.folders.forEach((folder) => {
+		const state = inlineWorkspaces.get(folder.key);
+		if (state) {
+			reconcileInlineEdit(
+				{ scope: 'workspace', workspaceFolder: folder.key },
+				state,
+				folder.todos
+			);
+		}
+	});
+}
+
+function reconcileInlineEdit(scope: WebviewScope, state: InlineState, todos: WebviewTodoState[]): void {
+	if (!state.editingId) {
+		return;
+	}
+	const todo = todos.find((item) => item.id === state.editingId);
+	const input = todo ? formatTodoInput(todo) : undefined;
+	if (!todo || state.editingBaseTitle === undefined || input === state.editingBaseTitle) {
+		state.editingBaseTitle = input ?? state.editingBaseTitle;
+		return;
+	}
+	const draftKey = `edit:${todo.id}`;
+	const draft = inlineDrafts.get(draftKey);
+	if (draft !== undefined && draft.trim() !== state.editingBaseTitle) {
+		postMessage({ type: 'inlineEditConflict', scope, todoId: todo.id, title: todo.title });
+	} else {
+		inlineDrafts.delete(draftKey);
+	}
+	state.editingBaseTitle = input;
 	persistInlineState();
-	render();
+}
+
+/**
+ * Starts inline creation for a given scope and focuses the new input.
+ *
+ * @param scope - Scope in which the inline row should appear.
+ * @param section - Section in which the inline row should appear.
+ * @param anchor - Code location the new todo is anchored to.
+ */
+function handleStartInlineCreate(scope: WebviewScope, section?: string, anchor?: TodoAnchor): void {
+	startInlineCreate(scope, section, anchor);
 }
 
 /**
@@ -185,6 +358,8 @@ function handleStartInlineEdit(scope: WebviewScope, todoId: string): void {
 	const inlineState = getInlineState(scope);
 	inlineState.creating = false;
 	inlineState.editingId = todoId;
+	const todo = findTodo(scope, todoId);
+	inlineState.editingBaseTitle = todo ? formatTodoInput(todo) : undefined;
 	queueFocusSelector(`[data-inline-edit="${todoId}"]`);
 	persistInlineState();
 	render();
@@ -211,8 +386,20 @@ function restoreInlineState(): void {
 	}
 	Object.assign(inlineGlobal, stored.global ?? { creating: false });
 	Object.entries(stored.workspaces ?? {}).forEach(([key, state]) => {
-		inlineWorkspaces.set(key, { creating: state.creating, editingId: state.editingId });
+		inlineWorkspaces.set(key, {
+			creating: state.creating,
+			creatingSection: state.creatingSection,
+			creatingAnchor: state.creatingAnchor,
+			editingId: state.editingId,
+			editingBaseTitle: state.editingBaseTitle,
+		});
 	});
+	(stored.collapsed ?? []).forEach((todoId) => collapsedTodos.add(todoId));
+	(stored.expandedNotes ?? []).forEach((todoId) => expandedNotes.add(todoId));
+	(stored.collapsedSections ?? []).forEach((key) => collapsedSections.add(key));
+	tagFilter = stored.tagFilter;
+	priorityFilter = stored.priorityFilter;
+	Object.entries(stored.listOrders ?? {}).forEach(([key, order]) => listOrders.set(key, order));
 }
 
 /** Persists inline editing/creation state to VS Code storage. */
@@ -220,6 +407,12 @@ function persistInlineState(): void {
 	const serialized: StoredInlineState = {
 		global: { ...inlineGlobal },
 		workspaces: {},
+		collapsed: Array.from(collapsedTodos),
+		expandedNotes: Array.from(expandedNotes),
+		collapsedSections: Array.from(collapsedSections),
+		tagFilter,
+		priorityFilter,
+		listOrders: Object.fromEntries(listOrders),
 	};
 	inlineWorkspaces.forEach((state, key) => {
 		serialized.workspaces[key] = { ...state };
@@ -245,24 +438,57 @@ function getInlineState(scope: WebviewScope): InlineState {
 }
 
 /**
- * Removes stale inline editing references when todos or workspaces disappear.
+ * Removes stale inline editing references when todos or workspaces disappear. Sections of removed
+ * workspace folders also lose their drafts, archive search, and persisted inline state.
  */
 function pruneInlineState(): void {
 	if (!snapshot) {
 		return;
 	}
+	const todoIds = new Set(
+		(viewMode === 'global'
+			? snapshot.global.todos
+			: snapshot.projects.folders.flatMap((folder) => folder.todos)
+		).map((todo) => todo.id)
+	);
+	collapsedTodos.forEach((todoId) => {
+		if (!todoIds.has(todoId)) {
+			collapsedTodos.delete(todoId);
+		}
+	});
+	expandedNotes.forEach((todoId) => {
+		if (!todoIds.has(todoId)) {
+			expandedNotes.delete(todoId);
+		}
+	});
+	pruneSectionState();
+	pruneFilters();
 	if (viewMode === 'global') {
 		if (inlineGlobal.editingId && !snapshot.global.todos.some((todo) => todo.id === inlineGlobal.editingId)) {
 			inlineGlobal.editingId = undefined;
+			inlineGlobal.editingBaseTitle = undefined;
 		}
 		return;
 	}
 	const folderKeys = new Set(snapshot.projects.folders.map((folder) => folder.key));
-	Array.from(inlineWorkspaces.keys()).forEach((key) => {
-		if (!folderKeys.has(key)) {
-			inlineWorkspaces.delete(key);
+	let removedSection = false;
+	inlineWorkspaces.forEach((state, key) => {
+		if (folderKeys.has(key)) {
+			return;
 		}
+		if (state.editingId) {
+			inlineDrafts.delete(`edit:${state.editingId}`);
+			inlineDrafts.delete(`notes:${state.editingId}`);
+		}
+		inlineDrafts.delete(`create:${key}`);
+		archiveQueries.delete(key);
+		openArchives.delete(key);
+		inlineWorkspaces.delete(key);
+		removedSection = true;
 	});
+	if (removedSection) {
+		persistInlineState();
+	}
 	inlineWorkspaces.forEach((state, key) => {
 		const folder = snapshot?.projects.folders.find((item) => item.key === key);
 		if (!folder) {
@@ -270,25 +496,125 @@ function pruneInlineState(): void {
 		}
 		if (state.editingId && !folder.todos.some((todo) => todo.id === state.editingId)) {
 			state.editingId = undefined;
+			state.editingBaseTitle = undefined;
 		}
 	});
 }
 
+/** Forgets collapsed sections and inline creation rows of sections that no longer exist. */
+function pruneSectionState(): void {
+	if (!snapshot) {
+		return;
+	}
+	const scopes: Array<{ scope: WebviewScope; sections: string[] }> =
+		viewMode === 'global'
+			? [{ scope: { scope: 'global' }, sections: snapshot.global.sections }]
+			: snapshot.projects.folders.map((folder) => ({
+					scope: { scope: 'workspace', workspaceFolder: folder.key },
+					sections: folder.sections,
+				}));
+	const sectionKeys = new Set(
+		scopes.flatMap(({ scope, sections }) =>
+			sections.map((section) => getSectionKey(scope, section))
+		)
+	);
+	collapsedSections.forEach((key) => {
+		if (!sectionKeys.has(key)) {
+			collapsedSections.delete(key);
+		}
+	});
+	scopes.forEach(({ scope, sections }) => {
+		const state = getInlineState(scope);
+		if (state.creatingSection !== undefined && !sections.includes(state.creatingSection)) {
+			state.creatingSection = undefined;
+		}
+	});
+}
+
+/** Clears the tag and priority filters once no todo of this view matches them anymore. */
+function pruneFilters(): void {
+	if ((tagFilter === undefined && priorityFilter === undefined) || !snapshot) {
+		return;
+	}
+	const todos =
+		viewMode === 'global'
+			? snapshot.global.todos
+			: snapshot.projects.folders.flatMap((folder) => folder.todos);
+	if (tagFilter !== undefined && !todos.some((todo) => todo.tags.includes(tagFilter as string))) {
+		tagFilter = undefined;
+		persistInlineState();
+	}
+	if (priorityFilter !== undefined && !todos.some((todo) => todo.priority === priorityFilter)) {
+		priorityFilter = undefined;
+		persistInlineState();
+	}
+}
+
+/**
+ * Shows only the todos carrying a tag, or all todos again when the tag is unset.
+ *
+ * @param tag - Tag to filter by.
+ */
+function setTagFilter(tag: string | undefined): void {
+	tagFilter = tag;
+	pruneFilters();
+	persistInlineState();
+	render();
+}
+
+/**
+ * Shows only the todos with a priority, or all todos again when the priority is unset.
+ *
+ * @param priority - Priority to filter by.
+ */
+function setPriorityFilter(priority: TodoPriority | undefined): void {
+	priorityFilter = priority;
+	pruneFilters();
+	persistInlineState();
+	render();
+}
+
 /** Renders the root container based on the latest snapshot and inline state. */
 function render(): void {
 	if (!snapshot) {
 		root.innerHTML = '<p class="empty-state">Waiting for TODOs…</p>';
 		return;
 	}
-	root.innerHTML = '';
-	if (viewMode === 'global') {
-		root.appendChild(renderScopeSection(snapshot.global, { scope: 'global' }));
-	} else {
-		root.appendChild(renderProjectsSection(snapshot.projects));
+	preserveInlineFocus();
+	// Replacing the DOM can blur a focused inline input; blur handlers must not treat that as a commit.
+	isRendering = true;
+	try {
+		root.innerHTML = '';
+		if (tagFilter !== undefined || priorityFilter !== undefined) {
+			root.appendChild(renderFilterBar());
+		}
+		if (viewMode === 'global') {
+			root.appendChild(renderScopeSection(snapshot.global, { scope: 'global' }));
+		} else {
+			root.appendChild(renderProjectsSection(snapshot.projects));
+		}
+	} finally {
+		isRendering = false;
 	}
 	applyPendingFocus();
 }
 
+/** Re-focuses the inline input that had focus before a re-render. */
+function preserveInlineFocus(): void {
+	const active = document.activeElement as HTMLElement | null;
+	if (active?.dataset.inlineEdit) {
+		queueFocusSelector(`[data-inline-edit="${active.dataset.inlineEdit}"]`);
+	} else if (active?.dataset.inlineDue) {
+		queueFocusSelector(`[data-inline-due="${active.dataset.inlineDue}"]`);
+	} else if (active?.dataset.inlineNotes) {
+		queueFocusSelector(`[data-inline-notes="${active.dataset.inlineNotes}"]`);
+	} else if (active?.dataset.inlineCreate) {
+		queueFocusSelector(`[data-inline-create="${active.dataset.inlineCreate}"]`);
+	} else if (active?.dataset.archiveSearch) {
+		queueFocusSelector(`[data-archive-search="${active.dataset.archiveSearch}"]`);
+	}
+}
+
 /**
  * Renders a single scope section (global or workspace) including inline rows.
  *
@@ -306,27 +632,10 @@ function renderScopeSection(state: WebviewScopeState, scope: WebviewScope): HTML
 	header.appendChild(renderSectionActions(scope));
 	section.appendChild(header);
 
-	const list = document.createElement('div');
-	list.className = 'todo-list';
-	const inlineState = getInlineState(scope);
-
-	if (inlineState.creating) {
-		list.appendChild(renderInlineCreateRow(scope));
+	section.appendChild(renderTodoList(scope, state));
+	if (state.archived.length > 0) {
+		section.appendChild(renderArchive(scope, state.archived));
 	}
-
-	state.todos.forEach((todo) => {
-		list.appendChild(renderTodoRow(scope, todo, inlineState));
-	});
-
-	if (state.todos.length === 0 && !inlineState.creating) {
-		const empty = document.createElement('p');
-		empty.className = 'empty-state';
-		empty.textContent = state.emptyLabel;
-		list.appendChild(empty);
-	}
-
-	attachDragHandlers(list, scope, inlineState);
-	section.appendChild(list);
 	return section;
 }
 
@@ -349,7 +658,6 @@ function renderProjectsSection(projects: WebviewProjectsState): HTMLElement {
 
 	projects.folders.forEach((folder) => {
 		const scope: WebviewScope = { scope: 'workspace', workspaceFolder: folder.key };
-		const inlineState = getInlineState(scope);
 
 		const workspaceWrapper = document.createElement('div');
 		workspaceWrapper.className = 'workspace-section';
@@ -365,34 +673,432 @@ function renderProjectsSection(projects: WebviewProjectsState): HTMLElement {
 
 		workspaceWrapper.appendChild(titleRow);
 
-		const list = document.createElement('div');
-		list.className = 'todo-list';
-
-		if (inlineState.creating) {
-			list.appendChild(renderInlineCreateRow(scope));
+		workspaceWrapper.appendChild(renderTodoList(scope, folder));
+		if (folder.archived.length > 0) {
+			workspaceWrapper.appendChild(renderArchive(scope, folder.archived));
 		}
+		container.appendChild(workspaceWrapper);
+	});
 
-		folder.todos.forEach((todo) => {
+	return container;
+}
+
+/**
+ * Renders the todos of a scope: todos outside any section first, then one block per section with
+ * its header. Collapsed sections only show their header.
+ *
+ * @param scope - Scope the todos belong to.
+ * @param state - Todos, sections, and empty-state copy of the scope.
+ */
+function renderTodoList(
+	scope: WebviewScope,
+	state: { todos: WebviewTodoState[]; sections: string[]; emptyLabel: string }
+): HTMLElement {
+	const list = document.createElement('div');
+	list.className = 'todo-list';
+	const inlineState = getInlineState(scope);
+	const filtered = tagFilter !== undefined || priorityFilter !== undefined;
+	const matching = filterTodos(state.todos);
+	const order = listOrders.get(getScopeKey(scope)) ?? 'manual';
+	const appendRows = (todos: WebviewTodoState[]) => {
+		let group: TodoPriority | undefined | null = null;
+		visibleTodos(arrangeTodos(todos, order)).forEach((todo) => {
+			if (order === 'priority' && !todo.parentId && todo.priority !== group) {
+				group = todo.priority;
+				list.appendChild(renderPriorityGroupLabel(group));
+			}
 			list.appendChild(renderTodoRow(scope, todo, inlineState));
+			if (todo.notesHtml && expandedNotes.has(todo.id) && inlineState.editingId !== todo.id) {
+				list.appendChild(renderTodoNotes(todo.depth, todo.notesHtml));
+			}
 		});
+	};
+
+	if (inlineState.creating && inlineState.creatingSection === undefined) {
+		list.appendChild(renderInlineCreateRow(scope));
+	}
 
-		if (folder.todos.length === 0 && !inlineState.creating) {
-			const empty = document.createElement('p');
-			empty.className = 'empty-state';
-			empty.textContent = folder.emptyLabel;
-			list.appendChild(empty);
+	appendRows(matching.filter((todo) => todo.section === undefined));
+
+	if (filtered && matching.length === 0 && !inlineState.creating) {
+		const empty = document.createElement('p');
+		empty.className = 'empty-state';
+		empty.textContent = snapshot?.strings.filterNoMatches ?? '';
+		list.appendChild(empty);
+	} else if (state.todos.length === 0 && state.sections.length === 0 && !inlineState.creating) {
+		const empty = document.createElement('p');
+		empty.className = 'empty-state';
+		empty.textContent = state.emptyLabel;
+		list.appendChild(empty);
+	}
+
+	state.sections.forEach((section) => {
+		const todos = matching.filter((todo) => todo.section === section);
+		if (filtered && todos.length === 0 && inlineState.creatingSection !== section) {
+			return;
+		}
+		list.appendChild(renderListSectionHeader(scope, section, todos));
+		if (collapsedSections.has(getSectionKey(scope, section))) {
+			return;
 		}
+		if (inlineState.creating && inlineState.creatingSection === section) {
+			list.appendChild(renderInlineCreateRow(scope));
+		}
+		appendRows(todos);
+	});
 
-		attachDragHandlers(list, scope, inlineState);
-		workspaceWrapper.appendChild(list);
-		container.appendChild(workspaceWrapper);
+	attachDragHandlers(list, scope, inlineState);
+	return list;
+}
+
+/**
+ * Renders the header of a section with its collapse toggle, completed/total count, and actions to
+ * add a todo to the section, rename it, or remove it.
+ *
+ * @param scope - Scope the section belongs to.
+ * @param section - Name of the section.
+ * @param todos - Todos of the section.
+ */
+function renderListSectionHeader(
+	scope: WebviewScope,
+	section: string,
+	todos: WebviewTodoState[]
+): HTMLElement {
+	const sectionKey = getSectionKey(scope, section);
+	const collapsed = collapsedSections.has(sectionKey);
+	const header = document.createElement('div');
+	header.className = `list-section-header${collapsed ? ' collapsed' : ''}`;
+	header.dataset.section = section;
+
+	const toggle = document.createElement('button');
+	toggle.className = 'list-section-toggle';
+	toggle.setAttribute('aria-expanded', String(!collapsed));
+	toggle.title = collapsed
+		? snapshot?.strings.expandSectionLabel ?? 'Expand section'
+		: snapshot?.strings.collapseSectionLabel ?? 'Collapse section';
+	toggle.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M4 6L8 10L12 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+	const name = document.createElement('span');
+	name.className = 'list-section-name';
+	name.textContent = section;
+	toggle.appendChild(name);
+	if (todos.length > 0) {
+		const completed = todos.filter((todo) => todo.completed).length;
+		const count = document.createElement('span');
+		count.className = 'list-section-count';
+		count.textContent = `${completed}/${todos.length}`;
+		toggle.appendChild(count);
+	}
+	toggle.addEventListener('click', () => {
+		if (collapsedSections.has(sectionKey)) {
+			collapsedSections.delete(sectionKey);
+		} else {
+			collapsedSections.add(sectionKey);
+		}
+		persistInlineState();
+		render();
+	});
+	header.appendChild(toggle);
+
+	const actions = document.createElement('div');
+	actions.className = 'todo-actions';
+
+	const addButton = document.createElement('button');
+	addButton.className = 'todo-action';
+	addButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M8 3V13M3 8H13" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+	addButton.title = snapshot?.strings.addLabel ?? 'Add';
+	addButton.addEventListener('click', () => startInlineCreate(scope, section));
+	actions.appendChild(addButton);
+
+	const renameButton = document.createElement('button');
+	renameButton.className = 'todo-action';
+	renameButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path transform="translate(0, 2)" d="M12.5 3.5L10 1L3 8V10.5H5.5L12.5 3.5Z" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+	renameButton.title = snapshot?.strings.renameSectionLabel ?? 'Rename section';
+	renameButton.addEventListener('click', () =>
+		postMessage({ type: 'renameSection', scope, section })
+	);
+	actions.appendChild(renameButton);
+
+	const removeButton = document.createElement('button');
+	removeButton.className = 'todo-action';
+	removeButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M4 4L12 12M12 4L4 12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+	removeButton.title = snapshot?.strings.removeSectionLabel ?? 'Remove section';
+	removeButton.addEventListener('click', () =>
+		postMessage({ type: 'removeSection', scope, section })
+	);
+	actions.appendChild(removeButton);
+
+	header.appendChild(actions);
+	return header;
+}
+
+/**
+ * Drops subtasks of collapsed todos from a list that is ordered parents before subtasks.
+ *
+ * @param todos - Todos of a scope in display order.
+ */
+function visibleTodos(todos: WebviewTodoState[]): WebviewTodoState[] {
+	const hidden = new Set<string>();
+	return todos.filter((todo) => {
+		if (todo.parentId && (hidden.has(todo.parentId) || collapsedTodos.has(todo.parentId))) {
+			hidden.add(todo.id);
+			return false;
+		}
+		return true;
+	});
+}
+
+/**
+ * Orders the todos of a scope or section for display: by due date (undated todos last) or by
+ * priority (todos without one last), sorting each group of sibling todos and keeping the manual
+ * order among equal todos. Only the display order changes; positions stay untouched.
+ *
+ * @param todos - Todos of a scope or section, ordered parents before subtasks.
+ * @param order - Display order of the scope.
+ */
+function arrangeTodos(todos: WebviewTodoState[], order: ListOrder): WebviewTodoState[] {
+	if (order === 'manual') {
+		return todos;
+	}
+	const ids = new Set(todos.map((todo) => todo.id));
+	const children = new Map<string | undefined, WebviewTodoState[]>();
+	todos.forEach((todo) => {
+		const parentId = todo.parentId && ids.has(todo.parentId) ? todo.parentId : undefined;
+		children.set(parentId, [...(children.get(parentId) ?? []), todo]);
 	});
+	const rank = (todo: WebviewTodoState) =>
+		order === 'due' ? todo.dueDate ?? '9999-99-99' : priorityRank(todo.priority);
+	const sorted: WebviewTodoState[] = [];
+	const visit = (parentId: string | undefined) => {
+		[...(children.get(parentId) ?? [])]
+			.sort((a, b) => (rank(a) < rank(b) ? -1 : rank(a) > rank(b) ? 1 : 0))
+			.forEach((todo) => {
+				sorted.push(todo);
+				visit(todo.id);
+			});
+	};
+	visit(undefined);
+	return sorted;
+}
+
+/** Sort key of a priority: high first, todos without a priority last. */
+function priorityRank(priority: TodoPriority | undefined): string {
+	return String(['high', 'medium', 'low', undefined].indexOf(priority));
+}
+
+/**
+ * Applies the tag and priority filters to a list ordered parents before subtasks: matching todos
+ * stay, together with their parents so they keep their place in the tree.
+ *
+ * @param todos - Todos of a scope in display order.
+ */
+function filterTodos(todos: WebviewTodoState[]): WebviewTodoState[] {
+	if (tagFilter === undefined && priorityFilter === undefined) {
+		return todos;
+	}
+	const byId = new Map(todos.map((todo) => [todo.id, todo]));
+	const shown = new Set<string>();
+	todos.forEach((todo) => {
+		if (
+			(tagFilter !== undefined && !todo.tags.includes(tagFilter)) ||
+			(priorityFilter !== undefined && todo.priority !== priorityFilter)
+		) {
+			return;
+		}
+		for (let current: WebviewTodoState | undefined = todo; current; ) {
+			shown.add(current.id);
+			current = current.parentId ? byId.get(current.parentId) : undefined;
+		}
+	});
+	return todos.filter((todo) => shown.has(todo.id));
+}
+
+/** Renders the bar above the lists that names the active tag and priority filters and clears them. */
+function renderFilterBar(): HTMLElement {
+	const bar = document.createElement('div');
+	bar.className = 'filter-bar';
+
+	const label = document.createElement('span');
+	label.textContent = snapshot?.strings.filterLabel ?? 'Showing only';
+	bar.appendChild(label);
+
+	if (tagFilter !== undefined) {
+		const chip = document.createElement('span');
+		chip.className = 'todo-tag active';
+		chip.textContent = `#${tagFilter}`;
+		bar.appendChild(chip);
+	}
+	if (priorityFilter !== undefined) {
+		const chip = document.createElement('span');
+		chip.className = `todo-tag active priority-${priorityFilter}`;
+		chip.textContent = getPriorityLabel(priorityFilter);
+		bar.appendChild(chip);
+	}
+
+	const clearButton = document.createElement('button');
+	clearButton.className = 'button-link';
+	clearButton.innerHTML = `<span>${snapshot?.strings.clearFilterLabel ?? 'Show all'}</span>`;
+	clearButton.addEventListener('click', () => {
+		priorityFilter = undefined;
+		setTagFilter(undefined);
+	});
+	bar.appendChild(clearButton);
+	return bar;
+}
+
+/**
+ * Renders the priority marker of a todo; clicking it shows only todos with that priority.
+ *
+ * @param priority - Priority of the todo.
+ */
+function renderPriorityMarker(priority: TodoPriority): HTMLElement {
+	const marker = document.createElement('button');
+	marker.className = `todo-priority priority-${priority}`;
+	marker.textContent = { high: '!!!', medium: '!!', low: '!' }[priority];
+	marker.title = `${getPriorityLabel(priority)} – ${snapshot?.strings.filterByPriorityLabel ?? ''}`;
+	marker.setAttribute('aria-label', getPriorityLabel(priority));
+	marker.addEventListener('click', () => setPriorityFilter(priority));
+	return marker;
+}
+
+/** Renders the heading above the todos of one priority while a list is grouped by priority. */
+function renderPriorityGroupLabel(priority: TodoPriority | undefined): HTMLElement {
+	const label = document.createElement('div');
+	label.className = `priority-group-label${priority ? ` priority-${priority}` : ''}`;
+	label.textContent = priority
+		? getPriorityLabel(priority)
+		: snapshot?.strings.noPriorityLabel ?? 'No priority';
+	return label;
+}
+
+/** Returns the localized name of a priority. */
+function getPriorityLabel(priority: TodoPriority): string {
+	const strings = snapshot?.strings;
+	switch (priority) {
+		case 'high':
+			return strings?.highPriorityLabel ?? 'High priority';
+		case 'medium':
+			return strings?.mediumPriorityLabel ?? 'Medium priority';
+		default:
+			return strings?.lowPriorityLabel ?? 'Low priority';
+	}
+}
 
+/**
+ * Renders the tags of a todo as chips; clicking a chip filters the lists by that tag.
+ *
+ * @param tags - Tags of the todo.
+ */
+function renderTagChips(tags: string[]): HTMLElement {
+	const container = document.createElement('span');
+	container.className = 'todo-tags';
+	tags.forEach((tag) => {
+		const chip = document.createElement('button');
+		chip.className = `todo-tag${tag === tagFilter ? ' active' : ''}`;
+		chip.textContent = `#${tag}`;
+		chip.title = snapshot?.strings.filterByTagLabel ?? '';
+		chip.addEventListener('click', () => setTagFilter(tag));
+		container.appendChild(chip);
+	});
 	return container;
 }
 
 /**
- * Renders the add/clear action buttons for a scope header.
+ * Suggests tags of the scope while a `#tag` token is typed into an inline input. Clicking a
+ * suggestion or pressing Tab completes the token.
+ *
+ * @param input - Inline create or edit input.
+ * @param row - Row the suggestions are shown in.
+ * @param scope - Scope whose tags are suggested.
+ * @returns Function completing the first suggestion; it returns false when none is shown.
+ */
+function attachTagAutocomplete(
+	input: HTMLInputElement,
+	row: HTMLElement,
+	scope: WebviewScope
+): () => boolean {
+	const list = document.createElement('div');
+	list.className = 'tag-suggestions';
+	list.hidden = true;
+	row.appendChild(list);
+	let suggestions: string[] = [];
+
+	const complete = (tag: string) => {
+		const caret = input.selectionStart ?? input.value.length;
+		const before = input.value.slice(0, caret).replace(/#[^\s#]*$/u, `#${tag} `);
+		input.value = before + input.value.slice(caret).replace(/^\S*\s?/u, '');
+		input.setSelectionRange(before.length, before.length);
+		input.dispatchEvent(new Event('input'));
+	};
+	const update = () => {
+		const caret = input.selectionStart ?? input.value.length;
+		const token = /(?:^|\s)#([^\s#]*)$/u.exec(input.value.slice(0, caret));
+		const partial = token?.[1].toLowerCase();
+		suggestions =
+			partial === undefined
+				? []
+				: getScopeTags(scope).filter((tag) => tag.startsWith(partial) && tag !== partial);
+		list.innerHTML = '';
+		suggestions.slice(0, 8).forEach((tag) => {
+			const option = document.createElement('button');
+			option.className = 'todo-tag';
+			option.textContent = `#${tag}`;
+			// Keep focus in the input so its blur handler does not commit or cancel.
+			option.addEventListener('mousedown', (event) => event.preventDefault());
+			option.addEventListener('click', () => complete(tag));
+			list.appendChild(option);
+		});
+		list.hidden = suggestions.length === 0;
+	};
+	input.addEventListener('input', update);
+	input.addEventListener('blur', () => {
+		list.hidden = true;
+	});
+	return () => {
+		if (list.hidden || suggestions.length === 0) {
+			return false;
+		}
+		complete(suggestions[0]);
+		return true;
+	};
+}
+
+/**
+ * Renders the select switching a scope between its manual order, sorting by due date, and
+ * grouping by priority.
+ *
+ * @param scope - Scope whose display order is switched.
+ */
+function renderListOrderSelect(scope: WebviewScope): HTMLElement {
+	const scopeKey = getScopeKey(scope);
+	const strings = snapshot?.strings;
+	const select = document.createElement('select');
+	select.className = 'list-order-select';
+	const options: Array<[ListOrder, string]> = [
+		['manual', strings?.manualOrderLabel ?? 'Manual order'],
+		['due', strings?.sortByDueLabel ?? 'Sort by due date'],
+		['priority', strings?.groupByPriorityLabel ?? 'Group by priority'],
+	];
+	options.forEach(([value, label]) => {
+		const option = document.createElement('option');
+		option.value = value;
+		option.textContent = label;
+		select.appendChild(option);
+	});
+	select.value = listOrders.get(scopeKey) ?? 'manual';
+	select.addEventListener('change', () => {
+		if (select.value === 'manual') {
+			listOrders.delete(scopeKey);
+		} else {
+			listOrders.set(scopeKey, select.value as ListOrder);
+		}
+		persistInlineState();
+		render();
+	});
+	return select;
+}
+
+/**
+ * Renders the add/add section/order/clear actions for a scope header.
  *
  * @param scope - Scope to act on.
  */
@@ -406,6 +1112,14 @@ function renderSectionActions(scope: WebviewScope): HTMLElement {
 	addButton.addEventListener('click', () => startInlineCreate(scope));
 	actions.appendChild(addButton);
 
+	const addSectionButton = document.createElement('button');
+	addSectionButton.className = 'button-link';
+	addSectionButton.innerHTML = `<span>${snapshot?.strings.addSectionLabel ?? 'Add section'}</span>`;
+	addSectionButton.addEventListener('click', () => postMessage({ type: 'addSection', scope }));
+	actions.appendChild(addSectionButton);
+
+	actions.appendChild(renderListOrderSelect(scope));
+
 	const clearButton = document.createElement('button');
 	clearButton.className = 'button-link';
 	clearButton.innerHTML = `<span>${snapshot?.strings.clearLabel ?? 'Clear'}</span>`;
@@ -427,7 +1141,15 @@ function renderInlineCreateRow(scope: WebviewScope): HTMLElement {
 	input.className = 'todo-input';
 	input.placeholder = snapshot?.strings.addPlaceholder ?? 'Type a TODO';
 	input.dataset.inlineCreate = getScopeKey(scope);
+	const draftKey = `create:${getScopeKey(scope)}`;
+	input.value = inlineDrafts.get(draftKey) ?? '';
+	input.addEventListener('input', () => inlineDrafts.set(draftKey, input.value));
+	const completeTag = attachTagAutocomplete(input, row, scope);
 	input.addEventListener('keydown', (event) => {
+		if (event.key === 'Tab' && completeTag()) {
+			event.preventDefault();
+			return;
+		}
 		if (event.key === 'Enter') {
 			event.preventDefault();
 			commitInlineCreate(scope, input.value);
@@ -438,6 +1160,9 @@ function renderInlineCreateRow(scope: WebviewScope): HTMLElement {
 		}
 	});
 	input.addEventListener('blur', () => {
+		if (isRendering) {
+			return;
+		}
 		const value = input.value.trim();
 		if (value.length === 0) {
 			cancelInlineCreate(scope);
@@ -445,6 +1170,11 @@ function renderInlineCreateRow(scope: WebviewScope): HTMLElement {
 	});
 	row.appendChild(input);
 
+	const anchor = getInlineState(scope).creatingAnchor;
+	if (anchor) {
+		row.appendChild(renderAnchorLabel(anchor));
+	}
+
 	const hint = document.createElement('small');
 	hint.className = 'inline-hint';
 	hint.textContent = snapshot?.strings.inlineCreateHint ?? '';
@@ -461,9 +1191,18 @@ function renderInlineCreateRow(scope: WebviewScope): HTMLElement {
  */
 function renderTodoRow(scope: WebviewScope, todo: WebviewTodoState, inlineState: InlineState): HTMLElement {
 	const row = document.createElement('div');
-	row.className = 'todo-item';
+	row.className = `todo-item${todo.overdue ? ' overdue' : ''}`;
 	row.dataset.todoId = todo.id;
-	row.draggable = !inlineState.editingId;
+	// Lets commands from the row's context menu (e.g. todo.setPriority) know which todo was clicked.
+	row.dataset.vscodeContext = JSON.stringify({
+		webviewSection: 'todo',
+		todoId: todo.id,
+		...scope,
+		preventDefaultContextMenuItems: true,
+	});
+	// Dragging would overwrite the manual order with the displayed order, so it is off while sorted.
+	row.draggable = !inlineState.editingId && !listOrders.has(getScopeKey(scope));
+	row.style.setProperty('--todo-depth', String(todo.depth));
 
 	const toggleButton = document.createElement('button');
 	toggleButton.className = 'todo-action todo-toggle';
@@ -483,42 +1222,146 @@ function renderTodoRow(scope: WebviewScope, todo: WebviewTodoState, inlineState:
 	if (inlineState.editingId === todo.id) {
 		const input = document.createElement('input');
 		input.className = 'todo-input';
-		input.value = todo.title;
+		const draftKey = `edit:${todo.id}`;
+		input.value = inlineDrafts.get(draftKey) ?? formatTodoInput(todo);
 		input.dataset.inlineEdit = todo.id;
-		input.addEventListener('keydown', (event) => {
+		input.addEventListener('input', () => inlineDrafts.set(draftKey, input.value));
+		const dueInput = renderDueDateInput(scope, todo);
+		const notesInput = renderNotesInput(todo);
+		const finishEdit = () => {
+			const trimmed = input.value.trim();
+			const notesChanged = notesInput.value.trim() !== (todo.notes ?? '').trim();
+			if (trimmed.length === 0 || (trimmed === formatTodoInput(todo) && !notesChanged)) {
+				exitInlineEdit(scope);
+				return;
+			}
+			commitInlineEdit(scope, todo.id, trimmed, notesInput.value);
+		};
+		// Moving between the title, date, and notes fields keeps the row in edit mode.
+		const leavesRow = (event: FocusEvent) =>
+			!isRendering && ![input, dueInput, notesInput].includes(event.relatedTarget as HTMLInputElement);
+		dueInput.addEventListener('keydown', (event) => {
 			if (event.key === 'Enter') {
 				event.preventDefault();
-				commitInlineEdit(scope, todo.id, input.value);
+				finishEdit();
 			}
 			if (event.key === 'Escape') {
 				event.preventDefault();
 				exitInlineEdit(scope);
 			}
 		});
-		input.addEventListener('blur', () => {
-			const trimmed = input.value.trim();
-			if (trimmed.length === 0) {
+		dueInput.addEventListener('blur', (event) => {
+			if (leavesRow(event)) {
+				finishEdit();
+			}
+		});
+		notesInput.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+				event.preventDefault();
+				finishEdit();
+			}
+			if (event.key === 'Escape') {
+				event.preventDefault();
 				exitInlineEdit(scope);
+			}
+		});
+		notesInput.addEventListener('blur', (event) => {
+			if (leavesRow(event)) {
+				finishEdit();
+			}
+		});
+		const completeTag = attachTagAutocomplete(input, row, scope);
+		input.addEventListener('keydown', (event) => {
+			if (event.key === 'Tab' && completeTag()) {
+				event.preventDefault();
 				return;
 			}
-			if (trimmed === todo.title) {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				commitInlineEdit(scope, todo.id, input.value, notesInput.value);
+			}
+			if (event.key === 'Escape') {
+				event.preventDefault();
 				exitInlineEdit(scope);
-				return;
 			}
-			commitInlineEdit(scope, todo.id, trimmed);
+			if (event.key === 'Tab') {
+				event.preventDefault();
+				postMessage({
+					type: 'changeTodoLevel',
+					scope,
+					todoId: todo.id,
+					direction: event.shiftKey ? 'outdent' : 'indent',
+				});
+			}
 		});
+		input.addEventListener('blur', (event) => {
+			if (leavesRow(event)) {
+				finishEdit();
+			}
+		});
+		row.classList.add('editing');
 		row.appendChild(input);
+		row.appendChild(dueInput);
+		row.appendChild(notesInput);
 	} else {
+		if (todo.priority) {
+			row.appendChild(renderPriorityMarker(todo.priority));
+		}
 		const title = document.createElement('span');
 		title.className = `todo-title${todo.completed ? ' completed' : ''}`;
 		title.textContent = todo.title;
 		title.addEventListener('dblclick', () => startInlineEdit(scope, todo.id));
-		row.appendChild(title);
+		if (todo.anchor) {
+			const main = document.createElement('div');
+			main.className = 'todo-main';
+			main.append(title, renderAnchorLabel(todo.anchor));
+			row.appendChild(main);
+		} else {
+			row.appendChild(title);
+		}
+		if (todo.tags.length > 0) {
+			row.appendChild(renderTagChips(todo.tags));
+		}
+		if (todo.dueDate && todo.dueLabel) {
+			row.appendChild(renderDueLabel(todo.dueDate, todo.dueLabel));
+		}
+		if (todo.recurrenceLabel) {
+			row.appendChild(renderRecurrenceIcon(todo.recurrenceLabel));
+		}
+		if (todo.notesHtml) {
+			row.appendChild(renderNotesToggle(todo.id));
+		}
+	}
+
+	if (todo.subtasks) {
+		row.appendChild(renderSubtaskToggle(todo.id, todo.subtasks));
 	}
 
 	const actions = document.createElement('div');
 	actions.className = 'todo-actions';
 
+	if (todo.anchor) {
+		const revealButton = document.createElement('button');
+		revealButton.className = 'todo-action';
+		revealButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M6 4L2 8L6 12M10 4L14 8L10 12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+		revealButton.title = snapshot?.strings.revealAnchorLabel ?? 'Go to code';
+		revealButton.addEventListener('click', () =>
+			postMessage({ type: 'revealAnchor', scope, todoId: todo.id })
+		);
+		actions.appendChild(revealButton);
+	}
+
+	if (todo.recurrenceLabel) {
+		const stopButton = document.createElement('button');
+		stopButton.className = 'todo-action';
+		stopButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M2.5 7V6C2.5 4.9 3.4 4 4.5 4H12.5M10.5 2L12.5 4L10.5 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M13.5 9V10C13.5 11.1 12.6 12 11.5 12H3.5M5.5 14L3.5 12L5.5 10" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M2 2L14 14" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+		stopButton.title = snapshot?.strings.stopRecurrenceLabel ?? 'Stop repeating';
+		stopButton.addEventListener('click', () =>
+			postMessage({ type: 'stopRecurrence', scope, todoId: todo.id })
+		);
+		actions.appendChild(stopButton);
+	}
+
 	const editButton = document.createElement('button');
 	editButton.className = 'todo-action';
 	editButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path transform="translate(0, 2)" d="M12.5 3.5L10 1L3 8V10.5H5.5L12.5 3.5Z" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
@@ -541,14 +1384,291 @@ function renderTodoRow(scope: WebviewScope, todo: WebviewTodoState, inlineState:
 	return row;
 }
 
-/** Starts inline creation for the provided scope and persists inline state. */
-function startInlineCreate(scope: WebviewScope): void {
+/**
+ * Renders the file name and line of a code anchor (e.g. `file.ts:42`), with the path relative to
+ * the workspace folder as tooltip. Stale anchors get a warning explaining how to re-anchor them.
+ *
+ * @param anchor - Code location of the todo.
+ */
+function renderAnchorLabel(anchor: TodoAnchor): HTMLElement {
+	const line = anchor.startLine + 1;
+	const label = document.createElement('small');
+	label.className = `todo-anchor${anchor.stale ? ' stale' : ''}`;
+	label.textContent = `${anchor.path.split('/').pop()}:${line}`;
+	label.title = `${anchor.path}:${line}:${anchor.startColumn + 1}`;
+	if (anchor.stale) {
+		label.insertAdjacentHTML(
+			'afterbegin',
+			'<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M8 1.5L15 14H1L8 1.5Z" stroke="currentColor" stroke-width="1.3" stroke-linejoin="round"/><path d="M8 6V9.5M8 11.5V12" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>'
+		);
+		label.title = `${label.title}\n${snapshot?.strings.staleAnchorLabel ?? ''}`;
+	}
+	return label;
+}
+
+/**
+ * Renders the date input shown next to the title while a todo is edited; picking or clearing a
+ * date saves it right away.
+ *
+ * @param scope - Scope the todo belongs to.
+ * @param todo - Todo being edited.
+ */
+function renderDueDateInput(scope: WebviewScope, todo: WebviewTodoState): HTMLInputElement {
+	const input = document.createElement('input');
+	input.type = 'date';
+	input.className = 'todo-input todo-due-input';
+	input.title = snapshot?.strings.dueDateLabel ?? 'Due date';
+	input.value = todo.dueDate ?? '';
+	input.dataset.inlineDue = todo.id;
+	input.addEventListener('change', () => {
+		if (input.value === (todo.dueDate ?? '')) {
+			return;
+		}
+		postMessage({ type: 'setDueDate', scope, todoId: todo.id, dueDate: input.value || undefined });
+	});
+	return input;
+}
+
+/**
+ * Renders the due date of a todo relative to today, with the date itself as tooltip.
+ *
+ * @param dueDate - Due date in `YYYY-MM-DD` form.
+ * @param label - Relative label such as "tomorrow" or "3 days overdue".
+ */
+function renderDueLabel(dueDate: string, label: string): HTMLElement {
+	const [year, month, day] = dueDate.split('-').map(Number);
+	const due = document.createElement('small');
+	due.className = 'todo-due';
+	due.textContent = label;
+	due.title = `${snapshot?.strings.dueDateLabel ?? 'Due date'}: ${new Date(
+		year,
+		month - 1,
+		day
+	).toLocaleDateString()}`;
+	return due;
+}
+
+/**
+ * Renders the recurrence icon of a recurring todo, with the rule as tooltip.
+ *
+ * @param label - Description of the rule, e.g. "Repeats weekly on Monday".
+ */
+function renderRecurrenceIcon(label: string): HTMLElement {
+	const icon = document.createElement('span');
+	icon.className = 'todo-recurrence';
+	icon.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M2.5 7V6C2.5 4.9 3.4 4 4.5 4H12.5M10.5 2L12.5 4L10.5 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><path d="M13.5 9V10C13.5 11.1 12.6 12 11.5 12H3.5M5.5 14L3.5 12L5.5 10" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+	icon.title = label;
+	icon.setAttribute('aria-label', label);
+	return icon;
+}
+
+/**
+ * Renders the notes field of an edited todo. Enter adds a line; Ctrl+Enter (Cmd+Enter on macOS)
+ * saves the edit.
+ *
+ * @param todo - Todo being edited.
+ */
+function renderNotesInput(todo: WebviewTodoState): HTMLTextAreaElement {
+	const textarea = document.createElement('textarea');
+	textarea.className = 'todo-input todo-notes-input';
+	const draftKey = `notes:${todo.id}`;
+	textarea.value = inlineDrafts.get(draftKey) ?? todo.notes ?? '';
+	textarea.placeholder = snapshot?.strings.notesPlaceholder ?? 'Notes (Markdown)';
+	textarea.rows = Math.min(Math.max(textarea.value.split('\n').length, 2), 10);
+	textarea.dataset.inlineNotes = todo.id;
+	textarea.addEventListener('input', () => inlineDrafts.set(draftKey, textarea.value));
+	return textarea;
+}
+
+/**
+ * Renders the button showing or hiding the notes of a todo below its row.
+ *
+ * @param todoId - Identifier of the todo with notes.
+ */
+function renderNotesToggle(todoId: string): HTMLElement {
+	const expanded = expandedNotes.has(todoId);
+	const button = document.createElement('button');
+	button.className = `todo-notes-toggle${expanded ? ' expanded' : ''}`;
+	button.setAttribute('aria-expanded', String(expanded));
+	button.title = expanded
+		? snapshot?.strings.hideNotesLabel ?? 'Hide notes'
+		: snapshot?.strings.showNotesLabel ?? 'Show notes';
+	button.innerHTML = '<svg width="14" height="14" viewBox="0 0 16 16" fill="none"><path d="M3 4H13M3 8H13M3 12H9" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>';
+	button.addEventListener('click', () => {
+		if (expandedNotes.has(todoId)) {
+			expandedNotes.delete(todoId);
+		} else {
+			expandedNotes.add(todoId);
+		}
+		persistInlineState();
+		render();
+	});
+	return button;
+}
+
+/**
+ * Renders the expanded notes of a todo, indented like its row.
+ *
+ * @param depth - Nesting depth of the todo.
+ * @param notesHtml - Notes rendered as sanitized HTML by the extension.
+ */
+function renderTodoNotes(depth: number, notesHtml: string): HTMLElement {
+	const notes = document.createElement('div');
+	notes.className = 'todo-notes';
+	notes.style.setProperty('--todo-depth', String(depth));
+	notes.innerHTML = notesHtml;
+	return notes;
+}
+
+/**
+ * Renders the subtask rollup of a parent todo (e.g. `2/5`) as a button that collapses or expands
+ * its subtasks.
+ *
+ * @param todoId - Identifier of the parent todo.
+ * @param subtasks - Completed and total number of direct subtasks.
+ */
+function renderSubtaskToggle(
+	todoId: string,
+	subtasks: { completed: number; total: number }
+): HTMLElement {
+	const collapsed = collapsedTodos.has(todoId);
+	const button = document.createElement('button');
+	button.className = `subtask-toggle${collapsed ? ' collapsed' : ''}`;
+	button.setAttribute('aria-expanded', String(!collapsed));
+	button.title = collapsed
+		? snapshot?.strings.expandSubtasksLabel ?? 'Show subtasks'
+		: snapshot?.strings.collapseSubtasksLabel ?? 'Hide subtasks';
+	button.innerHTML = '<svg width="12" height="12" viewBox="0 0 16 16" fill="none"><path d="M4 6L8 10L12 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+	const count = document.createElement('span');
+	count.textContent = `${subtasks.completed}/${subtasks.total}`;
+	button.appendChild(count);
+	button.addEventListener('click', () => {
+		if (collapsedTodos.has(todoId)) {
+			collapsedTodos.delete(todoId);
+		} else {
+			collapsedTodos.add(todoId);
+		}
+		persistInlineState();
+		render();
+	});
+	return button;
+}
+
+/**
+ * Renders the collapsible archive of a scope with a search field filtering archived titles.
+ *
+ * @param scope - Scope the archive belongs to.
+ * @param archived - Archived todos, most recently completed first.
+ */
+function renderArchive(scope: WebviewScope, archived: WebviewTodoState[]): HTMLElement {
+	const scopeKey = getScopeKey(scope);
+	const details = document.createElement('details');
+	details.className = 'archive-section';
+	details.open = openArchives.has(scopeKey);
+	details.addEventListener('toggle', () => {
+		if (details.open) {
+			openArchives.add(scopeKey);
+		} else {
+			openArchives.delete(scopeKey);
+		}
+	});
+
+	const summary = document.createElement('summary');
+	summary.textContent = `${snapshot?.strings.archiveLabel ?? 'Archive'} (${archived.length})`;
+	details.appendChild(summary);
+
+	const search = document.createElement('input');
+	search.className = 'todo-input archive-search';
+	search.type = 'search';
+	search.placeholder = snapshot?.strings.archiveSearchPlaceholder ?? 'Search';
+	search.dataset.archiveSearch = scopeKey;
+	search.value = archiveQueries.get(scopeKey) ?? '';
+	details.appendChild(search);
+
+	const list = document.createElement('div');
+	list.className = 'archive-list';
+	const rows = archived.map((todo) => {
+		const row = renderArchivedRow(scope, todo);
+		list.appendChild(row);
+		return { row, title: todo.title.toLowerCase() };
+	});
+	const noMatches = document.createElement('p');
+	noMatches.className = 'empty-state';
+	noMatches.textContent = snapshot?.strings.archiveNoMatches ?? '';
+	list.appendChild(noMatches);
+	details.appendChild(list);
+
+	const applyFilter = () => {
+		const query = search.value.trim().toLowerCase();
+		let visible = 0;
+		rows.forEach(({ row, title }) => {
+			row.hidden = query.length > 0 && !title.includes(query);
+			visible += row.hidden ? 0 : 1;
+		});
+		noMatches.hidden = visible > 0;
+	};
+	search.addEventListener('input', () => {
+		archiveQueries.set(scopeKey, search.value);
+		applyFilter();
+	});
+	applyFilter();
+	return details;
+}
+
+/**
+ * Renders a read-only archived todo with its completion date and a restore action.
+ *
+ * @param scope - Scope the todo was archived from.
+ * @param todo - Archived todo data.
+ */
+function renderArchivedRow(scope: WebviewScope, todo: WebviewTodoState): HTMLElement {
+	const row = document.createElement('div');
+	row.className = 'todo-item archived-item';
+	row.dataset.archivedId = todo.id;
+
+	const title = document.createElement('span');
+	title.className = 'todo-title completed';
+	title.textContent = todo.title;
+	row.appendChild(title);
+
+	if (todo.completedAt) {
+		const completedAt = document.createElement('small');
+		completedAt.className = 'inline-hint';
+		completedAt.textContent = new Date(todo.completedAt).toLocaleDateString();
+		completedAt.title = new Date(todo.completedAt).toLocaleString();
+		row.appendChild(completedAt);
+	}
+
+	const actions = document.createElement('div');
+	actions.className = 'todo-actions';
+	const restoreButton = document.createElement('button');
+	restoreButton.className = 'todo-action';
+	restoreButton.innerHTML = '<svg width="16" height="16" viewBox="0 0 16 16" fill="none"><path d="M3 7H10.5C12 7 13 8 13 9.5C13 11 12 12 10.5 12H7" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/><path d="M5.5 4.5L3 7L5.5 9.5" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>';
+	restoreButton.title = snapshot?.strings.restoreLabel ?? 'Restore';
+	restoreButton.addEventListener('click', () =>
+		postMessage({ type: 'restoreArchived', scope, todoIds: [todo.id] })
+	);
+	actions.appendChild(restoreButton);
+	row.appendChild(actions);
+	return row;
+}
+
+/**
+ * Starts inline creation for the provided scope and section (expanding the section) and persists
+ * inline state; an anchor is kept until the todo is created or creation is cancelled.
+ */
+function startInlineCreate(scope: WebviewScope, section?: string, anchor?: TodoAnchor): void {
 	if (!scopeAppliesToView(scope)) {
 		return;
 	}
 	const state = getInlineState(scope);
 	state.creating = true;
+	state.creatingSection = section;
+	state.creatingAnchor = anchor;
 	state.editingId = undefined;
+	if (section !== undefined) {
+		collapsedSections.delete(getSectionKey(scope, section));
+	}
 	queueFocusSelector(`[data-inline-create="${getScopeKey(scope)}"]`);
 	persistInlineState();
 	render();
@@ -557,7 +1677,10 @@ function startInlineCreate(scope: WebviewScope): void {
 /** Cancels inline creation and re-renders the view. */
 function cancelInlineCreate(scope: WebviewScope): void {
 	const state = getInlineState(scope);
+	inlineDrafts.delete(`create:${getScopeKey(scope)}`);
 	state.creating = false;
+	state.creatingSection = undefined;
+	state.creatingAnchor = undefined;
 	persistInlineState();
 	render();
 }
@@ -574,9 +1697,18 @@ function commitInlineCreate(scope: WebviewScope, value: string): void {
 		cancelInlineCreate(scope);
 		return;
 	}
-	postMessage({ type: 'commitCreate', scope, title: trimmed });
 	const state = getInlineState(scope);
+	postMessage({
+		type: 'commitCreate',
+		scope,
+		title: trimmed,
+		section: state.creatingSection,
+		anchor: state.creatingAnchor,
+	});
+	inlineDrafts.delete(`create:${getScopeKey(scope)}`);
 	state.creating = false;
+	state.creatingSection = undefined;
+	state.creatingAnchor = undefined;
 	persistInlineState();
 }
 
@@ -588,6 +1720,8 @@ function startInlineEdit(scope: WebviewScope, todoId: string): void {
 	const state = getInlineState(scope);
 	state.creating = false;
 	state.editingId = todoId;
+	const todo = findTodo(scope, todoId);
+	state.editingBaseTitle = todo ? formatTodoInput(todo) : undefined;
 	queueFocusSelector(`[data-inline-edit="${todoId}"]`);
 	persistInlineState();
 	render();
@@ -596,7 +1730,12 @@ function startInlineEdit(scope: WebviewScope, todoId: string): void {
 /** Exits inline edit mode without saving changes. */
 function exitInlineEdit(scope: WebviewScope): void {
 	const state = getInlineState(scope);
+	if (state.editingId) {
+		inlineDrafts.delete(`edit:${state.editingId}`);
+		inlineDrafts.delete(`notes:${state.editingId}`);
+	}
 	state.editingId = undefined;
+	state.editingBaseTitle = undefined;
 	persistInlineState();
 	render();
 }
@@ -607,21 +1746,27 @@ function exitInlineEdit(scope: WebviewScope): void {
  * @param scope - Scope containing the todo.
  * @param todoId - Identifier of the todo being edited.
  * @param value - Updated title text.
+ * @param notes - Updated notes; blank notes remove them.
  */
-function commitInlineEdit(scope: WebviewScope, todoId: string, value: string): void {
+function commitInlineEdit(scope: WebviewScope, todoId: string, value: string, notes: string): void {
 	const trimmed = value.trim();
 	if (trimmed.length === 0) {
 		exitInlineEdit(scope);
 		return;
 	}
-	postMessage({ type: 'commitEdit', scope, todoId, title: trimmed });
+	postMessage({ type: 'commitEdit', scope, todoId, title: trimmed, notes });
+	inlineDrafts.delete(`edit:${todoId}`);
+	inlineDrafts.delete(`notes:${todoId}`);
 	const state = getInlineState(scope);
 	state.editingId = undefined;
+	state.editingBaseTitle = undefined;
 	persistInlineState();
 }
 
 /**
- * Attaches drag-and-drop handlers for reordering todos within a list.
+ * Attaches drag-and-drop handlers for reordering todos within a list. Dropping on the middle of a
+ * row makes the dragged todo a subtask of that row, and dropping on a section header moves it to
+ * the end of that section; subtasks always move with their parent.
  *
  * @param list - Container element holding todo rows.
  * @param scope - Scope containing the todos.
@@ -647,42 +1792,37 @@ function attachDragHandlers(list: HTMLElement, scope: WebviewScope, inlineState:
 		if (!draggedId) {
 			return;
 		}
-		const target = (event.target as HTMLElement | null)?.closest<HTMLElement>('.todo-item');
-		if (!target || !target.dataset.todoId || target.dataset.todoId === draggedId) {
+		const target = getDropTarget(event);
+		if (!target || target.dataset.todoId === draggedId) {
 			return;
 		}
 		event.preventDefault();
-		target.classList.add('drag-over');
+		const placement = target.dataset.todoId ? getDropPlacement(event, target) : 'inside';
+		target.classList.remove('drop-before', 'drop-after', 'drop-inside');
+		target.classList.add('drag-over', `drop-${placement}`);
 	});
 	list.addEventListener('dragleave', (event) => {
 		if (inlineState.editingId) {
 			return;
 		}
-		const target = (event.target as HTMLElement | null)?.closest<HTMLElement>('.todo-item');
-		target?.classList.remove('drag-over');
+		getDropTarget(event)?.classList.remove('drag-over', 'drop-before', 'drop-after', 'drop-inside');
 	});
 	list.addEventListener('drop', (event) => {
 		if (inlineState.editingId) {
 			return;
 		}
 		event.preventDefault();
-		const target = (event.target as HTMLElement | null)?.closest<HTMLElement>('.todo-item');
-		if (!target || !target.dataset.todoId || !draggedId || target.dataset.todoId === draggedId) {
+		const target = getDropTarget(event);
+		if (!target || !draggedId || target.dataset.todoId === draggedId) {
 			resetDragState(list);
 			return;
 		}
-		const draggedNode = list.querySelector<HTMLElement>(`.todo-item[data-todo-id="${draggedId}"]`);
-		if (!draggedNode) {
-			resetDragState(list);
-			return;
+		const move = target.dataset.todoId
+			? planTodoMove(scope, draggedId, target.dataset.todoId, getDropPlacement(event, target))
+			: planSectionMove(scope, draggedId, target.dataset.section as string);
+		if (move) {
+			postMessage({ type: 'reorderTodos', scope, order: move.order, moved: move.moved });
 		}
-		const targetRect = target.getBoundingClientRect();
-		const before = event.clientY < targetRect.top + targetRect.height / 2;
-		list.insertBefore(draggedNode, before ? target : target.nextElementSibling);
-		const order = Array.from(list.querySelectorAll<HTMLElement>('.todo-item'))
-			.map((node) => node.dataset.todoId)
-			.filter((id): id is string => Boolean(id));
-		postMessage({ type: 'reorderTodos', scope, order });
 		resetDragState(list);
 	});
 	list.addEventListener('dragend', () => {
@@ -691,8 +1831,112 @@ function attachDragHandlers(list: HTMLElement, scope: WebviewScope, inlineState:
 
 	function resetDragState(container: HTMLElement): void {
 		draggedId = undefined;
-		container.querySelectorAll('.drag-over').forEach((el) => el.classList.remove('drag-over'));
+		container
+			.querySelectorAll('.drag-over')
+			.forEach((el) => el.classList.remove('drag-over', 'drop-before', 'drop-after', 'drop-inside'));
+	}
+}
+
+/** Finds the todo row or section header a drag event is over. */
+function getDropTarget(event: DragEvent): HTMLElement | undefined {
+	const target = (event.target as HTMLElement | null)?.closest<HTMLElement>(
+		'.todo-item, .list-section-header'
+	);
+	if (!target || (!target.dataset.todoId && target.dataset.section === undefined)) {
+		return undefined;
+	}
+	return target;
+}
+
+/** Picks the drop placement from the pointer position: top quarter, bottom quarter, or middle. */
+function getDropPlacement(event: DragEvent, target: HTMLElement): DropPlacement {
+	const rect = target.getBoundingClientRect();
+	const offset = (event.clientY - rect.top) / rect.height;
+	if (offset < 0.25) {
+		return 'before';
 	}
+	return offset > 0.75 ? 'after' : 'inside';
+}
+
+/**
+ * Works out the list order after dropping a todo, together with its subtasks, on another row, and
+ * the dropped todo's new parent when it changes.
+ *
+ * @param scope - Scope containing both todos.
+ * @param draggedId - Identifier of the dragged todo.
+ * @param targetId - Identifier of the todo it was dropped on.
+ * @param placement - Where the todo lands relative to the target.
+ * @returns The new order (parents before subtasks), or undefined when the drop is not allowed.
+ */
+function planTodoMove(
+	scope: WebviewScope,
+	draggedId: string,
+	targetId: string,
+	placement: DropPlacement
+): { order: string[]; moved?: TodoMove } | undefined {
+	const todos = getScopeTodos(scope);
+	const dragged = todos.find((todo) => todo.id === draggedId);
+	const target = todos.find((todo) => todo.id === targetId);
+	const subtree = collectSubtreeIds(todos, draggedId);
+	if (!dragged || !target || subtree.has(targetId)) {
+		return undefined;
+	}
+	const remaining = todos.filter((todo) => !subtree.has(todo.id));
+	let index = remaining.indexOf(target);
+	if (placement !== 'before') {
+		const targetSubtree = collectSubtreeIds(remaining, targetId);
+		while (index < remaining.length && targetSubtree.has(remaining[index].id)) {
+			index++;
+		}
+	}
+	remaining.splice(index, 0, ...todos.filter((todo) => subtree.has(todo.id)));
+	const parentId = placement === 'inside' ? target.id : target.parentId;
+	return {
+		order: remaining.map((todo) => todo.id),
+		moved:
+			parentId === dragged.parentId && target.section === dragged.section
+				? undefined
+				: { todoId: draggedId, parentId, section: target.section },
+	};
+}
+
+/**
+ * Works out the list order after dropping a todo, together with its subtasks, on a section header:
+ * the todo becomes the last top-level todo of that section.
+ *
+ * @param scope - Scope containing the todo and section.
+ * @param draggedId - Identifier of the dragged todo.
+ * @param section - Name of the section it was dropped on.
+ * @returns The new order and the todo's new placement, or undefined when the todo is unknown.
+ */
+function planSectionMove(
+	scope: WebviewScope,
+	draggedId: string,
+	section: string
+): { order: string[]; moved: TodoMove } | undefined {
+	const todos = getScopeTodos(scope);
+	if (!todos.some((todo) => todo.id === draggedId)) {
+		return undefined;
+	}
+	const subtree = collectSubtreeIds(todos, draggedId);
+	return {
+		order: [
+			...todos.filter((todo) => !subtree.has(todo.id)),
+			...todos.filter((todo) => subtree.has(todo.id)),
+		].map((todo) => todo.id),
+		moved: { todoId: draggedId, section },
+	};
+}
+
+/** Collects a todo and its subtasks from a list ordered parents before subtasks. */
+function collectSubtreeIds(todos: WebviewTodoState[], todoId: string): Set<string> {
+	const subtree = new Set([todoId]);
+	todos.forEach((todo) => {
+		if (todo.parentId && subtree.has(todo.parentId)) {
+			subtree.add(todo.id);
+		}
+	});
+	return subtree;
 }
 
 /** Queues a selector to be focused after the next render. */
@@ -712,12 +1956,58 @@ function applyPendingFocus(): void {
 			const element = document.querySelector<HTMLInputElement>(selector);
 			if (element) {
 				element.focus();
-				element.setSelectionRange(element.value.length, element.value.length);
+				// Date inputs do not support text selection.
+				if (element.type !== 'date') {
+					element.setSelectionRange(element.value.length, element.value.length);
+				}
 			}
 		});
 	});
 }
 
+/** Looks up a todo in the current snapshot. */
+function findTodo(scope: WebviewScope, todoId: string): WebviewTodoState | undefined {
+	return getScopeTodos(scope).find((todo) => todo.id === todoId);
+}
+
+/** Returns the todos of a scope from the current snapshot, parents before subtasks. */
+function getScopeTodos(scope: WebviewScope): WebviewTodoState[] {
+	if (!snapshot) {
+		return [];
+	}
+	const todos =
+		scope.scope === 'global'
+			? snapshot.global.todos
+			: snapshot.projects.folders.find((folder) => folder.key === scope.workspaceFolder)?.todos;
+	return todos ?? [];
+}
+
+/** Returns the tags used in a scope of the current snapshot. */
+function getScopeTags(scope: WebviewScope): string[] {
+	if (!snapshot) {
+		return [];
+	}
+	const tags =
+		scope.scope === 'global'
+			? snapshot.global.tags
+			: snapshot.projects.folders.find((folder) => folder.key === scope.workspaceFolder)?.tags;
+	return tags ?? [];
+}
+
+/** Returns the inline input text of a todo: its title followed by its `#tag` and priority tokens. */
+function formatTodoInput(todo: WebviewTodoState): string {
+	return [
+		todo.title,
+		...todo.tags.map((tag) => `#${tag}`),
+		...(todo.priority ? [`!${todo.priority}`] : []),
+	].join(' ');
+}
+
+/** Returns the key of a section within a scope, used to remember collapsed sections. */
+function getSectionKey(scope: WebviewScope, section: string): string {
+	return JSON.stringify([getScopeKey(scope), section]);
+}
+
 /** Returns the serialization key for a scope used by DOM data attributes. */
 function getScopeKey(scope: WebviewScope): string {
 	return scope.scope === 'global' ? 'global' : scope.workspaceFolder;
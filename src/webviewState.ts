@@ -1,8 +1,10 @@
 import * as l10n from '@vscode/l10n';
 import * as vscode from 'vscode';
 
+import { renderMarkdown } from './domain/markdown';
+import { collectTags, daysUntilDue, orderTodoTree } from './domain/todo';
 import { TodoRepository } from './todoRepository';
-import { Todo } from './types';
+import { Todo, TodoAnchor, TodoPriority, TodoRecurrence } from './types';
 
 /** Serialized snapshot the webview consumes to render both scopes. */
 export interface WebviewStateSnapshot {
@@ -16,7 +18,14 @@ export interface WebviewStateSnapshot {
 export interface WebviewScopeState {
 	label: string;
 	emptyLabel: string;
+	/** Todos outside any section first, then the todos of each section in section order. */
 	todos: WebviewTodoState[];
+	/** Section names of the scope in display order. */
+	sections: string[];
+	/** Tags used by the scope's todos, sorted; offered for autocomplete and filtering. */
+	tags: string[];
+	/** Archived todos of the scope, most recently completed first. */
+	archived: WebviewTodoState[];
 }
 
 /** Container of all project/workspace sections. */
@@ -33,6 +42,9 @@ export interface WebviewWorkspaceState {
 	description?: string;
 	emptyLabel: string;
 	todos: WebviewTodoState[];
+	sections: string[];
+	tags: string[];
+	archived: WebviewTodoState[];
 }
 
 /** Minimal todo shape consumed by the webview runtime. */
@@ -45,6 +57,32 @@ export interface WebviewTodoState {
 	workspaceFolder?: string;
 	createdAt: string;
 	updatedAt: string;
+	completedAt?: string;
+	/** ID of the parent todo for subtasks. */
+	parentId?: string;
+	/** Nesting level; 0 for top-level todos. */
+	depth: number;
+	/** Completion rollup of the direct subtasks; unset for todos without subtasks. */
+	subtasks?: { completed: number; total: number };
+	/** Section the todo is listed in. */
+	section?: string;
+	/** Tags of the todo; empty when untagged. */
+	tags: string[];
+	/** Due date (`YYYY-MM-DD`) for the date input and sorting. */
+	dueDate?: string;
+	/** Due date relative to today, e.g. "tomorrow" or "3 days overdue". */
+	dueLabel?: string;
+	/** Whether the todo is active and its due date has passed. */
+	overdue: boolean;
+	priority?: TodoPriority;
+	/** Markdown notes for editing. */
+	notes?: string;
+	/** Notes rendered to sanitized HTML for the detail area. */
+	notesHtml?: string;
+	/** Code location the todo is anchored to. */
+	anchor?: TodoAnchor;
+	/** Describes the recurrence rule, e.g. "Repeats weekly on Monday"; unset for one-off todos. */
+	recurrenceLabel?: string;
 }
 
 /** Bundle of localized strings used in the UI. */
@@ -55,6 +93,36 @@ export interface WebviewStrings {
 	removeLabel: string;
 	addLabel: string;
 	clearLabel: string;
+	archiveLabel: string;
+	archiveSearchPlaceholder: string;
+	archiveNoMatches: string;
+	restoreLabel: string;
+	expandSubtasksLabel: string;
+	collapseSubtasksLabel: string;
+	addSectionLabel: string;
+	renameSectionLabel: string;
+	removeSectionLabel: string;
+	expandSectionLabel: string;
+	collapseSectionLabel: string;
+	filterLabel: string;
+	clearFilterLabel: string;
+	filterNoMatches: string;
+	filterByTagLabel: string;
+	filterByPriorityLabel: string;
+	dueDateLabel: string;
+	manualOrderLabel: string;
+	sortByDueLabel: string;
+	groupByPriorityLabel: string;
+	highPriorityLabel: string;
+	mediumPriorityLabel: string;
+	lowPriorityLabel: string;
+	noPriorityLabel: string;
+	showNotesLabel: string;
+	hideNotesLabel: string;
+	notesPlaceholder: string;
+	revealAnchorLabel: string;
+	staleAnchorLabel: string;
+	stopRecurrenceLabel: string;
 }
 
 /** Context that influences which empty-state copy should be used. */
@@ -81,16 +149,17 @@ export function buildWebviewStateSnapshot(
 	const defaultGlobalEmpty = l10n.t('webview.global.empty', 'No global TODOs yet');
 	const defaultWorkspaceEmpty = l10n.t('webview.projects.empty', 'No project TODOs yet');
 
-	const globalTodos = repository
-		.getGlobalTodos()
-		.sort((a, b) => a.position - b.position)
-		.map((todo) => toTodoState(todo));
+	const globalSections = repository.getSections({ scope: 'global' });
+	const globalActive = repository.getGlobalTodos();
+	const globalTodos = toTodoTreeState(globalActive, globalSections);
 
 	const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map((folder) => {
 		const folderKey = folder.uri.toString();
-		const todos = repository
-			.getWorkspaceTodos(folderKey)
-			.sort((a, b) => a.position - b.position)
+		const sections = repository.getSections({ scope: 'workspace', workspaceFolder: folderKey });
+		const active = repository.getWorkspaceTodos(folderKey);
+		const todos = toTodoTreeState(active, sections);
+		const archived = repository
+			.getArchivedTodos({ scope: 'workspace', workspaceFolder: folderKey })
 			.map((todo) => toTodoState(todo));
 		const emptyKind = emptyStateHints.workspaces?.[folderKey] ?? 'general';
 		return {
@@ -99,6 +168,9 @@ export function buildWebviewStateSnapshot(
 			description: folder.uri.fsPath,
 			emptyLabel: pickEmptyLabel('workspace', emptyKind, defaultWorkspaceEmpty),
 			todos,
+			sections,
+			tags: collectTags(active),
+			archived,
 		};
 	});
 
@@ -110,6 +182,11 @@ export function buildWebviewStateSnapshot(
 			label: l10n.t('scope.global.label', 'Global'),
 			emptyLabel: pickEmptyLabel('global', globalEmptyKind, defaultGlobalEmpty),
 			todos: globalTodos,
+			sections: globalSections,
+			tags: collectTags(globalActive),
+			archived: repository
+				.getArchivedTodos({ scope: 'global' })
+				.map((todo) => toTodoState(todo)),
 		},
 		projects: {
 			label: l10n.t('view.todoProjects.label', 'Projects'),
@@ -126,17 +203,87 @@ export function buildWebviewStateSnapshot(
 			removeLabel: l10n.t('command.todo.removeTodo.title', 'Remove TODO'),
 			addLabel: l10n.t('webview.section.add', 'Add'),
 			clearLabel: l10n.t('webview.section.clear', 'Clear'),
+			archiveLabel: l10n.t('webview.archive.label', 'Archive'),
+			archiveSearchPlaceholder: l10n.t('webview.archive.search', 'Search archived TODOs'),
+			archiveNoMatches: l10n.t('webview.archive.noMatches', 'No archived TODOs match'),
+			restoreLabel: l10n.t('webview.archive.restore', 'Restore to list'),
+			expandSubtasksLabel: l10n.t('webview.subtasks.expand', 'Show subtasks'),
+			collapseSubtasksLabel: l10n.t('webview.subtasks.collapse', 'Hide subtasks'),
+			addSectionLabel: l10n.t('webview.sections.add', 'Add section'),
+			renameSectionLabel: l10n.t('webview.sections.rename', 'Rename section'),
+			removeSectionLabel: l10n.t('webview.sections.remove', 'Remove section'),
+			expandSectionLabel: l10n.t('webview.sections.expand', 'Expand section'),
+			collapseSectionLabel: l10n.t('webview.sections.collapse', 'Collapse section'),
+			filterLabel: l10n.t('webview.filter.label', 'Showing only'),
+			clearFilterLabel: l10n.t('webview.filter.clear', 'Show all'),
+			filterNoMatches: l10n.t('webview.filter.noMatches', 'No TODOs match the filter'),
+			filterByTagLabel: l10n.t('webview.tags.filterBy', 'Show only TODOs with this tag'),
+			filterByPriorityLabel: l10n.t(
+				'webview.priority.filterBy',
+				'Show only TODOs with this priority'
+			),
+			dueDateLabel: l10n.t('webview.due.date', 'Due date'),
+			manualOrderLabel: l10n.t('webview.order.manual', 'Manual order'),
+			sortByDueLabel: l10n.t('webview.order.due', 'Sort by due date'),
+			groupByPriorityLabel: l10n.t('webview.order.priority', 'Group by priority'),
+			highPriorityLabel: l10n.t('webview.priority.high', 'High priority'),
+			mediumPriorityLabel: l10n.t('webview.priority.medium', 'Medium priority'),
+			lowPriorityLabel: l10n.t('webview.priority.low', 'Low priority'),
+			noPriorityLabel: l10n.t('webview.priority.none', 'No priority'),
+			showNotesLabel: l10n.t('webview.notes.show', 'Show notes'),
+			hideNotesLabel: l10n.t('webview.notes.hide', 'Hide notes'),
+			notesPlaceholder: l10n.t(
+				'webview.notes.placeholder',
+				'Notes (Markdown) – Ctrl+Enter to save, Esc to cancel'
+			),
+			revealAnchorLabel: l10n.t('webview.anchor.reveal', 'Go to code'),
+			staleAnchorLabel: l10n.t(
+				'webview.anchor.stale',
+				'The anchored code was deleted. Select the code again and choose "Re-anchor TODO to selection" from the context menu of the TODO.'
+			),
+			stopRecurrenceLabel: l10n.t('webview.recurrence.stop', 'Stop repeating'),
 		},
 	};
 }
 
+/**
+ * Orders the todos of a list by section and parent-before-subtasks, and adds nesting depth and
+ * subtask rollups.
+ *
+ * @param todos - Todos of one scope.
+ * @param sections - Section names of the scope in display order.
+ * @returns Webview-facing todos in display order.
+ */
+function toTodoTreeState(todos: Todo[], sections: string[]): WebviewTodoState[] {
+	const rollups = new Map<string, { completed: number; total: number }>();
+	const ordered = orderTodoTree(todos);
+	const tree = [undefined, ...sections].flatMap((section) =>
+		ordered.filter(({ todo }) => todo.section === section)
+	);
+	tree.forEach(({ todo, depth }) => {
+		if (depth === 0 || todo.parentId === undefined) {
+			return;
+		}
+		const rollup = rollups.get(todo.parentId) ?? { completed: 0, total: 0 };
+		rollup.total += 1;
+		rollup.completed += todo.completed ? 1 : 0;
+		rollups.set(todo.parentId, rollup);
+	});
+	return tree.map(({ todo, depth }) => ({
+		...toTodoState(todo, depth),
+		subtasks: rollups.get(todo.id),
+	}));
+}
+
 /**
  * Normalizes a repository todo into the slim shape consumed by the webview runtime.
  *
  * @param todo - Todo entity persisted in the repository.
+ * @param depth - Nesting level of the todo in its list.
  * @returns Minimal webview-facing todo state.
  */
-function toTodoState(todo: Todo): WebviewTodoState {
+function toTodoState(todo: Todo, depth = 0): WebviewTodoState {
+	const daysLeft = todo.dueDate === undefined ? undefined : daysUntilDue(todo.dueDate);
 	return {
 		id: todo.id,
 		title: todo.title,
@@ -146,9 +293,79 @@ function toTodoState(todo: Todo): WebviewTodoState {
 		workspaceFolder: todo.workspaceFolder,
 		createdAt: todo.createdAt,
 		updatedAt: todo.updatedAt,
+		completedAt: todo.completedAt,
+		parentId: depth > 0 ? todo.parentId : undefined,
+		depth,
+		section: todo.section,
+		tags: todo.tags ? [...todo.tags] : [],
+		dueDate: todo.dueDate,
+		dueLabel: daysLeft === undefined ? undefined : describeDaysLeft(daysLeft),
+		overdue: !todo.completed && daysLeft !== undefined && daysLeft < 0,
+		priority: todo.priority,
+		notes: todo.notes,
+		notesHtml: todo.notes ? renderMarkdown(todo.notes) : undefined,
+		anchor: todo.anchor ? { ...todo.anchor } : undefined,
+		recurrenceLabel: todo.recurrence ? describeRecurrence(todo.recurrence) : undefined,
 	};
 }
 
+/**
+ * Describes a recurrence rule for the recurrence icon of a row and the recurrence picker, e.g.
+ * "Repeats weekly on Monday".
+ *
+ * @param recurrence - Rule to describe.
+ */
+export function describeRecurrence(recurrence: TodoRecurrence): string {
+	switch (recurrence.frequency) {
+		case 'daily':
+			return l10n.t('recurrence.daily', 'Repeats daily');
+		case 'weekdays':
+			return l10n.t('recurrence.weekdays', 'Repeats every weekday (Monday to Friday)');
+		case 'weekly':
+			return l10n.t('recurrence.weekly', weekdayName(recurrence.weekday));
+		case 'monthly':
+			return l10n.t('recurrence.monthly', recurrence.day);
+		default:
+			return recurrence.days === 1
+				? l10n.t('recurrence.daily', 'Repeats daily')
+				: l10n.t('recurrence.interval', recurrence.days);
+	}
+}
+
+/** Returns the localized name of a weekday, counting from 0 (Sunday). */
+function weekdayName(weekday: number): string {
+	switch (weekday) {
+		case 0:
+			return l10n.t('weekday.sunday', 'Sunday');
+		case 1:
+			return l10n.t('weekday.monday', 'Monday');
+		case 2:
+			return l10n.t('weekday.tuesday', 'Tuesday');
+		case 3:
+			return l10n.t('weekday.wednesday', 'Wednesday');
+		case 4:
+			return l10n.t('weekday.thursday', 'Thursday');
+		case 5:
+			return l10n.t('weekday.friday', 'Friday');
+		default:
+			return l10n.t('weekday.saturday', 'Saturday');
+	}
+}
+
+/** Describes the days until a due date relative to today, e.g. "tomorrow" or "3 days overdue". */
+function describeDaysLeft(days: number): string {
+	if (days === 0) {
+		return l10n.t('due.today', 'today');
+	}
+	if (days === 1) {
+		return l10n.t('due.tomorrow', 'tomorrow');
+	}
+	if (days === -1) {
+		return l10n.t('due.overdue.one', '1 day overdue');
+	}
+	return days > 0 ? l10n.t('due.inDays', days) : l10n.t('due.overdue.many', -days);
+}
+
 function pickEmptyLabel(
 	scope: 'global' | 'workspace',
 	kind: EmptyStateKind,